@@ -2,12 +2,14 @@ import { useState, useEffect } from 'react';
 import Dashboard from './pages/Dashboard';
 import Users from './pages/Users';
 import MessageBases from './pages/MessageBases';
+import Moderation from './pages/Moderation';
 import AISettings from './pages/AISettings';
 import ConversationStarters from './pages/ConversationStarters';
+import Screens from './pages/Screens';
 import Login from './components/Login';
 import { api } from './services/api';
 
-type Page = 'dashboard' | 'users' | 'messageBases' | 'aiSettings' | 'conversationStarters';
+type Page = 'dashboard' | 'users' | 'messageBases' | 'moderation' | 'aiSettings' | 'conversationStarters' | 'screens';
 
 function App() {
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
@@ -44,10 +46,14 @@ function App() {
         return <Users />;
       case 'messageBases':
         return <MessageBases />;
+      case 'moderation':
+        return <Moderation />;
       case 'aiSettings':
         return <AISettings />;
       case 'conversationStarters':
         return <ConversationStarters />;
+      case 'screens':
+        return <Screens />;
       default:
         return <Dashboard />;
     }
@@ -104,6 +110,16 @@ function App() {
                 💬 Message Bases
               </button>
             </li>
+            <li>
+              <button
+                onClick={() => setCurrentPage('moderation')}
+                className={`w-full text-left px-6 py-3 hover:bg-gray-700 transition-colors ${
+                  currentPage === 'moderation' ? 'bg-gray-700 text-cyan-400' : 'text-gray-300'
+                }`}
+              >
+                🛡️ Moderation
+              </button>
+            </li>
             <li>
               <button
                 onClick={() => setCurrentPage('aiSettings')}
@@ -124,6 +140,16 @@ function App() {
                 💭 Conversation Starters
               </button>
             </li>
+            <li>
+              <button
+                onClick={() => setCurrentPage('screens')}
+                className={`w-full text-left px-6 py-3 hover:bg-gray-700 transition-colors ${
+                  currentPage === 'screens' ? 'bg-gray-700 text-cyan-400' : 'text-gray-300'
+                }`}
+              >
+                🖼️ Screens
+              </button>
+            </li>
           </ul>
         </nav>
 
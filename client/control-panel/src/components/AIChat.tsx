@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { api } from '../services/api';
+import { api, type ConfigChange } from '../services/api';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -7,10 +7,6 @@ interface Message {
   timestamp: Date;
 }
 
-interface ConfigChange {
-  description: string;
-  preview: string;
-}
 
 interface AIChatProps {
   onConfigApplied?: () => void;
@@ -98,13 +94,9 @@ function AIChat({ onConfigApplied }: AIChatProps) {
     try {
       const result = await api.applyConfigChange(pendingChange);
 
-      let confirmContent = '✅ Configuration changes applied successfully!';
-      
-      if (result.requiresRestart) {
-        confirmContent += '\n\n⚠️ Note: Server restart required for these changes to take effect.';
-      } else {
-        confirmContent += ' The changes are now active.';
-      }
+      // The server says what happened: config saved (noting when a restart
+      // is needed), a user's access level changed or an announcement sent
+      const confirmContent = `${result.requiresRestart ? '⚠️' : '✅'} ${result.message}`;
 
       const confirmMessage: Message = {
         role: 'assistant',
@@ -188,6 +180,11 @@ function AIChat({ onConfigApplied }: AIChatProps) {
               <li>• Update AI SysOp settings</li>
               <li>• Add or modify message bases</li>
               <li>• Adjust security settings</li>
+              <li>• Enable doors or change who can play them</li>
+              <li>• Schedule the daily question</li>
+              <li>• Switch welcome and goodbye screens</li>
+              <li>• Change a user's access level</li>
+              <li>• Send an announcement</li>
             </ul>
           </div>
         )}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { api, type AIUsageReport } from '../services/api';
+
+const DAYS = 14;
+
+const FEATURE_COLORS: Record<string, string> = {
+  oracle: 'bg-purple-500',
+  art: 'bg-pink-500',
+  summarizer: 'bg-cyan-500',
+  digest: 'bg-blue-500',
+  sysop: 'bg-green-500',
+  config: 'bg-yellow-500',
+  moderation: 'bg-red-500',
+  starter: 'bg-orange-500',
+  other: 'bg-gray-500',
+};
+
+const colorFor = (feature: string) => FEATURE_COLORS[feature] ?? FEATURE_COLORS.other;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+function AIUsage() {
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+
+  useEffect(() => {
+    loadUsage();
+    // Usage changes slowly; refresh every minute
+    const interval = setInterval(loadUsage, 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      setReport(await api.getAIUsage(DAYS));
+    } catch {
+      // AI is disabled or usage isn't tracked; leave the section out
+      setReport(null);
+    }
+  };
+
+  if (!report) return null;
+
+  // One column per day, including days with no usage
+  const start = new Date(report.since);
+  const days = Array.from({ length: DAYS }, (_, index) => {
+    const date = new Date(start.getTime() + index * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+    const features = report.daily
+      .filter(row => row.date === date)
+      .map(row => ({ feature: row.feature, tokens: row.inputTokens + row.outputTokens }));
+    return { date, features, total: features.reduce((sum, f) => sum + f.tokens, 0) };
+  });
+  const busiestDay = Math.max(1, ...days.map(day => day.total));
+  const features = Array.from(new Set(report.daily.map(row => row.feature)));
+  const topUserTokens = Math.max(1, ...report.today.topUsers.map(user => user.tokens));
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
+      <h3 className="text-xl font-bold text-cyan-400 mb-4">AI Usage</h3>
+
+      {/* Tokens per day, stacked by feature */}
+      <p className="text-gray-400 text-sm mb-2">Tokens per day (last {DAYS} days)</p>
+      <div className="flex items-end gap-1 h-40 mb-2">
+        {days.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 flex flex-col-reverse h-full"
+            title={`${day.date}: ${day.total.toLocaleString()} tokens`}
+          >
+            {day.features.map(f => (
+              <div
+                key={f.feature}
+                className={colorFor(f.feature)}
+                style={{ height: `${(f.tokens / busiestDay) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mb-3">
+        <span>{days[0].date}</span>
+        <span>{days[days.length - 1].date}</span>
+      </div>
+      {features.length === 0 ? (
+        <p className="text-gray-400 mb-6">No AI usage yet</p>
+      ) : (
+        <div className="flex flex-wrap gap-4 text-xs text-gray-300 mb-6">
+          {features.map(feature => (
+            <span key={feature} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${colorFor(feature)}`} />
+              {feature}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Today per feature against its budget */}
+        <div>
+          <p className="text-gray-400 text-sm mb-2">Today by feature</p>
+          {report.today.features.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nothing yet today</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.today.features.map(f => (
+                <li key={f.feature}>
+                  <div className="flex justify-between text-xs text-gray-300 mb-1">
+                    <span>{f.feature}</span>
+                    <span>
+                      {formatTokens(f.tokens)}
+                      {f.budget !== null && ` / ${formatTokens(f.budget)}`}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-700 rounded">
+                    <div
+                      className={`h-2 rounded ${f.budget !== null && f.tokens >= f.budget ? 'bg-red-500' : colorFor(f.feature)}`}
+                      style={{ width: `${f.budget ? Math.min(100, (f.tokens / f.budget) * 100) : 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Heaviest users today */}
+        <div>
+          <p className="text-gray-400 text-sm mb-2">
+            Top users today
+            {report.perUserBudget !== null && ` (budget ${formatTokens(report.perUserBudget)} each)`}
+          </p>
+          {report.today.topUsers.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nothing yet today</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.today.topUsers.map(user => (
+                <li key={user.userId}>
+                  <div className="flex justify-between text-xs text-gray-300 mb-1">
+                    <span>{user.handle ?? 'Deleted user'}</span>
+                    <span>{formatTokens(user.tokens)}</span>
+                  </div>
+                  <div className="h-2 bg-gray-700 rounded">
+                    <div
+                      className={`h-2 rounded ${report.perUserBudget !== null && user.tokens >= report.perUserBudget ? 'bg-red-500' : 'bg-cyan-500'}`}
+                      style={{ width: `${Math.min(100, (user.tokens / (report.perUserBudget ?? topUserTokens)) * 100)}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AIUsage;
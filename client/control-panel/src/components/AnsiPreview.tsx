@@ -0,0 +1,110 @@
+import type { CSSProperties, ReactNode } from 'react';
+
+// The 16 colors of a DOS/VGA terminal: 0-7 normal, 8-15 bright
+const PALETTE = [
+  '#000000', '#aa0000', '#00aa00', '#aa5500', '#0000aa', '#aa00aa', '#00aaaa', '#aaaaaa',
+  '#555555', '#ff5555', '#55ff55', '#ffff55', '#5555ff', '#ff55ff', '#55ffff', '#ffffff',
+];
+
+interface Attributes {
+  fg?: number;
+  bg?: number;
+  bold: boolean;
+  dim: boolean;
+}
+
+const PLAIN: Attributes = { bold: false, dim: false };
+
+/**
+ * Apply the parameters of one SGR (ESC [ ... m) sequence
+ */
+function applySGR(attrs: Attributes, params: string): Attributes {
+  const next = { ...attrs };
+  const codes = params === '' ? [0] : params.split(';').map(Number);
+
+  for (const code of codes) {
+    if (code === 0) {
+      Object.assign(next, PLAIN, { fg: undefined, bg: undefined });
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 22) {
+      next.bold = false;
+      next.dim = false;
+    } else if (code >= 30 && code <= 37) {
+      next.fg = code - 30;
+    } else if (code >= 90 && code <= 97) {
+      next.fg = code - 90 + 8;
+    } else if (code === 39) {
+      next.fg = undefined;
+    } else if (code >= 40 && code <= 47) {
+      next.bg = code - 40;
+    } else if (code >= 100 && code <= 107) {
+      next.bg = code - 100 + 8;
+    } else if (code === 49) {
+      next.bg = undefined;
+    }
+  }
+
+  return next;
+}
+
+function styleFor(attrs: Attributes): CSSProperties {
+  // Bold brightens the normal colors, as it did on real terminals
+  const fg = attrs.fg !== undefined && attrs.bold && attrs.fg < 8 ? attrs.fg + 8 : attrs.fg;
+  return {
+    color: fg !== undefined ? PALETTE[fg] : undefined,
+    backgroundColor: attrs.bg !== undefined ? PALETTE[attrs.bg] : undefined,
+    fontWeight: attrs.bold ? 'bold' : undefined,
+    opacity: attrs.dim ? 0.6 : undefined,
+  };
+}
+
+/**
+ * Split ANSI text into styled runs. Colors and bold are kept; cursor
+ * movement and other escape sequences are dropped.
+ */
+function toSpans(text: string): ReactNode[] {
+  const spans: ReactNode[] = [];
+  const pattern = /\x1b\[([\d;?]*)([A-Za-z])/g;
+  let attrs = PLAIN;
+  let last = 0;
+
+  const push = (run: string) => {
+    if (run) {
+      spans.push(<span key={spans.length} style={styleFor(attrs)}>{run}</span>);
+    }
+  };
+
+  for (const match of text.matchAll(pattern)) {
+    push(text.slice(last, match.index));
+    if (match[2] === 'm') {
+      attrs = applySGR(attrs, match[1]);
+    }
+    last = match.index! + match[0].length;
+  }
+  push(text.slice(last));
+
+  return spans;
+}
+
+interface AnsiPreviewProps {
+  content: string;
+}
+
+/**
+ * Shows ANSI art as a caller's 80-column terminal would
+ */
+function AnsiPreview({ content }: AnsiPreviewProps) {
+  return (
+    <pre
+      className="bg-black text-gray-300 font-mono text-sm leading-tight p-4 rounded overflow-x-auto"
+      style={{ width: 'calc(80ch + 2rem)' }}
+    >
+      {toSpans(content.replace(/\r\n/g, '\n'))}
+    </pre>
+  );
+}
+
+export default AnsiPreview;
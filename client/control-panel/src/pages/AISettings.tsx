@@ -2,6 +2,16 @@ import { useEffect, useState } from 'react';
 import { api, type AISettings as AISettingsType } from '../services/api';
 import AIChat from '../components/AIChat';
 
+const PROVIDER_NAMES: Record<string, string> = {
+  anthropic: 'Anthropic Claude',
+  openai: 'OpenAI-compatible',
+  ollama: 'Ollama (local)',
+};
+
+// Ollama treats a model name without a tag as ":latest"
+const sameModel = (a: string, b: string) =>
+  (a.includes(':') ? a : `${a}:latest`) === (b.includes(':') ? b : `${b}:latest`);
+
 function AISettings() {
   const [settings, setSettings] = useState<AISettingsType | null>(null);
   const [loading, setLoading] = useState(true);
@@ -67,7 +77,7 @@ function AISettings() {
               Provider
             </label>
             <div className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100">
-              {settings.provider === 'anthropic' ? 'Anthropic Claude' : settings.provider}
+              {PROVIDER_NAMES[settings.provider] ?? settings.provider}
             </div>
           </div>
           
@@ -81,6 +91,48 @@ function AISettings() {
           </div>
         </div>
 
+        {settings.baseUrl && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Server
+            </label>
+            <div className="bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100 font-mono text-sm">
+              {settings.baseUrl}
+            </div>
+          </div>
+        )}
+
+        {settings.provider === 'ollama' && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Local Models
+            </label>
+            {settings.availableModels === null ? (
+              <div className="bg-red-900/50 border border-red-500 rounded px-3 py-2 text-red-200 text-sm">
+                Could not reach the Ollama server. AI features will use fallback responses until it is running.
+              </div>
+            ) : settings.availableModels.length === 0 ? (
+              <div className="text-sm text-gray-400">No models installed yet.</div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {settings.availableModels.map((model) => (
+                  <span
+                    key={model}
+                    className={`px-3 py-1 rounded text-sm font-mono ${sameModel(model, settings.model) ? 'bg-green-900 text-green-300' : 'bg-gray-700 text-gray-300'}`}
+                  >
+                    {model}
+                  </span>
+                ))}
+              </div>
+            )}
+            {settings.availableModels && !settings.availableModels.some((model) => sameModel(model, settings.model)) && (
+              <p className="text-sm text-yellow-300 mt-2">
+                {settings.model} is not installed. The server pulls it at startup; check the server log if it doesn't appear.
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="mt-4 p-4 bg-blue-900/30 border border-blue-700 rounded">
           <p className="text-sm text-blue-200">
             <strong>Note:</strong> AI provider and model are configured in <code className="bg-gray-700 px-2 py-1 rounded">config.yaml</code>.
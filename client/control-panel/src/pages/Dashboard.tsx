@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { api, type DashboardData } from '../services/api';
+import AIUsage from '../components/AIUsage';
 
 function Dashboard() {
   const [data, setData] = useState<DashboardData | null>(null);
@@ -89,6 +90,34 @@ function Dashboard() {
         </div>
       </div>
 
+      {/* Node Status */}
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
+        <h3 className="text-xl font-bold text-cyan-400 mb-4">Nodes</h3>
+        <ul className="space-y-2">
+          {Array.from({ length: data.nodeUsage.total }, (_, index) => {
+            const nodeNumber = index + 1;
+            const occupant = data.nodeUsage.nodes.find(n => n.node === nodeNumber);
+            return (
+              <li key={nodeNumber} className="flex items-center justify-between text-gray-300">
+                <span className="font-mono">Node {nodeNumber}</span>
+                {occupant ? (
+                  <span className="text-green-400">
+                    {occupant.handle ?? 'Logging in...'}
+                    <span className="text-xs text-gray-500 ml-2">
+                      since {new Date(occupant.connectedAt).toLocaleTimeString()}
+                    </span>
+                  </span>
+                ) : (
+                  <span className="text-gray-500">Waiting for caller</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <AIUsage />
+
       {/* Recent Activity */}
       <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
         <h3 className="text-xl font-bold text-cyan-400 mb-4">Recent Activity</h3>
@@ -1,5 +1,11 @@
 import { useEffect, useState } from 'react';
-import { api, type MessageBase, type CreateMessageBaseData } from '../services/api';
+import { api, type MessageBase, type CreateMessageBaseData, type ModerationPolicy } from '../services/api';
+
+const MODERATION_POLICIES: { value: ModerationPolicy; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'flagged', label: 'Hold flagged posts' },
+  { value: 'all', label: 'Approve every post' },
+];
 
 function MessageBases() {
   const [bases, setBases] = useState<MessageBase[]>([]);
@@ -13,6 +19,9 @@ function MessageBases() {
     accessLevelRead: 0,
     accessLevelWrite: 10,
     sortOrder: 0,
+    moderationPolicy: 'flagged',
+    echoTag: '',
+    aiSysopReplies: false,
   });
 
   useEffect(() => {
@@ -42,6 +51,9 @@ function MessageBases() {
         accessLevelRead: 0,
         accessLevelWrite: 10,
         sortOrder: 0,
+        moderationPolicy: 'flagged',
+        echoTag: '',
+        aiSysopReplies: false,
       });
       await loadBases();
     } catch (err) {
@@ -62,6 +74,9 @@ function MessageBases() {
         accessLevelRead: 0,
         accessLevelWrite: 10,
         sortOrder: 0,
+        moderationPolicy: 'flagged',
+        echoTag: '',
+        aiSysopReplies: false,
       });
       await loadBases();
     } catch (err) {
@@ -90,6 +105,9 @@ function MessageBases() {
       accessLevelRead: base.accessLevelRead,
       accessLevelWrite: base.accessLevelWrite,
       sortOrder: base.sortOrder,
+      moderationPolicy: base.moderationPolicy,
+      echoTag: base.echoTag || '',
+      aiSysopReplies: base.aiSysopReplies,
     });
     setShowCreateForm(false);
   };
@@ -103,6 +121,9 @@ function MessageBases() {
       accessLevelRead: 0,
       accessLevelWrite: 10,
       sortOrder: 0,
+      moderationPolicy: 'flagged',
+      echoTag: '',
+      aiSysopReplies: false,
     });
   };
 
@@ -208,6 +229,49 @@ function MessageBases() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Moderation
+              </label>
+              <select
+                value={formData.moderationPolicy}
+                onChange={(e) => setFormData({ ...formData, moderationPolicy: e.target.value as ModerationPolicy })}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100"
+              >
+                {MODERATION_POLICIES.map((policy) => (
+                  <option key={policy.value} value={policy.value}>
+                    {policy.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Echo Tag
+              </label>
+              <input
+                type="text"
+                value={formData.echoTag}
+                onChange={(e) => setFormData({ ...formData, echoTag: e.target.value.toUpperCase() })}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100 font-mono"
+                placeholder="Leave empty to keep this base local"
+                maxLength={35}
+              />
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.aiSysopReplies}
+                  onChange={(e) => setFormData({ ...formData, aiSysopReplies: e.target.checked })}
+                  className="bg-gray-700 border-gray-600 rounded"
+                />
+                AI SysOp joins conversations here
+              </label>
+            </div>
+
             <div className="flex gap-2">
               <button
                 type="submit"
@@ -243,6 +307,15 @@ function MessageBases() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
                 Read/Write
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                Moderation
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                Echo
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                AI SysOp
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
                 Actions
               </th>
@@ -251,7 +324,7 @@ function MessageBases() {
           <tbody className="divide-y divide-gray-700">
             {bases.length === 0 ? (
               <tr>
-                <td colSpan={5} className="px-6 py-4 text-center text-gray-400">
+                <td colSpan={8} className="px-6 py-4 text-center text-gray-400">
                   No message bases yet. Create one to get started!
                 </td>
               </tr>
@@ -270,6 +343,15 @@ function MessageBases() {
                   <td className="px-6 py-4 whitespace-nowrap text-gray-300">
                     {base.accessLevelRead} / {base.accessLevelWrite}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                    {MODERATION_POLICIES.find((policy) => policy.value === base.moderationPolicy)?.label ?? base.moderationPolicy}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300 font-mono">
+                    {base.echoTag || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                    {base.aiSysopReplies ? 'Replies' : '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <button
                       onClick={() => startEdit(base)}
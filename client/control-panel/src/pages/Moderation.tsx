@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { api, type ModerationQueueEntry, type ModerationStatus } from '../services/api';
+
+const STATUS_TABS: { value: ModerationStatus; label: string }[] = [
+  { value: 'pending', label: 'Waiting' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'removed', label: 'Removed' },
+];
+
+const SOURCE_LABELS: Record<ModerationQueueEntry['source'], string> = {
+  ai: 'AI classifier',
+  rules: 'Rules',
+  policy: 'Base policy',
+};
+
+function Moderation() {
+  const [status, setStatus] = useState<ModerationStatus>('pending');
+  const [entries, setEntries] = useState<ModerationQueueEntry[]>([]);
+  const [pending, setPending] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, [status]);
+
+  const loadQueue = async () => {
+    try {
+      const queue = await api.getModerationQueue(status);
+      setEntries(queue.entries);
+      setPending(queue.pending);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async (entry: ModerationQueueEntry) => {
+    const reason = prompt(`Approve "${entry.subject}"? Add a note (optional):`);
+    if (reason === null) {
+      return;
+    }
+
+    setBusyId(entry.messageId);
+    try {
+      await api.approveMessage(entry.messageId, reason.trim() || undefined);
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve message');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (entry: ModerationQueueEntry) => {
+    const reason = prompt(`Why is "${entry.subject}" being removed?`);
+    if (reason === null) {
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required to remove a message');
+      return;
+    }
+
+    setBusyId(entry.messageId);
+    try {
+      await api.removeMessage(entry.messageId, reason.trim());
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove message');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-400">Loading moderation queue...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-3xl font-bold text-cyan-400">Moderation</h2>
+        <span className="text-gray-300">
+          {pending} {pending === 1 ? 'post' : 'posts'} waiting for review
+        </span>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded px-4 py-3 text-red-200 mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-6">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setStatus(tab.value)}
+            className={`px-4 py-2 rounded transition-colors ${
+              status === tab.value
+                ? 'bg-cyan-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 text-center text-gray-400">
+          {status === 'pending' ? 'Nothing waiting for review.' : 'No posts here yet.'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) => (
+            <div key={entry.messageId} className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <h3 className="text-lg font-bold text-white">{entry.subject}</h3>
+                  <p className="text-sm text-gray-400">
+                    {entry.authorHandle || 'Unknown'} in {entry.baseName || entry.baseId} · {formatDate(entry.postedAt)}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  {entry.category && (
+                    <span className="inline-block bg-red-900/50 border border-red-500 text-red-200 rounded px-2 py-0.5 mr-2">
+                      {entry.category}
+                    </span>
+                  )}
+                  <span className="text-gray-400">{SOURCE_LABELS[entry.source]}</span>
+                </div>
+              </div>
+
+              <p className="text-yellow-300 text-sm mb-3">{entry.reason}</p>
+
+              <pre className="bg-gray-900 rounded p-3 text-gray-300 text-sm whitespace-pre-wrap break-words max-h-48 overflow-y-auto mb-4">
+                {entry.body}
+              </pre>
+
+              {entry.status === 'pending' ? (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleApprove(entry)}
+                    disabled={busyId === entry.messageId}
+                    className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white px-4 py-2 rounded transition-colors"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={busyId === entry.messageId}
+                    className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">
+                  {entry.status === 'approved' ? 'Approved' : 'Removed'} by {entry.reviewedByHandle || 'unknown'}
+                  {entry.reviewedAt && ` · ${formatDate(entry.reviewedAt)}`}
+                  {entry.reviewReason && ` — ${entry.reviewReason}`}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Moderation;
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { api, type ActiveScreen, type ScreenDraft, type ScreenKind } from '../services/api';
+import AnsiPreview from '../components/AnsiPreview';
+
+const SCREEN_TABS: { value: ScreenKind; label: string }[] = [
+  { value: 'welcome', label: 'Welcome' },
+  { value: 'goodbye', label: 'Goodbye' },
+];
+
+const ART_STYLES = ['retro', 'cyberpunk', 'fantasy', 'minimal', 'classic'];
+
+const COLOR_THEMES = [
+  { value: '16-color', label: '16 colors' },
+  { value: 'bright', label: 'Bright' },
+  { value: 'monochrome', label: 'Monochrome' },
+];
+
+const VARIABLES: Record<ScreenKind, string> = {
+  welcome: '{{bbs_name}}, {{node}}, {{max_nodes}}, {{caller_count}}',
+  goodbye: '{{bbs_name}}, {{handle}}',
+};
+
+function Screens() {
+  const [kind, setKind] = useState<ScreenKind>('welcome');
+  const [screens, setScreens] = useState<ActiveScreen[]>([]);
+  const [draft, setDraft] = useState<ScreenDraft | null>(null);
+  const [description, setDescription] = useState('');
+  const [style, setStyle] = useState('retro');
+  const [colorTheme, setColorTheme] = useState('16-color');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    loadScreens();
+  }, []);
+
+  const loadScreens = async () => {
+    try {
+      const data = await api.getScreens();
+      setScreens(data.screens);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load screens');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchKind = (next: ScreenKind) => {
+    setKind(next);
+    setDraft(null);
+    setNotice('');
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setNotice('');
+    try {
+      setDraft(await api.generateScreen(kind, { description: description.trim(), style, colorTheme }));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate screen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !confirm(`Publish this as the ${kind} screen? Callers will see it from now on.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await api.publishScreen(kind, draft.content);
+      setDraft(null);
+      setNotice(`New ${kind} screen published.`);
+      await loadScreens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish screen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!confirm(`Go back to the ${kind} screen that was active before the last publish?`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await api.rollbackScreen(kind);
+      setNotice(`Previous ${kind} screen restored.`);
+      await loadScreens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back screen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-400">Loading screens...</p>
+      </div>
+    );
+  }
+
+  const active = screens.find((screen) => screen.kind === kind);
+
+  return (
+    <div>
+      <h2 className="text-3xl font-bold text-cyan-400 mb-6">Screens</h2>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-500 rounded px-4 py-3 text-red-200 mb-4">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-900/50 border border-green-500 rounded px-4 py-3 text-green-200 mb-4">
+          {notice}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-6">
+        {SCREEN_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => switchKind(tab.value)}
+            className={`px-4 py-2 rounded transition-colors ${
+              kind === tab.value
+                ? 'bg-cyan-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {active && (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h3 className="text-xl font-bold text-cyan-400">Active Screen</h3>
+              <p className="text-sm text-gray-400">
+                {active.builtIn ? 'Built-in screen' : active.file}
+              </p>
+            </div>
+            {active.canRollback && (
+              <button
+                onClick={handleRollback}
+                disabled={busy}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 px-4 py-2 rounded transition-colors"
+              >
+                Roll Back
+              </button>
+            )}
+          </div>
+          <AnsiPreview content={active.preview} />
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+        <h3 className="text-xl font-bold text-cyan-400 mb-4">Design a New Screen</h3>
+        <form onSubmit={handleGenerate} className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Theme *
+            </label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. a haunted terminal glowing at midnight"
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100"
+              minLength={3}
+              maxLength={200}
+              required
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Art Style
+              </label>
+              <select
+                value={style}
+                onChange={(e) => setStyle(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100"
+              >
+                {ART_STYLES.map((artStyle) => (
+                  <option key={artStyle} value={artStyle}>
+                    {artStyle.charAt(0).toUpperCase() + artStyle.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Colors
+              </label>
+              <select
+                value={colorTheme}
+                onChange={(e) => setColorTheme(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-gray-100"
+              >
+                {COLOR_THEMES.map((theme) => (
+                  <option key={theme.value} value={theme.value}>
+                    {theme.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-400">
+            Filled in for each caller: {VARIABLES[kind]}
+          </p>
+
+          <button
+            type="submit"
+            disabled={busy}
+            className="bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50 text-white px-4 py-2 rounded transition-colors"
+          >
+            {busy && !draft ? 'Generating...' : draft ? 'Generate Again' : 'Generate'}
+          </button>
+        </form>
+
+        {draft && (
+          <div>
+            <h4 className="text-lg font-bold text-white mb-2">Preview</h4>
+            <AnsiPreview content={draft.preview} />
+
+            {draft.validation.valid ? (
+              <p className="text-green-400 text-sm mt-3">Fits an 80-column terminal.</p>
+            ) : (
+              <ul className="text-yellow-300 text-sm mt-3 list-disc list-inside">
+                {draft.validation.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={handlePublish}
+              disabled={busy || !draft.validation.valid}
+              className="mt-4 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded transition-colors"
+            >
+              Publish
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Screens;
@@ -7,6 +7,7 @@ function Users() {
   const [error, setError] = useState('');
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   const [editAccessLevel, setEditAccessLevel] = useState<number>(0);
+  const [notice, setNotice] = useState('');
 
   useEffect(() => {
     loadUsers();
@@ -53,6 +54,20 @@ function Users() {
     }
   };
 
+  const wipeOracleMemory = async (user: User) => {
+    if (!confirm(`Wipe everything The Oracle remembers about ${user.handle}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await api.forgetDoorMemory('oracle', user.id);
+      setNotice(`The Oracle has forgotten ${user.handle}.`);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to wipe Oracle memory');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -78,6 +93,12 @@ function Users() {
           {error}
         </div>
       )}
+
+      {notice && (
+        <div className="bg-green-900/50 border border-green-500 rounded px-4 py-3 text-green-200 mb-4">
+          {notice}
+        </div>
+      )}
       
       <div className="overflow-x-auto rounded-lg border border-gray-700 bg-gray-800">
         <table className="min-w-full" style={{ tableLayout: 'auto' }}>
@@ -164,12 +185,20 @@ function Users() {
                       </button>
                     </div>
                   ) : (
-                    <button
-                      onClick={() => startEdit(user)}
-                      className="text-cyan-400 hover:text-cyan-300"
-                    >
-                      Edit Access
-                    </button>
+                    <div className="flex gap-4">
+                      <button
+                        onClick={() => startEdit(user)}
+                        className="text-cyan-400 hover:text-cyan-300"
+                      >
+                        Edit Access
+                      </button>
+                      <button
+                        onClick={() => wipeOracleMemory(user)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Wipe Oracle Memory
+                      </button>
+                    </div>
                   )}
                 </td>
               </tr>
@@ -10,6 +10,13 @@ interface LoginResponse {
   };
 }
 
+interface NodeStatus {
+  node: number;
+  handle: string | null;
+  state: string;
+  connectedAt: string;
+}
+
 interface DashboardData {
   currentCallers: number;
   totalUsers: number;
@@ -19,6 +26,7 @@ interface DashboardData {
   nodeUsage: {
     active: number;
     total: number;
+    nodes: NodeStatus[];
   };
 }
 
@@ -32,6 +40,8 @@ interface User {
   totalPosts: number;
 }
 
+type ModerationPolicy = 'off' | 'flagged' | 'all';
+
 interface MessageBase {
   id: string;
   name: string;
@@ -41,6 +51,9 @@ interface MessageBase {
   postCount: number;
   lastPostAt?: string;
   sortOrder: number;
+  moderationPolicy: ModerationPolicy;
+  echoTag?: string;
+  aiSysopReplies: boolean;
 }
 
 interface CreateMessageBaseData {
@@ -49,6 +62,9 @@ interface CreateMessageBaseData {
   accessLevelRead?: number;
   accessLevelWrite?: number;
   sortOrder?: number;
+  moderationPolicy?: ModerationPolicy;
+  echoTag?: string;
+  aiSysopReplies?: boolean;
 }
 
 interface UpdateMessageBaseData {
@@ -57,11 +73,49 @@ interface UpdateMessageBaseData {
   accessLevelRead?: number;
   accessLevelWrite?: number;
   sortOrder?: number;
+  moderationPolicy?: ModerationPolicy;
+  echoTag?: string | null;
+  aiSysopReplies?: boolean;
+}
+
+type ModerationStatus = 'pending' | 'approved' | 'removed';
+
+interface ModerationQueueEntry {
+  messageId: string;
+  baseId: string;
+  baseName?: string;
+  subject: string;
+  body: string;
+  authorHandle?: string;
+  postedAt: string;
+  category?: string;
+  reason: string;
+  source: 'ai' | 'rules' | 'policy';
+  status: ModerationStatus;
+  createdAt: string;
+  reviewedByHandle?: string;
+  reviewedAt?: string;
+  reviewReason?: string;
+}
+
+interface ModerationQueue {
+  entries: ModerationQueueEntry[];
+  pending: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
 }
 
 interface AISettings {
   provider: string;
   model: string;
+  baseUrl: string | null;
+  availableModels: string[] | null; // Installed on a local provider such as Ollama
   sysop: {
     enabled: boolean;
     welcomeNewUsers: boolean;
@@ -75,6 +129,44 @@ interface AISettings {
   };
 }
 
+// A change proposed by the AI Configuration Assistant, awaiting confirmation
+interface ConfigChange {
+  description: string;
+  preview: string;
+  tool: string;
+  parameters: Record<string, unknown>;
+}
+
+interface AIUsageReport {
+  since: string;
+  // Tokens per feature per day, oldest first; days with no usage are left out
+  daily: { date: string; feature: string; inputTokens: number; outputTokens: number }[];
+  today: {
+    features: { feature: string; tokens: number; budget: number | null }[];
+    topUsers: { userId: string; handle: string | null; tokens: number }[];
+  };
+  perUserBudget: number | null;
+}
+
+type ScreenKind = 'welcome' | 'goodbye';
+
+// A screen callers currently see; preview is filled in with sample values
+interface ActiveScreen {
+  kind: ScreenKind;
+  file: string;
+  builtIn: boolean;
+  preview: string;
+  canRollback: boolean;
+}
+
+// A screen that has been drawn but not yet published
+interface ScreenDraft {
+  kind: ScreenKind;
+  content: string;
+  preview: string;
+  validation: { valid: boolean; issues: string[] };
+}
+
 class APIClient {
   private token: string | null = null;
   private onTokenExpired?: () => void;
@@ -158,6 +250,12 @@ class APIClient {
     });
   }
 
+  async forgetDoorMemory(doorId: string, userId: string): Promise<{ doorId: string; userId: string; forgotten: boolean }> {
+    return this.request<{ doorId: string; userId: string; forgotten: boolean }>(`/v1/doors/${doorId}/memory/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async getMessageBases(): Promise<MessageBase[]> {
     return this.request<MessageBase[]>('/message-bases');
   }
@@ -182,18 +280,40 @@ class APIClient {
     });
   }
 
+  async getModerationQueue(status: ModerationStatus = 'pending', page: number = 1): Promise<ModerationQueue> {
+    return this.request<ModerationQueue>(`/v1/moderation/queue?status=${status}&page=${page}`);
+  }
+
+  async approveMessage(messageId: string, reason?: string): Promise<ModerationQueueEntry> {
+    return this.request<ModerationQueueEntry>(`/v1/moderation/queue/${messageId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {}),
+    });
+  }
+
+  async removeMessage(messageId: string, reason: string): Promise<ModerationQueueEntry> {
+    return this.request<ModerationQueueEntry>(`/v1/moderation/queue/${messageId}/remove`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   async getAISettings(): Promise<AISettings> {
     return this.request<AISettings>('/ai-settings');
   }
 
-  async chatWithConfigAssistant(message: string): Promise<{ response: string; change?: { description: string; preview: string } }> {
-    return this.request<{ response: string; change?: { description: string; preview: string } }>('/v1/config/chat', {
+  async getAIUsage(days: number = 14): Promise<AIUsageReport> {
+    return this.request<AIUsageReport>(`/ai-usage?days=${days}`);
+  }
+
+  async chatWithConfigAssistant(message: string): Promise<{ response: string; change?: ConfigChange }> {
+    return this.request<{ response: string; change?: ConfigChange }>('/v1/config/chat', {
       method: 'POST',
       body: JSON.stringify({ message }),
     });
   }
 
-  async applyConfigChange(change: { description: string; preview: string; changes?: any }): Promise<{ success: boolean; message: string; requiresRestart?: boolean }> {
+  async applyConfigChange(change: ConfigChange): Promise<{ success: boolean; message: string; requiresRestart?: boolean }> {
     return this.request<{ success: boolean; message: string; requiresRestart?: boolean }>('/v1/config/apply', {
       method: 'POST',
       body: JSON.stringify({ change }),
@@ -210,10 +330,55 @@ class APIClient {
     });
   }
 
+  async getScreens(): Promise<{ screens: ActiveScreen[] }> {
+    return this.request<{ screens: ActiveScreen[] }>('/v1/screens');
+  }
+
+  async generateScreen(
+    kind: ScreenKind,
+    options: { description: string; style?: string; colorTheme?: string }
+  ): Promise<ScreenDraft> {
+    return this.request<ScreenDraft>(`/v1/screens/${kind}/generate`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  async publishScreen(kind: ScreenKind, content: string): Promise<ActiveScreen> {
+    return this.request<ActiveScreen>(`/v1/screens/${kind}/publish`, {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  async rollbackScreen(kind: ScreenKind): Promise<ActiveScreen> {
+    return this.request<ActiveScreen>(`/v1/screens/${kind}/rollback`, {
+      method: 'POST',
+    });
+  }
+
   isAuthenticated(): boolean {
     return this.token !== null;
   }
 }
 
 export const api = new APIClient();
-export type { LoginResponse, DashboardData, User, MessageBase, CreateMessageBaseData, UpdateMessageBaseData, AISettings };
+export type {
+  LoginResponse,
+  DashboardData,
+  NodeStatus,
+  User,
+  MessageBase,
+  CreateMessageBaseData,
+  UpdateMessageBaseData,
+  ModerationPolicy,
+  ModerationStatus,
+  ModerationQueueEntry,
+  ModerationQueue,
+  AISettings,
+  AIUsageReport,
+  ConfigChange,
+  ScreenKind,
+  ActiveScreen,
+  ScreenDraft,
+};
@@ -64,9 +64,12 @@ const notificationHandler = new NotificationHandler(terminal);
 
 // WebSocket connection
 const WS_URL = 'ws://localhost:8080/ws';
+const RESUME_TOKEN_KEY = 'baudagain.resumeToken';
 let ws: WebSocket | null = null;
 let inputBuffer = '';
 let echoEnabled = true;
+// While the server is streaming output, a keypress interrupts it instead
+let streaming = false;
 
 // Display helpers
 const colors = {
@@ -81,12 +84,35 @@ function writeInfo(message: string) {
   terminal.write(`\r\n${colors.cyan}ℹ ${message}${colors.reset}\r\n`);
 }
 
+// Tell the server our size so it renders screens to fit
+function sendTerminalSize() {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type: 'resize', cols: terminal.cols, rows: terminal.rows }));
+  }
+}
+
+terminal.onResize(() => {
+  sendTerminalSize();
+});
+
+// Reconnect with the session's resume token so the server reattaches us
+// to the session we were in, rather than starting over at the login prompt.
+// It goes in the first message rather than the URL, so it stays out of logs.
+function sendResumeToken() {
+  const token = sessionStorage.getItem(RESUME_TOKEN_KEY);
+  if (token && ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type: 'resume', token }));
+  }
+}
+
 // Connect WebSocket
 function connectWebSocket() {
   ws = new WebSocket(WS_URL);
 
   ws.onopen = () => {
     console.log('WebSocket connected');
+    sendResumeToken();
+    sendTerminalSize();
     // Note: The server sends the welcome screen automatically upon connection
   };
 
@@ -95,6 +121,18 @@ function connectWebSocket() {
       // Try parsing as JSON first (for notifications)
       const data = JSON.parse(event.data);
       
+      // Resume token issued after login
+      if (data.type === 'session' && typeof data.token === 'string') {
+        sessionStorage.setItem(RESUME_TOKEN_KEY, data.token);
+        return;
+      }
+
+      // Output started or stopped streaming
+      if (data.type === 'stream') {
+        streaming = data.active === true;
+        return;
+      }
+
       // Check if it's a notification event
       if (data.type && data.timestamp) {
         notificationHandler.handleNotification(data as NotificationEvent);
@@ -129,6 +167,7 @@ function connectWebSocket() {
 
   ws.onclose = () => {
     console.log('WebSocket disconnected');
+    streaming = false;
     writeInfo('Disconnected from server. Reconnecting in 3s...');
     setTimeout(() => {
       connectWebSocket();
@@ -142,6 +181,12 @@ terminal.onData((data) => {
     return;
   }
 
+  if (streaming) {
+    // Stop the output; the key isn't echoed or added to the line
+    ws.send(JSON.stringify({ type: 'interrupt' }));
+    return;
+  }
+
   if (data === '\r') {
     // Enter key
     terminal.write('\r\n');
@@ -13,6 +13,7 @@ export enum NotificationEventType {
   DOOR_ENTERED = 'DOOR_ENTERED',
   DOOR_EXITED = 'DOOR_EXITED',
   SYSTEM_ANNOUNCEMENT = 'SYSTEM_ANNOUNCEMENT',
+  MAIL_RECEIVED = 'mail.received',
 }
 
 export interface NotificationEvent {
@@ -53,6 +54,9 @@ export class NotificationHandler {
       case NotificationEventType.SYSTEM_ANNOUNCEMENT:
         this.handleSystemAnnouncement(event.data);
         break;
+      case NotificationEventType.MAIL_RECEIVED:
+        this.handleMailReceived(event.data);
+        break;
     }
   }
 
@@ -98,6 +102,13 @@ export class NotificationHandler {
     );
   }
 
+  private handleMailReceived(data: any) {
+    const { fromHandle, subject } = data;
+    this.terminal.write(
+      `\r\n\x1b[1;96m[New Mail]\x1b[0m "${subject}" from ${fromHandle} - press E to read\r\n`
+    );
+  }
+
   enable() {
     this.enabled = true;
   }
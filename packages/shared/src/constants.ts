@@ -21,3 +21,9 @@ export const BCRYPT_COST_FACTOR = 10;
 export const TERMINAL_WIDTH = 80;  // Standard terminal width
 export const FRAME_WIDTH = 80;     // Maximum frame width
 export const CONTENT_WIDTH = 76;   // Content width (frame - borders - padding)
+export const TERMINAL_HEIGHT = 24; // Standard terminal height
+
+// Limits for negotiated terminal sizes (NAWS, PTY, browser resize)
+export const MIN_TERMINAL_WIDTH = 40;
+export const MAX_TERMINAL_WIDTH = 132;
+export const MIN_TERMINAL_HEIGHT = 10;
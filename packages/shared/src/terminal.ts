@@ -17,6 +17,7 @@ export enum ContentType {
   RAW_ANSI = 'raw_ansi',
   ECHO_CONTROL = 'echo_control',
   LOADING = 'loading',
+  LINES_BUSY = 'lines_busy',
 }
 
 /**
@@ -105,6 +106,16 @@ export interface LoadingContent extends TerminalContent {
   style?: 'spinner' | 'dots' | 'simple';
 }
 
+/**
+ * All lines busy content (shown when every node is in use)
+ */
+export interface LinesBusyContent extends TerminalContent {
+  type: ContentType.LINES_BUSY;
+  title: string;
+  maxNodes: string;
+  message?: string;
+}
+
 /**
  * Union type of all content types
  */
@@ -116,14 +127,17 @@ export type AnyTerminalContent =
   | ErrorContent
   | RawANSIContent
   | EchoControlContent
-  | LoadingContent;
+  | LoadingContent
+  | LinesBusyContent;
 
 /**
  * Terminal renderer interface
  */
 export interface TerminalRenderer {
   /**
-   * Render content to a string suitable for the target terminal
+   * Render content to a string suitable for the target terminal.
+   * Framed content (welcome screen, menus) is drawn at the given width,
+   * defaulting to TERMINAL_WIDTH.
    */
-  render(content: AnyTerminalContent): string;
+  render(content: AnyTerminalContent, width?: number): string;
 }
@@ -54,6 +54,23 @@ export interface MessageFlowState {
   draftSubject?: string;
 }
 
+/**
+ * Mail Flow State
+ * Tracks the state of private mail interactions
+ */
+export interface MailFlowState {
+  folder?: 'inbox' | 'sent';
+  listOffset?: number; // First mail shown on the current list page
+  readingMail?: boolean;
+  currentMailId?: string;
+  composing?: boolean;
+  composeStep?: 'to' | 'subject' | 'body';
+  draftTo?: string;
+  draftSubject?: string;
+  replyToId?: string; // Composing a reply to this mail
+  forwardId?: string; // Composing a forward of this mail
+}
+
 /**
  * Typed Session Data
  * Provides type safety for session-specific data
@@ -63,6 +80,7 @@ export interface SessionData {
   menu?: MenuFlowState;
   door?: DoorFlowState;
   message?: MessageFlowState;
+  mail?: MailFlowState;
   artGallery?: any; // Art gallery flow state
   digestAvailable?: boolean; // Whether daily digest is available for this session
 }
@@ -72,6 +90,10 @@ export interface Session {
   connectionId: string;
   userId?: string;
   handle?: string;
+  node?: number;
+  columns?: number; // Negotiated terminal width
+  rows?: number;    // Negotiated terminal height
+  terminalMode?: TerminalMode;
   state: SessionState;
   currentMenu: string;
   lastActivity: Date;
@@ -93,8 +115,16 @@ export interface User {
   preferences: UserPreferences;
 }
 
+/**
+ * How output is presented to a caller:
+ * - ansi: colour escapes and Unicode/CP437 line drawing (the default)
+ * - utf8: Unicode text with no escape sequences
+ * - ascii: 7-bit text only, line drawing mapped to +-|
+ */
+export type TerminalMode = 'ansi' | 'ascii' | 'utf8';
+
 export interface UserPreferences {
-  terminalType: 'ansi' | 'ascii' | 'utf8';
+  terminalType: TerminalMode;
   screenWidth: 80 | 132;
   screenHeight: 24 | 25 | 50;
 }
@@ -61,7 +61,7 @@ describe('AIConfigAssistant', () => {
     // Create mock AI provider
     mockAIProvider = {
       generateCompletion: vi.fn().mockResolvedValue('Test response'),
-      generateStructured: vi.fn().mockResolvedValue(null),
+      generateStructured: vi.fn().mockResolvedValue({ response: 'Test response' }),
     } as any;
 
     // Create mock config loader
@@ -90,7 +90,7 @@ describe('AIConfigAssistant', () => {
       const result = await aiConfigAssistant.processRequest('Change the BBS name to New BBS');
 
       expect(result.response).toBe('Test response');
-      expect(mockAIProvider.generateCompletion).toHaveBeenCalled();
+      expect(mockAIProvider.generateStructured).toHaveBeenCalled();
     });
 
     it('should maintain conversation history', async () => {
@@ -100,6 +100,233 @@ describe('AIConfigAssistant', () => {
       const history = aiConfigAssistant.getConversationHistory();
       expect(history).toHaveLength(4); // 2 user messages + 2 assistant responses
     });
+
+    it('should prepare a change from a tool call without saving it', async () => {
+      mockAIProvider.generateWithTools = vi.fn()
+        .mockResolvedValueOnce({
+          text: "I'll rename the board to Retro Haven.",
+          toolCalls: [{ id: 'call-1', name: 'update_bbs_settings', input: { name: 'Retro Haven' } }],
+        })
+        .mockResolvedValueOnce({ text: 'Confirm the change to apply it.', toolCalls: [] });
+
+      const result = await aiConfigAssistant.processRequest('Change the BBS name to Retro Haven');
+
+      expect(result.response).toBe("I'll rename the board to Retro Haven.\n\nConfirm the change to apply it.");
+      expect(result.change).toMatchObject({
+        tool: 'update_bbs_settings',
+        parameters: { name: 'Retro Haven' },
+        changes: { bbs: { name: 'Retro Haven' } },
+      });
+      expect(result.change!.preview).toContain('"Test BBS" → "Retro Haven"');
+      expect(mockConfigLoader.save).not.toHaveBeenCalled();
+
+      // The model saw the tool's result before giving its final reply
+      const [messages] = vi.mocked(mockAIProvider.generateWithTools!).mock.calls[1];
+      expect(messages.find(message => message.role === 'tool')).toMatchObject({
+        role: 'tool',
+        results: [{ toolCallId: 'call-1', content: expect.stringContaining('Prepared for the SysOp to review') }],
+      });
+    });
+
+    it('should send invalid parameters back to the model to correct', async () => {
+      mockAIProvider.generateWithTools = vi.fn()
+        .mockResolvedValueOnce({
+          text: '',
+          toolCalls: [{ id: 'call-1', name: 'update_security_settings', input: { passwordMinLength: 'eight' } }],
+        })
+        .mockResolvedValueOnce({
+          text: "I'll require 8 character passwords.",
+          toolCalls: [{ id: 'call-2', name: 'update_security_settings', input: { passwordMinLength: 8 } }],
+        })
+        .mockResolvedValueOnce({ text: '', toolCalls: [] });
+
+      const result = await aiConfigAssistant.processRequest('Passwords should be at least eight characters');
+
+      const [messages] = vi.mocked(mockAIProvider.generateWithTools!).mock.calls[1];
+      expect(messages.find(message => message.role === 'tool')).toMatchObject({
+        role: 'tool',
+        results: [{ toolCallId: 'call-1', isError: true, content: expect.stringContaining('passwordMinLength must be a number') }],
+      });
+      expect(result.change?.changes.security?.passwordMinLength).toBe(8);
+    });
+
+    it('should stop after a few rounds of tool calls', async () => {
+      mockAIProvider.generateWithTools = vi.fn().mockResolvedValue({
+        text: '',
+        toolCalls: [{ id: 'call', name: 'remove_message_base', input: { id: 'missing' } }],
+      });
+
+      const result = await aiConfigAssistant.processRequest('Remove the missing base');
+
+      expect(mockAIProvider.generateWithTools).toHaveBeenCalledTimes(5);
+      expect(result.change).toBeUndefined();
+    });
+  });
+
+  describe('applyToolCall', () => {
+    it('should validate and save a confirmed change', async () => {
+      const result = await aiConfigAssistant.applyToolCall('update_ai_sysop', { chatFrequency: 'always' });
+
+      expect(result.description).toBe('Update AI SysOp settings');
+      expect(mockConfigLoader.save).toHaveBeenCalledWith(
+        expect.objectContaining({ ai: expect.objectContaining({ sysop: expect.objectContaining({ chatFrequency: 'always' }) }) })
+      );
+    });
+
+    it('should reject parameters the tool does not allow before touching the config', async () => {
+      await expect(aiConfigAssistant.applyToolCall('update_ai_sysop', { chatFrequency: 'never' }))
+        .rejects.toMatchObject({ code: 'INVALID_INPUT', details: { errors: ['chatFrequency must be one of: always, occasional, only_when_paged'] } });
+      await expect(aiConfigAssistant.applyToolCall('update_bbs_settings', { maxNodes: 4, port: 23 }))
+        .rejects.toMatchObject({ details: { errors: ['port is not a known setting'] } });
+      await expect(aiConfigAssistant.applyToolCall('update_message_base', { id: 'nope', name: 'x' }))
+        .rejects.toThrow('No message base has the ID nope');
+      await expect(aiConfigAssistant.applyToolCall('rewrite_config', {}))
+        .rejects.toThrow('Unknown configuration tool');
+      await expect(aiConfigAssistant.applyToolCall('update_bbs_settings', { name: null }))
+        .rejects.toMatchObject({ code: 'INVALID_INPUT', details: { errors: ['name must be text'] } });
+      await expect(aiConfigAssistant.applyToolCall('update_ai_sysop', { enabled: null, chatFrequency: null }))
+        .rejects.toMatchObject({ details: { errors: ['enabled must be true or false', 'chatFrequency must be text'] } });
+
+      expect(mockConfigLoader.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('doors, daily question and appearance', () => {
+    it('should configure an installed door that is not in config.yaml yet', async () => {
+      aiConfigAssistant = new AIConfigAssistant(mockAIProvider, mockConfigLoader, mockLogger, {
+        installedDoors: () => [{ id: 'oracle', name: 'The Oracle', description: 'Ask the Oracle' }],
+      });
+
+      await aiConfigAssistant.applyToolCall('update_door', { id: 'oracle', minAccessLevel: 20 });
+
+      expect(mockConfigLoader.save).toHaveBeenCalledWith(expect.objectContaining({
+        doors: [{ id: 'oracle', name: 'The Oracle', description: 'Ask the Oracle', enabled: true, minAccessLevel: 20 }],
+      }));
+      await expect(aiConfigAssistant.applyToolCall('update_door', { id: 'tradewars', enabled: false }))
+        .rejects.toThrow('No door has the ID tradewars');
+    });
+
+    it('should update a configured door where it is', async () => {
+      mockConfig.doors = [
+        { id: 'oracle', name: 'The Oracle', description: 'Ask the Oracle', enabled: true, minAccessLevel: 0 },
+        { id: 'lord', name: 'LORD', description: 'Slay the dragon', enabled: true, minAccessLevel: 10 },
+      ];
+
+      await aiConfigAssistant.applyToolCall('update_door', { id: 'oracle', enabled: false });
+
+      expect(vi.mocked(mockConfigLoader.save).mock.calls[0][0].doors).toEqual([
+        { id: 'oracle', name: 'The Oracle', description: 'Ask the Oracle', enabled: false, minAccessLevel: 0 },
+        { id: 'lord', name: 'LORD', description: 'Slay the dragon', enabled: true, minAccessLevel: 10 },
+      ]);
+    });
+
+    it('should only save the daily question settings the tool knows about', async () => {
+      await aiConfigAssistant.applyToolCall('update_daily_question', { enabled: true, schedule: '*/30' });
+
+      expect(vi.mocked(mockConfigLoader.save).mock.calls[0][0].aiFeatures).toEqual({
+        dailyQuestion: { enabled: true, schedule: '*/30', questionStyle: 'auto' },
+      });
+    });
+
+    it('should preview daily question changes and require a restart', async () => {
+      mockConfig.messageBases = [{ id: 'general', name: 'General', description: '', accessLevelRead: 0, accessLevelWrite: 10, sortOrder: 1 }];
+      mockAIProvider.generateWithTools = vi.fn()
+        .mockResolvedValueOnce({
+          text: '',
+          toolCalls: [{ id: 'call-1', name: 'update_daily_question', input: { enabled: true, schedule: '9am' } }],
+        })
+        .mockResolvedValueOnce({
+          text: "I'll post a question every morning at 9.",
+          toolCalls: [{ id: 'call-2', name: 'update_daily_question', input: { enabled: true, schedule: '09:00', targetMessageBaseId: 'general' } }],
+        })
+        .mockResolvedValueOnce({ text: '', toolCalls: [] });
+
+      const { change } = await aiConfigAssistant.processRequest('Post a daily question in General at 9am');
+
+      const [messages] = vi.mocked(mockAIProvider.generateWithTools!).mock.calls[1];
+      expect(messages.find(message => message.role === 'tool')).toMatchObject({
+        results: [{ isError: true, content: expect.stringContaining('schedule must be HH:MM') }],
+      });
+      expect(change!.preview).toContain('enabled: false → true');
+      expect(change!.preview).toContain('targetMessageBaseId: undefined → "general"');
+
+      const result = await aiConfigAssistant.applyToolCall(change!.tool, change!.parameters);
+      expect(result.requiresRestart).toBe(true);
+    });
+
+    it('should only accept ANSI file names for screens', async () => {
+      await expect(aiConfigAssistant.applyToolCall('update_appearance', { welcomeScreen: '../../etc/passwd.ans' }))
+        .rejects.toThrow('welcomeScreen must be an .ans file name');
+
+      const result = await aiConfigAssistant.applyToolCall('update_appearance', { welcomeScreen: 'welcome-new.ans' });
+      expect(result.requiresRestart).toBe(true);
+    });
+  });
+
+  describe('actions', () => {
+    const users = [
+      { id: 'user-1', handle: 'Root', accessLevel: 255 },
+      { id: 'user-2', handle: 'Alice', accessLevel: 10 },
+    ];
+    let userRepository: any;
+    let notificationService: any;
+
+    beforeEach(() => {
+      userRepository = {
+        findByHandle: vi.fn((handle: string) => users.find(u => u.handle === handle)),
+        findAll: vi.fn(() => users),
+        updateAccessLevel: vi.fn(),
+      };
+      notificationService = { broadcastToAuthenticated: vi.fn().mockResolvedValue(undefined) };
+      aiConfigAssistant = new AIConfigAssistant(mockAIProvider, mockConfigLoader, mockLogger, {
+        userRepository,
+        notificationService,
+      });
+    });
+
+    it('should change an access level only once the SysOp confirms it', async () => {
+      mockAIProvider.generateWithTools = vi.fn()
+        .mockResolvedValueOnce({
+          text: '',
+          toolCalls: [{ id: 'call-1', name: 'set_user_access_level', input: { handle: 'Alice', accessLevel: 50 } }],
+        })
+        .mockResolvedValueOnce({ text: 'Confirm to promote Alice.', toolCalls: [] });
+
+      const { change } = await aiConfigAssistant.processRequest('Make Alice a co-sysop');
+
+      expect(change!.preview).toContain('Alice: 10 → 50');
+      expect(userRepository.updateAccessLevel).not.toHaveBeenCalled();
+
+      const result = await aiConfigAssistant.applyToolCall(change!.tool, change!.parameters);
+      expect(userRepository.updateAccessLevel).toHaveBeenCalledWith('user-2', 50);
+      expect(result).toMatchObject({ requiresRestart: false, message: 'Alice now has access level 50.' });
+      expect(mockConfigLoader.save).not.toHaveBeenCalled();
+    });
+
+    it('should not demote the only SysOp', async () => {
+      await expect(aiConfigAssistant.applyToolCall('set_user_access_level', { handle: 'Root', accessLevel: 10 }))
+        .rejects.toThrow('Root is the only SysOp');
+      await expect(aiConfigAssistant.applyToolCall('set_user_access_level', { handle: 'Nobody', accessLevel: 10 }))
+        .rejects.toThrow('No user has the handle Nobody');
+
+      expect(userRepository.updateAccessLevel).not.toHaveBeenCalled();
+    });
+
+    it('should broadcast a confirmed announcement', async () => {
+      await aiConfigAssistant.applyToolCall('send_announcement', { message: 'Down for maintenance at midnight', priority: 'high', expiresInHours: 6 });
+
+      expect(notificationService.broadcastToAuthenticated).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'system.announcement',
+        data: expect.objectContaining({ message: 'Down for maintenance at midnight', priority: 'high', expiresAt: expect.any(String) }),
+      }));
+    });
+
+    it('should leave out tools whose services are missing', async () => {
+      const assistant = new AIConfigAssistant(mockAIProvider, mockConfigLoader, mockLogger);
+
+      await expect(assistant.applyToolCall('send_announcement', { message: 'Hello' }))
+        .rejects.toThrow('Unknown configuration tool');
+    });
   });
 
   describe('resetConversation', () => {
@@ -1,5 +1,11 @@
-import { AIProvider, AIOptions } from './AIProvider.js';
+import { AIProvider, AITool, AIToolCall, AIToolMessage, AIToolResult } from './AIProvider.js';
+import { validateToolInput } from './ToolValidation.js';
 import { ConfigLoader, BBSConfig, MessageBaseConfig, DoorConfig } from '../config/ConfigLoader.js';
+import { createError } from '../utils/ErrorHandler.js';
+import { NotificationEventType, createNotificationEvent, SystemAnnouncementPayload, AnnouncementPriority } from '../notifications/types.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type { NotificationService } from '../notifications/NotificationService.js';
+import type { Door } from '../doors/Door.js';
 import type { FastifyBaseLogger } from 'fastify';
 
 /**
@@ -9,35 +15,83 @@ export interface ConfigChange {
   description: string;
   preview: string;
   changes: Partial<BBSConfig>;
+  tool: string; // The tool call that produced the change; applying it re-runs the call
+  parameters: Record<string, unknown>;
 }
 
 /**
- * Configuration tool definition for AI function calling
+ * What the assistant acts through for changes that aren't configuration.
+ * Tools that need a service that wasn't provided are left out.
  */
-interface ConfigTool {
-  name: string;
-  description: string;
-  input_schema: {
-    type: string;
-    properties: Record<string, any>;
-    required: string[];
+export interface ConfigAssistantServices {
+  userRepository?: UserRepository;
+  notificationService?: NotificationService;
+  installedDoors?: () => Iterable<Pick<Door, 'id' | 'name' | 'description'>>;
+}
+
+// Most rounds of tool calls the model gets to answer one request
+const MAX_TOOL_STEPS = 5;
+
+// Tools that act on the running BBS when applied instead of saving config.yaml
+const ACTION_TOOLS = ['set_user_access_level', 'send_announcement'];
+
+const SYSOP_ACCESS_LEVEL = 255;
+
+type DailyQuestionConfig = NonNullable<NonNullable<BBSConfig['aiFeatures']>['dailyQuestion']>;
+
+/**
+ * Parameters of each tool, as its input schema allows them
+ */
+interface ToolParameters {
+  update_bbs_settings: Partial<Pick<BBSConfig['bbs'], 'name' | 'tagline' | 'sysopName' | 'maxNodes' | 'theme'>>;
+  update_ai_sysop: Partial<BBSConfig['ai']['sysop']>;
+  update_security_settings: {
+    passwordMinLength?: number;
+    maxLoginAttempts?: number;
+    sessionTimeoutMinutes?: number;
+    messagesPerHour?: number;
+    doorRequestsPerMinute?: number;
   };
+  add_message_base: { name: string; description: string; accessLevelRead?: number; accessLevelWrite?: number };
+  update_message_base: { id: string; name?: string; description?: string; accessLevelRead?: number; accessLevelWrite?: number };
+  remove_message_base: { id: string };
+  update_door: { id: string; enabled?: boolean; minAccessLevel?: number };
+  update_daily_question: {
+    enabled?: boolean;
+    schedule?: string;
+    targetMessageBaseId?: string;
+    questionStyle?: DailyQuestionConfig['questionStyle'];
+    aiPersonality?: string;
+  };
+  update_appearance: Partial<BBSConfig['appearance']>;
+  set_user_access_level: { handle: string; accessLevel: number };
+  send_announcement: { message: string; priority?: AnnouncementPriority; expiresInHours?: number };
 }
 
+// A tool call whose parameters have passed the tool's schema
+type ToolCall = { [Tool in keyof ToolParameters]: { tool: Tool; parameters: ToolParameters[Tool] } }[keyof ToolParameters];
+
+type ActionCall = Extract<ToolCall, { tool: 'set_user_access_level' | 'send_announcement' }>;
+
 /**
  * AI Configuration Assistant
  * 
  * Helps SysOps configure the BBS through natural language conversation.
- * Uses AI with function calling to interpret requests and generate configuration changes.
+ * Uses AI tool calling to interpret requests and generate configuration
+ * changes; tool parameters are checked against each tool's schema before
+ * anything is previewed or saved.
  */
 export class AIConfigAssistant {
-  private tools: ConfigTool[];
+  private tools: AITool[];
   private conversationHistory: Array<{ role: string; content: string }> = [];
+  // The same conversation as the model sees it, including tool calls
+  private messages: AIToolMessage[] = [];
 
   constructor(
     private aiProvider: AIProvider,
     private configLoader: ConfigLoader,
-    private logger: FastifyBaseLogger
+    private logger: FastifyBaseLogger,
+    private services: ConfigAssistantServices = {}
   ) {
     this.tools = this.defineTools();
   }
@@ -45,19 +99,19 @@ export class AIConfigAssistant {
   /**
    * Define configuration tools for AI function calling
    */
-  private defineTools(): ConfigTool[] {
-    return [
+  private defineTools(): AITool[] {
+    const tools: AITool[] = [
       {
         name: 'update_bbs_settings',
         description: 'Update basic BBS settings like name, tagline, sysop name, max nodes, or theme',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
-            name: { type: 'string', description: 'BBS name' },
-            tagline: { type: 'string', description: 'BBS tagline' },
-            sysopName: { type: 'string', description: 'System operator name' },
-            maxNodes: { type: 'number', description: 'Maximum concurrent connections' },
-            theme: { type: 'string', description: 'BBS theme' },
+            name: { type: 'string', description: 'BBS name', minLength: 1, maxLength: 60 },
+            tagline: { type: 'string', description: 'BBS tagline', maxLength: 120 },
+            sysopName: { type: 'string', description: 'System operator name', minLength: 1, maxLength: 40 },
+            maxNodes: { type: 'integer', description: 'Maximum concurrent connections', minimum: 1, maximum: 256 },
+            theme: { type: 'string', description: 'BBS theme', minLength: 1, maxLength: 40 },
           },
           required: [],
         },
@@ -65,11 +119,11 @@ export class AIConfigAssistant {
       {
         name: 'update_ai_sysop',
         description: 'Update AI SysOp settings including personality, behavior, and chat frequency',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
             enabled: { type: 'boolean', description: 'Enable or disable AI SysOp' },
-            personality: { type: 'string', description: 'AI SysOp personality description' },
+            personality: { type: 'string', description: 'AI SysOp personality description', minLength: 1, maxLength: 2000 },
             welcomeNewUsers: { type: 'boolean', description: 'Welcome new users automatically' },
             participateInChat: { type: 'boolean', description: 'Participate in chat' },
             chatFrequency: {
@@ -77,6 +131,7 @@ export class AIConfigAssistant {
               enum: ['always', 'occasional', 'only_when_paged'],
               description: 'How often AI SysOp participates in chat',
             },
+            maxChatRepliesPerDay: { type: 'integer', description: 'Most replies the AI SysOp posts to message bases per day', minimum: 0, maximum: 500 },
           },
           required: [],
         },
@@ -84,14 +139,14 @@ export class AIConfigAssistant {
       {
         name: 'update_security_settings',
         description: 'Update security settings like password requirements, login attempts, session timeout, and rate limits',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
-            passwordMinLength: { type: 'number', description: 'Minimum password length' },
-            maxLoginAttempts: { type: 'number', description: 'Maximum login attempts per session' },
-            sessionTimeoutMinutes: { type: 'number', description: 'Session timeout in minutes' },
-            messagesPerHour: { type: 'number', description: 'Maximum messages per hour per user' },
-            doorRequestsPerMinute: { type: 'number', description: 'Maximum door requests per minute per user' },
+            passwordMinLength: { type: 'integer', description: 'Minimum password length', minimum: 4, maximum: 128 },
+            maxLoginAttempts: { type: 'integer', description: 'Maximum login attempts per session', minimum: 1, maximum: 20 },
+            sessionTimeoutMinutes: { type: 'integer', description: 'Session timeout in minutes', minimum: 1, maximum: 1440 },
+            messagesPerHour: { type: 'integer', description: 'Maximum messages per hour per user', minimum: 1, maximum: 1000 },
+            doorRequestsPerMinute: { type: 'integer', description: 'Maximum door requests per minute per user', minimum: 1, maximum: 600 },
           },
           required: [],
         },
@@ -99,13 +154,13 @@ export class AIConfigAssistant {
       {
         name: 'add_message_base',
         description: 'Add a new message base (forum) to the BBS',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
-            name: { type: 'string', description: 'Message base name' },
-            description: { type: 'string', description: 'Message base description' },
-            accessLevelRead: { type: 'number', description: 'Minimum access level to read (0-255)' },
-            accessLevelWrite: { type: 'number', description: 'Minimum access level to post (0-255)' },
+            name: { type: 'string', description: 'Message base name', minLength: 1, maxLength: 60 },
+            description: { type: 'string', description: 'Message base description', maxLength: 200 },
+            accessLevelRead: { type: 'integer', description: 'Minimum access level to read (0-255)', minimum: 0, maximum: 255 },
+            accessLevelWrite: { type: 'integer', description: 'Minimum access level to post (0-255)', minimum: 0, maximum: 255 },
           },
           required: ['name', 'description'],
         },
@@ -113,14 +168,14 @@ export class AIConfigAssistant {
       {
         name: 'update_message_base',
         description: 'Update an existing message base',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
             id: { type: 'string', description: 'Message base ID' },
-            name: { type: 'string', description: 'New name' },
-            description: { type: 'string', description: 'New description' },
-            accessLevelRead: { type: 'number', description: 'Minimum access level to read' },
-            accessLevelWrite: { type: 'number', description: 'Minimum access level to post' },
+            name: { type: 'string', description: 'New name', minLength: 1, maxLength: 60 },
+            description: { type: 'string', description: 'New description', maxLength: 200 },
+            accessLevelRead: { type: 'integer', description: 'Minimum access level to read', minimum: 0, maximum: 255 },
+            accessLevelWrite: { type: 'integer', description: 'Minimum access level to post', minimum: 0, maximum: 255 },
           },
           required: ['id'],
         },
@@ -128,7 +183,7 @@ export class AIConfigAssistant {
       {
         name: 'remove_message_base',
         description: 'Remove a message base from the BBS',
-        input_schema: {
+        inputSchema: {
           type: 'object',
           properties: {
             id: { type: 'string', description: 'Message base ID to remove' },
@@ -136,11 +191,99 @@ export class AIConfigAssistant {
           required: ['id'],
         },
       },
+      {
+        name: 'update_door',
+        description: 'Enable or disable a door game, or change the access level needed to play it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Door ID' },
+            enabled: { type: 'boolean', description: 'Whether callers can play the door' },
+            minAccessLevel: { type: 'integer', description: 'Minimum access level to play (0-255)', minimum: 0, maximum: 255 },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'update_daily_question',
+        description: 'Update the scheduled AI question of the day posted to a message base',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean', description: 'Post a question every day' },
+            schedule: { type: 'string', description: 'When to post: HH:MM (24 hour, daily) or */N (every N minutes)', minLength: 1, maxLength: 10 },
+            targetMessageBaseId: { type: 'string', description: 'ID of the message base to post in' },
+            questionStyle: {
+              type: 'string',
+              enum: ['auto', 'open-ended', 'opinion', 'creative', 'technical', 'fun'],
+              description: 'Style of question to ask',
+            },
+            aiPersonality: { type: 'string', description: 'Personality the questions are written in', maxLength: 500 },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'update_appearance',
+        description: 'Change the ANSI screens shown on connect and logoff, or the menu template',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            welcomeScreen: { type: 'string', description: 'Welcome screen ANSI file name, e.g. welcome.ans', minLength: 5, maxLength: 100 },
+            goodbyeScreen: { type: 'string', description: 'Goodbye screen ANSI file name, e.g. goodbye.ans', minLength: 5, maxLength: 100 },
+            menuTemplate: { type: 'string', description: 'Menu template ANSI file name, e.g. menu.ans', minLength: 5, maxLength: 100 },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'set_user_access_level',
+        description: "Change a user's access level (0-255; 255 is SysOp)",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            handle: { type: 'string', description: "The user's handle", minLength: 1 },
+            accessLevel: { type: 'integer', description: 'New access level', minimum: 0, maximum: 255 },
+          },
+          required: ['handle', 'accessLevel'],
+        },
+      },
+      {
+        name: 'send_announcement',
+        description: 'Send an announcement to everyone who is logged in',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            message: { type: 'string', description: 'Announcement text', minLength: 1, maxLength: 500 },
+            priority: {
+              type: 'string',
+              enum: ['low', 'normal', 'high', 'critical'],
+              description: 'How prominently to show it',
+            },
+            expiresInHours: { type: 'integer', description: 'Hours until the announcement expires', minimum: 1, maximum: 720 },
+          },
+          required: ['message'],
+        },
+      },
     ];
+
+    return tools.filter(tool => {
+      switch (tool.name) {
+        case 'set_user_access_level':
+          return !!this.services.userRepository;
+        case 'send_announcement':
+          return !!this.services.notificationService;
+        default:
+          return true;
+      }
+    });
   }
 
   /**
-   * Process a configuration request from the SysOp
+   * Process a configuration request from the SysOp. The model may call
+   * tools over several rounds, for example to fix parameters a tool
+   * rejected. A change is only prepared here; it is not saved until the
+   * SysOp confirms it and it is applied.
    */
   async processRequest(request: string): Promise<{ response: string; change?: ConfigChange }> {
     try {
@@ -149,56 +292,142 @@ export class AIConfigAssistant {
         role: 'user',
         content: request,
       });
+      this.messages.push({ role: 'user', content: request });
 
       // Get current configuration for context
       const currentConfig = this.configLoader.getConfig();
 
       // Create system prompt
       const systemPrompt = this.createSystemPrompt(currentConfig);
-
-      // Call AI with function calling
-      const aiResponse = await this.aiProvider.generateCompletion(
-        this.buildConversationPrompt(),
-        {
-          systemPrompt,
-          maxTokens: 1000,
-          temperature: 0.7,
+      const options = { systemPrompt, maxTokens: 1000, temperature: 0.7 };
+
+      const replies: string[] = [];
+      let change: ConfigChange | undefined;
+
+      if (this.aiProvider.generateWithTools) {
+        for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+          const reply = await this.aiProvider.generateWithTools(this.messages, this.tools, options);
+          this.messages.push({ role: 'assistant', content: reply.text, toolCalls: reply.toolCalls });
+          if (reply.text) {
+            replies.push(reply.text);
+          }
+
+          if (reply.toolCalls.length === 0) {
+            break;
+          }
+
+          const results: AIToolResult[] = [];
+          for (const call of reply.toolCalls) {
+            const outcome = this.runToolCall(call, change);
+            change = outcome.change ?? change;
+            results.push(outcome.result);
+          }
+          this.messages.push({ role: 'tool', results });
         }
-      );
+      } else {
+        // Providers without tool calling choose a tool through structured output
+        const reply = await this.aiProvider.generateStructured<{ response: string; tool?: string; parameters?: Record<string, unknown> }>(
+          this.buildConversationPrompt(),
+          this.structuredToolSchema(),
+          options
+        );
+        replies.push(reply.response);
+        this.messages.push({ role: 'assistant', content: reply.response });
+
+        if (reply.tool && reply.tool !== 'none') {
+          const outcome = this.runToolCall({ id: 'structured', name: reply.tool, input: reply.parameters ?? {} });
+          change = outcome.change;
+          if (outcome.result.isError) {
+            replies.push(`I couldn't prepare that change: ${outcome.result.content}`);
+          }
+        }
+      }
+
+      const response = replies.join('\n\n') || change?.description || 'Done.';
 
       // Add AI response to conversation history
       this.conversationHistory.push({
         role: 'assistant',
-        content: aiResponse,
+        content: response,
       });
 
-      // Check if AI wants to use a tool
-      const toolCall = this.extractToolCall(aiResponse);
-      
-      if (toolCall) {
-        // Execute the tool and generate preview
-        const change = await this.executeToolCall(toolCall.name, toolCall.parameters);
-        
-        return {
-          response: aiResponse,
-          change,
-        };
-      }
+      return { response, change };
+    } catch (error) {
+      this.logger.error({ error }, 'Error processing configuration request');
+      throw error;
+    }
+  }
 
-      // No tool call, just return the response
+  /**
+   * Validate and run one tool call from the model, producing the result
+   * to send back and the change it prepared, if any
+   */
+  private runToolCall(
+    call: AIToolCall,
+    pendingChange?: ConfigChange
+  ): { result: AIToolResult; change?: ConfigChange } {
+    const fail = (content: string) => ({ result: { toolCallId: call.id, content, isError: true } });
+
+    const tool = this.tools.find(t => t.name === call.name);
+    if (!tool) {
+      return fail(`Unknown tool: ${call.name}`);
+    }
+
+    const errors = validateToolInput(tool.inputSchema, call.input);
+    if (errors.length > 0) {
+      this.logger.warn({ tool: call.name, errors }, 'AI Configuration Assistant sent invalid tool input');
+      return fail(`Invalid parameters: ${errors.join('; ')}`);
+    }
+
+    if (pendingChange) {
+      return fail(`"${pendingChange.description}" is already waiting for the SysOp to confirm. Propose one change at a time.`);
+    }
+
+    try {
+      const change = this.executeToolCall(this.toToolCall(call.name, call.input));
       return {
-        response: aiResponse,
+        result: {
+          toolCallId: call.id,
+          content: `Prepared for the SysOp to review; nothing is saved until they confirm it.\n${change.preview}`,
+        },
+        change,
       };
     } catch (error) {
-      this.logger.error({ error }, 'Error processing configuration request');
-      throw error;
+      return fail(error instanceof Error ? error.message : String(error));
     }
   }
 
+  /**
+   * Schema for choosing a tool through structured output
+   */
+  private structuredToolSchema(): object {
+    return {
+      type: 'object',
+      properties: {
+        response: { type: 'string', description: 'Your reply to the SysOp' },
+        tool: {
+          type: 'string',
+          enum: [...this.tools.map(t => t.name), 'none'],
+          description: 'Tool to use, or none',
+        },
+        parameters: { type: 'object', description: "The tool's parameters" },
+      },
+      required: ['response'],
+    };
+  }
+
   /**
    * Create system prompt with current configuration context
    */
   private createSystemPrompt(config: BBSConfig): string {
+    const messageBases = (config.messageBases || [])
+      .map(base => `  - ${base.name} (ID: ${base.id}, read ${base.accessLevelRead}, write ${base.accessLevelWrite})`)
+      .join('\n');
+    const doors = this.listDoors(config)
+      .map(door => `  - ${door.name} (ID: ${door.id}, ${door.enabled ? 'enabled' : 'disabled'}, access ${door.minAccessLevel})`)
+      .join('\n');
+    const dailyQuestion = config.aiFeatures?.dailyQuestion;
+
     return `You are an AI Configuration Assistant for BaudAgain BBS. Your role is to help the SysOp configure their BBS through natural language conversation.
 
 CURRENT CONFIGURATION:
@@ -212,28 +441,19 @@ CURRENT CONFIGURATION:
 - Password Min Length: ${config.security.passwordMinLength}
 - Max Login Attempts: ${config.security.maxLoginAttempts}
 - Session Timeout: ${config.security.sessionTimeoutMinutes} minutes
-- Message Bases: ${config.messageBases?.length || 0} configured
-
-AVAILABLE TOOLS:
-${this.tools.map(t => `- ${t.name}: ${t.description}`).join('\n')}
+- Message Bases: ${config.messageBases?.length || 0} configured${messageBases ? '\n' + messageBases : ''}
+- Doors:${doors ? '\n' + doors : ' none installed'}
+- Daily Question: ${dailyQuestion?.enabled ? `enabled at ${dailyQuestion.schedule}, ${dailyQuestion.questionStyle} style` : 'disabled'}
+- Screens: welcome ${config.appearance.welcomeScreen}, goodbye ${config.appearance.goodbyeScreen}, menu ${config.appearance.menuTemplate}
 
 INSTRUCTIONS:
 1. Listen to the SysOp's request and understand what they want to change
 2. If the request is clear, use the appropriate tool to make the change
-3. If the request is ambiguous, ask clarifying questions
-4. Always explain what changes you're about to make before using a tool
-5. Be friendly and helpful, using BBS terminology
-6. When using a tool, format your response as: "I'll [action]. TOOL_CALL: {name: 'tool_name', parameters: {...}}"
-
-EXAMPLES:
-User: "Change the BBS name to Retro Haven"
-You: "I'll update the BBS name to 'Retro Haven'. TOOL_CALL: {name: 'update_bbs_settings', parameters: {name: 'Retro Haven'}}"
-
-User: "Make the AI SysOp more active"
-You: "I'll set the AI SysOp to participate in chat more frequently. TOOL_CALL: {name: 'update_ai_sysop', parameters: {chatFrequency: 'always'}}"
-
-User: "Add a message base for gaming discussions"
-You: "I'll create a new message base called 'Gaming' for gaming discussions. TOOL_CALL: {name: 'add_message_base', parameters: {name: 'Gaming', description: 'Discuss your favorite games', accessLevelRead: 0, accessLevelWrite: 10}}"`;
+3. If the request is ambiguous, ask clarifying questions instead of using a tool
+4. Briefly explain the change you're proposing; the SysOp reviews and confirms it before it is saved
+5. Propose one change at a time
+6. If a tool reports a problem with its parameters, correct them and try again
+7. Be friendly and helpful, using BBS terminology`;
   }
 
   /**
@@ -245,71 +465,56 @@ You: "I'll create a new message base called 'Gaming' for gaming discussions. TOO
       .join('\n\n');
   }
 
-  /**
-   * Extract tool call from AI response
-   */
-  private extractToolCall(response: string): { name: string; parameters: any } | null {
-    // Look for TOOL_CALL: {name: '...', parameters: {...}}
-    const match = response.match(/TOOL_CALL:\s*({[^}]+})/);
-    if (!match) return null;
-
-    try {
-      const toolCall = JSON.parse(match[1]);
-      return toolCall;
-    } catch (error) {
-      this.logger.warn({ error, response }, 'Failed to parse tool call');
-      return null;
-    }
-  }
-
   /**
    * Execute a tool call and generate preview
    */
-  private async executeToolCall(toolName: string, parameters: any): Promise<ConfigChange> {
+  private executeToolCall(call: ToolCall): ConfigChange {
     const currentConfig = this.configLoader.getConfig();
     const changes: Partial<BBSConfig> = {};
 
-    switch (toolName) {
+    switch (call.tool) {
       case 'update_bbs_settings':
-        changes.bbs = { ...currentConfig.bbs, ...parameters };
+        changes.bbs = { ...currentConfig.bbs, ...call.parameters };
         return {
           description: 'Update BBS settings',
           preview: this.generatePreview('BBS Settings', currentConfig.bbs, changes.bbs!),
           changes,
+          ...call,
         };
 
       case 'update_ai_sysop':
         changes.ai = {
           ...currentConfig.ai,
-          sysop: { ...currentConfig.ai.sysop, ...parameters },
+          sysop: { ...currentConfig.ai.sysop, ...call.parameters },
         };
         return {
           description: 'Update AI SysOp settings',
           preview: this.generatePreview('AI SysOp', currentConfig.ai.sysop, changes.ai!.sysop),
           changes,
+          ...call,
         };
 
       case 'update_security_settings':
-        const securityChanges: any = { ...currentConfig.security };
-        if (parameters.passwordMinLength !== undefined) {
-          securityChanges.passwordMinLength = parameters.passwordMinLength;
+        const securityChanges = { ...currentConfig.security };
+        if (call.parameters.passwordMinLength !== undefined) {
+          securityChanges.passwordMinLength = call.parameters.passwordMinLength;
         }
-        if (parameters.maxLoginAttempts !== undefined) {
-          securityChanges.maxLoginAttempts = parameters.maxLoginAttempts;
+        if (call.parameters.maxLoginAttempts !== undefined) {
+          securityChanges.maxLoginAttempts = call.parameters.maxLoginAttempts;
         }
-        if (parameters.sessionTimeoutMinutes !== undefined) {
-          securityChanges.sessionTimeoutMinutes = parameters.sessionTimeoutMinutes;
+        if (call.parameters.sessionTimeoutMinutes !== undefined) {
+          securityChanges.sessionTimeoutMinutes = call.parameters.sessionTimeoutMinutes;
         }
-        if (parameters.messagesPerHour !== undefined) {
+        if (call.parameters.messagesPerHour !== undefined) {
           securityChanges.rateLimit = {
             ...currentConfig.security.rateLimit,
-            messagesPerHour: parameters.messagesPerHour,
+            messagesPerHour: call.parameters.messagesPerHour,
           };
         }
-        if (parameters.doorRequestsPerMinute !== undefined) {
+        if (call.parameters.doorRequestsPerMinute !== undefined) {
           securityChanges.rateLimit = {
             ...currentConfig.security.rateLimit,
-            doorRequestsPerMinute: parameters.doorRequestsPerMinute,
+            doorRequestsPerMinute: call.parameters.doorRequestsPerMinute,
           };
         }
         changes.security = securityChanges;
@@ -317,53 +522,238 @@ You: "I'll create a new message base called 'Gaming' for gaming discussions. TOO
           description: 'Update security settings',
           preview: this.generatePreview('Security', currentConfig.security, changes.security!),
           changes,
+          ...call,
         };
 
       case 'add_message_base':
         const newBase: MessageBaseConfig = {
           id: this.generateId(),
-          name: parameters.name,
-          description: parameters.description,
-          accessLevelRead: parameters.accessLevelRead ?? 0,
-          accessLevelWrite: parameters.accessLevelWrite ?? 10,
+          name: call.parameters.name,
+          description: call.parameters.description,
+          accessLevelRead: call.parameters.accessLevelRead ?? 0,
+          accessLevelWrite: call.parameters.accessLevelWrite ?? 10,
           sortOrder: (currentConfig.messageBases?.length || 0) + 1,
         };
         changes.messageBases = [...(currentConfig.messageBases || []), newBase];
         return {
-          description: `Add message base: ${parameters.name}`,
+          description: `Add message base: ${call.parameters.name}`,
           preview: `New message base:\n  Name: ${newBase.name}\n  Description: ${newBase.description}\n  Read Access: ${newBase.accessLevelRead}\n  Write Access: ${newBase.accessLevelWrite}`,
           changes,
+          ...call,
         };
 
       case 'update_message_base':
+        this.findMessageBase(currentConfig, call.parameters.id);
         const updatedBases = (currentConfig.messageBases || []).map(base =>
-          base.id === parameters.id ? { ...base, ...parameters } : base
+          base.id === call.parameters.id ? { ...base, ...call.parameters } : base
         );
         changes.messageBases = updatedBases;
-        const updatedBase = updatedBases.find(b => b.id === parameters.id);
+        const updatedBase = updatedBases.find(b => b.id === call.parameters.id);
         return {
           description: `Update message base: ${updatedBase?.name}`,
           preview: `Updated message base:\n  Name: ${updatedBase?.name}\n  Description: ${updatedBase?.description}\n  Read Access: ${updatedBase?.accessLevelRead}\n  Write Access: ${updatedBase?.accessLevelWrite}`,
           changes,
+          ...call,
         };
 
       case 'remove_message_base':
+        this.findMessageBase(currentConfig, call.parameters.id);
         const filteredBases = (currentConfig.messageBases || []).filter(
-          base => base.id !== parameters.id
+          base => base.id !== call.parameters.id
         );
-        const removedBase = (currentConfig.messageBases || []).find(b => b.id === parameters.id);
+        const removedBase = (currentConfig.messageBases || []).find(b => b.id === call.parameters.id);
         changes.messageBases = filteredBases;
         return {
           description: `Remove message base: ${removedBase?.name}`,
           preview: `Removing message base: ${removedBase?.name}`,
           changes,
+          ...call,
+        };
+
+      case 'update_door':
+        const door = this.listDoors(currentConfig).find(d => d.id === call.parameters.id);
+        if (!door) {
+          throw new Error(`No door has the ID ${call.parameters.id}`);
+        }
+        const updatedDoor: DoorConfig = {
+          ...door,
+          enabled: call.parameters.enabled ?? door.enabled,
+          minAccessLevel: call.parameters.minAccessLevel ?? door.minAccessLevel,
+        };
+        // Keep the door where it is in config.yaml; installed doors not in it yet go last
+        changes.doors = (currentConfig.doors || []).some(d => d.id === door.id)
+          ? (currentConfig.doors || []).map(d => (d.id === door.id ? updatedDoor : d))
+          : [...(currentConfig.doors || []), updatedDoor];
+        return {
+          description: `Update door: ${door.name}`,
+          preview: this.generatePreview(`Door ${door.name}`, door, updatedDoor),
+          changes,
+          ...call,
+        };
+
+      case 'update_daily_question':
+        if (call.parameters.schedule !== undefined && !/^(([01]?\d|2[0-3]):[0-5]\d|\*\/[1-9]\d*)$/.test(call.parameters.schedule)) {
+          throw new Error('schedule must be HH:MM for a daily time or */N to run every N minutes');
+        }
+        if (call.parameters.targetMessageBaseId !== undefined) {
+          this.findMessageBase(currentConfig, call.parameters.targetMessageBaseId);
+        }
+        const currentQuestion: DailyQuestionConfig = currentConfig.aiFeatures?.dailyQuestion ?? {
+          enabled: false,
+          schedule: '09:00',
+          questionStyle: 'auto' as const,
+        };
+        // Only the settings the tool knows about are copied across
+        const dailyQuestion: DailyQuestionConfig = {
+          enabled: call.parameters.enabled ?? currentQuestion.enabled,
+          schedule: call.parameters.schedule ?? currentQuestion.schedule,
+          questionStyle: call.parameters.questionStyle ?? currentQuestion.questionStyle,
+        };
+        const targetMessageBaseId = call.parameters.targetMessageBaseId ?? currentQuestion.targetMessageBaseId;
+        if (targetMessageBaseId !== undefined) {
+          dailyQuestion.targetMessageBaseId = targetMessageBaseId;
+        }
+        const aiPersonality = call.parameters.aiPersonality ?? currentQuestion.aiPersonality;
+        if (aiPersonality !== undefined) {
+          dailyQuestion.aiPersonality = aiPersonality;
+        }
+        changes.aiFeatures = {
+          ...currentConfig.aiFeatures,
+          dailyQuestion,
+        };
+        return {
+          description: 'Update daily question settings',
+          preview: this.generatePreview('Daily Question', currentQuestion, changes.aiFeatures!.dailyQuestion),
+          changes,
+          ...call,
+        };
+
+      case 'update_appearance':
+        for (const [screen, file] of Object.entries(call.parameters)) {
+          if (!/^[\w.-]+\.ans$/.test(file)) {
+            throw new Error(`${screen} must be an .ans file name without a directory`);
+          }
+        }
+        changes.appearance = { ...currentConfig.appearance, ...call.parameters };
+        return {
+          description: 'Update screens',
+          preview: this.generatePreview('Appearance', currentConfig.appearance, changes.appearance!),
+          changes,
+          ...call,
+        };
+
+      case 'set_user_access_level':
+        const user = this.findUser(call.parameters.handle);
+        if (user.accessLevel === call.parameters.accessLevel) {
+          throw new Error(`${user.handle} already has access level ${user.accessLevel}`);
+        }
+        if (user.accessLevel >= SYSOP_ACCESS_LEVEL && call.parameters.accessLevel < SYSOP_ACCESS_LEVEL) {
+          const sysops = this.services.userRepository!.findAll().filter(u => u.accessLevel >= SYSOP_ACCESS_LEVEL);
+          if (sysops.length <= 1) {
+            throw new Error(`${user.handle} is the only SysOp and can't be demoted`);
+          }
+        }
+        return {
+          description: `Change ${user.handle}'s access level to ${call.parameters.accessLevel}`,
+          preview: `User Access Level Changes:\n  ${user.handle}: ${user.accessLevel} → ${call.parameters.accessLevel}`,
+          changes,
+          ...call,
+        };
+
+      case 'send_announcement':
+        const priority = call.parameters.priority ?? AnnouncementPriority.NORMAL;
+        const expiry = call.parameters.expiresInHours ? `, expires after ${call.parameters.expiresInHours} hours` : '';
+        return {
+          description: 'Send an announcement to everyone online',
+          preview: `Announcement (${priority} priority${expiry}):\n  ${call.parameters.message}`,
+          changes,
+          ...call,
+        };
+
+      default:
+        throw new Error(`Unknown tool: ${(call as { tool: string }).tool}`);
+    }
+  }
+
+  /**
+   * Installed doors with their configured settings. Doors that are
+   * installed but not yet in config.yaml are enabled for everyone.
+   */
+  private listDoors(config: BBSConfig): DoorConfig[] {
+    const doors = [...(config.doors || [])];
+    for (const door of this.services.installedDoors?.() ?? []) {
+      if (!doors.some(d => d.id === door.id)) {
+        doors.push({ id: door.id, name: door.name, description: door.description, minAccessLevel: 0, enabled: true });
+      }
+    }
+    return doors;
+  }
+
+  /**
+   * Find a user by handle, or explain that there isn't one
+   */
+  private findUser(handle: string) {
+    const user = this.services.userRepository!.findByHandle(handle);
+    if (!user) {
+      throw new Error(`No user has the handle ${handle}`);
+    }
+    return user;
+  }
+
+  /**
+   * Carry out a confirmed action that isn't a configuration change
+   */
+  private async runAction(call: ActionCall): Promise<string> {
+    switch (call.tool) {
+      case 'set_user_access_level':
+        const user = this.findUser(call.parameters.handle);
+        this.services.userRepository!.updateAccessLevel(user.id, call.parameters.accessLevel);
+        return `${user.handle} now has access level ${call.parameters.accessLevel}.`;
+
+      case 'send_announcement':
+        const announcement: SystemAnnouncementPayload = {
+          message: call.parameters.message,
+          priority: call.parameters.priority ?? AnnouncementPriority.NORMAL,
+          expiresAt: call.parameters.expiresInHours
+            ? new Date(Date.now() + call.parameters.expiresInHours * 60 * 60 * 1000).toISOString()
+            : undefined,
         };
+        await this.services.notificationService!.broadcastToAuthenticated(
+          createNotificationEvent(NotificationEventType.SYSTEM_ANNOUNCEMENT, announcement)
+        );
+        return 'Announcement sent.';
 
       default:
-        throw new Error(`Unknown tool: ${toolName}`);
+        throw new Error(`Unknown action: ${(call as { tool: string }).tool}`);
     }
   }
 
+  /**
+   * Type a tool call whose parameters have been checked against the
+   * tool's schema
+   */
+  private toToolCall(tool: string, parameters: unknown): ToolCall {
+    return { tool, parameters } as ToolCall;
+  }
+
+  /**
+   * Whether a tool call acts on the running BBS rather than config.yaml
+   */
+  private isActionCall(call: ToolCall): call is ActionCall {
+    return ACTION_TOOLS.includes(call.tool);
+  }
+
+  /**
+   * Find a configured message base, or explain that there isn't one
+   */
+  private findMessageBase(config: BBSConfig, id: string): MessageBaseConfig {
+    const base = (config.messageBases || []).find(b => b.id === id);
+    if (!base) {
+      throw new Error(`No message base has the ID ${id}`);
+    }
+    return base;
+  }
+
   /**
    * Generate a preview of changes
    */
@@ -379,10 +769,47 @@ You: "I'll create a new message base called 'Gaming' for gaming discussions. TOO
     return lines.join('\n');
   }
 
+  /**
+   * Apply a change the SysOp confirmed. The tool call is validated again
+   * and re-run against the current configuration, so only what the tool
+   * allows ever reaches config.yaml.
+   */
+  async applyToolCall(
+    tool: string,
+    parameters: unknown
+  ): Promise<{ requiresRestart: boolean; message: string; description: string }> {
+    const definition = this.tools.find(t => t.name === tool);
+    if (!definition) {
+      throw createError.invalidInput(`Unknown configuration tool: ${tool}`);
+    }
+
+    const errors = validateToolInput(definition.inputSchema, parameters);
+    if (errors.length > 0) {
+      throw createError.invalidInput('Invalid configuration change', { errors });
+    }
+
+    let change: ConfigChange;
+    try {
+      change = this.executeToolCall(this.toToolCall(tool, parameters));
+    } catch (error) {
+      throw createError.invalidInput(error instanceof Error ? error.message : String(error));
+    }
+
+    const call = this.toToolCall(tool, parameters);
+    if (this.isActionCall(call)) {
+      const message = await this.runAction(call);
+      this.logger.info({ change: change.description }, 'Configuration assistant action applied');
+      return { requiresRestart: false, message, description: change.description };
+    }
+
+    const result = await this.applyChanges(change);
+    return { ...result, description: change.description };
+  }
+
   /**
    * Apply configuration changes
    */
-  async applyChanges(change: ConfigChange): Promise<{ requiresRestart: boolean; message: string }> {
+  async applyChanges(change: Pick<ConfigChange, 'description' | 'changes'>): Promise<{ requiresRestart: boolean; message: string }> {
     try {
       const currentConfig = this.configLoader.getConfig();
       const newConfig = this.mergeConfig(currentConfig, change.changes);
@@ -430,6 +857,11 @@ You: "I'll create a new message base called 'Gaming' for gaming discussions. TOO
       return true;
     }
     
+    // Scheduled tasks are registered at startup
+    if (changes.aiFeatures) {
+      return true;
+    }
+    
     // Changes that can be applied without restart:
     // - BBS settings (name, tagline, etc.) - displayed dynamically
     // - AI SysOp settings - can be reloaded
@@ -468,6 +900,7 @@ You: "I'll create a new message base called 'Gaming' for gaming discussions. TOO
    */
   resetConversation(): void {
     this.conversationHistory = [];
+    this.messages = [];
   }
 
   /**
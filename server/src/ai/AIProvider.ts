@@ -5,10 +5,100 @@
  * This allows the BBS to switch between providers without changing core logic.
  */
 
+/**
+ * BBS features that use AI, for usage accounting and budgets
+ */
+export const AI_FEATURES = [
+  'oracle',
+  'art',
+  'summarizer',
+  'digest',
+  'sysop',
+  'config',
+  'moderation',
+  'starter',
+  'other',
+] as const;
+
+export type AIFeature = typeof AI_FEATURES[number];
+
+/**
+ * Tokens used by one AI call
+ */
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
 export interface AIOptions {
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  feature?: AIFeature; // Which feature the call is for, for usage accounting
+  userId?: string; // Who the call is for, for per-user budgets
+  onUsage?: (usage: AIUsage) => void; // Providers report the call's token counts here
+}
+
+/**
+ * JSON schema for a tool's input. Only the subset validateToolInput
+ * understands: an object of flat, typed properties.
+ */
+export interface AIToolInputSchema {
+  type: 'object';
+  properties: Record<string, {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+  }>;
+  required?: string[];
+}
+
+/**
+ * A tool the model may call
+ */
+export interface AITool {
+  name: string;
+  description: string;
+  inputSchema: AIToolInputSchema;
+}
+
+/**
+ * A call the model made to one of the tools it was given
+ */
+export interface AIToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * What running a tool call produced, sent back to the model
+ */
+export interface AIToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+/**
+ * One turn of a conversation with tools
+ */
+export type AIToolMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: AIToolCall[] }
+  | { role: 'tool'; results: AIToolResult[] };
+
+/**
+ * The model's reply: its text, and any tools it wants run before it
+ * carries on
+ */
+export interface AIToolResponse {
+  text: string;
+  toolCalls: AIToolCall[];
 }
 
 export interface AIProvider {
@@ -17,17 +107,52 @@ export interface AIProvider {
    */
   generateCompletion(prompt: string, options?: AIOptions): Promise<string>;
 
+  /**
+   * Generate a text completion as it is produced, one chunk of text at a
+   * time. Aborting the signal stops the request.
+   */
+  streamCompletion?(prompt: string, options?: AIOptions, signal?: AbortSignal): AsyncIterable<string>;
+
   /**
    * Generate structured output from a prompt
    * Useful for function calling and structured data extraction
    */
   generateStructured<T>(prompt: string, schema: any, options?: AIOptions): Promise<T>;
+
+  /**
+   * Continue a conversation in which the model may call tools. The caller
+   * runs the tools, adds their results to the conversation and calls
+   * again until the model replies without calling any.
+   */
+  generateWithTools?(messages: AIToolMessage[], tools: AITool[], options?: AIOptions): Promise<AIToolResponse>;
+
+  /**
+   * List the models the provider can serve, for providers that host
+   * models locally
+   */
+  listModels?(): Promise<string[]>;
 }
 
 export interface AIConfig {
-  provider: 'anthropic' | 'openai' | 'ollama';
+  provider: 'anthropic' | 'openai' | 'ollama' | 'replay';
   model: string;
   apiKey: string;
+  baseUrl?: string; // OpenAI-compatible or Ollama server; defaults to the provider's usual address
+  replay?: AIReplayConfig; // Required for the replay provider
+}
+
+/**
+ * Settings for the replay provider, which records real exchanges to
+ * fixture files and plays them back so AI features can be tested offline.
+ *
+ * - record: always ask the upstream provider and save what it says
+ * - replay: play back recorded exchanges, recording any that are missing
+ * - strict: only play back; a prompt with no recording is an error
+ */
+export interface AIReplayConfig {
+  mode: 'record' | 'replay' | 'strict';
+  fixtureDir: string;
+  upstream?: 'anthropic' | 'openai' | 'ollama'; // Provider to record from, using the model, key and base URL above
 }
 
 /**
@@ -40,7 +165,8 @@ export type AIErrorCode =
   | 'OVERLOADED'
   | 'API_ERROR'
   | 'NETWORK_ERROR'
-  | 'INVALID_RESPONSE';
+  | 'INVALID_RESPONSE'
+  | 'BUDGET_EXCEEDED';
 
 /**
  * AI Provider Error
@@ -81,6 +207,8 @@ export class AIProviderError extends Error {
         return 'AI service is temporarily unavailable. Please try again shortly.';
       case 'NETWORK_ERROR':
         return 'Unable to reach AI service. Please check your connection.';
+      case 'BUDGET_EXCEEDED':
+        return 'The spirits are tired and must rest. Try again tomorrow.';
       default:
         return 'AI service encountered an error. Please try again.';
     }
@@ -1,5 +1,8 @@
 import type { AIProvider, AIConfig } from './AIProvider.js';
 import { AnthropicProvider } from './AnthropicProvider.js';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { OllamaProvider } from './OllamaProvider.js';
+import { ReplayProvider } from './ReplayProvider.js';
 
 /**
  * AI Provider Factory
@@ -17,12 +20,22 @@ export class AIProviderFactory {
         return new AnthropicProvider(config.apiKey, config.model);
 
       case 'openai':
-        // Future implementation
-        throw new Error('OpenAI provider not yet implemented');
+        return new OpenAIProvider(config.apiKey, config.model, config.baseUrl);
 
       case 'ollama':
-        // Future implementation
-        throw new Error('Ollama provider not yet implemented');
+        return new OllamaProvider(config.model, config.baseUrl);
+
+      case 'replay': {
+        if (!config.replay) {
+          throw new Error('The replay provider needs replay settings');
+        }
+        const { mode, fixtureDir, upstream } = config.replay;
+        return new ReplayProvider(
+          fixtureDir,
+          mode,
+          upstream ? AIProviderFactory.create({ ...config, provider: upstream }) : undefined
+        );
+      }
 
       default:
         throw new Error(`Unknown AI provider: ${config.provider}`);
@@ -36,9 +49,21 @@ export class AIProviderFactory {
   static createFromEnv(): AIProvider {
     const provider = (process.env.AI_PROVIDER || 'anthropic') as AIConfig['provider'];
     const model = process.env.AI_MODEL || 'claude-3-5-haiku-20241022';
-    const apiKey = process.env.ANTHROPIC_API_KEY || '';
+    const baseUrl = process.env.AI_BASE_URL || undefined;
+
+    // AI_PROVIDER=replay plays back AI_REPLAY_DIR, recording from AI_REPLAY_UPSTREAM
+    const replay: AIConfig['replay'] = provider === 'replay'
+      ? {
+          mode: (process.env.AI_REPLAY_MODE || 'strict') as NonNullable<AIConfig['replay']>['mode'],
+          fixtureDir: process.env.AI_REPLAY_DIR || 'fixtures/ai',
+          upstream: process.env.AI_REPLAY_UPSTREAM as NonNullable<AIConfig['replay']>['upstream'] || undefined,
+        }
+      : undefined;
+
+    const keyProvider = replay ? replay.upstream : provider;
+    const apiKey = (keyProvider === 'openai' ? process.env.OPENAI_API_KEY : process.env.ANTHROPIC_API_KEY) || '';
 
-    if (!apiKey && provider === 'anthropic') {
+    if (!apiKey && keyProvider === 'anthropic') {
       throw new Error('ANTHROPIC_API_KEY environment variable is required');
     }
 
@@ -46,6 +71,8 @@ export class AIProviderFactory {
       provider,
       model,
       apiKey,
+      baseUrl,
+      replay,
     });
   }
 }
@@ -311,4 +311,124 @@ describe('AIService', () => {
       expect(mockProvider.generateCompletion).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe('streamCompletion', () => {
+    const collect = async (chunks: AsyncIterable<string>) => {
+      const received: string[] = [];
+      for await (const chunk of chunks) {
+        received.push(chunk);
+      }
+      return received;
+    };
+
+    it('should pass through chunks from a streaming provider', async () => {
+      const signal = new AbortController().signal;
+      mockProvider.streamCompletion = vi.fn(async function* () {
+        yield 'Hello ';
+        yield 'caller';
+      });
+
+      const received = await collect(aiService.streamCompletion('Test prompt', { maxTokens: 50 }, signal));
+
+      expect(received).toEqual(['Hello ', 'caller']);
+      expect(mockProvider.streamCompletion).toHaveBeenCalledWith('Test prompt', { maxTokens: 50 }, signal);
+    });
+
+    it('should yield the whole completion when the provider cannot stream', async () => {
+      vi.mocked(mockProvider.generateCompletion).mockResolvedValue('All at once');
+
+      const received = await collect(aiService.streamCompletion('Test prompt'));
+
+      expect(received).toEqual(['All at once']);
+    });
+
+    it('should fall back to a completion when the stream fails before any text', async () => {
+      aiService.setRetryConfig(0, 10);
+      mockProvider.streamCompletion = vi.fn(async function* () {
+        throw new AIProviderError('Overloaded', 'OVERLOADED');
+      });
+      vi.mocked(mockProvider.generateCompletion).mockRejectedValue(new AIProviderError('Overloaded', 'OVERLOADED'));
+
+      const received = await collect(aiService.streamCompletion('Test prompt', undefined, undefined, 'Fallback'));
+
+      expect(received).toEqual(['Fallback']);
+    });
+
+    it('should not repeat a reply that failed part way through', async () => {
+      mockProvider.streamCompletion = vi.fn(async function* () {
+        yield 'Half a';
+        throw new AIProviderError('Network Error', 'NETWORK_ERROR');
+      });
+
+      const received: string[] = [];
+      await expect(async () => {
+        for await (const chunk of aiService.streamCompletion('Test prompt')) {
+          received.push(chunk);
+        }
+      }).rejects.toThrow('Network Error');
+
+      expect(received).toEqual(['Half a']);
+      expect(mockProvider.generateCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should end quietly when cancelled', async () => {
+      const controller = new AbortController();
+      mockProvider.streamCompletion = vi.fn(async function* () {
+        yield 'Before';
+        controller.abort();
+        throw new Error('Request was aborted.');
+      });
+
+      const received = await collect(aiService.streamCompletion('Test prompt', undefined, controller.signal));
+
+      expect(received).toEqual(['Before']);
+      expect(mockProvider.generateCompletion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('usage and budgets', () => {
+    let tracker: { checkBudget: ReturnType<typeof vi.fn>; record: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      tracker = { checkBudget: vi.fn(), record: vi.fn() };
+      aiService = new AIService(mockProvider, mockLogger, true, tracker as any);
+    });
+
+    it('should record the tokens a call used against its feature and user', async () => {
+      vi.mocked(mockProvider.generateCompletion).mockImplementation(async (_prompt, options) => {
+        options?.onUsage?.({ inputTokens: 12, outputTokens: 34 });
+        return 'The spirits speak';
+      });
+
+      await aiService.generateCompletion('Test prompt', { feature: 'oracle', userId: 'user-1' });
+
+      expect(tracker.checkBudget).toHaveBeenCalledWith('oracle', 'user-1');
+      expect(tracker.record).toHaveBeenCalledWith('oracle', 'user-1', { inputTokens: 12, outputTokens: 34 });
+    });
+
+    it('should rest the spirits without calling the provider when the budget is used up', async () => {
+      tracker.checkBudget.mockImplementation(() => {
+        throw new AIProviderError('Budget used up', 'BUDGET_EXCEEDED');
+      });
+
+      const result = await aiService.generateCompletion('Test prompt', { feature: 'oracle' }, 'Fallback');
+
+      expect(result).toBe(AIService.getFallbackMessage('tired'));
+      expect(mockProvider.generateCompletion).not.toHaveBeenCalled();
+      await expect(aiService.generateCompletion('Test prompt')).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+    });
+
+    it('should tag calls made through a feature provider', async () => {
+      vi.mocked(mockProvider.generateCompletion).mockImplementation(async (_prompt, options) => {
+        options?.onUsage?.({ inputTokens: 5, outputTokens: 6 });
+        return 'A summary';
+      });
+
+      const summarizer = aiService.forFeature('summarizer');
+      await summarizer.generateCompletion('Summarize', { userId: 'user-2' });
+
+      expect(tracker.checkBudget).toHaveBeenCalledWith('summarizer', 'user-2');
+      expect(tracker.record).toHaveBeenCalledWith('summarizer', 'user-2', { inputTokens: 5, outputTokens: 6 });
+    });
+  });
 });
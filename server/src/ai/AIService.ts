@@ -1,4 +1,5 @@
-import { AIProvider, AIOptions, AIProviderError } from './AIProvider.js';
+import { AIProvider, AIOptions, AIProviderError, type AIFeature } from './AIProvider.js';
+import type { AIUsageTracker, AIUsageReport } from './AIUsageTracker.js';
 import type { FastifyBaseLogger } from 'fastify';
 
 /**
@@ -14,7 +15,8 @@ export class AIService {
   constructor(
     private provider: AIProvider,
     private logger: FastifyBaseLogger,
-    private fallbackEnabled: boolean = true
+    private fallbackEnabled: boolean = true,
+    private usageTracker?: AIUsageTracker
   ) {}
 
   /**
@@ -27,10 +29,17 @@ export class AIService {
   ): Promise<string> {
     let lastError: AIProviderError | null = null;
 
+    let trackedOptions: AIOptions | undefined;
+    try {
+      trackedOptions = this.track(options);
+    } catch (error) {
+      return this.budgetExhausted(error, fallbackMessage);
+    }
+
     // Try with retries for retryable errors
     for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
       try {
-        const response = await this.provider.generateCompletion(prompt, options);
+        const response = await this.provider.generateCompletion(prompt, trackedOptions);
         
         // Log successful generation
         this.logger.debug(
@@ -89,6 +98,56 @@ export class AIService {
     throw lastError || new AIProviderError('AI request failed', 'API_ERROR');
   }
 
+  /**
+   * Stream a completion as the provider produces it. Providers that can't
+   * stream, and streams that fail before any text arrives, fall back to
+   * generateCompletion with its retries and fallback message. Aborting the
+   * signal ends the stream quietly.
+   */
+  async *streamCompletion(
+    prompt: string,
+    options?: AIOptions,
+    signal?: AbortSignal,
+    fallbackMessage?: string
+  ): AsyncIterable<string> {
+    if (!this.provider.streamCompletion) {
+      yield await this.generateCompletion(prompt, options, fallbackMessage);
+      return;
+    }
+
+    let trackedOptions: AIOptions | undefined;
+    try {
+      trackedOptions = this.track(options);
+    } catch (error) {
+      yield this.budgetExhausted(error, fallbackMessage);
+      return;
+    }
+
+    let started = false;
+    try {
+      for await (const chunk of this.provider.streamCompletion(prompt, trackedOptions, signal)) {
+        started = true;
+        yield chunk;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      this.logger.warn(
+        { error: error instanceof AIProviderError ? error.toJSON() : error, started },
+        'AI stream failed'
+      );
+
+      // Part of the reply has already reached the caller; retrying would repeat it
+      if (started) {
+        throw error;
+      }
+
+      yield await this.generateCompletion(prompt, options, fallbackMessage);
+    }
+  }
+
   /**
    * Generate structured output with error handling
    */
@@ -98,7 +157,7 @@ export class AIService {
     options?: AIOptions
   ): Promise<T | null> {
     try {
-      return await this.provider.generateStructured<T>(prompt, schema, options);
+      return await this.provider.generateStructured<T>(prompt, schema, this.track(options));
     } catch (error) {
       if (error instanceof AIProviderError) {
         this.logger.warn(
@@ -112,6 +171,95 @@ export class AIService {
     }
   }
 
+  /**
+   * A provider for services that call the AI directly, such as the art
+   * generator. Calls are tagged with the feature, counted against its
+   * budget and recorded, but get no retries or fallbacks.
+   */
+  forFeature(feature: AIFeature): AIProvider {
+    const provider = this.provider;
+    const streamCompletion = provider.streamCompletion;
+    const generateWithTools = provider.generateWithTools;
+
+    return {
+      generateCompletion: async (prompt, options) =>
+        provider.generateCompletion(prompt, this.track({ ...options, feature })),
+      generateStructured: async <T>(prompt: string, schema: any, options?: AIOptions) =>
+        provider.generateStructured<T>(prompt, schema, this.track({ ...options, feature })),
+      streamCompletion: streamCompletion
+        ? (prompt, options, signal) =>
+            streamCompletion.call(provider, prompt, this.track({ ...options, feature }), signal)
+        : undefined,
+      generateWithTools: generateWithTools
+        ? async (messages, tools, options) =>
+            generateWithTools.call(provider, messages, tools, this.track({ ...options, feature }))
+        : undefined,
+      listModels: provider.listModels ? () => provider.listModels!() : undefined,
+    };
+  }
+
+  /**
+   * Token usage per feature and per user, or null when usage isn't tracked
+   */
+  getUsageReport(days?: number): AIUsageReport | null {
+    return this.usageTracker ? this.usageTracker.getReport(days) : null;
+  }
+
+  /**
+   * List the models a local provider has installed. Returns null when the
+   * provider can't list models or can't be reached.
+   */
+  async listModels(): Promise<string[] | null> {
+    if (!this.provider.listModels) {
+      return null;
+    }
+
+    try {
+      return await this.provider.listModels();
+    } catch (error) {
+      this.logger.warn({ error }, 'Failed to list AI models');
+      return null;
+    }
+  }
+
+  /**
+   * Check the call against today's budgets and have the provider's token
+   * counts recorded. Throws BUDGET_EXCEEDED when a budget is used up.
+   */
+  private track(options: AIOptions | undefined): AIOptions | undefined {
+    const tracker = this.usageTracker;
+    if (!tracker) {
+      return options;
+    }
+
+    const feature = options?.feature ?? 'other';
+    tracker.checkBudget(feature, options?.userId);
+
+    return {
+      ...options,
+      onUsage: (usage) => {
+        tracker.record(feature, options?.userId, usage);
+        options?.onUsage?.(usage);
+      },
+    };
+  }
+
+  /**
+   * A budget is used up: give the tired-spirits fallback where the caller
+   * accepts a fallback, otherwise pass the error on
+   */
+  private budgetExhausted(error: unknown, fallbackMessage?: string): string {
+    if (!(error instanceof AIProviderError)) {
+      throw error;
+    }
+
+    this.logger.info({ error: error.toJSON() }, 'AI budget exhausted');
+    if (this.fallbackEnabled && fallbackMessage) {
+      return AIService.getFallbackMessage('tired');
+    }
+    throw error;
+  }
+
   /**
    * Check if AI service is available
    */
@@ -128,7 +276,7 @@ export class AIService {
   /**
    * Get fallback message for a specific context
    */
-  static getFallbackMessage(context: 'welcome' | 'greeting' | 'help' | 'error'): string {
+  static getFallbackMessage(context: 'welcome' | 'greeting' | 'help' | 'error' | 'tired'): string {
     switch (context) {
       case 'welcome':
         return '\x1b[36mWelcome to BaudAgain BBS!\x1b[0m\n\n' +
@@ -152,6 +300,12 @@ export class AIService {
                'Don\'t worry - all BBS features are still accessible!\n' +
                'Type MENU to continue.';
 
+      case 'tired':
+        return '\x1b[35mThe spirits are tired...\x1b[0m\n\n' +
+               'The AI has spent all its energy for today and will be back tomorrow.\n' +
+               'Everything else on the BBS still works!\n\n' +
+               'Type MENU to continue.';
+
       default:
         return 'AI service is temporarily unavailable.';
     }
@@ -34,6 +34,7 @@ export class AISysOp {
           systemPrompt: this.getSystemPrompt(),
           maxTokens: this.maxResponseLength,
           temperature: 0.8,
+          feature: 'sysop',
         },
         AIService.getFallbackMessage('welcome')
       );
@@ -66,6 +67,7 @@ export class AISysOp {
           systemPrompt: this.getSystemPrompt(),
           maxTokens: this.maxResponseLength,
           temperature: 0.8,
+          feature: 'sysop',
         },
         AIService.getFallbackMessage('greeting')
       );
@@ -80,14 +82,12 @@ export class AISysOp {
   /**
    * Respond to a user paging the SysOp
    */
-  async respondToPage(handle: string, question?: string): Promise<string> {
+  async respondToPage(handle: string, question?: string, userId?: string): Promise<string> {
     if (!this.config.ai.sysop.enabled) {
       return AIService.getFallbackMessage('help');
     }
 
-    const prompt = question
-      ? `User "${handle}" paged you with this question: "${question}". Help them out!`
-      : `User "${handle}" paged you for help. Offer assistance!`;
+    const prompt = this.getPagePrompt(handle, question);
 
     try {
       const response = await this.aiService.generateCompletion(
@@ -96,6 +96,8 @@ export class AISysOp {
           systemPrompt: this.getSystemPrompt(),
           maxTokens: this.maxResponseLength,
           temperature: 0.7,
+          feature: 'sysop',
+          userId,
         },
         AIService.getFallbackMessage('help')
       );
@@ -107,6 +109,94 @@ export class AISysOp {
     }
   }
 
+  /**
+   * Respond to a user paging the SysOp, streaming the reply as it is
+   * written. Chunks are formatted the same way as respondToPage.
+   */
+  async *streamPageResponse(
+    handle: string,
+    question?: string,
+    signal?: AbortSignal,
+    userId?: string
+  ): AsyncIterable<string> {
+    if (!this.config.ai.sysop.enabled) {
+      yield AIService.getFallbackMessage('help');
+      return;
+    }
+
+    let started = false;
+    try {
+      const chunks = this.aiService.streamCompletion(
+        this.getPagePrompt(handle, question),
+        {
+          systemPrompt: this.getSystemPrompt(),
+          maxTokens: this.maxResponseLength,
+          temperature: 0.7,
+          feature: 'sysop',
+          userId,
+        },
+        signal,
+        AIService.getFallbackMessage('help')
+      );
+
+      for await (const chunk of this.formatStream(chunks)) {
+        started = true;
+        yield chunk;
+      }
+    } catch (error) {
+      this.logger.error({ error, handle, question }, 'Failed to respond to page');
+      // Part of the reply may already be on screen; end it cleanly
+      yield started ? '...\x1b[0m\n' : AIService.getFallbackMessage('help');
+    }
+  }
+
+  /**
+   * Write a reply to a post on a message base. Unlike the other replies
+   * this one is stored as a message, so it is plain text, and failures
+   * are thrown rather than covered with a fallback message.
+   */
+  async generatePostReply(post: {
+    handle: string;
+    messageBaseName: string;
+    subject: string;
+    body: string;
+  }): Promise<string> {
+    const prompt = `User "${post.handle}" posted this in the "${post.messageBaseName}" message base.
+
+Subject: ${post.subject}
+
+${post.body}
+
+Write your reply to the post. Join the conversation as the SysOp: answer questions, add something to the discussion or encourage others to chime in.`;
+
+    const response = await this.aiService.generateCompletion(prompt, {
+      systemPrompt: `${this.getSystemPrompt()}
+FOR MESSAGE BASE REPLIES:
+- Write plain text only; do NOT use ANSI color codes
+- Don't repeat or quote the post; it is quoted for you
+- Don't add a subject line or a signature`,
+      maxTokens: this.maxResponseLength,
+      temperature: 0.8,
+      feature: 'sysop',
+    });
+
+    // Drop any color codes the personality asked for anyway
+    const reply = response.replace(/(\\x1b|\x1b)\[[0-9;]*m/g, '').trim();
+
+    return reply.length > this.maxResponseLength
+      ? reply.substring(0, this.maxResponseLength - 3) + '...'
+      : reply;
+  }
+
+  /**
+   * Get the prompt for a user paging the SysOp
+   */
+  private getPagePrompt(handle: string, question?: string): string {
+    return question
+      ? `User "${handle}" paged you with this question: "${question}". Help them out!`
+      : `User "${handle}" paged you for help. Offer assistance!`;
+  }
+
   /**
    * Get the system prompt for the AI SysOp
    */
@@ -176,6 +266,54 @@ When suggesting navigation, ONLY use these exact commands. Do NOT suggest any ot
     return formatted;
   }
 
+  /**
+   * formatResponse for a stream: escaped ANSI codes converted even when
+   * split between chunks, the same length limit, and colors reset at the end
+   */
+  private async *formatStream(chunks: AsyncIterable<string>): AsyncIterable<string> {
+    let pending = '';
+    let sent = 0;
+    let last = '';
+    let colored = false;
+    let truncated = false;
+
+    for await (const chunk of chunks) {
+      // Skip leading whitespace
+      pending += sent === 0 && !pending ? chunk.trimStart() : chunk;
+
+      // Hold back the start of an escaped code that may finish in the next chunk
+      const partial = pending.match(/\\(x1?)?$/)?.[0] ?? '';
+      let text = pending.slice(0, pending.length - partial.length).replace(/\\x1b/g, '\x1b');
+      pending = partial;
+
+      if (sent + text.length > this.maxResponseLength) {
+        text = text.substring(0, Math.max(0, this.maxResponseLength - 3 - sent)) + '...';
+        pending = '';
+        truncated = true;
+      }
+
+      if (text) {
+        colored = colored || text.includes('\x1b[');
+        last = text;
+        sent += text.length;
+        yield text;
+      }
+
+      if (truncated) {
+        break;
+      }
+    }
+
+    let ending = pending;
+    if (colored) {
+      ending += '\x1b[0m';
+    }
+    if (!(last + ending).endsWith('\n')) {
+      ending += '\n';
+    }
+    yield ending;
+  }
+
   /**
    * Check if AI SysOp is enabled
    */
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIUsageTracker } from './AIUsageTracker.js';
+import type { AIBudgetConfig } from '../config/ConfigLoader.js';
+import { BBSDatabase } from '../db/Database.js';
+import { AIUsageRepository } from '../db/repositories/AIUsageRepository.js';
+
+describe('AIUsageTracker', () => {
+  let db: BBSDatabase;
+  let repository: AIUsageRepository;
+  let budgets: AIBudgetConfig | undefined;
+  let tracker: AIUsageTracker;
+
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  } as any;
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new AIUsageRepository(db);
+    budgets = undefined;
+    tracker = new AIUsageTracker(repository, () => budgets, mockLogger);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+  });
+
+  it('should allow everything when no budgets are configured', () => {
+    tracker.record('oracle', 'user-a', { inputTokens: 100000, outputTokens: 100000 });
+
+    expect(() => tracker.checkBudget('oracle', 'user-a')).not.toThrow();
+  });
+
+  it('should stop a feature once its daily budget is used up', () => {
+    budgets = { perFeature: { oracle: 500 } };
+
+    tracker.record('oracle', 'user-a', { inputTokens: 200, outputTokens: 100 });
+    expect(() => tracker.checkBudget('oracle', 'user-b')).not.toThrow();
+
+    tracker.record('oracle', 'user-b', { inputTokens: 150, outputTokens: 50 });
+    expect(() => tracker.checkBudget('oracle', 'user-b')).toThrow(expect.objectContaining({ code: 'BUDGET_EXCEEDED' }));
+    expect(() => tracker.checkBudget('art', 'user-b')).not.toThrow();
+  });
+
+  it('should stop a user once their daily budget is used up across features', () => {
+    budgets = { perUser: 1000 };
+
+    tracker.record('oracle', 'user-a', { inputTokens: 400, outputTokens: 200 });
+    tracker.record('art', 'user-a', { inputTokens: 300, outputTokens: 100 });
+
+    expect(() => tracker.checkBudget('sysop', 'user-a')).toThrow(expect.objectContaining({ code: 'BUDGET_EXCEEDED' }));
+    expect(() => tracker.checkBudget('sysop', 'user-b')).not.toThrow();
+    // Calls made for nobody in particular only count against feature budgets
+    expect(() => tracker.checkBudget('digest')).not.toThrow();
+  });
+
+  it('should only count usage from today', () => {
+    budgets = { perUser: 1000 };
+    db.run(
+      'INSERT INTO ai_usage (feature, user_id, input_tokens, output_tokens, created_at) VALUES (?, ?, ?, ?, ?)',
+      ['oracle', 'user-a', 5000, 5000, new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString()]
+    );
+
+    expect(() => tracker.checkBudget('oracle', 'user-a')).not.toThrow();
+  });
+
+  it('should log and carry on when usage cannot be recorded', () => {
+    vi.spyOn(repository, 'record').mockImplementation(() => {
+      throw new Error('database is locked');
+    });
+
+    expect(() => tracker.record('oracle', 'user-a', { inputTokens: 1, outputTokens: 1 })).not.toThrow();
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should report usage per day and today against the budgets', () => {
+    budgets = { perUser: 2000, perFeature: { art: 1000 } };
+    tracker.record('oracle', 'user-a', { inputTokens: 100, outputTokens: 50 });
+    tracker.record('oracle', 'user-b', { inputTokens: 300, outputTokens: 200 });
+    tracker.record('digest', undefined, { inputTokens: 1000, outputTokens: 400 });
+
+    const report = tracker.getReport(7);
+    const today = new Date().toISOString().substring(0, 10);
+
+    expect(report.daily).toEqual([
+      { date: today, feature: 'digest', inputTokens: 1000, outputTokens: 400 },
+      { date: today, feature: 'oracle', inputTokens: 400, outputTokens: 250 },
+    ]);
+    expect(report.today.features).toEqual([
+      { feature: 'oracle', tokens: 650, budget: null },
+      { feature: 'art', tokens: 0, budget: 1000 },
+      { feature: 'digest', tokens: 1400, budget: null },
+    ]);
+    expect(report.today.topUsers).toEqual([
+      { userId: 'user-b', handle: 'Bob', tokens: 500 },
+      { userId: 'user-a', handle: 'Alice', tokens: 150 },
+    ]);
+    expect(report.perUserBudget).toBe(2000);
+  });
+});
@@ -0,0 +1,103 @@
+import { AIProviderError, AI_FEATURES, type AIFeature, type AIUsage } from './AIProvider.js';
+import type { AIUsageRepository, AIDailyFeatureUsage } from '../db/repositories/AIUsageRepository.js';
+import type { AIBudgetConfig } from '../config/ConfigLoader.js';
+import type { FastifyBaseLogger } from 'fastify';
+
+export interface AIUsageReport {
+  since: string;
+  daily: AIDailyFeatureUsage[];
+  today: {
+    features: { feature: AIFeature; tokens: number; budget: number | null }[];
+    topUsers: { userId: string; handle: string | null; tokens: number }[];
+  };
+  perUserBudget: number | null;
+}
+
+/**
+ * AI Usage Tracker
+ *
+ * Records the tokens each AI call uses and enforces the daily budgets from
+ * config.yaml, per caller and per feature. Budgets are read on every check
+ * so edits to the configuration apply without a restart.
+ */
+export class AIUsageTracker {
+  constructor(
+    private repository: AIUsageRepository,
+    private getBudgets: () => AIBudgetConfig | undefined,
+    private logger: FastifyBaseLogger
+  ) {}
+
+  /**
+   * Throw BUDGET_EXCEEDED if the feature, or the user, has used up
+   * today's budget
+   */
+  checkBudget(feature: AIFeature, userId?: string): void {
+    const budgets = this.getBudgets();
+    if (!budgets) {
+      return;
+    }
+
+    const today = AIUsageTracker.startOfToday();
+
+    const featureLimit = budgets.perFeature?.[feature];
+    if (featureLimit && this.repository.getFeatureTotalSince(feature, today) >= featureLimit) {
+      throw new AIProviderError(`Today's AI budget for ${feature} is used up`, 'BUDGET_EXCEEDED');
+    }
+
+    if (userId && budgets.perUser && this.repository.getUserTotalSince(userId, today) >= budgets.perUser) {
+      throw new AIProviderError(`Today's AI budget for user ${userId} is used up`, 'BUDGET_EXCEEDED');
+    }
+  }
+
+  /**
+   * Record the tokens a call used. Failing to record never fails the call.
+   */
+  record(feature: AIFeature, userId: string | undefined, usage: AIUsage): void {
+    try {
+      this.repository.record({ feature, userId, ...usage });
+    } catch (error) {
+      this.logger.warn({ error, feature, userId }, 'Failed to record AI usage');
+    }
+  }
+
+  /**
+   * Usage per feature per day for the last few days, and today's totals
+   * against the budgets
+   */
+  getReport(days: number = 14): AIUsageReport {
+    const budgets = this.getBudgets();
+    const today = AIUsageTracker.startOfToday();
+    const since = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const daily = this.repository.getDailyByFeature(since);
+    const todayKey = today.toISOString().substring(0, 10);
+
+    const features = AI_FEATURES.map(feature => {
+      const tokens = daily
+        .filter(row => row.date === todayKey && row.feature === feature)
+        .reduce((sum, row) => sum + row.inputTokens + row.outputTokens, 0);
+      return { feature, tokens, budget: budgets?.perFeature?.[feature] || null };
+    }).filter(entry => entry.tokens > 0 || entry.budget !== null);
+
+    const topUsers = this.repository.getTopUsersSince(today).map(user => ({
+      userId: user.userId,
+      handle: user.handle ?? null,
+      tokens: user.inputTokens + user.outputTokens,
+    }));
+
+    return {
+      since: since.toISOString(),
+      daily,
+      today: { features, topUsers },
+      perUserBudget: budgets?.perUser || null,
+    };
+  }
+
+  /**
+   * Budgets reset at midnight UTC
+   */
+  private static startOfToday(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+}
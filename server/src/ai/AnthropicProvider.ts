@@ -1,5 +1,12 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AIProvider, AIOptions, AIProviderError } from './AIProvider.js';
+import {
+  AIProvider,
+  AIOptions,
+  AIProviderError,
+  AITool,
+  AIToolMessage,
+  AIToolResponse,
+} from './AIProvider.js';
 
 /**
  * Anthropic AI Provider
@@ -37,6 +44,11 @@ export class AnthropicProvider implements AIProvider {
         ],
       });
 
+      options?.onUsage?.({
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      });
+
       // Extract text from the response
       const textContent = response.content.find((block) => block.type === 'text');
       if (!textContent || textContent.type !== 'text') {
@@ -45,51 +57,59 @@ export class AnthropicProvider implements AIProvider {
 
       return textContent.text;
     } catch (error) {
-      // Enhanced error handling with specific error types
-      if (error instanceof Error) {
-        // Check for specific Anthropic API errors
-        const errorMessage = error.message.toLowerCase();
-        
-        if (errorMessage.includes('api key')) {
-          throw new AIProviderError(
-            'Invalid or missing API key. Please check your ANTHROPIC_API_KEY environment variable.',
-            'INVALID_API_KEY',
-            error
-          );
-        }
-        
-        if (errorMessage.includes('rate limit')) {
-          throw new AIProviderError(
-            'Rate limit exceeded. Please try again in a moment.',
-            'RATE_LIMIT',
-            error
-          );
-        }
-        
-        if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
-          throw new AIProviderError(
-            'Request timed out. The AI service may be experiencing high load.',
-            'TIMEOUT',
-            error
-          );
-        }
-        
-        if (errorMessage.includes('overloaded')) {
-          throw new AIProviderError(
-            'AI service is currently overloaded. Please try again shortly.',
-            'OVERLOADED',
-            error
-          );
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Stream a text completion, yielding text as the model writes it
+   */
+  async *streamCompletion(
+    prompt: string,
+    options?: AIOptions,
+    signal?: AbortSignal
+  ): AsyncIterable<string> {
+    const stream = this.client.messages.stream(
+      {
+        model: this.model,
+        max_tokens: options?.maxTokens || 1024,
+        temperature: options?.temperature || 0.7,
+        system: options?.systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+      },
+      { signal }
+    );
+
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    try {
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          usage.inputTokens = event.message.usage.input_tokens;
+          usage.outputTokens = event.message.usage.output_tokens;
+        } else if (event.type === 'message_delta') {
+          usage.outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
         }
-        
-        // Generic error
-        throw new AIProviderError(
-          `Anthropic API error: ${error.message}`,
-          'API_ERROR',
-          error
-        );
       }
-      throw error;
+    } catch (error) {
+      // The caller cancelled; there is nothing left to report
+      if (signal?.aborted) {
+        return;
+      }
+      throw this.toProviderError(error);
+    } finally {
+      // Stop the request if the caller stopped reading early
+      stream.abort();
+      // A cancelled reply only reports what was counted before it stopped
+      if (usage.inputTokens > 0) {
+        options?.onUsage?.(usage);
+      }
     }
   }
 
@@ -124,6 +144,11 @@ export class AnthropicProvider implements AIProvider {
         tool_choice: { type: 'tool', name: 'structured_output' },
       });
 
+      options?.onUsage?.({
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      });
+
       // Extract tool use from response
       const toolUse = response.content.find((block) => block.type === 'tool_use');
       if (!toolUse || toolUse.type !== 'tool_use') {
@@ -140,6 +165,128 @@ export class AnthropicProvider implements AIProvider {
     }
   }
 
+  /**
+   * Continue a conversation in which the model may call tools
+   */
+  async generateWithTools(
+    messages: AIToolMessage[],
+    tools: AITool[],
+    options?: AIOptions
+  ): Promise<AIToolResponse> {
+    try {
+      const response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: options?.maxTokens || 1024,
+        temperature: options?.temperature || 0.7,
+        system: options?.systemPrompt,
+        messages: messages.map((message): Anthropic.MessageParam => {
+          switch (message.role) {
+            case 'user':
+              return { role: 'user', content: message.content };
+            case 'assistant':
+              return {
+                role: 'assistant',
+                content: [
+                  ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+                  ...(message.toolCalls ?? []).map(call => ({
+                    type: 'tool_use' as const,
+                    id: call.id,
+                    name: call.name,
+                    input: call.input,
+                  })),
+                ],
+              };
+            case 'tool':
+              return {
+                role: 'user',
+                content: message.results.map(result => ({
+                  type: 'tool_result' as const,
+                  tool_use_id: result.toolCallId,
+                  content: result.content,
+                  is_error: result.isError,
+                })),
+              };
+          }
+        }),
+        tools: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: { ...tool.inputSchema },
+        })),
+      });
+
+      options?.onUsage?.({
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      });
+
+      const toolCalls: AIToolResponse['toolCalls'] = [];
+      const text: string[] = [];
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          text.push(block.text);
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({ id: block.id, name: block.name, input: block.input as Record<string, unknown> });
+        }
+      }
+
+      return { text: text.join('\n').trim(), toolCalls };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Map an Anthropic SDK error onto an AIProviderError
+   */
+  private toProviderError(error: unknown): unknown {
+    if (!(error instanceof Error)) {
+      return error;
+    }
+
+    // Check for specific Anthropic API errors
+    const errorMessage = error.message.toLowerCase();
+
+    if (errorMessage.includes('api key')) {
+      return new AIProviderError(
+        'Invalid or missing API key. Please check your ANTHROPIC_API_KEY environment variable.',
+        'INVALID_API_KEY',
+        error
+      );
+    }
+
+    if (errorMessage.includes('rate limit')) {
+      return new AIProviderError(
+        'Rate limit exceeded. Please try again in a moment.',
+        'RATE_LIMIT',
+        error
+      );
+    }
+
+    if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
+      return new AIProviderError(
+        'Request timed out. The AI service may be experiencing high load.',
+        'TIMEOUT',
+        error
+      );
+    }
+
+    if (errorMessage.includes('overloaded')) {
+      return new AIProviderError(
+        'AI service is currently overloaded. Please try again shortly.',
+        'OVERLOADED',
+        error
+      );
+    }
+
+    // Generic error
+    return new AIProviderError(
+      `Anthropic API error: ${error.message}`,
+      'API_ERROR',
+      error
+    );
+  }
+
   /**
    * Get the current model name
    */
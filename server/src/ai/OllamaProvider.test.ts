@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OllamaProvider } from './OllamaProvider.js';
+import { AIProviderFactory } from './AIProviderFactory.js';
+
+describe('OllamaProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const reply = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+  const requestBody = (call = 0) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should be created by the factory without an API key', () => {
+    const provider = AIProviderFactory.create({ provider: 'ollama', model: 'llama3.2', apiKey: '' });
+
+    expect(provider).toBeInstanceOf(OllamaProvider);
+  });
+
+  describe('generateCompletion', () => {
+    it('should chat with the local model without streaming', async () => {
+      fetchMock.mockResolvedValue(reply({ message: { role: 'assistant', content: 'Greetings, caller.' } }));
+      const provider = new OllamaProvider('llama3.2');
+
+      const result = await provider.generateCompletion('Say hi', { systemPrompt: 'You are a SysOp', maxTokens: 50 });
+
+      expect(result).toBe('Greetings, caller.');
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+      expect(requestBody()).toEqual({
+        model: 'llama3.2',
+        messages: [
+          { role: 'system', content: 'You are a SysOp' },
+          { role: 'user', content: 'Say hi' },
+        ],
+        stream: false,
+        options: { num_predict: 50, temperature: 0.7 },
+      });
+    });
+
+    it('should report the tokens used', async () => {
+      fetchMock.mockResolvedValue(reply({ message: { content: 'Hi' }, prompt_eval_count: 21, eval_count: 3 }));
+      const onUsage = vi.fn();
+
+      await new OllamaProvider('llama3.2').generateCompletion('Say hi', { onUsage });
+
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 21, outputTokens: 3 });
+    });
+
+    it('should report timeouts and an unreachable server as retryable', async () => {
+      const provider = new OllamaProvider('llama3.2', 'http://gpu-box:11434');
+
+      fetchMock.mockRejectedValueOnce(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+      const timeout = await provider.generateCompletion('test').catch(e => e);
+      expect(timeout.code).toBe('TIMEOUT');
+      expect(timeout.isRetryable()).toBe(true);
+
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const network = await provider.generateCompletion('test').catch(e => e);
+      expect(network.code).toBe('NETWORK_ERROR');
+      expect(network.message).toContain('http://gpu-box:11434');
+    });
+
+    it('should pass on errors from the server', async () => {
+      fetchMock.mockResolvedValue(reply({ error: 'model "mistral" not found, try pulling it first' }, 404));
+      const provider = new OllamaProvider('mistral');
+
+      await expect(provider.generateCompletion('test')).rejects.toMatchObject({
+        code: 'API_ERROR',
+        message: expect.stringContaining('try pulling it first'),
+      });
+    });
+  });
+
+  describe('generateStructured', () => {
+    const schema = { type: 'object', properties: { mood: { type: 'string' } } };
+
+    it('should use JSON mode and describe the schema to the model', async () => {
+      fetchMock.mockResolvedValue(reply({ message: { content: '{"mood":"spooky"}' } }));
+      const provider = new OllamaProvider('llama3.2');
+
+      const result = await provider.generateStructured<{ mood: string }>('How is the BBS?', schema, {
+        systemPrompt: 'You are the Oracle',
+      });
+
+      expect(result).toEqual({ mood: 'spooky' });
+      expect(requestBody().format).toBe('json');
+      expect(requestBody().messages[0].content).toContain('You are the Oracle');
+      expect(requestBody().messages[0].content).toContain(JSON.stringify(schema));
+    });
+
+    it('should reject output that is not JSON', async () => {
+      fetchMock.mockResolvedValue(reply({ message: { content: 'The spirits are silent' } }));
+      const provider = new OllamaProvider('llama3.2');
+
+      await expect(provider.generateStructured('test', schema)).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('models', () => {
+    it('should list installed models', async () => {
+      fetchMock.mockResolvedValue(reply({ models: [{ name: 'llama3.2:latest' }, { name: 'qwen2.5:7b' }] }));
+      const provider = new OllamaProvider('llama3.2');
+
+      await expect(provider.listModels()).resolves.toEqual(['llama3.2:latest', 'qwen2.5:7b']);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/tags');
+      expect(fetchMock.mock.calls[0][1].method).toBe('GET');
+    });
+
+    it('should leave an installed model alone and pull a missing one', async () => {
+      fetchMock.mockResolvedValue(reply({ models: [{ name: 'llama3.2:latest' }] }));
+      await expect(new OllamaProvider('llama3.2').ensureModel()).resolves.toBe('available');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockReset();
+      fetchMock
+        .mockResolvedValueOnce(reply({ models: [{ name: 'llama3.2:latest' }] }))
+        .mockResolvedValueOnce(reply({ status: 'success' }));
+      await expect(new OllamaProvider('qwen2.5:7b').ensureModel()).resolves.toBe('pulled');
+      expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:11434/api/pull');
+      expect(requestBody(1)).toEqual({ model: 'qwen2.5:7b', stream: false });
+    });
+  });
+});
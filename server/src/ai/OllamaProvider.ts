@@ -0,0 +1,167 @@
+import { AIProvider, AIOptions, AIProviderError } from './AIProvider.js';
+import { requestJson } from './ProviderHttp.js';
+
+export const OLLAMA_BASE_URL = 'http://localhost:11434';
+
+// Local models on modest hardware can take a while to answer, and longer
+// still while the model is loaded into memory for the first request
+const DEFAULT_TIMEOUT_MS = 120000;
+
+// Pulling a model downloads gigabytes
+const PULL_TIMEOUT_MS = 60 * 60 * 1000;
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string }[];
+}
+
+/**
+ * Ollama AI Provider
+ *
+ * Implements the AIProvider interface against a local Ollama server, so
+ * the AI SysOp, doors and art generator can run without sending anything
+ * to a cloud vendor. Structured output uses Ollama's JSON mode.
+ */
+export class OllamaProvider implements AIProvider {
+  private baseUrl: string;
+
+  constructor(
+    private model: string = 'llama3.2',
+    baseUrl: string = OLLAMA_BASE_URL,
+    private timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Generate a text completion from a prompt
+   */
+  async generateCompletion(prompt: string, options?: AIOptions): Promise<string> {
+    const response = await this.chat(prompt, options?.systemPrompt, options);
+
+    const content = response.message?.content;
+    if (typeof content !== 'string') {
+      throw new AIProviderError('No text content in AI response', 'INVALID_RESPONSE');
+    }
+
+    return content;
+  }
+
+  /**
+   * Generate structured output from a prompt
+   * Ollama's JSON mode guarantees valid JSON; the schema goes in the
+   * system prompt so the model knows which fields to produce
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: any,
+    options?: AIOptions
+  ): Promise<T> {
+    const instructions = `Respond only with a JSON object matching this JSON schema:\n${JSON.stringify(schema)}`;
+    const systemPrompt = options?.systemPrompt ? `${options.systemPrompt}\n\n${instructions}` : instructions;
+
+    const response = await this.chat(prompt, systemPrompt, options, { format: 'json' });
+
+    try {
+      return JSON.parse(response.message?.content ?? '') as T;
+    } catch (error) {
+      throw new AIProviderError(
+        'AI response was not valid JSON',
+        'INVALID_RESPONSE',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * List the models installed on the Ollama server
+   */
+  async listModels(): Promise<string[]> {
+    const response = await requestJson<OllamaTagsResponse>(`${this.baseUrl}/api/tags`, {
+      method: 'GET',
+      timeoutMs: this.timeoutMs,
+    }, 'Ollama');
+
+    return (response.models ?? []).map(model => model.name);
+  }
+
+  /**
+   * Make sure the configured model is installed, pulling it if not.
+   * Returns whether it was already there or had to be pulled.
+   */
+  async ensureModel(): Promise<'available' | 'pulled'> {
+    const models = await this.listModels();
+    if (models.some(name => this.isConfiguredModel(name))) {
+      return 'available';
+    }
+
+    await requestJson(`${this.baseUrl}/api/pull`, {
+      body: { model: this.model, stream: false },
+      timeoutMs: PULL_TIMEOUT_MS,
+    }, 'Ollama');
+    return 'pulled';
+  }
+
+  /**
+   * Get the current model name
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Set a different model
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  /**
+   * Call the chat endpoint without streaming
+   */
+  private async chat(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AIOptions | undefined,
+    extra: Record<string, unknown> = {}
+  ): Promise<OllamaChatResponse> {
+    const messages = [
+      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+      { role: 'user', content: prompt },
+    ];
+
+    const response = await requestJson<OllamaChatResponse>(`${this.baseUrl}/api/chat`, {
+      body: {
+        model: this.model,
+        messages,
+        stream: false,
+        options: {
+          num_predict: options?.maxTokens || 1024,
+          temperature: options?.temperature ?? 0.7,
+        },
+        ...extra,
+      },
+      timeoutMs: this.timeoutMs,
+    }, 'Ollama');
+
+    options?.onUsage?.({
+      inputTokens: response.prompt_eval_count ?? 0,
+      outputTokens: response.eval_count ?? 0,
+    });
+
+    return response;
+  }
+
+  /**
+   * Ollama tags models "name:tag" and treats a bare name as ":latest"
+   */
+  private isConfiguredModel(name: string): boolean {
+    const withTag = (model: string) => (model.includes(':') ? model : `${model}:latest`);
+    return withTag(name) === withTag(this.model);
+  }
+}
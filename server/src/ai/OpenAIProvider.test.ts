@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { AIProviderError } from './AIProvider.js';
+
+describe('OpenAIProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const reply = (body: unknown, status = 200) =>
+    new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+
+  const requestBody = () => JSON.parse(fetchMock.mock.calls[0][1].body);
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('generateCompletion', () => {
+    it('should send a chat completion request and return the text', async () => {
+      fetchMock.mockResolvedValue(reply({ choices: [{ message: { content: 'Hello caller!' } }] }));
+      const provider = new OpenAIProvider('sk-test', 'gpt-4o-mini');
+
+      const result = await provider.generateCompletion('Say hi', {
+        systemPrompt: 'You are a SysOp',
+        maxTokens: 50,
+        temperature: 0,
+      });
+
+      expect(result).toBe('Hello caller!');
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/chat/completions');
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test');
+      expect(requestBody()).toEqual({
+        model: 'gpt-4o-mini',
+        max_tokens: 50,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: 'You are a SysOp' },
+          { role: 'user', content: 'Say hi' },
+        ],
+      });
+    });
+
+    it('should report the tokens used', async () => {
+      fetchMock.mockResolvedValue(reply({
+        choices: [{ message: { content: 'Hi' } }],
+        usage: { prompt_tokens: 17, completion_tokens: 2 },
+      }));
+      const onUsage = vi.fn();
+
+      await new OpenAIProvider('sk-test', 'gpt-4o-mini').generateCompletion('Say hi', { onUsage });
+
+      expect(onUsage).toHaveBeenCalledWith({ inputTokens: 17, outputTokens: 2 });
+    });
+
+    it('should use a custom base URL and skip the key for local servers', async () => {
+      fetchMock.mockResolvedValue(reply({ choices: [{ message: { content: 'ok' } }] }));
+      const provider = new OpenAIProvider('', 'llama-3.1-8b', 'http://localhost:1234/v1/');
+
+      await provider.generateCompletion('test');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:1234/v1/chat/completions');
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    });
+
+    it.each([
+      [401, 'INVALID_API_KEY'],
+      [429, 'RATE_LIMIT'],
+      [504, 'TIMEOUT'],
+      [503, 'OVERLOADED'],
+      [500, 'API_ERROR'],
+    ])('should map HTTP %i to %s', async (status, code) => {
+      fetchMock.mockResolvedValue(reply({ error: { message: 'Something went wrong' } }, status));
+      const provider = new OpenAIProvider('sk-test');
+
+      const error = await provider.generateCompletion('test').catch(e => e);
+
+      expect(error).toBeInstanceOf(AIProviderError);
+      expect(error.code).toBe(code);
+      expect(error.message).toContain('Something went wrong');
+    });
+
+    it('should report network failures and timeouts as retryable', async () => {
+      const provider = new OpenAIProvider('sk-test');
+
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const network = await provider.generateCompletion('test').catch(e => e);
+      expect(network.code).toBe('NETWORK_ERROR');
+      expect(network.isRetryable()).toBe(true);
+
+      fetchMock.mockRejectedValueOnce(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+      const timeout = await provider.generateCompletion('test').catch(e => e);
+      expect(timeout.code).toBe('TIMEOUT');
+    });
+
+    it('should reject responses without text', async () => {
+      fetchMock.mockResolvedValue(reply({ choices: [] }));
+      const provider = new OpenAIProvider('sk-test');
+
+      await expect(provider.generateCompletion('test')).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+
+  describe('generateStructured', () => {
+    const schema = { type: 'object', properties: { name: { type: 'string' } } };
+
+    it('should force the structured output function and parse its arguments', async () => {
+      fetchMock.mockResolvedValue(reply({
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ function: { name: 'structured_output', arguments: '{"name":"BaudAgain"}' } }],
+          },
+        }],
+      }));
+      const provider = new OpenAIProvider('sk-test');
+
+      const result = await provider.generateStructured<{ name: string }>('Name the BBS', schema);
+
+      expect(result).toEqual({ name: 'BaudAgain' });
+      expect(requestBody().tools[0].function).toMatchObject({ name: 'structured_output', parameters: schema });
+      expect(requestBody().tool_choice).toEqual({ type: 'function', function: { name: 'structured_output' } });
+    });
+
+    it('should accept plain JSON content from servers without tool support', async () => {
+      fetchMock.mockResolvedValue(reply({ choices: [{ message: { content: '{"name":"Local"}' } }] }));
+      const provider = new OpenAIProvider('', 'local-model', 'http://localhost:8000/v1');
+
+      await expect(provider.generateStructured('Name the BBS', schema)).resolves.toEqual({ name: 'Local' });
+    });
+
+    it('should reject output that is not JSON', async () => {
+      fetchMock.mockResolvedValue(reply({ choices: [{ message: { content: 'Sorry, no.' } }] }));
+      const provider = new OpenAIProvider('sk-test');
+
+      await expect(provider.generateStructured('Name the BBS', schema)).rejects.toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { AIProvider, AIOptions, AIProviderError } from './AIProvider.js';
+import { requestJson } from './ProviderHttp.js';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * OpenAI-compatible AI Provider
+ *
+ * Implements the AIProvider interface against the chat completions API.
+ * The base URL is configurable, so besides OpenAI itself this works with
+ * local servers that speak the same API (LM Studio, vLLM, llama.cpp).
+ */
+export class OpenAIProvider implements AIProvider {
+  private baseUrl: string;
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'gpt-4o-mini',
+    baseUrl: string = OPENAI_BASE_URL,
+    private timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Generate a text completion from a prompt
+   */
+  async generateCompletion(prompt: string, options?: AIOptions): Promise<string> {
+    const response = await this.createChatCompletion(prompt, options);
+
+    const content = response.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new AIProviderError('No text content in AI response', 'INVALID_RESPONSE');
+    }
+
+    return content;
+  }
+
+  /**
+   * Generate structured output from a prompt
+   * Forces a call to a single function whose parameters are the schema
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: any,
+    options?: AIOptions
+  ): Promise<T> {
+    const response = await this.createChatCompletion(prompt, options, {
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'structured_output',
+            description: 'Output structured data according to the schema',
+            parameters: schema,
+          },
+        },
+      ],
+      tool_choice: { type: 'function', function: { name: 'structured_output' } },
+    });
+
+    const message = response.choices?.[0]?.message;
+    // Some local servers ignore tool_choice and answer with plain JSON instead
+    const json = message?.tool_calls?.[0]?.function?.arguments ?? message?.content;
+    if (!json) {
+      throw new AIProviderError('No tool call in AI response', 'INVALID_RESPONSE');
+    }
+
+    try {
+      return JSON.parse(json) as T;
+    } catch (error) {
+      throw new AIProviderError(
+        'AI response was not valid JSON',
+        'INVALID_RESPONSE',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Get the current model name
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Set a different model
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  /**
+   * Call the chat completions endpoint
+   */
+  private async createChatCompletion(
+    prompt: string,
+    options: AIOptions | undefined,
+    extra: Record<string, unknown> = {}
+  ): Promise<ChatCompletionResponse> {
+    const messages = [
+      ...(options?.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+      { role: 'user', content: prompt },
+    ];
+
+    const response = await requestJson<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, {
+      // Local servers usually don't check the key, so only send one if set
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: {
+        model: this.model,
+        max_tokens: options?.maxTokens || 1024,
+        temperature: options?.temperature ?? 0.7,
+        messages,
+        ...extra,
+      },
+      timeoutMs: this.timeoutMs,
+    }, 'OpenAI');
+
+    if (response.usage) {
+      options?.onUsage?.({
+        inputTokens: response.usage.prompt_tokens ?? 0,
+        outputTokens: response.usage.completion_tokens ?? 0,
+      });
+    }
+
+    return response;
+  }
+}
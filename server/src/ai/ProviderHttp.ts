@@ -0,0 +1,104 @@
+import { AIProviderError, type AIErrorCode } from './AIProvider.js';
+
+/**
+ * Provider HTTP Helpers
+ *
+ * Shared by providers that call their API with plain fetch: JSON requests
+ * with a timeout, and failures mapped onto AIProviderError codes the same
+ * way Anthropic failures are, so AIService retries behave alike.
+ */
+
+export interface JsonRequest {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: unknown;
+  timeoutMs: number;
+}
+
+/**
+ * Send a request and parse the JSON response. `service` names the API in
+ * error messages, e.g. "OpenAI".
+ */
+export async function requestJson<T>(url: string, request: JsonRequest, service: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: request.method ?? 'POST',
+      headers: {
+        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...request.headers,
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: AbortSignal.timeout(request.timeoutMs),
+    });
+  } catch (error) {
+    const cause = error instanceof Error ? error : undefined;
+    if (cause?.name === 'TimeoutError' || cause?.name === 'AbortError') {
+      throw new AIProviderError(
+        'Request timed out. The AI service may be experiencing high load.',
+        'TIMEOUT',
+        cause
+      );
+    }
+    throw new AIProviderError(
+      `Unable to reach the ${service} service at ${new URL(url).origin}`,
+      'NETWORK_ERROR',
+      cause
+    );
+  }
+
+  if (!response.ok) {
+    const detail = await readErrorMessage(response);
+    throw new AIProviderError(
+      `${service} API error (${response.status}): ${detail}`,
+      errorCodeForStatus(response.status),
+      new Error(detail)
+    );
+  }
+
+  try {
+    return await response.json() as T;
+  } catch (error) {
+    throw new AIProviderError(
+      'AI service returned a response that is not JSON',
+      'INVALID_RESPONSE',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Map an HTTP status to the error code AIService uses to decide on retries
+ */
+export function errorCodeForStatus(status: number): AIErrorCode {
+  switch (status) {
+    case 401:
+    case 403:
+      return 'INVALID_API_KEY';
+    case 429:
+      return 'RATE_LIMIT';
+    case 408:
+    case 504:
+      return 'TIMEOUT';
+    case 502:
+    case 503:
+    case 529:
+      return 'OVERLOADED';
+    default:
+      return 'API_ERROR';
+  }
+}
+
+/**
+ * Pull the error message out of a failed response: `{ error: { message } }`
+ * for OpenAI, `{ error }` for Ollama, and often plain text elsewhere
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    return body?.error?.message || (typeof body?.error === 'string' ? body.error : '') || text || response.statusText;
+  } catch {
+    return text || response.statusText;
+  }
+}
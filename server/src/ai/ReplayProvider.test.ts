@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ReplayProvider } from './ReplayProvider.js';
+import { AIProviderFactory } from './AIProviderFactory.js';
+import { AIProvider } from './AIProvider.js';
+import { ANSIArtGenerator } from '../services/ANSIArtGenerator.js';
+import { MessageSummarizer } from '../services/MessageSummarizer.js';
+import { ConversationStarter } from '../services/ConversationStarter.js';
+import type { Message } from '../db/repositories/MessageRepository.js';
+
+// Recorded exchanges for the offline feature tests below
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+describe('ReplayProvider', () => {
+  let fixtureDir: string;
+  let upstream: AIProvider;
+
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  } as any;
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    upstream = {
+      generateCompletion: vi.fn(async (_prompt, options) => {
+        options?.onUsage?.({ inputTokens: 10, outputTokens: 4 });
+        return 'Greetings, caller.';
+      }),
+      generateStructured: vi.fn().mockResolvedValue({ flagged: false }),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('should be created by the factory with its upstream provider', () => {
+    const provider = AIProviderFactory.create({
+      provider: 'replay',
+      model: 'llama3.2',
+      apiKey: '',
+      replay: { mode: 'record', fixtureDir, upstream: 'ollama' },
+    });
+
+    expect(provider).toBeInstanceOf(ReplayProvider);
+    expect(() => AIProviderFactory.create({ provider: 'replay', model: 'x', apiKey: '' })).toThrow('replay settings');
+  });
+
+  it('should record an exchange and play it back without the upstream provider', async () => {
+    const recorder = new ReplayProvider(fixtureDir, 'record', upstream);
+    const recordedUsage = vi.fn();
+
+    const recorded = await recorder.generateCompletion('Say hi', { systemPrompt: 'You are a SysOp', onUsage: recordedUsage });
+
+    expect(recorded).toBe('Greetings, caller.');
+    expect(recordedUsage).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 4 });
+    expect(fs.readdirSync(fixtureDir)).toHaveLength(1);
+
+    const player = new ReplayProvider(fixtureDir, 'strict');
+    const replayedUsage = vi.fn();
+
+    await expect(player.generateCompletion('Say hi', {
+      systemPrompt: 'You are a SysOp',
+      feature: 'sysop',
+      userId: 'user-1',
+      onUsage: replayedUsage,
+    })).resolves.toBe('Greetings, caller.');
+    expect(replayedUsage).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 4 });
+  });
+
+  it('should key structured output by its schema', async () => {
+    const recorder = new ReplayProvider(fixtureDir, 'record', upstream);
+    await recorder.generateStructured('Is this spam?', { type: 'object' });
+
+    const player = new ReplayProvider(fixtureDir, 'strict');
+
+    await expect(player.generateStructured('Is this spam?', { type: 'object' })).resolves.toEqual({ flagged: false });
+    await expect(player.generateStructured('Is this spam?', { type: 'array' })).rejects.toMatchObject({ code: 'API_ERROR' });
+    await expect(player.generateCompletion('Is this spam?')).rejects.toMatchObject({ code: 'API_ERROR' });
+  });
+
+  it('should fail on unknown prompts in strict mode', async () => {
+    const player = new ReplayProvider(fixtureDir, 'strict', upstream);
+
+    await expect(player.generateCompletion('Never recorded')).rejects.toThrow('No recorded generateCompletion response');
+    expect(upstream.generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should record only the exchanges that are missing in replay mode', async () => {
+    const provider = new ReplayProvider(fixtureDir, 'replay', upstream);
+
+    await provider.generateCompletion('Say hi', { maxTokens: 50 });
+    await provider.generateCompletion('Say hi', { maxTokens: 50 });
+    await provider.generateCompletion('Say hi', { maxTokens: 60 });
+
+    expect(upstream.generateCompletion).toHaveBeenCalledTimes(2);
+    expect(fs.readdirSync(fixtureDir)).toHaveLength(2);
+  });
+
+  it('should refuse to record without an upstream provider', () => {
+    expect(() => new ReplayProvider(fixtureDir, 'record')).toThrow('upstream provider');
+  });
+
+  describe('offline features', () => {
+    const provider = new ReplayProvider(FIXTURE_DIR, 'strict');
+
+    const message = (id: string, userId: string, subject: string, body: string, createdAt: Date): Message => ({
+      id,
+      baseId: 'base-retro',
+      userId,
+      subject,
+      body,
+      createdAt,
+      isDeleted: false,
+      authorHandle: userId === 'user-a' ? 'Alice' : 'Bob',
+    } as Message);
+
+    it('should draw art', async () => {
+      const generator = new ANSIArtGenerator(provider, mockLogger);
+
+      const art = await generator.generateArt({
+        description: 'a cat sitting on a floppy disk',
+        style: 'retro',
+        width: 40,
+        height: 8,
+        applyColors: false,
+      });
+
+      expect(art.content.split('\n').length).toBeGreaterThan(3);
+      expect(art.content).toContain('/\\_/\\');
+    });
+
+    it('should summarize a discussion', async () => {
+      const summarizer = new MessageSummarizer(provider, mockLogger);
+      const messages = [
+        message('m1', 'user-a', 'Best modem ever?', 'My USRobotics Courier HST never let me down.', new Date('2024-05-01T12:00:00Z')),
+        message('m2', 'user-b', 'Re: Best modem ever?', 'Hayes Smartmodem 2400 for me. That handshake sound!', new Date('2024-05-02T12:00:00Z')),
+      ];
+
+      const summary = await summarizer.summarizeMessages(messages, {
+        messageBaseId: 'base-retro',
+        messageBaseName: 'Retro Hardware',
+      });
+
+      expect(summary.summary).toContain('modem');
+      expect(summary.keyPoints).toHaveLength(2);
+      expect(summary.activeTopics).toEqual(['Modems', 'Nostalgia']);
+    });
+
+    it('should ask a discussion question', async () => {
+      const starter = new ConversationStarter(provider, mockLogger);
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+      const question = await starter.generateQuestion({
+        messageBaseId: 'base-retro',
+        messageBaseName: 'Retro Hardware',
+        recentMessages: [
+          message('m1', 'user-a', 'Best modem ever?', 'My USRobotics Courier HST never let me down.', twoHoursAgo),
+        ],
+        style: 'technical',
+      });
+
+      expect(question.question).toBe('What was the trickiest modem init string you ever had to get working, and how did you crack it?');
+      expect(question.style).toBe('technical');
+    });
+  });
+});
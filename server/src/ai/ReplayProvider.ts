@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { AIProvider, AIOptions, AIProviderError, AIReplayConfig, AIUsage } from './AIProvider.js';
+
+type ReplayMethod = 'generateCompletion' | 'generateStructured';
+
+/**
+ * One recorded exchange, as stored in its fixture file
+ */
+export interface ReplayFixture {
+  method: ReplayMethod;
+  prompt: string;
+  options: Pick<AIOptions, 'systemPrompt' | 'maxTokens' | 'temperature'>;
+  schema?: unknown;
+  response: unknown;
+  usage?: AIUsage;
+}
+
+/**
+ * Replay AI Provider
+ *
+ * Records real exchanges with an upstream provider to fixture files and
+ * plays them back later, so AI features can be tested end-to-end without
+ * an API key or network. Each exchange is a JSON file named after a hash
+ * of everything that shapes the reply: the method, prompt, system prompt,
+ * token limit, temperature and schema. Who the call is for and which
+ * feature made it don't change the reply, so they aren't part of the key.
+ */
+export class ReplayProvider implements AIProvider {
+  constructor(
+    private fixtureDir: string,
+    private mode: AIReplayConfig['mode'] = 'strict',
+    private upstream?: AIProvider
+  ) {
+    if (mode === 'record' && !upstream) {
+      throw new Error('The replay provider needs an upstream provider to record from');
+    }
+  }
+
+  /**
+   * Generate a text completion from a prompt
+   */
+  async generateCompletion(prompt: string, options?: AIOptions): Promise<string> {
+    const response = await this.exchange('generateCompletion', prompt, options, undefined, (upstreamOptions) =>
+      this.upstream!.generateCompletion(prompt, upstreamOptions)
+    );
+
+    if (typeof response !== 'string') {
+      throw new AIProviderError('Recorded response is not text', 'INVALID_RESPONSE');
+    }
+
+    return response;
+  }
+
+  /**
+   * Generate structured output from a prompt
+   */
+  async generateStructured<T>(prompt: string, schema: any, options?: AIOptions): Promise<T> {
+    return this.exchange('generateStructured', prompt, options, schema, (upstreamOptions) =>
+      this.upstream!.generateStructured<T>(prompt, schema, upstreamOptions)
+    ) as Promise<T>;
+  }
+
+  /**
+   * The fixture file an exchange is recorded in
+   */
+  fixturePath(method: ReplayMethod, prompt: string, options?: AIOptions, schema?: unknown): string {
+    const key = createHash('sha256')
+      .update(JSON.stringify({
+        method,
+        prompt,
+        systemPrompt: options?.systemPrompt,
+        maxTokens: options?.maxTokens,
+        temperature: options?.temperature,
+        schema,
+      }))
+      .digest('hex')
+      .substring(0, 16);
+
+    return path.join(this.fixtureDir, `${key}.json`);
+  }
+
+  /**
+   * Play back the recorded reply to an exchange, or ask upstream and
+   * record it, depending on the mode
+   */
+  private async exchange(
+    method: ReplayMethod,
+    prompt: string,
+    options: AIOptions | undefined,
+    schema: unknown,
+    callUpstream: (options: AIOptions) => Promise<unknown>
+  ): Promise<unknown> {
+    const file = this.fixturePath(method, prompt, options, schema);
+
+    if (this.mode !== 'record' && fs.existsSync(file)) {
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as ReplayFixture;
+      if (fixture.usage) {
+        options?.onUsage?.(fixture.usage);
+      }
+      return fixture.response;
+    }
+
+    if (this.mode === 'strict' || !this.upstream) {
+      throw new AIProviderError(
+        `No recorded ${method} response for this prompt (expected ${file}). ` +
+        'Record it by running with the replay provider in record mode.',
+        'API_ERROR'
+      );
+    }
+
+    let usage: AIUsage | undefined;
+    const response = await callUpstream({
+      ...options,
+      onUsage: (reported) => {
+        usage = reported;
+        options?.onUsage?.(reported);
+      },
+    });
+
+    const fixture: ReplayFixture = {
+      method,
+      prompt,
+      options: {
+        systemPrompt: options?.systemPrompt,
+        maxTokens: options?.maxTokens,
+        temperature: options?.temperature,
+      },
+      schema,
+      response,
+      usage,
+    };
+
+    fs.mkdirSync(this.fixtureDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+
+    return response;
+  }
+}
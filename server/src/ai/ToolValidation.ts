@@ -0,0 +1,71 @@
+import type { AIToolInputSchema } from './AIProvider.js';
+
+/**
+ * Check a tool call's input against the tool's schema before acting on
+ * it. Models sometimes send the wrong type, a value out of range or a
+ * field the tool doesn't have, so nothing is trusted until it passes.
+ *
+ * Returns one message per problem; an empty list means the input is valid.
+ */
+export function validateToolInput(schema: AIToolInputSchema, input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['Input must be an object'];
+  }
+
+  const errors: string[] = [];
+  const values = input as Record<string, unknown>;
+
+  for (const name of schema.required ?? []) {
+    if (values[name] === undefined || values[name] === null) {
+      errors.push(`${name} is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    const property = schema.properties[name];
+    if (!property) {
+      errors.push(`${name} is not a known setting`);
+      continue;
+    }
+    // Leaving a field out keeps its current value; null is not a way to
+    // clear it, so it fails the type check like any other wrong value
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (property.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          errors.push(`${name} must be text`);
+        } else if (property.enum && !property.enum.includes(value)) {
+          errors.push(`${name} must be one of: ${property.enum.join(', ')}`);
+        } else if (property.minLength !== undefined && value.trim().length < property.minLength) {
+          errors.push(`${name} must be at least ${property.minLength} characters`);
+        } else if (property.maxLength !== undefined && value.length > property.maxLength) {
+          errors.push(`${name} must be at most ${property.maxLength} characters`);
+        }
+        break;
+
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`${name} must be a number`);
+        } else if (property.type === 'integer' && !Number.isInteger(value)) {
+          errors.push(`${name} must be a whole number`);
+        } else if (property.minimum !== undefined && value < property.minimum) {
+          errors.push(`${name} must be at least ${property.minimum}`);
+        } else if (property.maximum !== undefined && value > property.maximum) {
+          errors.push(`${name} must be at most ${property.maximum}`);
+        }
+        break;
+
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push(`${name} must be true or false`);
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
@@ -2,7 +2,7 @@
  * AI Module
  * 
  * Provides AI capabilities for the BBS including:
- * - AI provider abstraction (Anthropic, OpenAI, Ollama)
+ * - AI provider abstraction (Anthropic, OpenAI, Ollama, and record/replay for tests)
  * - AI SysOp agent for user interactions
  * - AI Configuration Assistant for BBS management
  * - AI-powered door games
@@ -10,6 +10,9 @@
 
 export * from './AIProvider.js';
 export * from './AnthropicProvider.js';
+export * from './OpenAIProvider.js';
+export * from './OllamaProvider.js';
+export * from './ReplayProvider.js';
 export * from './AIProviderFactory.js';
 export * from './AIService.js';
 export * from './AISysOp.js';
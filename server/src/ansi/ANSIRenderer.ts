@@ -1,7 +1,7 @@
 import { readFileSync, existsSync } from 'fs';
 import { join, resolve } from 'path';
 import { ANSIRenderingService, RenderContext, RENDER_CONTEXTS } from './ANSIRenderingService.js';
-import { TERMINAL_WIDTH } from '@baudagain/shared';
+import { CP437 } from './CP437.js';
 
 export class ANSIRenderer {
   private templates: Map<string, string> = new Map();
@@ -16,7 +16,8 @@ export class ANSIRenderer {
   }
 
   /**
-   * Load a template from disk
+   * Load a template from disk. Templates may be saved as UTF-8 or as
+   * classic CP437 art; either way they are held as Unicode.
    */
   private loadTemplate(templateName: string): string {
     const templatePath = join(this.templateDir, templateName);
@@ -25,7 +26,7 @@ export class ANSIRenderer {
       throw new Error(`Template not found: ${templatePath}`);
     }
 
-    const content = readFileSync(templatePath, 'utf-8');
+    const content = CP437.decodeFile(readFileSync(templatePath));
     this.templates.set(templateName, content);
     return content;
   }
@@ -44,7 +45,7 @@ export class ANSIRenderer {
    * Substitute variables in template
    * Variables are in the format {{variable_name}}
    */
-  private substituteVariables(template: string, variables: Record<string, string>): string {
+  substituteVariables(template: string, variables: Record<string, string>): string {
     return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
       return variables[key] !== undefined ? variables[key] : match;
     });
@@ -105,7 +106,7 @@ export class ANSIRenderer {
     // Use ANSIRenderingService to render the frame
     return this.renderingService.renderFrame(
       lines,
-      { width: TERMINAL_WIDTH, style: 'double' },
+      { width: context.width, style: 'double' },
       context
     );
   }
@@ -129,7 +130,7 @@ export class ANSIRenderer {
     return this.renderingService.renderFrameWithTitle(
       'BAUDAGAIN BBS - GOODBYE',
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
+      { width: context.width, style: 'double' },
       context,
       'cyan'
     );
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { ANSITerminalMode } from './ANSITerminalMode.js';
+import { ANSIFrameBuilder } from './ANSIFrameBuilder.js';
+import { ANSIWidthCalculator } from './ANSIWidthCalculator.js';
+
+describe('ANSITerminalMode', () => {
+  const coloured = '\x1b[1;33mHello\x1b[0m ╔══╗ ✓';
+
+  describe('apply', () => {
+    it('should leave ANSI output untouched', () => {
+      expect(ANSITerminalMode.apply(coloured, 'ansi')).toBe(coloured);
+      expect(ANSITerminalMode.apply(coloured, undefined)).toBe(coloured);
+    });
+
+    it('should strip escapes but keep glyphs for UTF-8', () => {
+      expect(ANSITerminalMode.apply(coloured, 'utf8')).toBe('Hello ╔══╗ ✓');
+    });
+
+    it('should strip escapes and transliterate glyphs for ASCII', () => {
+      expect(ANSITerminalMode.apply(coloured, 'ascii')).toBe('Hello +==+ v');
+    });
+
+    it('should keep echo control sequences in every mode', () => {
+      const output = '\x1b]8001;0\x07\x1b[97mPassword: \x1b[0m';
+
+      expect(ANSITerminalMode.apply(output, 'ascii')).toBe('\x1b]8001;0\x07Password: ');
+      expect(ANSITerminalMode.apply(output, 'utf8')).toBe('\x1b]8001;0\x07Password: ');
+    });
+  });
+
+  describe('stripEscapes', () => {
+    it('should remove cursor movement and screen control', () => {
+      expect(ANSITerminalMode.stripEscapes('\x1b[2J\x1b[HTop\x1b[10;5Hhere')).toBe('Tophere');
+    });
+
+    it('should remove other OSC sequences', () => {
+      expect(ANSITerminalMode.stripEscapes('\x1b]0;Title\x07Text')).toBe('Text');
+    });
+  });
+
+  describe('toASCII', () => {
+    it('should map box drawing to +-|', () => {
+      expect(ANSITerminalMode.toASCII('┌─┬─┐')).toBe('+-+-+');
+      expect(ANSITerminalMode.toASCII('│ ║')).toBe('| |');
+      expect(ANSITerminalMode.toASCII('╚═╝')).toBe('+=+');
+    });
+
+    it('should transliterate CP437 shading and symbols', () => {
+      expect(ANSITerminalMode.toASCII('░▒▓█')).toBe('.:##');
+      expect(ANSITerminalMode.toASCII('• → ✗')).toBe('* > x');
+    });
+
+    it('should strip accents from letters', () => {
+      expect(ANSITerminalMode.toASCII('café Ñandú')).toBe('cafe Nandu');
+    });
+
+    it('should keep the display width of wide emoji', () => {
+      const text = '💡 Tip 📬';
+      const ascii = ANSITerminalMode.toASCII(text);
+
+      expect(ascii.startsWith('*')).toBe(true);
+      expect(ascii.length).toBe(ANSIWidthCalculator.calculate(text));
+    });
+
+    it('should keep frames aligned', () => {
+      const builder = new ANSIFrameBuilder({ width: 40, style: 'double' });
+      const lines = builder.build([{ text: '🎨 ART STUDIO 🎨', align: 'center' }, { text: 'Déjà vu • ✓' }]);
+
+      const ascii = lines.map(line => ANSITerminalMode.toASCII(ANSITerminalMode.stripEscapes(line)));
+
+      ascii.forEach(line => {
+        expect(line).toMatch(/^[\x20-\x7e]*$/);
+        expect(line.length).toBe(40);
+      });
+      expect(ascii[0]).toBe('+' + '='.repeat(38) + '+');
+    });
+  });
+});
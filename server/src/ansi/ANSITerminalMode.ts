@@ -0,0 +1,164 @@
+/**
+ * ANSITerminalMode - Adapts finished output to a caller's terminal mode
+ *
+ * Everything the BBS renders is ANSI: colour escapes plus Unicode line
+ * drawing, CP437 shading blocks and the odd emoji. This is the last stage
+ * of the pipeline and downgrades that output per session:
+ * - ansi:  unchanged
+ * - utf8:  escape sequences removed, glyphs kept
+ * - ascii: escape sequences removed, line drawing mapped to +-| and every
+ *          other glyph transliterated to plain ASCII
+ *
+ * Replacements keep the glyph's display width so frames stay aligned.
+ * The echo control sequence (OSC 8001) is always kept; connections
+ * consume it before it reaches the terminal.
+ */
+
+import type { TerminalMode } from '@baudagain/shared';
+import { ANSIWidthCalculator } from './ANSIWidthCalculator.js';
+
+export class ANSITerminalMode {
+  /**
+   * CSI sequences (colours, cursor movement, clear screen)
+   */
+  private static readonly CSI_REGEX = /\x1b\[[0-?]*[ -\/]*[@-~]/g;
+
+  /**
+   * OSC sequences, terminated by BEL or ST
+   */
+  private static readonly OSC_REGEX = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+  /**
+   * Remaining two-byte escapes (ESC c, ESC 7, ...)
+   */
+  private static readonly ESC_REGEX = /\x1b[@-Z\\^_`a-z0-9=>]/g;
+
+  private static readonly ECHO_CONTROL_PREFIX = '\x1b]8001;';
+
+  /**
+   * Box-drawing characters that are not corners, tees or crosses.
+   * Everything else in U+2500-U+257F becomes '+'.
+   */
+  private static readonly BOX_LINES: Record<string, string> = {
+    '─': '-', '━': '-', '┄': '-', '┅': '-', '┈': '-', '┉': '-', '╌': '-', '╍': '-',
+    '═': '=',
+    '│': '|', '┃': '|', '┆': '|', '┇': '|', '┊': '|', '┋': '|', '╎': '|', '╏': '|',
+    '║': '|',
+    '╴': '-', '╶': '-', '╸': '-', '╺': '-', '╼': '-', '╾': '-',
+    '╵': '|', '╷': '|', '╹': '|', '╻': '|', '╽': '|', '╿': '|',
+  };
+
+  /**
+   * ASCII stand-ins for CP437 graphics and common Unicode symbols
+   */
+  private static readonly GLYPHS: Record<string, string> = {
+    // Block elements and shading (CP437 0xB0-0xB2, 0xDB-0xDF)
+    '░': '.', '▒': ':', '▓': '#', '█': '#',
+    '▀': '"', '▄': '_', '▌': '#', '▐': '#',
+    '■': '#', '□': 'o', '▪': '*', '▫': 'o',
+    // Arrows and pointers
+    '→': '>', '←': '<', '↑': '^', '↓': 'v', '↔': '-',
+    '►': '>', '▶': '>', '◄': '<', '◀': '<', '▲': '^', '▼': 'v',
+    '»': '>', '«': '<',
+    // Bullets and marks
+    '•': '*', '·': '.', '∙': '.', '○': 'o', '●': '*', '◆': '*', '◇': 'o',
+    '★': '*', '☆': '*', '♦': '*', '♠': '*', '♣': '*', '♥': '*',
+    '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x', '×': 'x',
+    '⚠': '!', '⏳': '*', '⠋': '*',
+    // Punctuation
+    '—': '-', '–': '-', '‒': '-', '…': '.',
+    '‘': "'", '’': "'", '‚': ',', '“': '"', '”': '"', '„': '"',
+    '¡': '!', '¿': '?', '°': 'o', '±': '+', '÷': '/',
+    '≈': '~', '≤': '<', '≥': '>', '≠': '#', '√': 'v', '∞': '8',
+    '©': 'c', '®': 'r', '™': 't', '€': 'E', '£': 'L', '¥': 'Y', '¢': 'c',
+    '\u00a0': ' ',
+  };
+
+  /**
+   * Adapt output for a terminal mode. Undefined means ANSI.
+   */
+  static apply(text: string, mode: TerminalMode | undefined): string {
+    switch (mode) {
+      case 'ascii':
+        return this.toASCII(this.stripEscapes(text));
+      case 'utf8':
+        return this.stripEscapes(text);
+      case 'ansi':
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Remove escape sequences, keeping echo control
+   */
+  static stripEscapes(text: string): string {
+    if (!text.includes('\x1b')) {
+      return text;
+    }
+
+    return text
+      .replace(this.OSC_REGEX, (sequence) =>
+        sequence.startsWith(this.ECHO_CONTROL_PREFIX) ? sequence : ''
+      )
+      .replace(this.CSI_REGEX, '')
+      .replace(this.ESC_REGEX, '');
+  }
+
+  /**
+   * Transliterate every non-ASCII grapheme to ASCII of the same width
+   */
+  static toASCII(text: string): string {
+    if (/^[\x00-\x7f]*$/.test(text)) {
+      return text;
+    }
+
+    const segmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
+    let result = '';
+
+    for (const { segment } of segmenter.segment(text)) {
+      if (/^[\x00-\x7f]*$/.test(segment)) {
+        result += segment;
+        continue;
+      }
+
+      const width = ANSIWidthCalculator.calculate(segment);
+      const replacement = this.transliterate(segment);
+      result += width > 0 ? replacement.padEnd(width).substring(0, width) : '';
+    }
+
+    return result;
+  }
+
+  /**
+   * Best ASCII stand-in for a single grapheme
+   */
+  private static transliterate(grapheme: string): string {
+    // Ignore emoji variation selectors and joiners
+    const base = grapheme.replace(/[\uFE0E\uFE0F\u200D]/g, '');
+    const first = String.fromCodePoint(base.codePointAt(0) ?? 0x3f);
+
+    if (this.BOX_LINES[first]) {
+      return this.BOX_LINES[first];
+    }
+
+    const code = first.codePointAt(0)!;
+    if (code >= 0x2500 && code <= 0x257f) {
+      // Corners, tees and crosses
+      return '+';
+    }
+
+    if (this.GLYPHS[first]) {
+      return this.GLYPHS[first];
+    }
+
+    // Accented letters: é -> e, Ñ -> N
+    const decomposed = base.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    if (decomposed && /^[\x20-\x7e]+$/.test(decomposed)) {
+      return decomposed;
+    }
+
+    // Pictographs and anything else
+    return /\p{Extended_Pictographic}/u.test(base) ? '*' : '?';
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { CP437 } from './CP437.js';
+
+describe('CP437', () => {
+  describe('encode', () => {
+    it('should pass ASCII and control characters through', () => {
+      const text = '\x1b[1;33mHello\x1b[0m\r\n';
+
+      expect(CP437.encode(text).toString('latin1')).toBe(text);
+    });
+
+    it('should map line drawing and shading to their code points', () => {
+      expect([...CP437.encode('╔═╗║╚╝')]).toEqual([0xc9, 0xcd, 0xbb, 0xba, 0xc8, 0xbc]);
+      expect([...CP437.encode('░▒▓█')]).toEqual([0xb0, 0xb1, 0xb2, 0xdb]);
+    });
+
+    it('should transliterate characters outside the code page', () => {
+      expect(CP437.encode('→ ✗ 💡').toString('latin1')).toBe('> x *');
+    });
+
+    it('should map check marks to the square-root glyph', () => {
+      expect([...CP437.encode('✓')]).toEqual([0xfb]);
+    });
+  });
+
+  describe('decode', () => {
+    it('should round-trip every high byte', () => {
+      const bytes = Buffer.from(Array.from({ length: 128 }, (_, i) => 0x80 + i));
+
+      expect([...CP437.encode(CP437.decode(bytes))]).toEqual([...bytes]);
+    });
+
+    it('should decode accented letters and box drawing', () => {
+      expect(CP437.decode(Buffer.from([0x82, 0xc9, 0xcd]))).toBe('é╔═');
+    });
+  });
+
+  describe('decodeFile', () => {
+    it('should read UTF-8 files as-is, dropping a BOM', () => {
+      const bytes = Buffer.from('\uFEFF╔═╗ café', 'utf8');
+
+      expect(CP437.decodeFile(bytes)).toBe('╔═╗ café');
+    });
+
+    it('should read CP437 files and drop the SAUCE record', () => {
+      const art = Buffer.from([0x1b, 0x5b, 0x30, 0x6d, 0xc9, 0xcd, 0xbb]);
+      const sauce = Buffer.concat([Buffer.from([0x1a]), Buffer.from('SAUCE00Title')]);
+
+      expect(CP437.decodeFile(Buffer.concat([art, sauce]))).toBe('\x1b[0m╔═╗');
+    });
+  });
+});
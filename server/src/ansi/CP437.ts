@@ -0,0 +1,123 @@
+/**
+ * CP437 - Code page 437 codec
+ *
+ * Classic ANSI art and BBS terminals (SyncTERM, NetRunner, PC ANSI)
+ * speak IBM PC code page 437, one byte per character. The server works in
+ * Unicode strings throughout, so raw-terminal connections transcode at the
+ * edge with this codec.
+ *
+ * Bytes 0x00-0x7F are treated as ASCII so control characters (ESC, CR, LF,
+ * backspace) pass through untouched; 0x80-0xFF map to the IBM PC glyphs.
+ */
+
+import { ANSITerminalMode } from './ANSITerminalMode.js';
+
+export class CP437 {
+  /**
+   * Unicode characters for bytes 0x80-0xFF
+   */
+  private static readonly HIGH_CHARS =
+    'ÇüéâäàåçêëèïîìÄÅ' +
+    'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+    'áíóúñÑªº¿⌐¬½¼¡«»' +
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧' +
+    '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩' +
+    '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+  /**
+   * Reverse lookup, built on first use
+   */
+  private static encodeMap?: Map<string, number>;
+
+  /**
+   * End-of-file marker; anything after it in an .ans file is SAUCE metadata
+   */
+  private static readonly EOF = 0x1a;
+
+  private static getEncodeMap(): Map<string, number> {
+    if (!this.encodeMap) {
+      this.encodeMap = new Map();
+      Array.from(this.HIGH_CHARS).forEach((char, index) => {
+        this.encodeMap!.set(char, 0x80 + index);
+      });
+      // Look-alikes with no CP437 code point of their own
+      this.encodeMap.set('β', 0xe1);
+      this.encodeMap.set('μ', 0xe6);
+      this.encodeMap.set('✓', 0xfb);
+      this.encodeMap.set('✔', 0xfb);
+    }
+    return this.encodeMap;
+  }
+
+  /**
+   * Decode CP437 bytes to a Unicode string
+   */
+  static decode(bytes: Uint8Array): string {
+    let result = '';
+    for (const byte of bytes) {
+      result += byte < 0x80 ? String.fromCharCode(byte) : this.HIGH_CHARS[byte - 0x80];
+    }
+    return result;
+  }
+
+  /**
+   * Encode a Unicode string as CP437 bytes. Characters outside the code
+   * page are transliterated to ASCII of the same display width.
+   */
+  static encode(text: string): Buffer {
+    const map = this.getEncodeMap();
+    const bytes: number[] = [];
+
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code < 0x80) {
+        bytes.push(code);
+        continue;
+      }
+
+      const mapped = map.get(char);
+      if (mapped !== undefined) {
+        bytes.push(mapped);
+        continue;
+      }
+
+      // Emoji variation selectors and joiners have no width of their own
+      if (char === '\uFE0E' || char === '\uFE0F' || char === '\u200D') {
+        continue;
+      }
+
+      for (const fallback of ANSITerminalMode.toASCII(char)) {
+        bytes.push(fallback.charCodeAt(0));
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Check whether a buffer is well-formed UTF-8
+   */
+  static isUTF8(bytes: Uint8Array): boolean {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decode an .ans file stored in either UTF-8 or CP437. CP437 files are
+   * cut at the EOF marker so any SAUCE record is dropped.
+   */
+  static decodeFile(bytes: Uint8Array): string {
+    if (this.isUTF8(bytes)) {
+      return Buffer.from(bytes).toString('utf-8').replace(/^\uFEFF/, '');
+    }
+
+    const end = bytes.indexOf(this.EOF);
+    return this.decode(end === -1 ? bytes : bytes.subarray(0, end));
+  }
+}
@@ -11,6 +11,14 @@ import { UserRepository } from '../db/repositories/UserRepository.js';
 import { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
 import { MessageRepository } from '../db/repositories/MessageRepository.js';
 import { MessageService } from '../services/MessageService.js';
+import { ModerationService } from '../services/ModerationService.js';
+import { ModerationRepository } from '../db/repositories/ModerationRepository.js';
+import { QwkService } from '../services/QwkService.js';
+import { MailService } from '../services/MailService.js';
+import { MailRepository } from '../db/repositories/MailRepository.js';
+import { QwkPointerRepository } from '../db/repositories/QwkPointerRepository.js';
+import { buildMessagesDat } from '../services/QwkPacket.js';
+import { createZip } from '../utils/ZipArchive.js';
 import { SessionManager } from '../session/SessionManager.js';
 import { JWTUtil } from '../auth/jwt.js';
 import { BBSDatabase } from '../db/Database.js';
@@ -45,7 +53,23 @@ describe('Message Base API Endpoints', () => {
     userRepo = new UserRepository(db);
     messageBaseRepo = new MessageBaseRepository(db);
     messageRepo = new MessageRepository(db);
-    messageService = new MessageService(messageBaseRepo, messageRepo, userRepo, undefined);
+    const moderationService = new ModerationService(
+      new ModerationRepository(db),
+      messageRepo,
+      messageBaseRepo,
+      userRepo,
+      undefined,
+      logger as any
+    );
+    messageService = new MessageService(
+      messageBaseRepo,
+      messageRepo,
+      userRepo,
+      undefined,
+      undefined,
+      undefined,
+      moderationService
+    );
     sessionManager = new SessionManager(logger as any);
     jwtUtil = new JWTUtil({ secret: 'test-secret-key-for-testing-only', expiresIn: '1h' });
 
@@ -104,7 +128,20 @@ describe('Message Base API Endpoints', () => {
       jwtUtil,
       config,
       messageBaseRepo,
-      messageService
+      messageService,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new MailService(new MailRepository(db), userRepo),
+      moderationService,
+      new QwkService(messageService, messageRepo, messageBaseRepo, new QwkPointerRepository(db), userRepo, config.bbs)
     );
 
     // Create test users
@@ -603,6 +640,518 @@ describe('Message Base API Endpoints', () => {
         expect(response.statusCode).toBe(401);
       });
     });
+
+    describe('GET /api/v1/messages/:id/thread', () => {
+      it('should return the whole thread from any message in it', async () => {
+        const post = async (url: string, subject: string, body: string) => {
+          const response = await server.inject({
+            method: 'POST',
+            url,
+            headers: {
+              authorization: `Bearer ${userToken}`,
+            },
+            payload: { subject, body },
+          });
+          return JSON.parse(response.body);
+        };
+
+        const root = await post(`/api/v1/message-bases/${testBaseId}/messages`, 'Thread root', 'First!');
+        const reply = await post(`/api/v1/messages/${root.id}/replies`, 'Re: Thread root', 'Second');
+        const nested = await post(`/api/v1/messages/${reply.id}/replies`, 'Re: Thread root', 'Third');
+        await post(`/api/v1/messages/${root.id}/replies`, 'Re: Thread root', 'Fourth');
+
+        const response = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${nested.id}/thread`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+
+        expect(response.statusCode).toBe(200);
+        const data = JSON.parse(response.body);
+        expect(data.total).toBe(4);
+        expect(data.thread.id).toBe(root.id);
+        expect(data.thread.replies.map((r: any) => r.body)).toEqual(['Second', 'Fourth']);
+        expect(data.thread.replies[0].replies[0]).toMatchObject({ id: nested.id, parentId: reply.id, replies: [] });
+      });
+
+      it('should return 404 for non-existent message', async () => {
+        const response = await server.inject({
+          method: 'GET',
+          url: '/api/v1/messages/non-existent/thread',
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+
+        expect(response.statusCode).toBe(404);
+      });
+    });
+
+    describe('PATCH and DELETE /api/v1/messages/:id', () => {
+      let otherToken: string;
+
+      beforeAll(async () => {
+        const other = userRepo.create('otheruser', await bcrypt.hash('other123', 10), { accessLevel: 10 });
+        otherToken = jwtUtil.generateToken({ userId: other.id, handle: other.handle, accessLevel: other.accessLevel });
+      });
+
+      const postAsUser = async () => {
+        const response = await server.inject({
+          method: 'POST',
+          url: `/api/v1/message-bases/${testBaseId}/messages`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+          payload: { subject: 'Typo', body: 'Teh original' },
+        });
+        return JSON.parse(response.body);
+      };
+
+      it('should let the author edit and keep the old version in the history', async () => {
+        const message = await postAsUser();
+
+        const response = await server.inject({
+          method: 'PATCH',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+          payload: { body: 'The original' },
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ subject: 'Typo', body: 'The original' });
+        expect(JSON.parse(response.body).editedAt).toBeTruthy();
+
+        const history = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}/revisions`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+
+        expect(history.statusCode).toBe(200);
+        expect(JSON.parse(history.body).revisions).toMatchObject([
+          { subject: 'Typo', body: 'Teh original', action: 'edit', changedByHandle: 'testuser' },
+        ]);
+      });
+
+      it('should refuse edits and deletes from other users', async () => {
+        const message = await postAsUser();
+
+        const edit = await server.inject({
+          method: 'PATCH',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${otherToken}`,
+          },
+          payload: { subject: 'Hijacked' },
+        });
+        const remove = await server.inject({
+          method: 'DELETE',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${otherToken}`,
+          },
+        });
+
+        expect(edit.statusCode).toBe(403);
+        expect(remove.statusCode).toBe(403);
+      });
+
+      it('should let a sysop delete a message and still see its history', async () => {
+        const message = await postAsUser();
+
+        const response = await server.inject({
+          method: 'DELETE',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+        });
+
+        expect(response.statusCode).toBe(200);
+
+        const read = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+        const history = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}/revisions`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+        });
+
+        expect(read.statusCode).toBe(404);
+        expect(JSON.parse(history.body).revisions).toMatchObject([
+          { body: 'Teh original', action: 'delete', changedByHandle: 'admin' },
+        ]);
+      });
+    });
+
+    describe('Moderation queue', () => {
+      let moderatedBaseId: string;
+      let posterToken: string;
+
+      beforeAll(async () => {
+        const base = messageBaseRepo.createMessageBase({ name: 'Moderated', moderationPolicy: 'all' });
+        moderatedBaseId = base.id;
+
+        const poster = userRepo.create('newcaller', await bcrypt.hash('newcaller123', 10), { accessLevel: 10 });
+        posterToken = jwtUtil.generateToken({ userId: poster.id, handle: poster.handle, accessLevel: poster.accessLevel });
+      });
+
+      const postHeld = async (subject: string) => {
+        const response = await server.inject({
+          method: 'POST',
+          url: `/api/v1/message-bases/${moderatedBaseId}/messages`,
+          headers: {
+            authorization: `Bearer ${posterToken}`,
+          },
+          payload: { subject, body: 'Hello everyone' },
+        });
+        return JSON.parse(response.body);
+      };
+
+      it('should hide held posts from everyone but the author and sysops', async () => {
+        const message = await postHeld('First post');
+
+        expect(message.isHeld).toBe(true);
+
+        const asOther = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+        const asAuthor = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${posterToken}`,
+          },
+        });
+
+        expect(asOther.statusCode).toBe(404);
+        expect(asAuthor.statusCode).toBe(200);
+        expect(JSON.parse(asAuthor.body).isHeld).toBe(true);
+      });
+
+      it('should only show the queue to sysops', async () => {
+        await postHeld('Queued post');
+
+        const asUser = await server.inject({
+          method: 'GET',
+          url: '/api/v1/moderation/queue',
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+        const asSysop = await server.inject({
+          method: 'GET',
+          url: '/api/v1/moderation/queue',
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+        });
+
+        expect(asUser.statusCode).toBe(403);
+        expect(asSysop.statusCode).toBe(200);
+        const body = JSON.parse(asSysop.body);
+        expect(body.pending).toBeGreaterThan(0);
+        expect(body.entries.map((e: any) => e.subject)).toContain('Queued post');
+        expect(body.entries[0]).toMatchObject({ source: 'policy', authorHandle: 'newcaller', baseName: 'Moderated' });
+      });
+
+      it('should approve a post so everyone can read it', async () => {
+        const message = await postHeld('Please approve');
+
+        const approve = await server.inject({
+          method: 'POST',
+          url: `/api/v1/moderation/queue/${message.id}/approve`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+          payload: { reason: 'Welcome aboard' },
+        });
+        const read = await server.inject({
+          method: 'GET',
+          url: `/api/v1/messages/${message.id}`,
+          headers: {
+            authorization: `Bearer ${userToken}`,
+          },
+        });
+
+        expect(approve.statusCode).toBe(200);
+        expect(JSON.parse(approve.body)).toMatchObject({ status: 'approved', reviewReason: 'Welcome aboard' });
+        expect(read.statusCode).toBe(200);
+      });
+
+      it('should require a reason to remove a post', async () => {
+        const message = await postHeld('Please remove');
+
+        const withoutReason = await server.inject({
+          method: 'POST',
+          url: `/api/v1/moderation/queue/${message.id}/remove`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+          payload: {},
+        });
+        const withReason = await server.inject({
+          method: 'POST',
+          url: `/api/v1/moderation/queue/${message.id}/remove`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+          payload: { reason: 'Off topic' },
+        });
+        const again = await server.inject({
+          method: 'POST',
+          url: `/api/v1/moderation/queue/${message.id}/approve`,
+          headers: {
+            authorization: `Bearer ${adminToken}`,
+          },
+          payload: {},
+        });
+
+        expect(withoutReason.statusCode).toBe(400);
+        expect(withReason.statusCode).toBe(200);
+        expect(JSON.parse(withReason.body).status).toBe('removed');
+        expect(again.statusCode).toBe(400);
+      });
+    });
+
+    describe('QWK offline mail', () => {
+      let readerToken: string;
+
+      beforeAll(async () => {
+        const reader = userRepo.create('offlinereader', await bcrypt.hash('reader123', 10), { accessLevel: 10 });
+        readerToken = jwtUtil.generateToken({ userId: reader.id, handle: reader.handle, accessLevel: reader.accessLevel });
+      });
+
+      it('should download new messages as a QWK packet until it is confirmed', async () => {
+        const first = await server.inject({
+          method: 'GET',
+          url: '/api/v1/qwk/packet',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+          },
+        });
+        const second = await server.inject({
+          method: 'GET',
+          url: '/api/v1/qwk/packet',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+          },
+        });
+
+        expect(first.statusCode).toBe(200);
+        expect(first.headers['content-disposition']).toBe('attachment; filename="TESTBBS.QWK"');
+        expect(first.rawPayload.subarray(0, 2).toString()).toBe('PK');
+        expect(Number(first.headers['x-message-count'])).toBeGreaterThan(0);
+        expect(second.headers['x-message-count']).toBe(first.headers['x-message-count']);
+      });
+
+      it('should start the next packet after a confirmed one', async () => {
+        const download = () => server.inject({
+          method: 'GET',
+          url: '/api/v1/qwk/packet',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+          },
+        });
+
+        await download();
+        const ack = await server.inject({
+          method: 'POST',
+          url: '/api/v1/qwk/ack',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+          },
+        });
+        const next = await download();
+
+        expect(ack.statusCode).toBe(200);
+        expect(JSON.parse(ack.body)).toEqual({ success: true });
+        expect(next.headers['x-message-count']).toBe('0');
+      });
+
+      it('should post replies from an uploaded REP packet', async () => {
+        const conference = messageBaseRepo.getConferenceNumbers().get(testBaseId)!;
+        const { data } = buildMessagesDat([{
+          conference,
+          number: conference,
+          from: 'OFFLINEREADER',
+          to: 'ALL',
+          subject: 'Greetings from QWK',
+          date: new Date(),
+          body: 'Written offline',
+          isPrivate: false,
+        }], 'TESTBBS');
+
+        const response = await server.inject({
+          method: 'POST',
+          url: '/api/v1/qwk/rep',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+            'content-type': 'application/zip',
+          },
+          payload: createZip([{ name: 'TESTBBS.MSG', data }]),
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({
+          posted: [{ baseId: testBaseId, subject: 'Greetings from QWK', isHeld: false }],
+          failed: [],
+        });
+      });
+
+      it('should reject zip bombs', async () => {
+        const response = await server.inject({
+          method: 'POST',
+          url: '/api/v1/qwk/rep',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+            'content-type': 'application/zip',
+          },
+          // Around 64 KB packed, 64 MB unpacked
+          payload: createZip([{ name: 'TESTBBS.MSG', data: Buffer.alloc(64 * 1024 * 1024) }]),
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).error.message).toContain('unpacks to more than');
+      });
+
+      it('should reject uploads that are not zip files', async () => {
+        const response = await server.inject({
+          method: 'POST',
+          url: '/api/v1/qwk/rep',
+          headers: {
+            authorization: `Bearer ${readerToken}`,
+            'content-type': 'application/octet-stream',
+          },
+          payload: Buffer.from('definitely not a zip'),
+        });
+
+        expect(response.statusCode).toBe(400);
+      });
+    });
+  });
+
+  describe('Private mail', () => {
+    const sendMail = (token: string, payload: Record<string, string>) =>
+      server.inject({
+        method: 'POST',
+        url: '/api/v1/mail',
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+        payload,
+      });
+
+    const get = (token: string, url: string) =>
+      server.inject({
+        method: 'GET',
+        url,
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+    it('should deliver mail to the recipient as unread', async () => {
+      const response = await sendMail(userToken, { to: 'admin', subject: 'Hello', body: 'Hi there' });
+
+      expect(response.statusCode).toBe(200);
+      const mail = JSON.parse(response.body);
+      expect(mail).toMatchObject({ fromHandle: 'testuser', toHandle: 'admin', subject: 'Hello' });
+
+      const inbox = JSON.parse((await get(adminToken, '/api/v1/mail')).body);
+      expect(inbox.unread).toBe(1);
+      expect(inbox.mail.map((m: any) => m.id)).toContain(mail.id);
+
+      const sent = JSON.parse((await get(userToken, '/api/v1/mail/sent')).body);
+      expect(sent.mail.map((m: any) => m.id)).toContain(mail.id);
+    });
+
+    it('should mark mail read when the recipient opens it', async () => {
+      const mail = JSON.parse((await sendMail(userToken, { to: 'admin', subject: 'Read me', body: 'Please' })).body);
+
+      const response = await get(adminToken, `/api/v1/mail/${mail.id}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).readAt).toBeTruthy();
+    });
+
+    it('should return 404 for unknown recipients and for mail that is not yours', async () => {
+      const unknown = await sendMail(userToken, { to: 'nobody', subject: 'Hello', body: 'Anyone?' });
+      expect(unknown.statusCode).toBe(404);
+
+      const mail = JSON.parse((await sendMail(adminToken, { to: 'testuser', subject: 'Private', body: 'Just for you' })).body);
+      const other = userRepo.create('snoop', 'hash', { accessLevel: 10 });
+      const snoopToken = jwtUtil.generateToken({ userId: other.id, handle: other.handle, accessLevel: other.accessLevel });
+
+      expect((await get(snoopToken, `/api/v1/mail/${mail.id}`)).statusCode).toBe(404);
+    });
+
+    it('should reply and forward with prefixed subjects', async () => {
+      const mail = JSON.parse((await sendMail(adminToken, { to: 'testuser', subject: 'Plans', body: 'Meet Saturday?' })).body);
+
+      const replied = await server.inject({
+        method: 'POST',
+        url: `/api/v1/mail/${mail.id}/reply`,
+        headers: {
+          authorization: `Bearer ${userToken}`,
+        },
+        payload: { body: 'Sounds good' },
+      });
+      const forwarded = await server.inject({
+        method: 'POST',
+        url: `/api/v1/mail/${mail.id}/forward`,
+        headers: {
+          authorization: `Bearer ${userToken}`,
+        },
+        payload: { to: 'admin', note: 'See below' },
+      });
+
+      expect(JSON.parse(replied.body)).toMatchObject({ toHandle: 'admin', subject: 'Re: Plans', replyToId: mail.id });
+      expect(JSON.parse(forwarded.body)).toMatchObject({ toHandle: 'admin', subject: 'Fwd: Plans' });
+      expect(JSON.parse(forwarded.body).body).toContain('Meet Saturday?');
+    });
+
+    it('should delete mail from one folder only', async () => {
+      const mail = JSON.parse((await sendMail(userToken, { to: 'admin', subject: 'Delete me', body: 'Gone soon' })).body);
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/mail/${mail.id}`,
+        headers: {
+          authorization: `Bearer ${adminToken}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect((await get(adminToken, `/api/v1/mail/${mail.id}`)).statusCode).toBe(404);
+      expect((await get(userToken, `/api/v1/mail/${mail.id}`)).statusCode).toBe(200);
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/v1/mail',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
   });
 });
 
@@ -9,18 +9,28 @@ import type { DoorService } from '../services/DoorService.js';
 import type { NotificationService } from '../notifications/NotificationService.js';
 import type { AIConfigAssistant } from '../ai/AIConfigAssistant.js';
 import type { AISysOp } from '../ai/AISysOp.js';
+import type { AIService } from '../ai/AIService.js';
 import type { ArtGalleryRepository } from '../db/repositories/ArtGalleryRepository.js';
 import type { ANSIArtGenerator } from '../services/ANSIArtGenerator.js';
+import type { NodeManager } from '../connection/NodeManager.js';
+import type { MailService } from '../services/MailService.js';
+import type { ModerationService } from '../services/ModerationService.js';
+import type { QwkService } from '../services/QwkService.js';
+import type { ScreenService } from '../services/ScreenService.js';
 
 // Import route modules
 import { registerAuthRoutes } from './routes/auth.routes.js';
 import { registerUserRoutes } from './routes/user.routes.js';
 import { registerMessageRoutes } from './routes/message.routes.js';
+import { registerMailRoutes } from './routes/mail.routes.js';
+import { registerModerationRoutes } from './routes/moderation.routes.js';
+import { registerQwkRoutes } from './routes/qwk.routes.js';
 import { registerDoorRoutes } from './routes/door.routes.js';
 import { registerSystemRoutes } from './routes/system.routes.js';
 import { registerConfigRoutes } from './routes/config.routes.js';
 import { registerArtRoutes } from './routes/art.routes.js';
 import { registerConversationRoutes } from './routes/conversation.routes.js';
+import { registerScreenRoutes } from './routes/screen.routes.js';
 
 /**
  * Register all REST API routes
@@ -41,7 +51,13 @@ export async function registerAPIRoutes(
   artGenerator?: ANSIArtGenerator,
   messageSummarizer?: any,
   dailyQuestionService?: any,
-  scheduledTaskService?: any
+  scheduledTaskService?: any,
+  nodeManager?: NodeManager,
+  mailService?: MailService,
+  moderationService?: ModerationService,
+  qwkService?: QwkService,
+  aiService?: AIService,
+  screenService?: ScreenService
 ) {
   server.log.info('🔧 Registering REST API routes...');
   
@@ -57,18 +73,34 @@ export async function registerAPIRoutes(
   await registerMessageRoutes(server, jwtUtil, messageBaseRepository, messageService, messageSummarizer);
   server.log.info('✅ Message routes registered');
   
+  // Register private mail routes
+  await registerMailRoutes(server, jwtUtil, mailService);
+  server.log.info('✅ Mail routes registered');
+  
+  // Register moderation queue routes
+  await registerModerationRoutes(server, jwtUtil, moderationService);
+  server.log.info('✅ Moderation routes registered');
+
+  // Register QWK offline mail routes
+  await registerQwkRoutes(server, jwtUtil, qwkService);
+  server.log.info('✅ QWK routes registered');
+  
   // Register door game routes
   await registerDoorRoutes(server, jwtUtil, sessionManager, doorService);
   server.log.info('✅ Door game routes registered');
   
   // Register system administration routes
-  await registerSystemRoutes(server, userRepository, sessionManager, jwtUtil, config, notificationService, aiSysOp);
+  await registerSystemRoutes(server, userRepository, sessionManager, jwtUtil, config, notificationService, aiSysOp, nodeManager, aiService);
   server.log.info('✅ System routes registered');
   
   // Register AI configuration assistant routes
   await registerConfigRoutes(server, jwtUtil, aiConfigAssistant);
   server.log.info('✅ Configuration routes registered');
   
+  // Register welcome and goodbye screen routes
+  await registerScreenRoutes(server, jwtUtil, screenService);
+  server.log.info('✅ Screen routes registered');
+  
   // Register art gallery routes
   if (artGalleryRepository) {
     await registerArtRoutes(server, { artGalleryRepository, artGenerator, jwtUtil });
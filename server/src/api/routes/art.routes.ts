@@ -9,6 +9,7 @@ import type { ArtGalleryRepository } from '../../db/repositories/ArtGalleryRepos
 import type { ANSIArtGenerator, ArtStyle, ColorTheme } from '../../services/ANSIArtGenerator.js';
 import type { JWTUtil } from '../../auth/jwt.js';
 import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { AIProviderError } from '../../ai/AIProvider.js';
 import { createUserAuthMiddleware } from '../middleware/auth.middleware.js';
 
 interface ArtRouteDependencies {
@@ -84,6 +85,7 @@ export async function registerArtRoutes(
             height: height || 15,
             colorTheme: colorTheme || '16-color',
             applyColors: true,
+            userId: (request as any).user?.id,
           },
           {
             title: title || description.substring(0, 40),
@@ -121,6 +123,10 @@ export async function registerArtRoutes(
           } : null,
         });
       } catch (error) {
+        if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+          ErrorHandler.sendRateLimitError(reply, error.getUserMessage());
+          return;
+        }
         server.log.error({ error }, 'Error generating art');
         ErrorHandler.sendInternalError(reply, 'Failed to generate art');
         return;
@@ -3,6 +3,7 @@ import type { UserRepository } from '../../db/repositories/UserRepository.js';
 import type { JWTUtil } from '../../auth/jwt.js';
 import bcrypt from 'bcrypt';
 import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { validateHandle } from '../../utils/ValidationUtils.js';
 import { createUserAuthMiddleware } from '../middleware/auth.middleware.js';
 import { registerSchema, loginSchema, refreshTokenSchema, getMeSchema } from '../schemas/auth.schema.js';
 
@@ -34,6 +35,12 @@ export async function registerAuthRoutes(
       bio?: string;
     };
     
+    const handleValidation = validateHandle(handle);
+    if (!handleValidation.valid) {
+      ErrorHandler.sendInvalidInputError(reply, handleValidation.error!);
+      return;
+    }
+    
     if (userRepository.handleExists(handle)) {
       ErrorHandler.sendConflictError(reply, 'Handle already exists');
       return;
@@ -2,6 +2,7 @@ import type { FastifyInstance } from 'fastify';
 import type { AIConfigAssistant } from '../../ai/AIConfigAssistant.js';
 import type { JWTUtil } from '../../auth/jwt.js';
 import { createUserAuthMiddleware } from '../middleware/auth.middleware.js';
+import { AppError, ErrorHandler } from '../../utils/ErrorHandler.js';
 
 /**
  * Register AI configuration assistant routes
@@ -82,6 +83,8 @@ export async function registerConfigRoutes(
         change: result.change ? {
           description: result.change.description,
           preview: result.change.preview,
+          tool: result.change.tool,
+          parameters: result.change.parameters,
         } : undefined,
       });
     } catch (error) {
@@ -138,7 +141,8 @@ export async function registerConfigRoutes(
       return;
     }
 
-    if (!change.description || !change.preview || !change.changes) {
+    // The change is the tool call the assistant proposed, never raw config
+    if (typeof change.tool !== 'string' || typeof change.parameters !== 'object' || change.parameters === null) {
       reply.status(400).send({ 
         error: {
           code: 'BAD_REQUEST',
@@ -149,12 +153,12 @@ export async function registerConfigRoutes(
     }
 
     try {
-      const result = await aiConfigAssistant.applyChanges(change);
+      const result = await aiConfigAssistant.applyToolCall(change.tool, change.parameters);
 
       server.log.info(
         { 
           adminHandle: requestUser.handle, 
-          changeDescription: change.description,
+          changeDescription: result.description,
           requiresRestart: result.requiresRestart
         },
         'Configuration changes applied'
@@ -163,10 +167,14 @@ export async function registerConfigRoutes(
       reply.status(200).send({
         success: true,
         message: result.message,
-        description: change.description,
+        description: result.description,
         requiresRestart: result.requiresRestart,
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        ErrorHandler.handleError(reply, error);
+        return;
+      }
       server.log.error({ error }, 'Error applying configuration changes');
       reply.status(500).send({ 
         error: {
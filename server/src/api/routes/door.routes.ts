@@ -12,7 +12,8 @@ import {
   resumeDoorSchema,
   getMySavedSessionsSchema,
   getAllDoorSessionsSchema,
-  getDoorStatsSchema
+  getDoorStatsSchema,
+  forgetDoorMemorySchema
 } from '../schemas/door.schema.js';
 
 /**
@@ -459,4 +460,69 @@ export async function registerDoorRoutes(
       });
     }
   });
+
+  // DELETE /api/v1/doors/:id/memory/:userId - Wipe what a door remembers about a user (sysop only)
+  server.delete('/api/v1/doors/:id/memory/:userId', {
+    schema: forgetDoorMemorySchema,
+    preHandler: authenticateUser,
+  }, async (request, reply) => {
+    const currentUser = (request as any).user;
+    
+    if (currentUser.accessLevel < 255) {
+      reply.status(403 as any).send({ 
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Insufficient permissions'
+        }
+      });
+      return;
+    }
+    
+    if (!doorService) {
+      reply.status(501 as any).send({ 
+        error: {
+          code: 'NOT_IMPLEMENTED',
+          message: 'Door game service not available'
+        }
+      });
+      return;
+    }
+    
+    const { id, userId } = request.params as { id: string; userId: string };
+    
+    if (!doorService.getDoor(id)) {
+      reply.status(404 as any).send({ 
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Door game not found'
+        }
+      });
+      return;
+    }
+    
+    try {
+      if (!doorService.forgetUser(id, userId)) {
+        reply.status(400 as any).send({ 
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'This door does not remember users'
+          }
+        });
+        return;
+      }
+      
+      return {
+        doorId: id,
+        userId,
+        forgotten: true,
+      };
+    } catch (error) {
+      reply.status(500 as any).send({ 
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to wipe door memory'
+        }
+      });
+    }
+  });
 }
@@ -0,0 +1,226 @@
+import type { FastifyInstance } from 'fastify';
+import type { MailService } from '../../services/MailService.js';
+import type { Mail } from '../../db/repositories/MailRepository.js';
+import type { JWTUtil } from '../../auth/jwt.js';
+import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { createUserAuthMiddleware } from '../middleware/auth.middleware.js';
+import {
+  listInboxSchema,
+  listSentSchema,
+  getMailSchema,
+  sendMailSchema,
+  replyMailSchema,
+  forwardMailSchema,
+  deleteMailSchema
+} from '../schemas/mail.schema.js';
+
+/**
+ * Map a mail to its API representation
+ */
+function toMailResponse(mail: Mail) {
+  return {
+    id: mail.id,
+    fromUserId: mail.fromUserId,
+    fromHandle: mail.fromHandle,
+    toUserId: mail.toUserId,
+    toHandle: mail.toHandle,
+    replyToId: mail.replyToId,
+    subject: mail.subject,
+    body: mail.body,
+    createdAt: mail.createdAt,
+    readAt: mail.readAt,
+  };
+}
+
+/**
+ * Register private mail routes
+ */
+export async function registerMailRoutes(
+  server: FastifyInstance,
+  jwtUtil: JWTUtil,
+  mailService?: MailService
+) {
+  const authenticateUser = createUserAuthMiddleware(jwtUtil);
+
+  // GET /api/v1/mail - List the current user's inbox
+  server.get('/api/v1/mail', {
+    schema: listInboxSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const currentUser = (request as any).user;
+    const { page = 1, limit = 50 } = request.query as { page?: number; limit?: number };
+
+    const pageNum = Math.max(1, Number(page));
+    const limitNum = Math.min(100, Math.max(1, Number(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const mail = mailService!.getInbox(currentUser.id, limitNum, offset);
+    const total = mailService!.getInboxCount(currentUser.id);
+
+    return {
+      mail: mail.map(toMailResponse),
+      unread: mailService!.getUnreadCount(currentUser.id),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+        hasNext: offset + limitNum < total,
+        hasPrev: pageNum > 1,
+      },
+    };
+  });
+
+  // GET /api/v1/mail/sent - List mail the current user has sent
+  server.get('/api/v1/mail/sent', {
+    schema: listSentSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const currentUser = (request as any).user;
+    const { page = 1, limit = 50 } = request.query as { page?: number; limit?: number };
+
+    const pageNum = Math.max(1, Number(page));
+    const limitNum = Math.min(100, Math.max(1, Number(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const mail = mailService!.getSent(currentUser.id, limitNum, offset);
+    const total = mailService!.getSentCount(currentUser.id);
+
+    return {
+      mail: mail.map(toMailResponse),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+        hasNext: offset + limitNum < total,
+        hasPrev: pageNum > 1,
+      },
+    };
+  });
+
+  // GET /api/v1/mail/:id - Read a mail (marks it read for the recipient)
+  server.get('/api/v1/mail/:id', {
+    schema: getMailSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+
+    const mail = mailService!.readMail(id, currentUser.id);
+    if (!mail) {
+      ErrorHandler.sendNotFoundError(reply, 'Mail not found');
+      return;
+    }
+
+    return toMailResponse(mail);
+  });
+
+  // POST /api/v1/mail - Send a new mail
+  server.post('/api/v1/mail', {
+    schema: sendMailSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 30,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const currentUser = (request as any).user;
+    const { to, subject, body } = request.body as {
+      to: string;
+      subject: string;
+      body: string;
+    };
+
+    try {
+      const mail = mailService!.sendMail({
+        fromUserId: currentUser.id,
+        toHandle: to,
+        subject: subject.trim(),
+        body: body.trim(),
+      });
+
+      return toMailResponse(mail);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/mail/:id/reply - Reply to a mail
+  server.post('/api/v1/mail/:id/reply', {
+    schema: replyMailSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 30,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    const { body } = request.body as { body: string };
+
+    try {
+      const mail = mailService!.replyToMail(id, currentUser.id, body.trim());
+      return toMailResponse(mail);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/mail/:id/forward - Forward a mail to another user
+  server.post('/api/v1/mail/:id/forward', {
+    schema: forwardMailSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 30,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    const { to, note } = request.body as { to: string; note?: string };
+
+    try {
+      const mail = mailService!.forwardMail(id, currentUser.id, to, note);
+      return toMailResponse(mail);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // DELETE /api/v1/mail/:id - Delete a mail from the user's inbox or sent folder
+  server.delete('/api/v1/mail/:id', {
+    schema: deleteMailSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, mailService, 'Mail service')) return;
+
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+
+    if (!mailService!.deleteMail(id, currentUser.id)) {
+      ErrorHandler.sendNotFoundError(reply, 'Mail not found');
+      return;
+    }
+
+    return { success: true };
+  });
+}
@@ -1,8 +1,9 @@
 import type { FastifyInstance } from 'fastify';
-import type { MessageBaseRepository } from '../../db/repositories/MessageBaseRepository.js';
-import type { MessageService } from '../../services/MessageService.js';
+import type { MessageBaseRepository, ModerationPolicy } from '../../db/repositories/MessageBaseRepository.js';
+import type { MessageService, MessageThread } from '../../services/MessageService.js';
 import type { JWTUtil } from '../../auth/jwt.js';
 import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { AIProviderError } from '../../ai/AIProvider.js';
 import { createUserAuthMiddleware, createSysOpAuthMiddleware } from '../middleware/auth.middleware.js';
 import { 
   listMessageBasesSchema, 
@@ -10,12 +11,39 @@ import {
   createMessageBaseSchema, 
   updateMessageBaseSchema, 
   deleteMessageBaseSchema,
+  markMessageBaseReadSchema,
+  markAllMessageBasesReadSchema,
   listMessagesSchema,
   getMessageSchema,
+  getThreadSchema,
+  searchMessagesSchema,
   postMessageSchema,
-  postReplySchema
+  postReplySchema,
+  updateMessageSchema,
+  deleteMessageSchema,
+  getRevisionsSchema
 } from '../schemas/message.schema.js';
 
+/**
+ * Map a thread to its API representation, replies nested under each message
+ */
+function toThreadResponse(node: MessageThread): Record<string, unknown> {
+  const { message } = node;
+  return {
+    id: message.id,
+    baseId: message.baseId,
+    parentId: message.parentId,
+    userId: message.userId,
+    authorHandle: message.isDeleted ? undefined : message.authorHandle,
+    subject: message.subject,
+    body: message.body,
+    createdAt: message.createdAt,
+    editedAt: message.editedAt,
+    isDeleted: message.isDeleted,
+    replies: node.replies.map(toThreadResponse),
+  };
+}
+
 /**
  * Register message and message base routes
  */
@@ -45,6 +73,9 @@ export async function registerMessageRoutes(
       postCount: base.postCount,
       lastPostAt: base.lastPostAt,
       sortOrder: base.sortOrder,
+      moderationPolicy: base.moderationPolicy,
+      echoTag: base.echoTag,
+      aiSysopReplies: base.aiSysopReplies,
     }));
   });
 
@@ -61,12 +92,15 @@ export async function registerMessageRoutes(
   }, async (request, reply) => {
     if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
     
-    const { name, description, accessLevelRead, accessLevelWrite, sortOrder } = request.body as {
+    const { name, description, accessLevelRead, accessLevelWrite, sortOrder, moderationPolicy, echoTag, aiSysopReplies } = request.body as {
       name: string;
       description?: string;
       accessLevelRead?: number;
       accessLevelWrite?: number;
       sortOrder?: number;
+      moderationPolicy?: ModerationPolicy;
+      echoTag?: string;
+      aiSysopReplies?: boolean;
     };
     
     try {
@@ -76,6 +110,9 @@ export async function registerMessageRoutes(
         accessLevelRead: accessLevelRead ?? 0,
         accessLevelWrite: accessLevelWrite ?? 10,
         sortOrder: sortOrder ?? 0,
+        moderationPolicy,
+        echoTag,
+        aiSysopReplies,
       });
       
       return base;
@@ -104,6 +141,9 @@ export async function registerMessageRoutes(
       accessLevelRead?: number;
       accessLevelWrite?: number;
       sortOrder?: number;
+      moderationPolicy?: ModerationPolicy;
+      echoTag?: string | null;
+      aiSysopReplies?: boolean;
     };
     
     try {
@@ -178,6 +218,7 @@ export async function registerMessageRoutes(
     const start = (pageNum - 1) * limitNum;
     const end = start + limitNum;
     const paginatedBases = sortedBases.slice(start, end);
+    const unreadCounts = messageService?.getUnreadCounts(currentUser.id) ?? new Map<string, number>();
     
     return {
       messageBases: paginatedBases.map(base => ({
@@ -189,6 +230,10 @@ export async function registerMessageRoutes(
         postCount: base.postCount,
         lastPostAt: base.lastPostAt,
         sortOrder: base.sortOrder,
+        moderationPolicy: base.moderationPolicy,
+        echoTag: base.echoTag,
+        aiSysopReplies: base.aiSysopReplies,
+        unreadCount: unreadCounts.get(base.id) ?? 0,
       })),
       pagination: {
         page: pageNum,
@@ -253,6 +298,10 @@ export async function registerMessageRoutes(
       postCount: base.postCount,
       lastPostAt: base.lastPostAt,
       sortOrder: base.sortOrder,
+      moderationPolicy: base.moderationPolicy,
+      echoTag: base.echoTag,
+      aiSysopReplies: base.aiSysopReplies,
+      unreadCount: messageService.getUnreadCounts(currentUser.id).get(id) ?? 0,
       permissions: {
         canRead: true,
         canWrite,
@@ -260,6 +309,44 @@ export async function registerMessageRoutes(
     };
   });
 
+  // POST /api/v1/message-bases/mark-read - Mark every readable message base as read
+  server.post('/api/v1/message-bases/mark-read', {
+    schema: markAllMessageBasesReadSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const currentUser = (request as any).user;
+    await messageService!.markAllRead(currentUser.id);
+    
+    return { success: true };
+  });
+
+  // POST /api/v1/message-bases/:id/mark-read - Mark a message base as read
+  server.post('/api/v1/message-bases/:id/mark-read', {
+    schema: markMessageBaseReadSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    
+    if (!messageService!.getMessageBase(id)) {
+      ErrorHandler.sendNotFoundError(reply, 'Message base not found');
+      return;
+    }
+    
+    if (!await messageService!.canUserReadBase(currentUser.id, id)) {
+      ErrorHandler.sendForbiddenError(reply, 'Insufficient access level to read this message base');
+      return;
+    }
+    
+    messageService!.markBaseRead(currentUser.id, id);
+    
+    return { success: true };
+  });
+
   // POST /api/v1/message-bases - Create message base (admin only)
   server.post('/api/v1/message-bases', {
     schema: createMessageBaseSchema,
@@ -293,12 +380,15 @@ export async function registerMessageRoutes(
       return;
     }
     
-    const { name, description, accessLevelRead, accessLevelWrite, sortOrder } = request.body as {
+    const { name, description, accessLevelRead, accessLevelWrite, sortOrder, moderationPolicy, echoTag, aiSysopReplies } = request.body as {
       name: string;
       description?: string;
       accessLevelRead?: number;
       accessLevelWrite?: number;
       sortOrder?: number;
+      moderationPolicy?: ModerationPolicy;
+      echoTag?: string;
+      aiSysopReplies?: boolean;
     };
     
     try {
@@ -308,6 +398,9 @@ export async function registerMessageRoutes(
         accessLevelRead: accessLevelRead ?? 0,
         accessLevelWrite: accessLevelWrite ?? 10,
         sortOrder: sortOrder ?? 0,
+        moderationPolicy,
+        echoTag,
+        aiSysopReplies,
       });
       
       return {
@@ -319,6 +412,9 @@ export async function registerMessageRoutes(
         postCount: base.postCount,
         lastPostAt: base.lastPostAt,
         sortOrder: base.sortOrder,
+        moderationPolicy: base.moderationPolicy,
+        echoTag: base.echoTag,
+        aiSysopReplies: base.aiSysopReplies,
       };
     } catch (error) {
       reply.status(400 as any).send({ 
@@ -406,6 +502,71 @@ export async function registerMessageRoutes(
     };
   });
 
+  // GET /api/v1/messages/search - Full-text search across readable message bases
+  server.get('/api/v1/messages/search', {
+    schema: searchMessagesSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const currentUser = (request as any).user;
+    const { q, baseId, author, since, until, page = 1, limit = 20 } = request.query as {
+      q: string;
+      baseId?: string;
+      author?: string;
+      since?: string;
+      until?: string;
+      page?: number;
+      limit?: number;
+    };
+    
+    const pageNum = Math.max(1, Number(page));
+    const limitNum = Math.min(100, Math.max(1, Number(limit)));
+    const offset = (pageNum - 1) * limitNum;
+    
+    try {
+      // Hits are wrapped in <mark> for clients to style
+      const { results, total } = await messageService!.searchMessages(
+        currentUser.id,
+        q,
+        {
+          baseId,
+          authorHandle: author,
+          since: since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+        },
+        limitNum,
+        offset,
+        { start: '<mark>', end: '</mark>' }
+      );
+      
+      return {
+        results: results.map(result => ({
+          id: result.id,
+          baseId: result.baseId,
+          baseName: result.baseName,
+          parentId: result.parentId,
+          userId: result.userId,
+          authorHandle: result.authorHandle,
+          subject: result.subject,
+          snippet: result.snippet,
+          rank: result.rank,
+          createdAt: result.createdAt,
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum),
+          hasNext: offset + limitNum < total,
+          hasPrev: pageNum > 1,
+        },
+      };
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
   // GET /api/v1/messages/:id - Get message details
   server.get('/api/v1/messages/:id', { 
     schema: getMessageSchema,
@@ -424,8 +585,10 @@ export async function registerMessageRoutes(
     const { id } = request.params as { id: string };
     const currentUser = (request as any).user;
     
+    // Posts held for moderation are only visible to their author and sysops
     const message = messageService.getMessage(id);
-    if (!message) {
+    const hidden = message?.isHeld && message.userId !== currentUser.id && currentUser.accessLevel < 255;
+    if (!message || hidden) {
       reply.status(404 as any).send({ 
         error: {
           code: 'NOT_FOUND',
@@ -446,6 +609,8 @@ export async function registerMessageRoutes(
       return;
     }
     
+    messageService.markMessageRead(currentUser.id, message.id);
+    
     return {
       id: message.id,
       baseId: message.baseId,
@@ -456,6 +621,149 @@ export async function registerMessageRoutes(
       body: message.body,
       createdAt: message.createdAt,
       editedAt: message.editedAt,
+      isHeld: message.isHeld,
+    };
+  });
+
+  // GET /api/v1/messages/:id/thread - Get the full thread a message belongs to
+  server.get('/api/v1/messages/:id/thread', {
+    schema: getThreadSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    
+    const message = messageService!.getMessage(id);
+    const thread = message ? messageService!.getThread(id) : null;
+    if (!message || !thread) {
+      ErrorHandler.sendNotFoundError(reply, 'Message not found');
+      return;
+    }
+    
+    if (!await messageService!.canUserReadBase(currentUser.id, message.baseId)) {
+      ErrorHandler.sendForbiddenError(reply, 'Insufficient access level to read this message');
+      return;
+    }
+    
+    return {
+      thread: toThreadResponse(thread),
+      total: messageService!.getThreadMessages(id).length,
+    };
+  });
+
+  // PATCH /api/v1/messages/:id - Edit a message (author within the edit window, or sysop)
+  server.patch('/api/v1/messages/:id', {
+    schema: updateMessageSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 30,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    const { subject, body } = request.body as { subject?: string; body?: string };
+    
+    const message = messageService!.getMessage(id);
+    if (!message) {
+      ErrorHandler.sendNotFoundError(reply, 'Message not found');
+      return;
+    }
+    
+    if (!ErrorHandler.checkPermission(reply, await messageService!.canModifyMessage(currentUser.id, message), 'Not authorized to edit this message')) {
+      return;
+    }
+    
+    try {
+      const updated = await messageService!.editMessage(id, currentUser.id, {
+        subject: subject?.trim(),
+        body: body?.trim(),
+      });
+      
+      return {
+        id: updated.id,
+        baseId: updated.baseId,
+        parentId: updated.parentId,
+        userId: updated.userId,
+        authorHandle: updated.authorHandle,
+        subject: updated.subject,
+        body: updated.body,
+        createdAt: updated.createdAt,
+        editedAt: updated.editedAt,
+        isHeld: updated.isHeld,
+      };
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // DELETE /api/v1/messages/:id - Delete a message (author within the edit window, or sysop)
+  server.delete('/api/v1/messages/:id', {
+    schema: deleteMessageSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    
+    const message = messageService!.getMessage(id);
+    if (!message) {
+      ErrorHandler.sendNotFoundError(reply, 'Message not found');
+      return;
+    }
+    
+    if (!ErrorHandler.checkPermission(reply, await messageService!.canModifyMessage(currentUser.id, message), 'Not authorized to delete this message')) {
+      return;
+    }
+    
+    try {
+      await messageService!.deleteMessage(id, currentUser.id);
+      return { success: true };
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // GET /api/v1/messages/:id/revisions - Get the edit history of a message (author or sysop)
+  server.get('/api/v1/messages/:id/revisions', {
+    schema: getRevisionsSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, messageService, 'Message service')) return;
+    
+    const { id } = request.params as { id: string };
+    const currentUser = (request as any).user;
+    
+    const message = messageService!.getMessage(id);
+    const revisions = messageService!.getRevisions(id);
+    if (!message && revisions.length === 0) {
+      ErrorHandler.sendNotFoundError(reply, 'Message not found');
+      return;
+    }
+    
+    // A deleted message keeps its history, but only sysops can see it
+    const isAuthor = message?.userId === currentUser.id;
+    if (!ErrorHandler.checkPermission(reply, isAuthor || currentUser.accessLevel >= 255, 'Not authorized to view this message history')) {
+      return;
+    }
+    
+    return {
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        subject: revision.subject,
+        body: revision.body,
+        action: revision.action,
+        changedBy: revision.changedBy,
+        changedByHandle: revision.changedByHandle,
+        createdAt: revision.createdAt,
+      })),
     };
   });
 
@@ -526,6 +834,7 @@ export async function registerMessageRoutes(
         subject: message.subject,
         body: message.body,
         createdAt: message.createdAt,
+        isHeld: message.isHeld,
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
@@ -614,6 +923,7 @@ export async function registerMessageRoutes(
         subject: message.subject,
         body: message.body,
         createdAt: message.createdAt,
+        isHeld: message.isHeld,
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('Rate limit exceeded')) {
@@ -697,6 +1007,7 @@ export async function registerMessageRoutes(
         messageBaseId: id,
         messageBaseName: base.name,
         maxMessages: Math.min(maxMessages, 100),
+        userId: (request as any).user.id,
       });
       
       return {
@@ -709,6 +1020,10 @@ export async function registerMessageRoutes(
         generatedAt: summary.generatedAt,
       };
     } catch (error) {
+      if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+        ErrorHandler.sendRateLimitError(reply, error.getUserMessage());
+        return;
+      }
       reply.status(500 as any).send({ 
         error: {
           code: 'INTERNAL_ERROR',
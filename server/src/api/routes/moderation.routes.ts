@@ -0,0 +1,114 @@
+import type { FastifyInstance } from 'fastify';
+import type { ModerationService } from '../../services/ModerationService.js';
+import type { ModerationQueueEntry, ModerationStatus } from '../../db/repositories/ModerationRepository.js';
+import type { JWTUtil } from '../../auth/jwt.js';
+import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { createSysOpAuthMiddleware } from '../middleware/auth.middleware.js';
+import {
+  listModerationQueueSchema,
+  approveMessageSchema,
+  removeMessageSchema
+} from '../schemas/moderation.schema.js';
+
+/**
+ * Map a queue entry to its API representation
+ */
+function toQueueEntryResponse(entry: ModerationQueueEntry) {
+  return {
+    messageId: entry.messageId,
+    baseId: entry.baseId,
+    baseName: entry.baseName,
+    subject: entry.subject,
+    body: entry.body,
+    authorHandle: entry.authorHandle,
+    postedAt: entry.postedAt,
+    category: entry.category,
+    reason: entry.reason,
+    source: entry.source,
+    status: entry.status,
+    createdAt: entry.createdAt,
+    reviewedByHandle: entry.reviewedByHandle,
+    reviewedAt: entry.reviewedAt,
+    reviewReason: entry.reviewReason,
+  };
+}
+
+/**
+ * Register moderation queue routes (sysop only)
+ */
+export async function registerModerationRoutes(
+  server: FastifyInstance,
+  jwtUtil: JWTUtil,
+  moderationService?: ModerationService
+) {
+  const authenticateSysOp = createSysOpAuthMiddleware(jwtUtil);
+
+  // GET /api/v1/moderation/queue - List held posts (or reviewed ones, by status)
+  server.get('/api/v1/moderation/queue', {
+    schema: listModerationQueueSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, moderationService, 'Moderation service')) return;
+
+    const { status = 'pending', page = 1, limit = 50 } = request.query as {
+      status?: ModerationStatus;
+      page?: number;
+      limit?: number;
+    };
+
+    const pageNum = Math.max(1, Number(page));
+    const limitNum = Math.min(100, Math.max(1, Number(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const { entries, total } = moderationService!.getQueue(status, limitNum, offset);
+
+    return {
+      entries: entries.map(toQueueEntryResponse),
+      pending: moderationService!.getPendingCount(),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+        hasNext: offset + limitNum < total,
+        hasPrev: pageNum > 1,
+      },
+    };
+  });
+
+  // POST /api/v1/moderation/queue/:messageId/approve - Release a held post
+  server.post('/api/v1/moderation/queue/:messageId/approve', {
+    schema: approveMessageSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, moderationService, 'Moderation service')) return;
+
+    const { messageId } = request.params as { messageId: string };
+    const { reason } = (request.body ?? {}) as { reason?: string };
+    const currentUser = (request as any).user;
+
+    try {
+      return toQueueEntryResponse(moderationService!.approve(messageId, currentUser.id, reason));
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/moderation/queue/:messageId/remove - Remove a held post
+  server.post('/api/v1/moderation/queue/:messageId/remove', {
+    schema: removeMessageSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, moderationService, 'Moderation service')) return;
+
+    const { messageId } = request.params as { messageId: string };
+    const { reason } = request.body as { reason: string };
+    const currentUser = (request as any).user;
+
+    try {
+      return toQueueEntryResponse(moderationService!.remove(messageId, currentUser.id, reason));
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+}
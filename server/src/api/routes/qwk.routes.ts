@@ -0,0 +1,117 @@
+import type { FastifyInstance } from 'fastify';
+import type { QwkService } from '../../services/QwkService.js';
+import type { JWTUtil } from '../../auth/jwt.js';
+import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { createUserAuthMiddleware } from '../middleware/auth.middleware.js';
+import {
+  downloadPacketSchema,
+  uploadReplyPacketSchema,
+  confirmPacketSchema,
+  resetPointersSchema
+} from '../schemas/qwk.schema.js';
+
+// Reply packets are small; this leaves room for a few hundred replies
+const MAX_REPLY_PACKET_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Register QWK offline mail routes
+ */
+export async function registerQwkRoutes(
+  server: FastifyInstance,
+  jwtUtil: JWTUtil,
+  qwkService?: QwkService
+) {
+  const authenticateUser = createUserAuthMiddleware(jwtUtil);
+
+  // REP packets arrive as raw zip files
+  for (const contentType of ['application/zip', 'application/octet-stream']) {
+    if (!server.hasContentTypeParser(contentType)) {
+      server.addContentTypeParser(
+        contentType,
+        { parseAs: 'buffer', bodyLimit: MAX_REPLY_PACKET_BYTES },
+        (_request, body, done) => done(null, body)
+      );
+    }
+  }
+
+  // GET /api/v1/qwk/packet - Download new messages as a QWK packet. The
+  // same messages come again until the packet is confirmed.
+  server.get('/api/v1/qwk/packet', {
+    schema: downloadPacketSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 10,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, qwkService, 'QWK service')) return;
+
+    const currentUser = (request as any).user;
+
+    try {
+      const packet = qwkService!.createPacket(currentUser.id);
+
+      reply
+        .header('Content-Type', 'application/octet-stream')
+        .header('Content-Disposition', `attachment; filename="${packet.fileName}"`)
+        .header('X-Message-Count', String(packet.messageCount));
+      return reply.send(packet.data);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/qwk/rep - Upload a REP packet of replies
+  server.post('/api/v1/qwk/rep', {
+    schema: uploadReplyPacketSchema,
+    preHandler: authenticateUser,
+    config: {
+      rateLimit: {
+        max: 10,
+        timeWindow: '1 minute',
+      },
+    },
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, qwkService, 'QWK service')) return;
+
+    const currentUser = (request as any).user;
+    if (!Buffer.isBuffer(request.body)) {
+      ErrorHandler.sendBadRequestError(reply, 'Send the REP packet as application/zip');
+      return;
+    }
+
+    try {
+      return await qwkService!.importReplies(currentUser.id, request.body);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/qwk/ack - Confirm the latest packet arrived
+  server.post('/api/v1/qwk/ack', {
+    schema: confirmPacketSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, qwkService, 'QWK service')) return;
+
+    const currentUser = (request as any).user;
+    qwkService!.confirmPacket(currentUser.id);
+
+    return { success: true };
+  });
+
+  // DELETE /api/v1/qwk/pointers - Re-send everything in the next packet
+  server.delete('/api/v1/qwk/pointers', {
+    schema: resetPointersSchema,
+    preHandler: authenticateUser
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, qwkService, 'QWK service')) return;
+
+    const currentUser = (request as any).user;
+    qwkService!.resetPointers(currentUser.id);
+
+    return { success: true };
+  });
+}
@@ -0,0 +1,114 @@
+import type { FastifyInstance } from 'fastify';
+import type { ScreenService, ScreenKind } from '../../services/ScreenService.js';
+import type { ArtStyle, ColorTheme } from '../../services/ANSIArtGenerator.js';
+import type { JWTUtil } from '../../auth/jwt.js';
+import { ErrorHandler } from '../../utils/ErrorHandler.js';
+import { AIProviderError } from '../../ai/AIProvider.js';
+import { createSysOpAuthMiddleware } from '../middleware/auth.middleware.js';
+import {
+  listScreensSchema,
+  generateScreenSchema,
+  previewScreenSchema,
+  publishScreenSchema,
+  rollbackScreenSchema
+} from '../schemas/screen.schema.js';
+
+/**
+ * Register welcome and goodbye screen routes (sysop only)
+ */
+export async function registerScreenRoutes(
+  server: FastifyInstance,
+  jwtUtil: JWTUtil,
+  screenService?: ScreenService
+) {
+  const authenticateSysOp = createSysOpAuthMiddleware(jwtUtil);
+
+  // GET /api/v1/screens - The active welcome and goodbye screens
+  server.get('/api/v1/screens', {
+    schema: listScreensSchema,
+    preHandler: authenticateSysOp
+  }, async (_request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, screenService, 'Screen service')) return;
+
+    return {
+      screens: [screenService!.getScreen('welcome'), screenService!.getScreen('goodbye')],
+    };
+  });
+
+  // POST /api/v1/screens/:kind/generate - Draw a new screen to preview
+  server.post('/api/v1/screens/:kind/generate', {
+    schema: generateScreenSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, screenService, 'Screen service')) return;
+    if (!screenService!.canGenerate()) {
+      ErrorHandler.sendServiceUnavailableError(reply, 'Art generation service is not available');
+      return;
+    }
+
+    const { kind } = request.params as { kind: ScreenKind };
+    const { description, style, colorTheme } = request.body as {
+      description: string;
+      style?: ArtStyle;
+      colorTheme?: ColorTheme;
+    };
+    const currentUser = (request as any).user;
+
+    try {
+      return await screenService!.generate(kind, { description, style, colorTheme, userId: currentUser.id });
+    } catch (error) {
+      if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+        ErrorHandler.sendRateLimitError(reply, error.getUserMessage());
+        return;
+      }
+      server.log.error({ error }, 'Error generating screen');
+      ErrorHandler.sendInternalError(reply, 'Failed to generate screen');
+    }
+  });
+
+  // POST /api/v1/screens/:kind/preview - Preview and check an edited screen
+  server.post('/api/v1/screens/:kind/preview', {
+    schema: previewScreenSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, screenService, 'Screen service')) return;
+
+    const { kind } = request.params as { kind: ScreenKind };
+    const { content } = request.body as { content: string };
+
+    return screenService!.draft(kind, content);
+  });
+
+  // POST /api/v1/screens/:kind/publish - Make a screen the active one
+  server.post('/api/v1/screens/:kind/publish', {
+    schema: publishScreenSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, screenService, 'Screen service')) return;
+
+    const { kind } = request.params as { kind: ScreenKind };
+    const { content } = request.body as { content: string };
+
+    try {
+      return screenService!.publish(kind, content);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+
+  // POST /api/v1/screens/:kind/rollback - Restore the screen before the last publish
+  server.post('/api/v1/screens/:kind/rollback', {
+    schema: rollbackScreenSchema,
+    preHandler: authenticateSysOp
+  }, async (request, reply) => {
+    if (!ErrorHandler.checkServiceAvailable(reply, screenService, 'Screen service')) return;
+
+    const { kind } = request.params as { kind: ScreenKind };
+
+    try {
+      return screenService!.rollback(kind);
+    } catch (error) {
+      ErrorHandler.handleError(reply, error);
+    }
+  });
+}
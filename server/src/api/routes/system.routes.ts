@@ -4,10 +4,12 @@ import type { SessionManager } from '../../session/SessionManager.js';
 import type { JWTUtil } from '../../auth/jwt.js';
 import type { NotificationService } from '../../notifications/NotificationService.js';
 import type { AISysOp } from '../../ai/AISysOp.js';
+import type { AIService } from '../../ai/AIService.js';
 import type { BBSConfig } from '../../config/ConfigLoader.js';
+import type { NodeManager } from '../../connection/NodeManager.js';
 import { NotificationEventType, createNotificationEvent, SystemAnnouncementPayload, AnnouncementPriority } from '../../notifications/types.js';
 import { createUserAuthMiddleware, createSysOpAuthMiddleware } from '../middleware/auth.middleware.js';
-import { dashboardSchema, aiSettingsSchema, systemAnnouncementSchema, pageSysOpSchema } from '../schemas/system.schema.js';
+import { dashboardSchema, aiSettingsSchema, aiUsageSchema, systemAnnouncementSchema, pageSysOpSchema } from '../schemas/system.schema.js';
 
 /**
  * Register system administration routes
@@ -19,7 +21,9 @@ export async function registerSystemRoutes(
   jwtUtil: JWTUtil,
   config: BBSConfig,
   notificationService?: NotificationService,
-  aiSysOp?: AISysOp
+  aiSysOp?: AISysOp,
+  nodeManager?: NodeManager,
+  aiService?: AIService
 ) {
   const authenticateUser = createUserAuthMiddleware(jwtUtil);
   const authenticate = createSysOpAuthMiddleware(jwtUtil);
@@ -34,6 +38,19 @@ export async function registerSystemRoutes(
     
     const totalUsers = userRepository.findAll();
     
+    // Node occupancy - who is on which line
+    const nodes = nodeManager
+      ? nodeManager.getAssignments().map(assignment => {
+          const session = sessionManager.getSessionByConnection(assignment.connectionId);
+          return {
+            node: assignment.node,
+            handle: session?.handle ?? null,
+            state: session?.state ?? 'connected',
+            connectedAt: assignment.connectedAt.toISOString(),
+          };
+        })
+      : [];
+    
     return {
       currentCallers: activeSessions.length,
       totalUsers: totalUsers.length,
@@ -41,8 +58,9 @@ export async function registerSystemRoutes(
       recentActivity: [],
       uptime: process.uptime(),
       nodeUsage: {
-        active: activeSessions.length,
-        total: 4,
+        active: nodeManager ? nodeManager.getActiveCount() : sessions.length,
+        total: nodeManager ? nodeManager.getMaxNodes() : config.bbs.maxNodes,
+        nodes,
       },
     };
   });
@@ -55,6 +73,9 @@ export async function registerSystemRoutes(
     return {
       provider: config.ai.provider,
       model: config.ai.model,
+      baseUrl: config.ai.baseUrl ?? null,
+      // Models installed on a local provider such as Ollama; null otherwise
+      availableModels: aiService ? await aiService.listModels() : null,
       sysop: {
         enabled: config.ai.sysop.enabled,
         welcomeNewUsers: config.ai.sysop.welcomeNewUsers,
@@ -69,6 +90,25 @@ export async function registerSystemRoutes(
     };
   });
 
+  // GET /api/ai-usage - AI token usage per feature and user (admin only)
+  server.get('/api/ai-usage', {
+    schema: aiUsageSchema,
+    preHandler: authenticate
+  }, async (request, reply) => {
+    const report = aiService?.getUsageReport((request.query as { days?: number }).days);
+    if (!report) {
+      reply.status(501 as any).send({
+        error: {
+          code: 'NOT_IMPLEMENTED',
+          message: 'AI usage tracking not available'
+        }
+      });
+      return;
+    }
+
+    return report;
+  });
+
   // POST /api/v1/system/announcement - Send system-wide announcement (admin only)
   server.post('/api/v1/system/announcement', {
     schema: systemAnnouncementSchema,
@@ -192,7 +232,7 @@ export async function registerSystemRoutes(
       const startTime = Date.now();
       
       const response = await Promise.race([
-        aiSysOp.respondToPage(requestUser.handle, question),
+        aiSysOp.respondToPage(requestUser.handle, question, requestUser.id),
         new Promise<string>((_, reject) => 
           setTimeout(() => reject(new Error('AI SysOp response timeout')), 5000)
         )
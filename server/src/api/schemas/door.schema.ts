@@ -251,3 +251,31 @@ export const getDoorStatsSchema = {
     }
   }
 };
+
+export const forgetDoorMemorySchema = {
+  params: {
+    type: 'object',
+    required: ['id', 'userId'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Door game ID'
+      },
+      userId: {
+        type: 'string',
+        description: 'User whose memory to wipe'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        doorId: { type: 'string' },
+        userId: { type: 'string' },
+        forgotten: { type: 'boolean' }
+      }
+    }
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * JSON Schema definitions for private mail endpoints
+ */
+
+const mailIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: {
+      type: 'string',
+      description: 'Mail ID'
+    }
+  },
+  additionalProperties: false
+};
+
+const mailResponse = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    fromUserId: { type: 'string' },
+    fromHandle: { type: ['string', 'null'] },
+    toUserId: { type: 'string' },
+    toHandle: { type: ['string', 'null'] },
+    replyToId: { type: ['string', 'null'] },
+    subject: { type: 'string' },
+    body: { type: 'string' },
+    createdAt: { type: 'string' },
+    readAt: { type: ['string', 'null'] }
+  }
+};
+
+const listMailQuerystring = {
+  type: 'object',
+  properties: {
+    page: {
+      type: 'number',
+      minimum: 1,
+      default: 1,
+      description: 'Page number for pagination'
+    },
+    limit: {
+      type: 'number',
+      minimum: 1,
+      maximum: 100,
+      default: 50,
+      description: 'Number of items per page'
+    }
+  },
+  additionalProperties: false
+};
+
+const paginationResponse = {
+  type: 'object',
+  properties: {
+    page: { type: 'number' },
+    limit: { type: 'number' },
+    total: { type: 'number' },
+    pages: { type: 'number' },
+    hasNext: { type: 'boolean' },
+    hasPrev: { type: 'boolean' }
+  }
+};
+
+export const listInboxSchema = {
+  querystring: listMailQuerystring,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        mail: { type: 'array', items: mailResponse },
+        unread: { type: 'number' },
+        pagination: paginationResponse
+      }
+    }
+  }
+};
+
+export const listSentSchema = {
+  querystring: listMailQuerystring,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        mail: { type: 'array', items: mailResponse },
+        pagination: paginationResponse
+      }
+    }
+  }
+};
+
+export const getMailSchema = {
+  params: mailIdParams,
+  response: {
+    200: mailResponse
+  }
+};
+
+export const sendMailSchema = {
+  body: {
+    type: 'object',
+    required: ['to', 'subject', 'body'],
+    properties: {
+      to: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 20,
+        description: 'Recipient handle'
+      },
+      subject: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 200,
+        description: 'Mail subject'
+      },
+      body: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 10000,
+        description: 'Mail body'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: mailResponse
+  }
+};
+
+export const replyMailSchema = {
+  params: mailIdParams,
+  body: {
+    type: 'object',
+    required: ['body'],
+    properties: {
+      body: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 10000,
+        description: 'Reply body'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: mailResponse
+  }
+};
+
+export const forwardMailSchema = {
+  params: mailIdParams,
+  body: {
+    type: 'object',
+    required: ['to'],
+    properties: {
+      to: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 20,
+        description: 'Recipient handle'
+      },
+      note: {
+        type: 'string',
+        maxLength: 2000,
+        description: 'Optional note above the forwarded mail'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: mailResponse
+  }
+};
+
+export const deleteMailSchema = {
+  params: mailIdParams,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
@@ -50,7 +50,11 @@ export const listMessageBasesSchema = {
               accessLevelWrite: { type: 'number' },
               postCount: { type: 'number' },
               lastPostAt: { type: ['string', 'null'] },
-              sortOrder: { type: 'number' }
+              sortOrder: { type: 'number' },
+              moderationPolicy: { type: 'string' },
+              echoTag: { type: ['string', 'null'] },
+              aiSysopReplies: { type: 'boolean' },
+              unreadCount: { type: 'number' }
             }
           }
         },
@@ -94,6 +98,10 @@ export const getMessageBaseSchema = {
         postCount: { type: 'number' },
         lastPostAt: { type: ['string', 'null'] },
         sortOrder: { type: 'number' },
+        moderationPolicy: { type: 'string' },
+        echoTag: { type: ['string', 'null'] },
+        aiSysopReplies: { type: 'boolean' },
+        unreadCount: { type: 'number' },
         permissions: {
           type: 'object',
           properties: {
@@ -141,6 +149,22 @@ export const createMessageBaseSchema = {
         minimum: 0,
         default: 0,
         description: 'Sort order for display'
+      },
+      moderationPolicy: {
+        type: 'string',
+        enum: ['off', 'flagged', 'all'],
+        default: 'flagged',
+        description: 'Which new posts are held for a moderator'
+      },
+      echoTag: {
+        type: 'string',
+        maxLength: 35,
+        description: 'FTN echomail area tag to link the base to'
+      },
+      aiSysopReplies: {
+        type: 'boolean',
+        default: false,
+        description: 'Whether the AI SysOp replies to posts in the base'
       }
     },
     additionalProperties: false
@@ -156,7 +180,10 @@ export const createMessageBaseSchema = {
         accessLevelWrite: { type: 'number' },
         postCount: { type: 'number' },
         lastPostAt: { type: ['string', 'null'] },
-        sortOrder: { type: 'number' }
+        sortOrder: { type: 'number' },
+        moderationPolicy: { type: 'string' },
+        echoTag: { type: ['string', 'null'] },
+        aiSysopReplies: { type: 'boolean' }
       }
     }
   }
@@ -204,6 +231,20 @@ export const updateMessageBaseSchema = {
         type: 'number',
         minimum: 0,
         description: 'Sort order for display'
+      },
+      moderationPolicy: {
+        type: 'string',
+        enum: ['off', 'flagged', 'all'],
+        description: 'Which new posts are held for a moderator'
+      },
+      echoTag: {
+        type: ['string', 'null'],
+        maxLength: 35,
+        description: 'FTN echomail area tag; null unlinks the base'
+      },
+      aiSysopReplies: {
+        type: 'boolean',
+        description: 'Whether the AI SysOp replies to posts in the base'
       }
     },
     additionalProperties: false
@@ -232,6 +273,39 @@ export const deleteMessageBaseSchema = {
   }
 };
 
+export const markMessageBaseReadSchema = {
+  params: {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Message base ID'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const markAllMessageBasesReadSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
+
 export const listMessagesSchema = {
   params: {
     type: 'object',
@@ -312,6 +386,89 @@ export const listMessagesSchema = {
   }
 };
 
+export const searchMessagesSchema = {
+  querystring: {
+    type: 'object',
+    required: ['q'],
+    properties: {
+      q: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 200,
+        description: 'Words to search for in subjects and bodies (word* for prefix match)'
+      },
+      baseId: {
+        type: 'string',
+        description: 'Only search this message base'
+      },
+      author: {
+        type: 'string',
+        description: 'Only match messages by this handle'
+      },
+      since: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only match messages posted at or after this time'
+      },
+      until: {
+        type: 'string',
+        format: 'date-time',
+        description: 'Only match messages posted at or before this time'
+      },
+      page: {
+        type: 'number',
+        minimum: 1,
+        default: 1,
+        description: 'Page number for pagination'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: 'Number of items per page'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              baseId: { type: 'string' },
+              baseName: { type: 'string' },
+              parentId: { type: ['string', 'null'] },
+              userId: { type: 'string' },
+              authorHandle: { type: 'string' },
+              subject: { type: 'string' },
+              snippet: { type: 'string' },
+              rank: { type: 'number' },
+              createdAt: { type: 'string' }
+            }
+          }
+        },
+        pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            total: { type: 'number' },
+            pages: { type: 'number' },
+            hasNext: { type: 'boolean' },
+            hasPrev: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  }
+};
+
 export const getMessageSchema = {
   params: {
     type: 'object',
@@ -336,7 +493,52 @@ export const getMessageSchema = {
         subject: { type: 'string' },
         body: { type: 'string' },
         createdAt: { type: 'string' },
-        editedAt: { type: ['string', 'null'] }
+        editedAt: { type: ['string', 'null'] },
+        isHeld: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const getThreadSchema = {
+  params: {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'ID of any message in the thread'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      definitions: {
+        threadNode: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            baseId: { type: 'string' },
+            parentId: { type: ['string', 'null'] },
+            userId: { type: 'string' },
+            authorHandle: { type: ['string', 'null'] },
+            subject: { type: 'string' },
+            body: { type: 'string' },
+            createdAt: { type: 'string' },
+            editedAt: { type: ['string', 'null'] },
+            isDeleted: { type: 'boolean' },
+            replies: {
+              type: 'array',
+              items: { $ref: '#/definitions/threadNode' }
+            }
+          }
+        }
+      },
+      properties: {
+        thread: { $ref: '#/definitions/threadNode' },
+        total: { type: 'number' }
       }
     }
   }
@@ -384,7 +586,8 @@ export const postMessageSchema = {
         authorHandle: { type: 'string' },
         subject: { type: 'string' },
         body: { type: 'string' },
-        createdAt: { type: 'string' }
+        createdAt: { type: 'string' },
+        isHeld: { type: 'boolean' }
       }
     }
   }
@@ -432,7 +635,116 @@ export const postReplySchema = {
         authorHandle: { type: 'string' },
         subject: { type: 'string' },
         body: { type: 'string' },
-        createdAt: { type: 'string' }
+        createdAt: { type: 'string' },
+        isHeld: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const updateMessageSchema = {
+  params: {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Message ID'
+      }
+    },
+    additionalProperties: false
+  },
+  body: {
+    type: 'object',
+    minProperties: 1,
+    properties: {
+      subject: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 200,
+        description: 'New subject'
+      },
+      body: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 10000,
+        description: 'New body'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        baseId: { type: 'string' },
+        parentId: { type: ['string', 'null'] },
+        userId: { type: 'string' },
+        authorHandle: { type: 'string' },
+        subject: { type: 'string' },
+        body: { type: 'string' },
+        createdAt: { type: 'string' },
+        editedAt: { type: ['string', 'null'] },
+        isHeld: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const deleteMessageSchema = {
+  params: {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Message ID'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const getRevisionsSchema = {
+  params: {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: {
+        type: 'string',
+        description: 'Message ID'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        revisions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              subject: { type: 'string' },
+              body: { type: 'string' },
+              action: { type: 'string', enum: ['edit', 'delete'] },
+              changedBy: { type: 'string' },
+              changedByHandle: { type: 'string' },
+              createdAt: { type: 'string' }
+            }
+          }
+        }
       }
     }
   }
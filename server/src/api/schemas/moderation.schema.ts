@@ -0,0 +1,122 @@
+/**
+ * JSON Schema definitions for moderation queue endpoints
+ */
+
+const messageIdParams = {
+  type: 'object',
+  required: ['messageId'],
+  properties: {
+    messageId: {
+      type: 'string',
+      description: 'ID of the held message'
+    }
+  },
+  additionalProperties: false
+};
+
+const queueEntryResponse = {
+  type: 'object',
+  properties: {
+    messageId: { type: 'string' },
+    baseId: { type: 'string' },
+    baseName: { type: ['string', 'null'] },
+    subject: { type: 'string' },
+    body: { type: 'string' },
+    authorHandle: { type: ['string', 'null'] },
+    postedAt: { type: 'string' },
+    category: { type: ['string', 'null'] },
+    reason: { type: 'string' },
+    source: { type: 'string' },
+    status: { type: 'string' },
+    createdAt: { type: 'string' },
+    reviewedByHandle: { type: ['string', 'null'] },
+    reviewedAt: { type: ['string', 'null'] },
+    reviewReason: { type: ['string', 'null'] }
+  }
+};
+
+export const listModerationQueueSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['pending', 'approved', 'removed'],
+        default: 'pending',
+        description: 'Queue entries to list'
+      },
+      page: {
+        type: 'number',
+        minimum: 1,
+        default: 1,
+        description: 'Page number for pagination'
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 100,
+        default: 50,
+        description: 'Number of items per page'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        entries: { type: 'array', items: queueEntryResponse },
+        pending: { type: 'number' },
+        pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'number' },
+            limit: { type: 'number' },
+            total: { type: 'number' },
+            pages: { type: 'number' },
+            hasNext: { type: 'boolean' },
+            hasPrev: { type: 'boolean' }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const approveMessageSchema = {
+  params: messageIdParams,
+  body: {
+    type: 'object',
+    properties: {
+      reason: {
+        type: 'string',
+        maxLength: 500,
+        description: 'Optional note on why the post was approved'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: queueEntryResponse
+  }
+};
+
+export const removeMessageSchema = {
+  params: messageIdParams,
+  body: {
+    type: 'object',
+    required: ['reason'],
+    properties: {
+      reason: {
+        type: 'string',
+        minLength: 1,
+        maxLength: 500,
+        description: 'Why the post was removed'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: queueEntryResponse
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * JSON Schema definitions for QWK offline mail endpoints
+ */
+
+export const downloadPacketSchema = {
+  querystring: {
+    type: 'object',
+    properties: {},
+    additionalProperties: false
+  }
+};
+
+export const uploadReplyPacketSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        posted: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              baseId: { type: 'string' },
+              subject: { type: 'string' },
+              isHeld: { type: 'boolean' }
+            }
+          }
+        },
+        failed: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              conference: { type: 'number' },
+              subject: { type: 'string' },
+              error: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const confirmPacketSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export const resetPointersSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' }
+      }
+    }
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * JSON Schema definitions for welcome and goodbye screen endpoints
+ */
+
+const kindParams = {
+  type: 'object',
+  required: ['kind'],
+  properties: {
+    kind: {
+      type: 'string',
+      enum: ['welcome', 'goodbye'],
+      description: 'Which screen'
+    }
+  },
+  additionalProperties: false
+};
+
+const activeScreenResponse = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string' },
+    file: { type: 'string' },
+    builtIn: { type: 'boolean' },
+    preview: { type: 'string' },
+    canRollback: { type: 'boolean' }
+  }
+};
+
+const draftResponse = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string' },
+    content: { type: 'string' },
+    preview: { type: 'string' },
+    validation: {
+      type: 'object',
+      properties: {
+        valid: { type: 'boolean' },
+        issues: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  }
+};
+
+export const listScreensSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        screens: { type: 'array', items: activeScreenResponse }
+      }
+    }
+  }
+};
+
+export const generateScreenSchema = {
+  params: kindParams,
+  body: {
+    type: 'object',
+    required: ['description'],
+    properties: {
+      description: {
+        type: 'string',
+        minLength: 3,
+        maxLength: 200,
+        description: 'Theme of the screen, e.g. "a haunted terminal at midnight"'
+      },
+      style: {
+        type: 'string',
+        enum: ['retro', 'cyberpunk', 'fantasy', 'minimal', 'classic']
+      },
+      colorTheme: {
+        type: 'string',
+        enum: ['monochrome', '16-color', 'bright']
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: draftResponse
+  }
+};
+
+export const previewScreenSchema = {
+  params: kindParams,
+  body: {
+    type: 'object',
+    required: ['content'],
+    properties: {
+      content: {
+        type: 'string',
+        description: 'Screen template, with {{variables}}'
+      }
+    },
+    additionalProperties: false
+  },
+  response: {
+    200: draftResponse
+  }
+};
+
+export const publishScreenSchema = {
+  params: kindParams,
+  body: previewScreenSchema.body,
+  response: {
+    200: activeScreenResponse
+  }
+};
+
+export const rollbackScreenSchema = {
+  params: kindParams,
+  response: {
+    200: activeScreenResponse
+  }
+};
@@ -16,7 +16,19 @@ export const dashboardSchema = {
           type: 'object',
           properties: {
             active: { type: 'number' },
-            total: { type: 'number' }
+            total: { type: 'number' },
+            nodes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  node: { type: 'number' },
+                  handle: { type: ['string', 'null'] },
+                  state: { type: 'string' },
+                  connectedAt: { type: 'string' }
+                }
+              }
+            }
           }
         }
       }
@@ -31,6 +43,8 @@ export const aiSettingsSchema = {
       properties: {
         provider: { type: 'string' },
         model: { type: 'string' },
+        baseUrl: { type: ['string', 'null'] },
+        availableModels: { type: ['array', 'null'], items: { type: 'string' } },
         sysop: {
           type: 'object',
           properties: {
@@ -53,6 +67,73 @@ export const aiSettingsSchema = {
   }
 };
 
+const tokenCounts = {
+  inputTokens: { type: 'number' },
+  outputTokens: { type: 'number' }
+};
+
+export const aiUsageSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      days: {
+        type: 'number',
+        minimum: 1,
+        maximum: 90,
+        default: 14,
+        description: 'Number of days of usage to report, including today'
+      }
+    }
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        since: { type: 'string' },
+        daily: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string' },
+              feature: { type: 'string' },
+              ...tokenCounts
+            }
+          }
+        },
+        today: {
+          type: 'object',
+          properties: {
+            features: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  feature: { type: 'string' },
+                  tokens: { type: 'number' },
+                  budget: { type: ['number', 'null'] }
+                }
+              }
+            },
+            topUsers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'string' },
+                  handle: { type: ['string', 'null'] },
+                  tokens: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        perUserBudget: { type: ['number', 'null'] }
+      }
+    }
+  }
+};
+
 export const systemAnnouncementSchema = {
   body: {
     type: 'object',
@@ -2,6 +2,7 @@ import fs from 'fs';
 import yaml from 'js-yaml';
 import path from 'path';
 import type { JWTConfig } from '../auth/jwt.js';
+import { AI_FEATURES, type AIFeature } from '../ai/AIProvider.js';
 
 /**
  * BBS Configuration Structure
@@ -14,29 +15,37 @@ export interface BBSConfig {
     maxNodes: number;
     defaultAccessLevel: number;
     theme: string;
+    qwkId?: string; // Packet ID for offline mail readers, up to 8 letters or digits. Defaults to the BBS name
   };
   network: {
     websocketPort: number;
+    telnetPort?: number; // Omit or set to 0 to disable the telnet listener
+    sshPort?: number; // Omit or set to 0 to disable the SSH listener
+    sshHostKeyPath?: string; // Generated on first start if missing
   };
   ai: {
     provider: 'anthropic' | 'openai' | 'ollama';
     model: string;
+    baseUrl?: string; // openai: any OpenAI-compatible server, e.g. http://localhost:1234/v1 for LM Studio. ollama: defaults to http://localhost:11434
     sysop: {
       enabled: boolean;
       personality: string;
       welcomeNewUsers: boolean;
       participateInChat: boolean;
       chatFrequency: 'always' | 'occasional' | 'only_when_paged';
+      maxChatRepliesPerDay?: number; // Replies to posts per UTC day. Defaults to 20
     };
     doors: {
       enabled: boolean;
       maxTokensPerTurn: number;
     };
+    budgets?: AIBudgetConfig; // Daily token limits; omit for no limits
   };
   security: {
     passwordMinLength: number;
     maxLoginAttempts: number;
     sessionTimeoutMinutes: number;
+    messageEditWindowMinutes?: number; // How long authors may edit or delete their posts; 0 disables. Default 60
     rateLimit: {
       messagesPerHour: number;
       doorRequestsPerMinute: number;
@@ -58,6 +67,32 @@ export interface BBSConfig {
       aiPersonality?: string | null;
     };
   };
+  ftn?: FtnConfig;
+}
+
+/**
+ * Daily AI token budgets. Days start at midnight UTC. A missing or zero
+ * limit means no limit.
+ */
+export interface AIBudgetConfig {
+  perUser?: number; // Tokens each caller may use per day, across all features
+  perFeature?: Partial<Record<AIFeature, number>>; // Tokens each feature may use per day, across all callers
+}
+
+/**
+ * FidoNet-style echomail. Packets are exchanged with the uplink through
+ * the inbound and outbound directories, which a mailer (or a test script)
+ * picks up and fills.
+ */
+export interface FtnConfig {
+  enabled: boolean;
+  address: string; // This system's address, e.g. "21:1/100"
+  uplink: string; // Address packets are sent to and expected from
+  password?: string; // Packet password agreed with the uplink, up to 8 characters
+  inbound: string; // Directory the mailer drops received packets into
+  outbound: string; // Directory exported packets are written to
+  schedule: string; // "*/N" to scan every N minutes, or "HH:MM" once a day
+  origin?: string; // Text of the Origin line. Defaults to the BBS name
 }
 
 export interface MessageBaseConfig {
@@ -166,10 +201,34 @@ export class ConfigLoader {
       throw new Error(`Invalid AI provider: ${this.config.ai.provider}`);
     }
 
+    // Validate AI budgets
+    const budgets = this.config.ai.budgets;
+    if (budgets) {
+      if (budgets.perUser !== undefined && (typeof budgets.perUser !== 'number' || budgets.perUser < 0)) {
+        throw new Error('AI budget perUser must be a number of tokens');
+      }
+      for (const [feature, limit] of Object.entries(budgets.perFeature ?? {})) {
+        if (!(AI_FEATURES as readonly string[]).includes(feature)) {
+          throw new Error(`Unknown AI feature in budgets: ${feature}`);
+        }
+        if (typeof limit !== 'number' || limit < 0) {
+          throw new Error(`AI budget for ${feature} must be a number of tokens`);
+        }
+      }
+    }
+
     // Validate port
     if (this.config.network.websocketPort < 1 || this.config.network.websocketPort > 65535) {
       throw new Error('Invalid websocket port number');
     }
+    const telnetPort = this.config.network.telnetPort;
+    if (telnetPort !== undefined && telnetPort !== 0 && (telnetPort < 1 || telnetPort > 65535)) {
+      throw new Error('Invalid telnet port number');
+    }
+    const sshPort = this.config.network.sshPort;
+    if (sshPort !== undefined && sshPort !== 0 && (sshPort < 1 || sshPort > 65535)) {
+      throw new Error('Invalid SSH port number');
+    }
 
     // Validate security settings
     if (this.config.security.passwordMinLength < 1) {
@@ -178,6 +237,17 @@ export class ConfigLoader {
     if (this.config.security.maxLoginAttempts < 1) {
       throw new Error('Max login attempts must be at least 1');
     }
+
+    // Validate echomail settings
+    const ftn = this.config.ftn;
+    if (ftn?.enabled) {
+      if (!ftn.address || !ftn.uplink) {
+        throw new Error('FTN echomail needs an address and an uplink');
+      }
+      if (!ftn.inbound || !ftn.outbound) {
+        throw new Error('FTN echomail needs inbound and outbound directories');
+      }
+    }
   }
 
   /**
@@ -194,11 +264,32 @@ export class ConfigLoader {
       }
     }
 
+    // Override telnet port from environment
+    if (process.env.TELNET_PORT) {
+      const telnetPort = parseInt(process.env.TELNET_PORT);
+      if (!isNaN(telnetPort)) {
+        this.config.network.telnetPort = telnetPort;
+      }
+    }
+
+    // Override SSH port from environment
+    if (process.env.SSH_PORT) {
+      const sshPort = parseInt(process.env.SSH_PORT);
+      if (!isNaN(sshPort)) {
+        this.config.network.sshPort = sshPort;
+      }
+    }
+
     // Override AI model from environment
     if (process.env.AI_MODEL) {
       this.config.ai.model = process.env.AI_MODEL;
     }
 
+    // Override AI base URL from environment
+    if (process.env.AI_BASE_URL) {
+      this.config.ai.baseUrl = process.env.AI_BASE_URL;
+    }
+
     // Override AI provider from environment
     if (process.env.AI_PROVIDER) {
       const provider = process.env.AI_PROVIDER as BBSConfig['ai']['provider'];
@@ -224,6 +315,10 @@ export class ConfigLoader {
 
       case 'openai':
         const openaiKey = process.env.OPENAI_API_KEY;
+        // Local OpenAI-compatible servers usually run without a key
+        if (!openaiKey && this.config?.ai.baseUrl) {
+          return '';
+        }
         if (!openaiKey) {
           throw new Error('OPENAI_API_KEY environment variable is required');
         }
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { superviseConnection } from './ConnectionLifecycle.js';
+import { WebSocketConnection } from './WebSocketConnection.js';
+import { NodeManager } from './NodeManager.js';
+
+// Minimal stand-in for a ws WebSocket
+class MockWebSocket extends EventEmitter {
+  public readonly OPEN = 1;
+  public readyState = 1;
+
+  send(_data: string, callback?: (error?: Error) => void): void {
+    callback?.();
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.emit('close');
+  }
+}
+
+const mockLogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+} as any;
+
+describe('superviseConnection', () => {
+  let socket: MockWebSocket;
+  let connection: WebSocketConnection;
+  let nodeManager: NodeManager;
+  let cleanup: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    socket = new MockWebSocket();
+    connection = new WebSocketConnection(socket as any);
+    nodeManager = new NodeManager(2, mockLogger);
+    nodeManager.allocate(connection.id);
+    cleanup = vi.fn(async () => nodeManager.release(connection.id));
+  });
+
+  it('should free the node when the caller hangs up before the welcome screen is sent', async () => {
+    const setup = async () => {
+      socket.close();
+      await connection.send('Welcome!');
+    };
+
+    await expect(superviseConnection(connection, setup, cleanup, vi.fn())).rejects.toThrow('Connection is not open');
+
+    expect(nodeManager.getNode(connection.id)).toBeUndefined();
+    expect(nodeManager.getActiveCount()).toBe(0);
+  });
+
+  it('should free what setup took after the caller hung up', async () => {
+    const held = new Set<string>();
+    const setup = async () => {
+      socket.close();
+      await Promise.resolve();
+      held.add('session');
+    };
+
+    await superviseConnection(connection, setup, async () => held.clear(), vi.fn());
+
+    expect(held.size).toBe(0);
+  });
+
+  it('should keep the node until a caller who stays on hangs up', async () => {
+    await superviseConnection(connection, async () => {}, cleanup, vi.fn());
+
+    expect(cleanup).not.toHaveBeenCalled();
+    expect(nodeManager.getNode(connection.id)).toBe(1);
+
+    socket.close();
+    await vi.waitFor(() => expect(nodeManager.getNode(connection.id)).toBeUndefined());
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report cleanup errors rather than throw them', async () => {
+    const onCleanupError = vi.fn();
+    const setup = async () => {
+      socket.close();
+    };
+
+    await superviseConnection(connection, setup, async () => { throw new Error('boom'); }, onCleanupError);
+
+    expect(onCleanupError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+  });
+});
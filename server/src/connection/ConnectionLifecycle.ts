@@ -0,0 +1,38 @@
+import type { IConnection } from './IConnection.js';
+
+/**
+ * Connection Lifecycle
+ *
+ * Makes sure what a caller holds (their node and session) is given back
+ * however the call ends. The cleanup is in place before anything is sent,
+ * so a caller who hangs up while the welcome screen is going out doesn't
+ * keep their node.
+ */
+
+/**
+ * Run a new connection's setup with its cleanup already registered. The
+ * cleanup runs when the connection closes, and again once setup has
+ * finished or failed if the caller has gone by then, to free anything
+ * setup took after the close. It must be safe to run twice.
+ */
+export async function superviseConnection(
+  connection: IConnection,
+  setup: () => Promise<void>,
+  cleanup: () => Promise<void>,
+  onCleanupError: (error: unknown) => void
+): Promise<void> {
+  let closing: Promise<void> | null = null;
+
+  connection.onClose(() => {
+    closing = cleanup().catch(onCleanupError);
+  });
+
+  try {
+    await setup();
+  } finally {
+    if (!connection.isOpen) {
+      await closing;
+      await cleanup().catch(onCleanupError);
+    }
+  }
+}
@@ -1,13 +1,31 @@
+import type { TextEncoding } from './TextEncoding.js';
+
 // Connection abstraction interface
 // This allows us to support multiple protocols (WebSocket, Telnet, SSH) in the future
 
 export interface IConnection {
   readonly id: string;
   readonly isOpen: boolean;
+  /** Terminal size, if the protocol reports one */
+  readonly columns?: number;
+  readonly rows?: number;
+  /** Wire encoding for raw-terminal connections (WebSocket is always UTF-8) */
+  readonly encoding?: TextEncoding;
   
   send(data: string): Promise<void>;
   close(): Promise<void>;
   onData(callback: (data: string) => void): void;
+  /** Listeners added after the connection has closed are called straight away */
   onClose(callback: () => void): void;
   onError(callback: (error: Error) => void): void;
+  /** Called when the client reports a new terminal size */
+  onResize?(callback: (columns: number, rows: number) => void): void;
+  /** Switch the wire encoding, where the transport supports it */
+  setEncoding?(encoding: TextEncoding): void;
+  /** Whether the client takes JSON notification events alongside its output */
+  readonly acceptsEvents?: boolean;
+  /** While set, any keypress calls the handler instead of being typed or echoed */
+  setInterrupt?(handler: (() => void) | null): void;
+  /** Hand the client a token it can use to resume this session after a drop */
+  sendResumeToken?(token: string): Promise<void>;
 }
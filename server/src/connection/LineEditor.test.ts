@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LineEditor } from './LineEditor.js';
+
+describe('LineEditor', () => {
+  let echoed: string;
+  let lines: string[];
+  let editor: LineEditor;
+
+  beforeEach(() => {
+    echoed = '';
+    lines = [];
+    editor = new LineEditor(text => { echoed += text; }, line => lines.push(line));
+  });
+
+  it('should echo typed characters and emit the line on Enter', () => {
+    editor.feed('hi\x7Fo\r\n');
+
+    expect(lines).toEqual(['ho']);
+    expect(echoed).toBe('hi\b \bo\r\n');
+  });
+
+  describe('escape sequences', () => {
+    it('should drop arrow keys whole', () => {
+      editor.feed('a\x1b[Ab\x1b[D\x1bOC\r');
+
+      expect(lines).toEqual(['ab']);
+      expect(echoed).toBe('ab\r\n');
+    });
+
+    it('should drop sequences with parameters and ones split across reads', () => {
+      editor.feed('x\x1b[1;5');
+      editor.feed('C\x1b[3~y');
+      editor.feed('\x1b');
+      editor.feed('[Bz\r');
+
+      expect(lines).toEqual(['xyz']);
+      expect(echoed).toBe('xyz\r\n');
+    });
+
+    it('should still take Enter after an unfinished sequence', () => {
+      editor.feed('ok\x1b[\r');
+
+      expect(lines).toEqual(['ok']);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Echo control sequence emitted by the renderer for ContentType.ECHO_CONTROL
+const ECHO_CONTROL_PATTERN = /\x1b\]8001;([01])\x07/g;
+
+// Where we are in an escape sequence sent by a key such as an arrow:
+// just after ESC, inside a CSI (ESC [ ... final byte) or an SS3 (ESC O x)
+type EscapeState = 'none' | 'escape' | 'csi' | 'ss3';
+
+/**
+ * Line Editor
+ *
+ * Server-side line editing for raw terminal transports (Telnet, SSH) where
+ * the remote end sends individual keystrokes. Does what the web terminal
+ * client does locally: buffers a line, echoes keystrokes (masked while
+ * ECHO_CONTROL has echo disabled) and emits complete lines. Escape
+ * sequences from arrow and function keys are dropped whole. While output
+ * is streaming, any keypress interrupts it instead of being typed.
+ */
+export class LineEditor {
+  private buffer = '';
+  private lastWasCR = false;
+  private escapeState: EscapeState = 'none';
+  private echoEnabled = true;
+  private interrupt: (() => void) | null = null;
+
+  constructor(
+    private echo: (text: string) => void,
+    private emit: (line: string) => void
+  ) {}
+
+  get isEchoEnabled(): boolean {
+    return this.echoEnabled;
+  }
+
+  /**
+   * Send keypresses to a handler instead of the line, or stop with null
+   */
+  setInterrupt(handler: (() => void) | null): void {
+    this.interrupt = handler;
+  }
+
+  /**
+   * Process typed characters
+   */
+  feed(text: string): void {
+    if (this.interrupt) {
+      // The key only stops the output; it isn't echoed or kept
+      this.interrupt();
+      return;
+    }
+
+    let echo = '';
+
+    for (const char of text) {
+      if (this.skipEscape(char)) {
+        this.lastWasCR = false;
+        continue;
+      }
+
+      // CR LF and CR NUL are both a single Enter
+      if (this.lastWasCR && (char === '\n' || char === '\0')) {
+        this.lastWasCR = false;
+        continue;
+      }
+      this.lastWasCR = char === '\r';
+
+      if (char === '\r' || char === '\n') {
+        this.flush(echo + '\r\n');
+        echo = '';
+        const line = this.buffer;
+        this.buffer = '';
+        this.emit(line);
+      } else if (char === '\x7F' || char === '\b') {
+        if (this.buffer.length > 0) {
+          this.buffer = Array.from(this.buffer).slice(0, -1).join('');
+          if (this.echoEnabled) {
+            echo += '\b \b';
+          }
+        }
+      } else if (char === '\x03') {
+        // Ctrl+C behaves like the web client: drop the line and cancel
+        this.buffer = '';
+        this.flush(echo + '\r\n^C\r\n');
+        echo = '';
+        this.emit('CANCEL');
+      } else if (char >= ' ') {
+        this.buffer += char;
+        if (this.echoEnabled) {
+          echo += char;
+        }
+      }
+      // Other control characters are ignored
+    }
+
+    this.flush(echo);
+  }
+
+  /**
+   * Strip ECHO_CONTROL sequences from outgoing data, applying them to the
+   * editor. They are for us, not the remote terminal.
+   */
+  filterOutput(data: string): string {
+    return data.replace(ECHO_CONTROL_PATTERN, (_match, flag: string) => {
+      this.echoEnabled = flag === '1';
+      return '';
+    });
+  }
+
+  /**
+   * Track escape sequences, returning true if the character is part of
+   * one and should be dropped. A control character cuts a sequence short
+   * and is handled as usual.
+   */
+  private skipEscape(char: string): boolean {
+    switch (this.escapeState) {
+      case 'none':
+        if (char === '\x1b') {
+          this.escapeState = 'escape';
+          return true;
+        }
+        return false;
+
+      case 'escape':
+        if (char < ' ') {
+          this.escapeState = char === '\x1b' ? 'escape' : 'none';
+          return char === '\x1b';
+        }
+        // ESC [ and ESC O start longer sequences; ESC and any other key
+        // (Alt+key) is dropped as a pair
+        this.escapeState = char === '[' ? 'csi' : char === 'O' ? 'ss3' : 'none';
+        return true;
+
+      case 'csi':
+        if (char < ' ') {
+          this.escapeState = 'none';
+          return this.skipEscape(char);
+        }
+        // Parameter and intermediate bytes run on until a final byte
+        if (char >= '@' && char <= '~') {
+          this.escapeState = 'none';
+        }
+        return true;
+
+      case 'ss3':
+        this.escapeState = 'none';
+        if (char < ' ') {
+          return this.skipEscape(char);
+        }
+        return true;
+    }
+  }
+
+  private flush(echo: string): void {
+    if (echo) {
+      this.echo(echo);
+    }
+  }
+}
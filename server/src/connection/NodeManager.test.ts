@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NodeManager } from './NodeManager.js';
+
+describe('NodeManager', () => {
+  let nodeManager: NodeManager;
+  let mockLogger: any;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      error: vi.fn(),
+      warn: vi.fn(),
+      debug: vi.fn(),
+    };
+    nodeManager = new NodeManager(3, mockLogger);
+  });
+
+  it('should allocate nodes starting from 1', () => {
+    expect(nodeManager.allocate('conn-a')).toBe(1);
+    expect(nodeManager.allocate('conn-b')).toBe(2);
+    expect(nodeManager.getActiveCount()).toBe(2);
+  });
+
+  it('should return the same node when a connection allocates twice', () => {
+    nodeManager.allocate('conn-a');
+
+    expect(nodeManager.allocate('conn-a')).toBe(1);
+    expect(nodeManager.getActiveCount()).toBe(1);
+  });
+
+  it('should refuse callers when all nodes are busy', () => {
+    nodeManager.allocate('conn-a');
+    nodeManager.allocate('conn-b');
+    nodeManager.allocate('conn-c');
+
+    expect(nodeManager.isFull()).toBe(true);
+    expect(nodeManager.allocate('conn-d')).toBeNull();
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should reuse the lowest freed node', () => {
+    nodeManager.allocate('conn-a');
+    nodeManager.allocate('conn-b');
+    nodeManager.allocate('conn-c');
+
+    nodeManager.release('conn-b');
+
+    expect(nodeManager.getNode('conn-b')).toBeUndefined();
+    expect(nodeManager.allocate('conn-d')).toBe(2);
+  });
+
+  it('should ignore releases for connections without a node', () => {
+    nodeManager.allocate('conn-a');
+
+    nodeManager.release('unknown');
+
+    expect(nodeManager.getActiveCount()).toBe(1);
+  });
+
+  it('should list assignments ordered by node number', () => {
+    nodeManager.allocate('conn-a');
+    nodeManager.allocate('conn-b');
+    nodeManager.allocate('conn-c');
+    nodeManager.release('conn-a');
+    nodeManager.allocate('conn-d');
+
+    const assignments = nodeManager.getAssignments();
+
+    expect(assignments.map(a => a.node)).toEqual([1, 2, 3]);
+    expect(assignments.map(a => a.connectionId)).toEqual(['conn-d', 'conn-b', 'conn-c']);
+    expect(assignments[0].connectedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject a non-positive node count', () => {
+    expect(() => new NodeManager(0, mockLogger)).toThrow('maxNodes must be a positive integer');
+  });
+});
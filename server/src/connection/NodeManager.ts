@@ -0,0 +1,91 @@
+import { FastifyBaseLogger } from 'fastify';
+
+export interface NodeAssignment {
+  node: number;
+  connectionId: string;
+  connectedAt: Date;
+}
+
+/**
+ * Node Manager
+ *
+ * Tracks which BBS "lines" (nodes) are in use. Each connection is given
+ * the lowest free node number, up to bbs.maxNodes; when every node is
+ * taken the caller gets a busy signal.
+ */
+export class NodeManager {
+  private nodes: Map<number, NodeAssignment> = new Map();
+  private connectionToNode: Map<string, number> = new Map();
+
+  constructor(
+    private maxNodes: number,
+    private logger: FastifyBaseLogger
+  ) {
+    if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+      throw new Error('maxNodes must be a positive integer');
+    }
+  }
+
+  /**
+   * Allocate the lowest free node to a connection.
+   * Returns null if all lines are busy.
+   */
+  allocate(connectionId: string): number | null {
+    const existing = this.connectionToNode.get(connectionId);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    for (let node = 1; node <= this.maxNodes; node++) {
+      if (!this.nodes.has(node)) {
+        this.nodes.set(node, { node, connectionId, connectedAt: new Date() });
+        this.connectionToNode.set(connectionId, node);
+        this.logger.info({ node, connectionId }, 'Node allocated');
+        return node;
+      }
+    }
+
+    this.logger.warn({ connectionId, maxNodes: this.maxNodes }, 'All nodes busy');
+    return null;
+  }
+
+  /**
+   * Free the node held by a connection (no-op if it holds none)
+   */
+  release(connectionId: string): void {
+    const node = this.connectionToNode.get(connectionId);
+    if (node === undefined) {
+      return;
+    }
+
+    this.connectionToNode.delete(connectionId);
+    this.nodes.delete(node);
+    this.logger.info({ node, connectionId }, 'Node released');
+  }
+
+  /**
+   * Get the node number held by a connection
+   */
+  getNode(connectionId: string): number | undefined {
+    return this.connectionToNode.get(connectionId);
+  }
+
+  /**
+   * Get all occupied nodes, ordered by node number
+   */
+  getAssignments(): NodeAssignment[] {
+    return Array.from(this.nodes.values()).sort((a, b) => a.node - b.node);
+  }
+
+  getActiveCount(): number {
+    return this.nodes.size;
+  }
+
+  getMaxNodes(): number {
+    return this.maxNodes;
+  }
+
+  isFull(): boolean {
+    return this.nodes.size >= this.maxNodes;
+  }
+}
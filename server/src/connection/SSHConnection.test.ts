@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { SSHConnection } from './SSHConnection.js';
+
+// Minimal stand-in for an ssh2 ServerChannel
+class MockChannel extends EventEmitter {
+  public written: Buffer[] = [];
+  public writable = true;
+  public exitCode?: number;
+
+  write(data: Buffer | string, callback?: (error?: Error | null) => void): boolean {
+    this.written.push(Buffer.from(data));
+    callback?.();
+    return true;
+  }
+
+  exit(code: number): void {
+    this.exitCode = code;
+  }
+
+  end(): void {
+    this.writable = false;
+    this.emit('close');
+  }
+
+  // Test helper
+  type(text: string): void {
+    this.emit('data', Buffer.from(text));
+  }
+
+  output(): string {
+    return Buffer.concat(this.written).toString('utf8');
+  }
+}
+
+describe('SSHConnection', () => {
+  let channel: MockChannel;
+  let connection: SSHConnection;
+  let lines: string[];
+
+  beforeEach(() => {
+    channel = new MockChannel();
+    connection = new SSHConnection(channel as any, { terminalType: 'xterm-256color', columns: 80, rows: 24 });
+    lines = [];
+    connection.onData((data) => lines.push(data));
+  });
+
+  it('should expose the PTY details', () => {
+    expect(connection.terminalType).toBe('xterm-256color');
+    expect(connection.columns).toBe(80);
+    expect(connection.rows).toBe(24);
+  });
+
+  it('should track window-change resizes', () => {
+    connection.resize(120, 40);
+
+    expect(connection.columns).toBe(120);
+    expect(connection.rows).toBe(40);
+  });
+
+  it('should report window-change resizes to the resize callback', () => {
+    const onResize = vi.fn();
+    connection.onResize(onResize);
+
+    connection.resize(132, 50);
+
+    expect(onResize).toHaveBeenCalledWith(132, 50);
+  });
+
+  it('should emit complete lines from raw keystrokes', () => {
+    channel.type('h');
+    channel.type('i');
+    channel.type('\r');
+
+    expect(lines).toEqual(['hi']);
+    expect(channel.output()).toBe('hi\r\n');
+  });
+
+  it('should reassemble multi-byte characters split across packets', () => {
+    const bytes = Buffer.from('é\r');
+    channel.emit('data', bytes.subarray(0, 1));
+    channel.emit('data', bytes.subarray(1));
+
+    expect(lines).toEqual(['é']);
+  });
+
+  it('should mask password input while echo is disabled', async () => {
+    await connection.send('Password: \x1b]8001;0\x07');
+    channel.written = [];
+
+    channel.type('secret\r');
+
+    expect(lines).toEqual(['secret']);
+    expect(channel.output()).toBe('\r\n');
+  });
+
+  it('should strip echo control sequences from output', async () => {
+    await connection.send('\x1b]8001;1\x07Welcome');
+
+    expect(channel.output()).toBe('Welcome');
+  });
+
+  it('should speak CP437 to a classic ANSI terminal', async () => {
+    const ansiChannel = new MockChannel();
+    const ansiConnection = new SSHConnection(ansiChannel as any, { terminalType: 'syncterm', columns: 80, rows: 25 });
+
+    await ansiConnection.send('\u2554\u2550\u2557');
+
+    expect(ansiConnection.encoding).toBe('cp437');
+    expect([...Buffer.concat(ansiChannel.written)]).toEqual([0xc9, 0xcd, 0xbb]);
+  });
+
+  it('should exit the channel and notify once on close', async () => {
+    const onClose = vi.fn();
+    connection.onClose(onClose);
+
+    await connection.close();
+    channel.emit('close');
+
+    expect(channel.exitCode).toBe(0);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(connection.isOpen).toBe(false);
+    await expect(connection.send('x')).rejects.toThrow('Connection is not open');
+  });
+});
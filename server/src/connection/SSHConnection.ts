@@ -0,0 +1,173 @@
+import { IConnection } from './IConnection.js';
+import type { ServerChannel } from 'ssh2';
+import { v4 as uuidv4 } from 'uuid';
+import { LineEditor } from './LineEditor.js';
+import {
+  type TextEncoding,
+  InboundDecoder,
+  encodeText,
+  encodingForTerminalType,
+} from './TextEncoding.js';
+
+export interface SSHTerminalInfo {
+  terminalType?: string;
+  columns?: number;
+  rows?: number;
+}
+
+/**
+ * SSH connection
+ *
+ * Adapts an SSH shell channel to IConnection. The PTY is in raw mode on the
+ * client side, so keystrokes go through a LineEditor exactly like Telnet
+ * and BBSCore only ever sees complete lines.
+ *
+ * Like Telnet, a classic ANSI-BBS terminal type in the PTY request
+ * switches the channel to CP437.
+ */
+export class SSHConnection implements IConnection {
+  public readonly id: string;
+  private dataCallback?: (data: string) => void;
+  private closeCallbacks: Array<() => void> = [];
+  private errorCallback?: (error: Error) => void;
+  private resizeCallback?: (columns: number, rows: number) => void;
+
+  private decoder: InboundDecoder;
+  private lineEditor: LineEditor;
+  private closed = false;
+
+  constructor(private channel: ServerChannel, private terminal: SSHTerminalInfo = {}) {
+    this.id = uuidv4();
+    this.decoder = new InboundDecoder(encodingForTerminalType(terminal.terminalType));
+    this.lineEditor = new LineEditor(
+      (echo) => this.writeRaw(echo),
+      (line) => this.dataCallback?.(line)
+    );
+    this.setupListeners();
+  }
+
+  /** Terminal type requested with the PTY */
+  get terminalType(): string | undefined {
+    return this.terminal.terminalType;
+  }
+
+  /** Window width from the PTY request or the latest window-change */
+  get columns(): number | undefined {
+    return this.terminal.columns;
+  }
+
+  /** Window height from the PTY request or the latest window-change */
+  get rows(): number | undefined {
+    return this.terminal.rows;
+  }
+
+  /** Character encoding used on the wire */
+  get encoding(): TextEncoding {
+    return this.decoder.encoding;
+  }
+
+  /**
+   * Switch the wire encoding, e.g. to CP437 for a classic ANSI terminal
+   */
+  setEncoding(encoding: TextEncoding): void {
+    this.decoder.encoding = encoding;
+  }
+
+  /**
+   * Have the next keypress interrupt streaming output rather than start a line
+   */
+  setInterrupt(handler: (() => void) | null): void {
+    this.lineEditor.setInterrupt(handler);
+  }
+
+  /**
+   * Record a window-change request from the client
+   */
+  resize(columns: number, rows: number): void {
+    if (columns > 0) this.terminal.columns = columns;
+    if (rows > 0) this.terminal.rows = rows;
+    if (this.terminal.columns && this.terminal.rows) {
+      this.resizeCallback?.(this.terminal.columns, this.terminal.rows);
+    }
+  }
+
+  private setupListeners(): void {
+    this.channel.on('data', (chunk: Buffer) => {
+      this.lineEditor.feed(this.decoder.write(chunk));
+    });
+
+    this.channel.on('close', () => {
+      if (this.closed) return;
+      this.closed = true;
+      this.closeCallbacks.forEach((callback) => callback());
+    });
+
+    this.channel.on('error', (error: Error) => {
+      if (this.errorCallback) {
+        this.errorCallback(error);
+      }
+    });
+  }
+
+  private writeRaw(data: string): void {
+    if (this.isOpen) {
+      this.channel.write(encodeText(data, this.encoding));
+    }
+  }
+
+  get isOpen(): boolean {
+    return !this.closed && this.channel.writable;
+  }
+
+  async send(data: string): Promise<void> {
+    if (!this.isOpen) {
+      throw new Error('Connection is not open');
+    }
+
+    const output = this.lineEditor.filterOutput(data);
+    if (!output) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.channel.write(encodeText(output, this.encoding), (error?: Error | null) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.isOpen) {
+      this.channel.exit(0);
+      this.channel.end();
+    }
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.dataCallback = callback;
+  }
+
+  /**
+   * Add a listener for the connection closing. One added after the
+   * connection has closed is called straight away.
+   */
+  onClose(callback: () => void): void {
+    if (this.closed) {
+      callback();
+      return;
+    }
+    this.closeCallbacks.push(callback);
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.errorCallback = callback;
+  }
+
+  onResize(callback: (columns: number, rows: number) => void): void {
+    this.resizeCallback = callback;
+  }
+}
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import ssh2 from 'ssh2';
+import type { Connection as SSHClient, AuthContext } from 'ssh2';
+import { FastifyBaseLogger } from 'fastify';
+import type { User } from '@baudagain/shared';
+import type { UserService } from '../services/UserService.js';
+import { SSHConnection, type SSHTerminalInfo } from './SSHConnection.js';
+
+const { Server, utils } = ssh2;
+
+// Logging in with this username skips authentication and lands at the
+// normal "Enter your handle, or type NEW to register" prompt.
+const NEW_USER_LOGIN = 'NEW';
+
+export interface SSHServerOptions {
+  hostKeyPath: string;
+  maxLoginAttempts: number;
+}
+
+/**
+ * SSH Server
+ *
+ * SSH front end for the BBS. Password authentication is checked against
+ * the same bcrypt hashes as the terminal login via UserService; a
+ * successful login hands the caller to the BBS already authenticated.
+ * Each shell channel is wrapped in an SSHConnection.
+ */
+export class SSHServer {
+  private server: InstanceType<typeof Server>;
+
+  constructor(
+    private logger: FastifyBaseLogger,
+    private userService: UserService,
+    private options: SSHServerOptions,
+    private onConnection: (connection: SSHConnection, user?: User) => void | Promise<void>
+  ) {
+    this.server = new Server({ hostKeys: [this.loadHostKey()] }, (client) => {
+      this.handleClient(client);
+    });
+
+    this.server.on('error', (error: Error) => {
+      this.logger.error({ error }, 'SSH server error');
+    });
+  }
+
+  /**
+   * Load the host key, generating one on first start
+   */
+  private loadHostKey(): string {
+    const keyPath = this.options.hostKeyPath;
+
+    if (!fs.existsSync(keyPath)) {
+      const keyPair = utils.generateKeyPairSync('ed25519');
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+      fs.writeFileSync(keyPath, keyPair.private, { mode: 0o600 });
+      this.logger.warn({ keyPath }, 'Generated new SSH host key');
+    }
+
+    return fs.readFileSync(keyPath, 'utf-8');
+  }
+
+  private handleClient(client: SSHClient): void {
+    let authenticatedUser: User | undefined;
+    let failedAttempts = 0;
+
+    client.on('authentication', (ctx: AuthContext) => {
+      if (ctx.username.toUpperCase() === NEW_USER_LOGIN) {
+        ctx.accept();
+        return;
+      }
+
+      if (ctx.method !== 'password') {
+        ctx.reject(['password']);
+        return;
+      }
+
+      this.userService.authenticateUser(ctx.username, ctx.password)
+        .then((user) => {
+          if (user) {
+            authenticatedUser = user;
+            ctx.accept();
+            return;
+          }
+
+          failedAttempts++;
+          this.logger.warn({ handle: ctx.username, failedAttempts }, 'SSH login failed');
+
+          if (failedAttempts >= this.options.maxLoginAttempts) {
+            ctx.reject();
+            client.end();
+          } else {
+            ctx.reject(['password']);
+          }
+        })
+        .catch((err) => {
+          this.logger.error({ err }, 'Error authenticating SSH user');
+          ctx.reject(['password']);
+        });
+    });
+
+    client.on('ready', () => {
+      client.on('session', (acceptSession) => {
+        const session = acceptSession();
+        const terminal: SSHTerminalInfo = {};
+        let connection: SSHConnection | undefined;
+
+        session.on('pty', (accept, _reject, info) => {
+          terminal.terminalType = info.term;
+          terminal.columns = info.cols;
+          terminal.rows = info.rows;
+          accept?.();
+        });
+
+        session.on('window-change', (accept, _reject, info) => {
+          if (connection) {
+            connection.resize(info.cols, info.rows);
+          } else {
+            terminal.columns = info.cols;
+            terminal.rows = info.rows;
+          }
+          accept?.();
+        });
+
+        session.on('shell', (accept) => {
+          const channel = accept();
+          connection = new SSHConnection(channel, terminal);
+
+          // One shell per SSH login - hang up the transport with it
+          channel.on('close', () => client.end());
+
+          this.logger.info(
+            { connectionId: connection.id, handle: authenticatedUser?.handle },
+            'SSH shell opened'
+          );
+
+          Promise.resolve(this.onConnection(connection, authenticatedUser)).catch((err) => {
+            this.logger.error({ err, connectionId: connection?.id }, 'Error handling SSH connection');
+            client.end();
+          });
+        });
+
+        // Only interactive shells are supported
+        session.on('exec', (_accept, reject) => reject?.());
+        session.on('subsystem', (_accept, reject) => reject?.());
+      });
+    });
+
+    client.on('error', (error: Error) => {
+      this.logger.error({ error }, 'SSH client error');
+    });
+  }
+
+  /**
+   * Start listening for SSH callers
+   */
+  listen(port: number, host: string = '0.0.0.0'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      this.server.once('error', onError);
+      this.server.listen(port, host, () => {
+        this.server.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting new callers. Existing connections are closed by ConnectionManager.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server.listening) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+    });
+  }
+}
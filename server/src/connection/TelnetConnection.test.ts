@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { TelnetConnection, TELNET, TELNET_OPTION } from './TelnetConnection.js';
+import { typeOut, type OutputStream } from '../core/OutputStream.js';
+
+const { IAC, WILL, WONT, DO, DONT, SB, SE } = TELNET;
+
+// Minimal stand-in for net.Socket
+class MockSocket extends EventEmitter {
+  public written: Buffer[] = [];
+  public destroyed = false;
+  public writable = true;
+  public remoteAddress = '127.0.0.1';
+
+  write(data: Buffer, callback?: (error?: Error) => void): boolean {
+    this.written.push(Buffer.from(data));
+    callback?.();
+    return true;
+  }
+
+  end(): void {
+    this.writable = false;
+    this.emit('close');
+  }
+
+  // Test helpers
+  receive(bytes: number[] | string): void {
+    this.emit('data', typeof bytes === 'string' ? Buffer.from(bytes) : Buffer.from(bytes));
+  }
+
+  output(): Buffer {
+    return Buffer.concat(this.written);
+  }
+
+  text(): string {
+    return this.output().toString('utf8');
+  }
+}
+
+describe('TelnetConnection', () => {
+  let socket: MockSocket;
+  let connection: TelnetConnection;
+  let lines: string[];
+
+  beforeEach(() => {
+    socket = new MockSocket();
+    connection = new TelnetConnection(socket as any);
+    lines = [];
+    connection.onData((data) => lines.push(data));
+  });
+
+  describe('option negotiation', () => {
+    it('should announce ECHO, SGA, BINARY, NAWS and TTYPE on connect', () => {
+      const output = [...socket.output()];
+      const has = (command: number, option: number) =>
+        output.some((byte, i) => byte === IAC && output[i + 1] === command && output[i + 2] === option);
+
+      expect(has(WILL, TELNET_OPTION.ECHO)).toBe(true);
+      expect(has(WILL, TELNET_OPTION.SGA)).toBe(true);
+      expect(has(WILL, TELNET_OPTION.BINARY)).toBe(true);
+      expect(has(DO, TELNET_OPTION.BINARY)).toBe(true);
+      expect(has(DO, TELNET_OPTION.NAWS)).toBe(true);
+      expect(has(DO, TELNET_OPTION.TTYPE)).toBe(true);
+    });
+
+    it('should request the terminal type once the client agrees to TTYPE', () => {
+      socket.written = [];
+      socket.receive([IAC, WILL, TELNET_OPTION.TTYPE]);
+
+      expect([...socket.output()]).toEqual([IAC, SB, TELNET_OPTION.TTYPE, 1, IAC, SE]);
+    });
+
+    it('should record the terminal type reported by the client', () => {
+      socket.receive([IAC, SB, TELNET_OPTION.TTYPE, 0, ...Buffer.from('ANSI'), IAC, SE]);
+
+      expect(connection.terminalType).toBe('ANSI');
+    });
+
+    it('should record the window size reported via NAWS', () => {
+      socket.receive([IAC, SB, TELNET_OPTION.NAWS, 0, 132, 0, 50, IAC, SE]);
+
+      expect(connection.columns).toBe(132);
+      expect(connection.rows).toBe(50);
+    });
+
+    it('should report NAWS size changes to the resize callback', () => {
+      const onResize = vi.fn();
+      connection.onResize(onResize);
+
+      socket.receive([IAC, SB, TELNET_OPTION.NAWS, 0, 100, 0, 30, IAC, SE]);
+
+      expect(onResize).toHaveBeenCalledWith(100, 30);
+    });
+
+    it('should refuse options it does not support', () => {
+      socket.written = [];
+      socket.receive([IAC, DO, 34]); // LINEMODE
+      socket.receive([IAC, WILL, 39]); // NEW-ENVIRON
+
+      expect([...socket.output()]).toEqual([IAC, WONT, 34, IAC, DONT, 39]);
+    });
+
+    it('should not reply to acknowledgements of its own requests', () => {
+      socket.written = [];
+      socket.receive([IAC, DO, TELNET_OPTION.ECHO, IAC, WILL, TELNET_OPTION.NAWS]);
+
+      expect(socket.output().length).toBe(0);
+    });
+  });
+
+  describe('input handling', () => {
+    it('should strip IAC sequences before emitting a line', () => {
+      socket.receive([
+        ...Buffer.from('he'),
+        IAC, DO, TELNET_OPTION.SGA,
+        IAC, SB, TELNET_OPTION.NAWS, 0, 80, 0, 24, IAC, SE,
+        ...Buffer.from('llo\r\n'),
+      ]);
+
+      expect(lines).toEqual(['hello']);
+    });
+
+    it('should treat an escaped IAC IAC as a data byte, not a command', () => {
+      socket.receive([...Buffer.from('a'), IAC, IAC, ...Buffer.from('b\r\0')]);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].startsWith('a')).toBe(true);
+      expect(lines[0].endsWith('b')).toBe(true);
+    });
+
+    it('should handle subnegotiations split across packets', () => {
+      socket.receive([IAC, SB, TELNET_OPTION.NAWS, 0]);
+      socket.receive([100, 0, 30, IAC]);
+      socket.receive([SE, ...Buffer.from('x\r\n')]);
+
+      expect(connection.columns).toBe(100);
+      expect(connection.rows).toBe(30);
+      expect(lines).toEqual(['x']);
+    });
+
+    it('should treat CR LF, CR NUL and bare CR as a single Enter', () => {
+      socket.receive('one\r\ntwo\r\0three\r');
+      socket.receive('\nfour\n');
+
+      expect(lines).toEqual(['one', 'two', 'three', 'four']);
+    });
+
+    it('should apply backspace and delete to the line buffer', () => {
+      socket.receive('abx\x7Fc\bd\r\n');
+
+      expect(lines).toEqual(['abd']);
+    });
+
+    it('should send CANCEL on Ctrl+C and discard the partial line', () => {
+      socket.receive('partial\x03');
+
+      expect(lines).toEqual(['CANCEL']);
+    });
+
+    it('should echo typed characters back to the client', () => {
+      socket.written = [];
+      socket.receive('hi');
+
+      expect(socket.text()).toBe('hi');
+    });
+  });
+
+  describe('interrupting streamed output', () => {
+    it('should stop typeOut on a single key without echoing it', async () => {
+      vi.useFakeTimers();
+      try {
+        const controller = new AbortController();
+        connection.setInterrupt(() => controller.abort());
+        const output: OutputStream = {
+          signal: controller.signal,
+          charsPerSecond: 40, // 1 character per tick
+          write: (text) => connection.send(text),
+        };
+
+        socket.written = [];
+        const typing = typeOut(output, 'abcdef');
+        await vi.advanceTimersByTimeAsync(50);
+        socket.receive('x');
+        await vi.runAllTimersAsync();
+
+        expect(await typing).toBe('abc');
+        expect(socket.text()).toBe('abc');
+        expect(lines).toEqual([]);
+
+        connection.setInterrupt(null);
+        socket.written = [];
+        socket.receive('x');
+        expect(socket.text()).toBe('x');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('echo control', () => {
+    it('should mask input while echo is disabled and restore it afterwards', async () => {
+      await connection.send('Password: \x1b]8001;0\x07');
+      socket.written = [];
+      socket.receive('secret\r\n');
+
+      expect(socket.text()).toBe('\r\n');
+      expect(lines).toEqual(['secret']);
+
+      await connection.send('\x1b]8001;1\x07');
+      socket.written = [];
+      socket.receive('visible');
+
+      expect(socket.text()).toBe('visible');
+    });
+
+    it('should not forward echo control sequences to the client', async () => {
+      socket.written = [];
+      await connection.send('before\x1b]8001;0\x07after');
+
+      expect(socket.text()).toBe('beforeafter');
+    });
+  });
+
+  describe('encoding', () => {
+    const reportTerminalType = (type: string) =>
+      socket.receive([IAC, SB, TELNET_OPTION.TTYPE, 0, ...Buffer.from(type), IAC, SE]);
+
+    it('should default to UTF-8', async () => {
+      socket.written = [];
+      await connection.send('\u2554\u2550\u2557');
+
+      expect(connection.encoding).toBe('utf8');
+      expect(socket.text()).toBe('\u2554\u2550\u2557');
+    });
+
+    it('should switch to CP437 for a classic ANSI terminal type', async () => {
+      reportTerminalType('ANSI');
+      socket.written = [];
+      await connection.send('\u2554\u2550\u2557 \u2591\u2588');
+
+      expect(connection.encoding).toBe('cp437');
+      expect([...socket.output()]).toEqual([0xc9, 0xcd, 0xbb, 0x20, 0xb0, 0xdb]);
+    });
+
+    it('should keep UTF-8 for modern terminal types', () => {
+      reportTerminalType('XTERM-256COLOR');
+
+      expect(connection.encoding).toBe('utf8');
+    });
+
+    it('should decode CP437 input', () => {
+      connection.setEncoding('cp437');
+      socket.receive([0x82, 0x74, 0x82, 0x0d]);
+
+      expect(lines).toEqual(['\u00e9t\u00e9']);
+    });
+
+    it('should still escape IAC bytes in CP437 output', async () => {
+      connection.setEncoding('cp437');
+      socket.written = [];
+      // U+00A0 is 0xFF in CP437, the same value as IAC
+      await connection.send('\u00a0');
+
+      expect([...socket.output()]).toEqual([IAC, IAC]);
+    });
+  });
+
+  describe('whenNegotiated', () => {
+    it('should resolve once the terminal type is reported', async () => {
+      const negotiated = vi.fn();
+      connection.whenNegotiated(60_000).then(negotiated);
+
+      await Promise.resolve();
+      expect(negotiated).not.toHaveBeenCalled();
+
+      socket.receive([IAC, SB, TELNET_OPTION.TTYPE, 0, ...Buffer.from('ANSI'), IAC, SE]);
+      await Promise.resolve();
+
+      expect(negotiated).toHaveBeenCalled();
+    });
+
+    it('should resolve when the client refuses TTYPE', async () => {
+      const negotiated = connection.whenNegotiated(60_000);
+      socket.receive([IAC, WONT, TELNET_OPTION.TTYPE]);
+
+      await expect(negotiated).resolves.toBeUndefined();
+    });
+
+    it('should resolve after the timeout for clients that never answer', async () => {
+      vi.useFakeTimers();
+      try {
+        const negotiated = connection.whenNegotiated(1000);
+        vi.advanceTimersByTime(1000);
+
+        await expect(negotiated).resolves.toBeUndefined();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('output', () => {
+    it('should reject sends after the socket closes', async () => {
+      const onClose = vi.fn();
+      connection.onClose(onClose);
+
+      await connection.close();
+
+      expect(onClose).toHaveBeenCalled();
+      expect(connection.isOpen).toBe(false);
+      await expect(connection.send('x')).rejects.toThrow('Connection is not open');
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import { IConnection } from './IConnection.js';
+import type { Socket } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { LineEditor } from './LineEditor.js';
+import {
+  type TextEncoding,
+  InboundDecoder,
+  encodeText,
+  encodingForTerminalType,
+} from './TextEncoding.js';
+
+// Telnet protocol bytes (RFC 854)
+export const TELNET = {
+  IAC: 255,
+  DONT: 254,
+  DO: 253,
+  WONT: 252,
+  WILL: 251,
+  SB: 250,
+  SE: 240,
+} as const;
+
+// Telnet options we negotiate
+export const TELNET_OPTION = {
+  BINARY: 0,   // RFC 856
+  ECHO: 1,     // RFC 857
+  SGA: 3,      // RFC 858 - Suppress Go Ahead
+  TTYPE: 24,   // RFC 1091 - Terminal Type
+  NAWS: 31,    // RFC 1073 - Negotiate About Window Size
+} as const;
+
+// Options we perform (WILL) and options we ask the client to perform (DO)
+const SERVER_OPTIONS = new Set<number>([TELNET_OPTION.ECHO, TELNET_OPTION.SGA, TELNET_OPTION.BINARY]);
+const CLIENT_OPTIONS = new Set<number>([
+  TELNET_OPTION.SGA, TELNET_OPTION.BINARY, TELNET_OPTION.NAWS, TELNET_OPTION.TTYPE,
+]);
+
+const TTYPE_IS = 0;
+const TTYPE_SEND = 1;
+
+enum ParserState {
+  DATA,
+  IAC,
+  COMMAND,
+  SUBNEGOTIATION,
+  SUBNEGOTIATION_IAC,
+}
+
+/**
+ * Telnet connection
+ *
+ * Adapts a raw TCP socket to IConnection. Telnet clients run in character
+ * mode (we negotiate WILL ECHO / WILL SGA), so keystrokes go through a
+ * LineEditor and only complete lines, with all IAC sequences removed,
+ * reach the data callback.
+ *
+ * Text is sent as UTF-8 unless the client reports a classic ANSI-BBS
+ * terminal type, in which case it is transcoded to CP437 both ways.
+ */
+export class TelnetConnection implements IConnection {
+  public readonly id: string;
+  private dataCallback?: (data: string) => void;
+  private closeCallbacks: Array<() => void> = [];
+  private errorCallback?: (error: Error) => void;
+  private resizeCallback?: (columns: number, rows: number) => void;
+
+  private state: ParserState = ParserState.DATA;
+  private pendingCommand = 0;
+  private subnegotiation: number[] = [];
+  private decoder = new InboundDecoder();
+  private lineEditor: LineEditor;
+  private closed = false;
+
+  private negotiationDone = false;
+  private negotiationCallbacks: Array<() => void> = [];
+
+  private _terminalType?: string;
+  private _columns?: number;
+  private _rows?: number;
+
+  constructor(private socket: Socket) {
+    this.id = uuidv4();
+    this.lineEditor = new LineEditor(
+      (echo) => this.writeRaw(this.encode(echo)),
+      (line) => this.dataCallback?.(line)
+    );
+    this.setupListeners();
+    this.negotiate();
+  }
+
+  /** Terminal type reported via TTYPE, if the client supports it */
+  get terminalType(): string | undefined {
+    return this._terminalType;
+  }
+
+  /** Window width reported via NAWS, if the client supports it */
+  get columns(): number | undefined {
+    return this._columns;
+  }
+
+  /** Window height reported via NAWS, if the client supports it */
+  get rows(): number | undefined {
+    return this._rows;
+  }
+
+  get remoteAddress(): string | undefined {
+    return this.socket.remoteAddress;
+  }
+
+  /** Character encoding used on the wire */
+  get encoding(): TextEncoding {
+    return this.decoder.encoding;
+  }
+
+  /**
+   * Switch the wire encoding, e.g. to CP437 for a classic ANSI terminal
+   */
+  setEncoding(encoding: TextEncoding): void {
+    this.decoder.encoding = encoding;
+  }
+
+  /**
+   * Have the next keypress interrupt streaming output rather than start a line
+   */
+  setInterrupt(handler: (() => void) | null): void {
+    this.lineEditor.setInterrupt(handler);
+  }
+
+  /**
+   * Resolve once the client has reported (or refused to report) its
+   * terminal type, so the first screen goes out in the right encoding.
+   * Gives up after timeoutMs for clients that never answer.
+   */
+  whenNegotiated(timeoutMs: number): Promise<void> {
+    if (this.negotiationDone) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.finishNegotiation(), timeoutMs);
+      this.negotiationCallbacks.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  private finishNegotiation(): void {
+    if (this.negotiationDone) return;
+    this.negotiationDone = true;
+    const callbacks = this.negotiationCallbacks;
+    this.negotiationCallbacks = [];
+    callbacks.forEach((callback) => callback());
+  }
+
+  private setupListeners(): void {
+    this.socket.on('data', (chunk: Buffer) => {
+      this.receive(chunk);
+    });
+
+    this.socket.on('close', () => {
+      this.closed = true;
+      this.finishNegotiation();
+      this.closeCallbacks.forEach((callback) => callback());
+    });
+
+    this.socket.on('error', (error: Error) => {
+      if (this.errorCallback) {
+        this.errorCallback(error);
+      }
+    });
+  }
+
+  /**
+   * Announce the options we want. We echo for the client and run in
+   * character mode; the client should tell us its size and terminal type.
+   */
+  private negotiate(): void {
+    this.sendCommand(TELNET.WILL, TELNET_OPTION.ECHO);
+    this.sendCommand(TELNET.WILL, TELNET_OPTION.SGA);
+    this.sendCommand(TELNET.DO, TELNET_OPTION.SGA);
+    this.sendCommand(TELNET.WILL, TELNET_OPTION.BINARY);
+    this.sendCommand(TELNET.DO, TELNET_OPTION.BINARY);
+    this.sendCommand(TELNET.DO, TELNET_OPTION.NAWS);
+    this.sendCommand(TELNET.DO, TELNET_OPTION.TTYPE);
+  }
+
+  private sendCommand(command: number, option: number): void {
+    this.writeRaw(Buffer.from([TELNET.IAC, command, option]));
+  }
+
+  private writeRaw(buffer: Buffer): void {
+    if (this.isOpen) {
+      this.socket.write(buffer);
+    }
+  }
+
+  /**
+   * Feed raw bytes from the socket through the Telnet parser
+   */
+  private receive(chunk: Buffer): void {
+    const text: number[] = [];
+
+    for (const byte of chunk) {
+      switch (this.state) {
+        case ParserState.DATA:
+          if (byte === TELNET.IAC) {
+            this.state = ParserState.IAC;
+          } else {
+            text.push(byte);
+          }
+          break;
+
+        case ParserState.IAC:
+          if (byte === TELNET.IAC) {
+            // Escaped 0xFF data byte
+            text.push(byte);
+            this.state = ParserState.DATA;
+          } else if (byte === TELNET.SB) {
+            this.subnegotiation = [];
+            this.state = ParserState.SUBNEGOTIATION;
+          } else if (
+            byte === TELNET.WILL ||
+            byte === TELNET.WONT ||
+            byte === TELNET.DO ||
+            byte === TELNET.DONT
+          ) {
+            this.pendingCommand = byte;
+            this.state = ParserState.COMMAND;
+          } else {
+            // NOP, GA, AYT, etc. - nothing to do
+            this.state = ParserState.DATA;
+          }
+          break;
+
+        case ParserState.COMMAND:
+          this.handleOption(this.pendingCommand, byte);
+          this.state = ParserState.DATA;
+          break;
+
+        case ParserState.SUBNEGOTIATION:
+          if (byte === TELNET.IAC) {
+            this.state = ParserState.SUBNEGOTIATION_IAC;
+          } else {
+            this.subnegotiation.push(byte);
+          }
+          break;
+
+        case ParserState.SUBNEGOTIATION_IAC:
+          if (byte === TELNET.SE) {
+            this.handleSubnegotiation(this.subnegotiation);
+            this.state = ParserState.DATA;
+          } else {
+            // IAC IAC inside a subnegotiation is a literal 0xFF
+            this.subnegotiation.push(byte);
+            this.state = ParserState.SUBNEGOTIATION;
+          }
+          break;
+      }
+    }
+
+    if (text.length > 0) {
+      // The UTF-8 decoder holds back partial multi-byte characters split across packets
+      this.lineEditor.feed(this.decoder.write(Buffer.from(text)));
+    }
+  }
+
+  /**
+   * Respond to the client's side of option negotiation
+   */
+  private handleOption(command: number, option: number): void {
+    if (command === TELNET.WILL && option === TELNET_OPTION.TTYPE) {
+      // Client agreed to send its terminal type - ask for it
+      this.writeRaw(Buffer.from([
+        TELNET.IAC, TELNET.SB, TELNET_OPTION.TTYPE, TTYPE_SEND, TELNET.IAC, TELNET.SE,
+      ]));
+    } else if (command === TELNET.WONT && option === TELNET_OPTION.TTYPE) {
+      // No terminal type coming - stay with UTF-8
+      this.finishNegotiation();
+    } else if (command === TELNET.DO && !SERVER_OPTIONS.has(option)) {
+      this.sendCommand(TELNET.WONT, option);
+    } else if (command === TELNET.WILL && !CLIENT_OPTIONS.has(option)) {
+      this.sendCommand(TELNET.DONT, option);
+    }
+    // Acknowledgements of our own requests need no reply; never re-announcing
+    // them avoids negotiation loops.
+  }
+
+  private handleSubnegotiation(data: number[]): void {
+    const [option, ...payload] = data;
+
+    if (option === TELNET_OPTION.NAWS && payload.length >= 4) {
+      const columns = (payload[0] << 8) | payload[1];
+      const rows = (payload[2] << 8) | payload[3];
+      // Some clients report 0 when the size is unknown
+      if (columns > 0) this._columns = columns;
+      if (rows > 0) this._rows = rows;
+      if (this._columns && this._rows) {
+        this.resizeCallback?.(this._columns, this._rows);
+      }
+    } else if (option === TELNET_OPTION.TTYPE && payload[0] === TTYPE_IS) {
+      this._terminalType = Buffer.from(payload.slice(1)).toString('ascii');
+      this.setEncoding(encodingForTerminalType(this._terminalType));
+      this.finishNegotiation();
+    }
+  }
+
+  /**
+   * Encode outgoing text in the wire encoding, escaping literal 0xFF
+   * bytes as IAC IAC
+   */
+  private encode(data: string): Buffer {
+    const raw = encodeText(data, this.encoding);
+    if (!raw.includes(TELNET.IAC)) {
+      return raw;
+    }
+
+    const escaped: number[] = [];
+    for (const byte of raw) {
+      escaped.push(byte);
+      if (byte === TELNET.IAC) {
+        escaped.push(TELNET.IAC);
+      }
+    }
+    return Buffer.from(escaped);
+  }
+
+  get isOpen(): boolean {
+    return !this.closed && !this.socket.destroyed && this.socket.writable;
+  }
+
+  async send(data: string): Promise<void> {
+    if (!this.isOpen) {
+      throw new Error('Connection is not open');
+    }
+
+    const output = this.lineEditor.filterOutput(data);
+
+    if (!output) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket.write(this.encode(output), (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.isOpen) {
+      this.socket.end();
+    }
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.dataCallback = callback;
+  }
+
+  /**
+   * Add a listener for the connection closing. One added after the
+   * connection has closed is called straight away.
+   */
+  onClose(callback: () => void): void {
+    if (this.closed) {
+      callback();
+      return;
+    }
+    this.closeCallbacks.push(callback);
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.errorCallback = callback;
+  }
+
+  onResize(callback: (columns: number, rows: number) => void): void {
+    this.resizeCallback = callback;
+  }
+}
@@ -0,0 +1,76 @@
+import net from 'net';
+import { FastifyBaseLogger } from 'fastify';
+import { TelnetConnection } from './TelnetConnection.js';
+
+// How long to wait for the client's terminal type before the first screen
+const NEGOTIATION_TIMEOUT_MS = 1000;
+
+/**
+ * Telnet Server
+ *
+ * TCP listener that wraps each incoming socket in a TelnetConnection and
+ * hands it to the same connection handler used for WebSocket callers.
+ */
+export class TelnetServer {
+  private server: net.Server;
+
+  constructor(
+    private logger: FastifyBaseLogger,
+    onConnection: (connection: TelnetConnection) => void | Promise<void>
+  ) {
+    this.server = net.createServer((socket) => {
+      socket.setNoDelay(true);
+      const connection = new TelnetConnection(socket);
+
+      this.logger.info(
+        { connectionId: connection.id, remoteAddress: socket.remoteAddress },
+        'Telnet connection accepted'
+      );
+
+      // Let option negotiation settle so the welcome screen is sent in the
+      // encoding (and size) the client asked for
+      connection.whenNegotiated(NEGOTIATION_TIMEOUT_MS)
+        .then(() => {
+          // Caller may have hung up while we waited
+          if (connection.isOpen) {
+            return onConnection(connection);
+          }
+        })
+        .catch((err) => {
+          this.logger.error({ err, connectionId: connection.id }, 'Error handling telnet connection');
+          socket.destroy();
+        });
+    });
+
+    this.server.on('error', (error) => {
+      this.logger.error({ error }, 'Telnet server error');
+    });
+  }
+
+  /**
+   * Start listening for telnet callers
+   */
+  listen(port: number, host: string = '0.0.0.0'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      this.server.once('error', onError);
+      this.server.listen(port, host, () => {
+        this.server.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting new callers. Existing connections are closed by ConnectionManager.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server.listening) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+    });
+  }
+}
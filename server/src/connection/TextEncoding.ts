@@ -0,0 +1,44 @@
+import { StringDecoder } from 'string_decoder';
+import { CP437 } from '../ansi/CP437.js';
+
+/**
+ * Character encoding spoken on the wire by a raw-terminal connection
+ */
+export type TextEncoding = 'utf8' | 'cp437';
+
+// Terminal types (Telnet TTYPE / SSH PTY "term") that expect CP437 bytes
+const CP437_TERMINAL_TYPES = [
+  'ansi', 'ansi-bbs', 'pcansi', 'pc-ansi', 'syncterm', 'cterm', 'netrunner', 'scoansi',
+];
+
+/**
+ * Pick the encoding a terminal type expects. Anything not known to be a
+ * classic ANSI-BBS terminal is assumed to speak UTF-8.
+ */
+export function encodingForTerminalType(terminalType: string | undefined): TextEncoding {
+  if (!terminalType) {
+    return 'utf8';
+  }
+  return CP437_TERMINAL_TYPES.includes(terminalType.trim().toLowerCase()) ? 'cp437' : 'utf8';
+}
+
+/**
+ * Encode outgoing text for the wire
+ */
+export function encodeText(text: string, encoding: TextEncoding): Buffer {
+  return encoding === 'cp437' ? CP437.encode(text) : Buffer.from(text, 'utf8');
+}
+
+/**
+ * Stateful decoder for incoming bytes. UTF-8 holds back partial multi-byte
+ * characters split across packets; CP437 is one byte per character.
+ */
+export class InboundDecoder {
+  private utf8 = new StringDecoder('utf8');
+
+  constructor(public encoding: TextEncoding = 'utf8') {}
+
+  write(chunk: Buffer): string {
+    return this.encoding === 'cp437' ? CP437.decode(chunk) : this.utf8.write(chunk);
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { WebSocketConnection } from './WebSocketConnection.js';
+
+// Minimal stand-in for a ws WebSocket
+class MockWebSocket extends EventEmitter {
+  public readonly OPEN = 1;
+  public readyState = 1;
+  public sent: string[] = [];
+
+  send(data: string, callback?: (error?: Error) => void): void {
+    this.sent.push(data);
+    callback?.();
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.emit('close');
+  }
+
+  // Test helper
+  receive(data: string | object): void {
+    this.emit('message', Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)));
+  }
+}
+
+describe('WebSocketConnection', () => {
+  let socket: MockWebSocket;
+  let connection: WebSocketConnection;
+  let lines: string[];
+
+  beforeEach(() => {
+    socket = new MockWebSocket();
+    connection = new WebSocketConnection(socket as any);
+    lines = [];
+    connection.onData((data) => lines.push(data));
+  });
+
+  describe('resume greeting', () => {
+    it('should take the resume token from the first message', async () => {
+      const greeting = connection.whenGreeted(1000);
+      socket.receive({ type: 'resume', token: 'abc123' });
+
+      expect(await greeting).toBe('abc123');
+      expect(lines).toEqual([]);
+    });
+
+    it('should resolve without a token when the first message is anything else', async () => {
+      const greeting = connection.whenGreeted(1000);
+      socket.receive({ type: 'resize', cols: 100, rows: 30 });
+
+      expect(await greeting).toBeUndefined();
+      expect(connection.columns).toBe(100);
+    });
+
+    it('should ignore a resume token sent after the first message', async () => {
+      const greeting = connection.whenGreeted(1000);
+      socket.receive('hello');
+      socket.receive({ type: 'resume', token: 'abc123' });
+
+      expect(await greeting).toBeUndefined();
+      expect(lines).toEqual(['hello', JSON.stringify({ type: 'resume', token: 'abc123' })]);
+    });
+
+    it('should stop waiting when the caller hangs up', async () => {
+      const greeting = connection.whenGreeted(60000);
+      socket.close();
+
+      expect(await greeting).toBeUndefined();
+      expect(connection.isOpen).toBe(false);
+    });
+
+    it('should give up after the timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        const greeting = connection.whenGreeted(1000);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(await greeting).toBeUndefined();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('interrupting streamed output', () => {
+    it('should tell the client when output streams and call the handler on an interrupt', () => {
+      const interrupt = vi.fn();
+      connection.setInterrupt(interrupt);
+      socket.receive({ type: 'interrupt' });
+      connection.setInterrupt(null);
+
+      expect(interrupt).toHaveBeenCalledTimes(1);
+      expect(lines).toEqual([]);
+      expect(socket.sent).toEqual([
+        JSON.stringify({ type: 'stream', active: true }),
+        JSON.stringify({ type: 'stream', active: false }),
+      ]);
+    });
+  });
+
+  describe('closing', () => {
+    it('should call every close listener, including ones added after the close', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const late = vi.fn();
+      connection.onClose(first);
+      connection.onClose(second);
+
+      socket.close();
+      connection.onClose(late);
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(late).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -4,27 +4,59 @@ import { v4 as uuidv4 } from 'uuid';
 
 export class WebSocketConnection implements IConnection {
   public readonly id: string;
+  /** The web terminal handles notification events itself */
+  public readonly acceptsEvents = true;
   private dataCallback?: (data: string) => void;
-  private closeCallback?: () => void;
+  private closeCallbacks: Array<() => void> = [];
   private errorCallback?: (error: Error) => void;
+  private resizeCallback?: (columns: number, rows: number) => void;
+  private interruptHandler: (() => void) | null = null;
+  private greetingCallback?: (resumeToken: string | undefined) => void;
+  private greeted = false;
+  private closed = false;
+  private _columns?: number;
+  private _rows?: number;
 
   constructor(private ws: WebSocket) {
     this.id = uuidv4();
     this.setupListeners();
   }
 
+  /** Terminal width last reported by the browser */
+  get columns(): number | undefined {
+    return this._columns;
+  }
+
+  /** Terminal height last reported by the browser */
+  get rows(): number | undefined {
+    return this._rows;
+  }
+
   private setupListeners(): void {
     this.ws.on('message', (message: Buffer) => {
       const data = message.toString();
+      if (!this.greeted) {
+        this.greeted = true;
+        const resumeToken = this.parseResume(data);
+        this.greetingCallback?.(resumeToken);
+        if (resumeToken !== undefined) {
+          return;
+        }
+      }
+      if (this.handleControl(data)) {
+        return;
+      }
       if (this.dataCallback) {
         this.dataCallback(data);
       }
     });
 
     this.ws.on('close', () => {
-      if (this.closeCallback) {
-        this.closeCallback();
-      }
+      this.closed = true;
+      // Nothing more will arrive, so stop waiting for a greeting
+      this.greeted = true;
+      this.greetingCallback?.(undefined);
+      this.closeCallbacks.forEach((callback) => callback());
     });
 
     this.ws.on('error', (error: Error) => {
@@ -34,6 +66,79 @@ export class WebSocketConnection implements IConnection {
     });
   }
 
+  /**
+   * Resolve with the resume token if the web terminal's first message is
+   * {"type":"resume","token":"..."}. Resolves with undefined when the first
+   * message is anything else, the caller hangs up, or nothing arrives
+   * within timeoutMs.
+   */
+  whenGreeted(timeoutMs: number): Promise<string | undefined> {
+    if (this.greeted) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.greeted = true;
+        this.greetingCallback = undefined;
+        resolve(undefined);
+      }, timeoutMs);
+      this.greetingCallback = (resumeToken) => {
+        clearTimeout(timer);
+        this.greetingCallback = undefined;
+        resolve(resumeToken);
+      };
+    });
+  }
+
+  private parseResume(data: string): string | undefined {
+    if (!data.startsWith('{')) {
+      return undefined;
+    }
+
+    try {
+      const message = JSON.parse(data) as { type?: unknown; token?: unknown };
+      return message?.type === 'resume' && typeof message.token === 'string' ? message.token : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The web terminal reports its size (xterm FitAddon) as
+   * {"type":"resize","cols":N,"rows":N}, and a keypress during streaming
+   * output as {"type":"interrupt"}. Returns true if the message was one of
+   * these and should not be treated as input.
+   */
+  private handleControl(data: string): boolean {
+    if (!data.startsWith('{')) {
+      return false;
+    }
+
+    let message: { type?: unknown; cols?: unknown; rows?: unknown };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return false;
+    }
+
+    if (message?.type === 'interrupt') {
+      this.interruptHandler?.();
+      return true;
+    }
+
+    if (message?.type !== 'resize' || typeof message.cols !== 'number' || typeof message.rows !== 'number') {
+      return false;
+    }
+
+    if (message.cols > 0) this._columns = message.cols;
+    if (message.rows > 0) this._rows = message.rows;
+    if (this._columns && this._rows) {
+      this.resizeCallback?.(this._columns, this._rows);
+    }
+    return true;
+  }
+
   get isOpen(): boolean {
     return this.ws.readyState === this.ws.OPEN;
   }
@@ -54,6 +159,27 @@ export class WebSocketConnection implements IConnection {
     });
   }
 
+  /**
+   * The web terminal keeps the token and sends it back as the first
+   * message when it reconnects, so it stays out of URLs and access logs
+   */
+  async sendResumeToken(token: string): Promise<void> {
+    return this.send(JSON.stringify({ type: 'session', token }));
+  }
+
+  /**
+   * The web terminal echoes locally, so tell it when output is streaming;
+   * it then sends {"type":"interrupt"} for a keypress instead of typing it
+   */
+  setInterrupt(handler: (() => void) | null): void {
+    this.interruptHandler = handler;
+    if (this.isOpen) {
+      this.send(JSON.stringify({ type: 'stream', active: !!handler })).catch(() => {
+        // The caller hung up; nothing left to interrupt
+      });
+    }
+  }
+
   async close(): Promise<void> {
     if (this.isOpen) {
       this.ws.close();
@@ -64,11 +190,23 @@ export class WebSocketConnection implements IConnection {
     this.dataCallback = callback;
   }
 
+  /**
+   * Add a listener for the connection closing. One added after the
+   * connection has closed is called straight away.
+   */
   onClose(callback: () => void): void {
-    this.closeCallback = callback;
+    if (this.closed) {
+      callback();
+      return;
+    }
+    this.closeCallbacks.push(callback);
   }
 
   onError(callback: (error: Error) => void): void {
     this.errorCallback = callback;
   }
+
+  onResize(callback: (columns: number, rows: number) => void): void {
+    this.resizeCallback = callback;
+  }
 }
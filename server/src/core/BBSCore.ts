@@ -1,6 +1,8 @@
 import type { CommandHandler } from './CommandHandler.js';
 import type { SessionManager } from '../session/SessionManager.js';
 import type { FastifyBaseLogger } from 'fastify';
+import { ANSITerminalMode } from '../ansi/ANSITerminalMode.js';
+import type { OutputStream } from './OutputStream.js';
 
 /**
  * BBS Core Engine
@@ -25,9 +27,66 @@ export class BBSCore {
   }
 
   /**
-   * Process user input and route to appropriate handler
+   * Process user input and adapt the response to the caller's terminal mode.
+   * `output` carries anything the handler sends before it returns.
    */
-  async processInput(sessionId: string, input: string): Promise<string> {
+  async processInput(sessionId: string, input: string, output?: OutputStream): Promise<string> {
+    const response = await this.routeInput(sessionId, input, output && this.adaptOutput(sessionId, output));
+
+    // Handlers change flow state in place; snapshot it for resuming
+    this.sessionManager.saveSession(sessionId);
+
+    // Look the session up again - logging in can change the mode
+    const session = this.sessionManager.getSession(sessionId);
+    return ANSITerminalMode.apply(response, session?.terminalMode);
+  }
+
+  /**
+   * Redraw the current screen for a resumed session. The handler that
+   * would take the session's next input is asked to draw it.
+   */
+  async redrawScreen(sessionId: string): Promise<string> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return '';
+    }
+
+    const handler = this.handlers.find(h => h.canHandle('', session));
+    let screen = '';
+    if (handler?.redraw) {
+      try {
+        screen = await handler.redraw(session);
+      } catch (error) {
+        this.logger.error(
+          { sessionId, error, handler: handler.constructor.name },
+          'Handler redraw error'
+        );
+      }
+    }
+
+    return ANSITerminalMode.apply(
+      '\r\n\x1b[32mSession resumed.\x1b[0m\r\n' + (screen || '\r\nCommand: '),
+      session.terminalMode
+    );
+  }
+
+  /**
+   * Apply the caller's terminal mode to streamed output as well
+   */
+  private adaptOutput(sessionId: string, output: OutputStream): OutputStream {
+    return {
+      signal: output.signal,
+      charsPerSecond: output.charsPerSecond,
+      write: (text) => output.write(
+        ANSITerminalMode.apply(text, this.sessionManager.getSession(sessionId)?.terminalMode)
+      ),
+    };
+  }
+
+  /**
+   * Route user input to the appropriate handler
+   */
+  private async routeInput(sessionId: string, input: string, output?: OutputStream): Promise<string> {
     const session = this.sessionManager.getSession(sessionId);
     
     if (!session) {
@@ -51,7 +110,7 @@ export class BBSCore {
     for (const handler of this.handlers) {
       if (handler.canHandle(command, session)) {
         try {
-          const response = await handler.handle(command, session);
+          const response = await handler.handle(command, session, output);
           return response;
         } catch (error) {
           this.logger.error(
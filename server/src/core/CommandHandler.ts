@@ -1,4 +1,5 @@
 import type { Session } from '@baudagain/shared';
+import type { OutputStream } from './OutputStream.js';
 
 /**
  * Command Handler Interface
@@ -13,7 +14,15 @@ export interface CommandHandler {
   canHandle(command: string, session: Session): boolean;
 
   /**
-   * Process the command and return output to send to the client
+   * Process the command and return output to send to the client.
+   * Handlers that take a while can send output early through `output`;
+   * the returned text follows it.
    */
-  handle(command: string, session: Session): Promise<string>;
+  handle(command: string, session: Session, output?: OutputStream): Promise<string>;
+
+  /**
+   * Redraw the screen for the session's current state, e.g. when a caller
+   * resumes a session on a new connection
+   */
+  redraw?(session: Session): Promise<string>;
 }
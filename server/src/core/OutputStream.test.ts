@@ -0,0 +1,90 @@
+/**
+ * Output Stream Tests
+ *
+ * Tests for typing streamed output out to the caller and keeping it
+ * within the terminal's width
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { typeOut, limitWidth, type OutputStream } from './OutputStream.js';
+
+describe('typeOut', () => {
+  const createOutput = (charsPerSecond = 0) => {
+    const controller = new AbortController();
+    const writes: string[] = [];
+    const output: OutputStream = {
+      signal: controller.signal,
+      charsPerSecond,
+      write: vi.fn(async (text: string) => {
+        writes.push(text);
+      }),
+    };
+    return { output, writes, controller };
+  };
+
+  async function* chunks(...parts: string[]): AsyncIterable<string> {
+    for (const part of parts) {
+      yield part;
+    }
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write chunks as they arrive when not paced', async () => {
+    const { output, writes } = createOutput();
+
+    const typed = await typeOut(output, chunks('Hello, ', 'caller!'));
+
+    expect(typed).toBe('Hello, caller!');
+    expect(writes).toEqual(['Hello, ', 'caller!']);
+  });
+
+  it('should keep escape sequences split between chunks whole', async () => {
+    const { output, writes } = createOutput();
+
+    await typeOut(output, chunks('Hi \x1b[3', '6mthere\x1b[0m'));
+
+    expect(writes).toEqual(['Hi ', '\x1b[36mthere\x1b[0m']);
+  });
+
+  it('should type text out a few characters at a time', async () => {
+    vi.useFakeTimers();
+    const { output, writes } = createOutput(80); // 2 characters per tick
+
+    const typing = typeOut(output, '\x1b[35mOracle🔮');
+    await vi.runAllTimersAsync();
+
+    expect(await typing).toBe('\x1b[35mOracle🔮');
+    expect(writes).toEqual(['\x1b[35mO', 'ra', 'cl', 'e🔮']);
+  });
+
+  it('should stop when the caller interrupts', async () => {
+    vi.useFakeTimers();
+    const { output, writes, controller } = createOutput(40); // 1 character per tick
+
+    const typing = typeOut(output, chunks('abcdef', 'ghi'));
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect(await typing).toBe('abc');
+    expect(writes.join('')).toBe('abc');
+  });
+});
+
+describe('limitWidth', () => {
+  it('should drop characters past the width until the next line break', async () => {
+    const writes: string[] = [];
+    const output = limitWidth(
+      { signal: new AbortController().signal, charsPerSecond: 0, write: async (text) => { writes.push(text); } },
+      5
+    );
+
+    await output.write('\x1b[33mabc');
+    await output.write('defg\x1b[0m\r\nhi');
+
+    expect(writes.join('')).toBe('\x1b[33mabcde\x1b[0m\r\nhi');
+  });
+});
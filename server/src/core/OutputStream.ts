@@ -0,0 +1,152 @@
+/**
+ * Output Stream
+ *
+ * Lets a handler send output to the caller while it is still working,
+ * instead of returning everything at once. Used to type AI replies out as
+ * they are generated, a few characters at a time like a modem would.
+ */
+
+import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+
+export interface OutputStream {
+  /**
+   * Send text to the caller's terminal now
+   */
+  write(text: string): Promise<void>;
+
+  /**
+   * Aborted when the caller presses a key to interrupt the output
+   */
+  readonly signal: AbortSignal;
+
+  /**
+   * Typing speed for typeOut; 0 sends text as soon as it arrives
+   */
+  readonly charsPerSecond: number;
+}
+
+// Roughly a 2400 baud modem
+export const MODEM_CHARS_PER_SECOND = 240;
+
+// How often typeOut sends the next few characters
+const TICK_MS = 25;
+
+// A complete CSI sequence, and one cut off at the end of a chunk
+const ESCAPE_SEQUENCE = /(\x1b\[[0-?]*[ -\/]*[@-~])/;
+const PARTIAL_ESCAPE = /\x1b(\[[0-?]*[ -\/]*)?$/;
+
+const graphemes = new Intl.Segmenter('en', { granularity: 'grapheme' });
+
+/**
+ * Type text out to the caller at the stream's speed. Text can be a string
+ * or chunks as they arrive from the AI. Stops when the caller interrupts,
+ * and returns what was actually sent.
+ */
+export async function typeOut(
+  output: OutputStream,
+  text: string | AsyncIterable<string> | Iterable<string>
+): Promise<string> {
+  const chunks = typeof text === 'string' ? [text] : text;
+  let typed = '';
+  let pending = '';
+
+  for await (const chunk of chunks) {
+    // Hold back an escape sequence split across chunks until it is complete
+    pending += chunk;
+    const partial = pending.match(PARTIAL_ESCAPE)?.[0] ?? '';
+    typed += await typeUnits(output, splitUnits(pending.slice(0, pending.length - partial.length)));
+    pending = partial;
+
+    if (output.signal.aborted) {
+      return typed;
+    }
+  }
+
+  return typed + await typeUnits(output, splitUnits(pending));
+}
+
+/**
+ * Keep streamed text within the terminal's width. Characters past the
+ * edge are dropped until the next line break, since a line already on
+ * screen can't be cut short with an ellipsis like a whole response can.
+ */
+export function limitWidth(output: OutputStream, width: number): OutputStream {
+  let column = 0;
+
+  return {
+    signal: output.signal,
+    charsPerSecond: output.charsPerSecond,
+    write: (text) => {
+      let fitted = '';
+      for (const unit of splitUnits(text)) {
+        if (unit.startsWith('\x1b')) {
+          fitted += unit;
+        } else if (unit === '\r' || unit === '\n' || unit === '\r\n') {
+          fitted += unit;
+          column = 0;
+        } else {
+          const unitWidth = ANSIWidthCalculator.calculate(unit);
+          if (column + unitWidth <= width) {
+            fitted += unit;
+            column += unitWidth;
+          }
+        }
+      }
+      return output.write(fitted);
+    },
+  };
+}
+
+/**
+ * Split text into characters, keeping each escape sequence and each
+ * emoji whole so a terminal never sees half of one
+ */
+function splitUnits(text: string): string[] {
+  const units: string[] = [];
+
+  text.split(ESCAPE_SEQUENCE).forEach((part, index) => {
+    // split() puts the captured escape sequences at odd indexes
+    if (index % 2 === 1) {
+      units.push(part);
+      return;
+    }
+    for (const { segment } of graphemes.segment(part)) {
+      units.push(segment);
+    }
+  });
+
+  return units;
+}
+
+/**
+ * Send units a tick's worth at a time, stopping if the caller interrupts
+ */
+async function typeUnits(output: OutputStream, units: string[]): Promise<string> {
+  if (units.length === 0 || output.signal.aborted) {
+    return '';
+  }
+
+  if (output.charsPerSecond <= 0) {
+    const text = units.join('');
+    await output.write(text);
+    return text;
+  }
+
+  const perTick = Math.max(1, Math.round((output.charsPerSecond * TICK_MS) / 1000));
+  let typed = '';
+
+  for (let index = 0; index < units.length; index += perTick) {
+    if (index > 0) {
+      await new Promise((resolve) => setTimeout(resolve, TICK_MS));
+      if (output.signal.aborted) {
+        break;
+      }
+    }
+
+    const text = units.slice(index, index + perTick).join('');
+    await output.write(text);
+    typed += text;
+  }
+
+  return typed;
+}
@@ -6,3 +6,4 @@
 
 export { BBSCore } from './BBSCore.js';
 export { CommandHandler } from './CommandHandler.js';
+export { OutputStream, MODEM_CHARS_PER_SECOND, typeOut } from './OutputStream.js';
@@ -50,7 +50,7 @@ export class BBSDatabase {
       const tables = this.db.prepare("SELECT name FROM sqlite_master WHERE type='table'").all() as Array<{ name: string }>;
       const tableNames = tables.map(t => t.name);
       
-      const requiredTables = ['users', 'message_bases', 'messages', 'door_sessions', 'activity_log', 'art_gallery'];
+      const requiredTables = ['users', 'message_bases', 'messages', 'message_revisions', 'moderation_queue', 'message_lastread', 'qwk_pointers', 'ftn_msgids', 'ftn_export_pointers', 'mail', 'door_sessions', 'sessions', 'activity_log', 'art_gallery', 'ai_usage'];
       const missingTables = requiredTables.filter(t => !tableNames.includes(t));
       
       if (missingTables.length > 0) {
@@ -79,10 +79,18 @@ export class BBSDatabase {
       this.db.exec(schema);
       this.logger.info('Database schema executed successfully');
       
+      // Bring tables created by older versions up to date
+      this.addMissingColumns();
+      
       // Verify tables were created
       const tables = this.db.prepare("SELECT name FROM sqlite_master WHERE type='table'").all() as Array<{ name: string }>;
       this.logger.info({ tables: tables.map(t => t.name) }, 'Tables created');
       
+      // Index messages written before full-text search existed, or before
+      // the index was keyed by message number
+      this.rekeySearchIndexIfNeeded();
+      this.rebuildSearchIndexIfStale();
+      
       // Seed default data if needed
       await this.seedDefaultData();
       
@@ -97,6 +105,80 @@ export class BBSDatabase {
     }
   }
 
+  /**
+   * Add columns introduced after a table was first created. CREATE TABLE
+   * IF NOT EXISTS leaves existing tables untouched. A backfill, if given,
+   * fills the new column in for existing rows.
+   */
+  private addMissingColumns(): void {
+    const columns: Array<{ table: string; column: string; definition: string; backfill?: string }> = [
+      { table: 'message_bases', column: 'moderation_policy', definition: "TEXT DEFAULT 'flagged'" },
+      { table: 'messages', column: 'is_held', definition: 'INTEGER DEFAULT 0' },
+      { table: 'message_bases', column: 'echo_tag', definition: 'TEXT' },
+      { table: 'message_bases', column: 'ai_sysop_replies', definition: 'INTEGER DEFAULT 0' },
+      { table: 'qwk_pointers', column: 'sent_number', definition: 'INTEGER' },
+      {
+        table: 'messages',
+        column: 'released_at',
+        definition: 'DATETIME',
+        backfill: 'UPDATE messages SET released_at = created_at WHERE is_held = 0',
+      },
+      {
+        table: 'messages',
+        column: 'number',
+        definition: 'INTEGER',
+        backfill: `UPDATE messages SET number = rowid;
+                   CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_number ON messages(number)`,
+      },
+    ];
+    
+    for (const { table, column, definition, backfill } of columns) {
+      const existing = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!existing.some(c => c.name === column)) {
+        this.logger.info({ table, column }, 'Adding missing column');
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        if (backfill) {
+          this.db.exec(backfill);
+        }
+      }
+    }
+  }
+
+  /**
+   * Recreate a search index keyed by rowid, from before messages had
+   * their own numbers. The schema puts it back keyed by number, and it
+   * is then rebuilt as stale.
+   */
+  private rekeySearchIndexIfNeeded(): void {
+    const index = this.db.prepare("SELECT sql FROM sqlite_master WHERE name = 'messages_fts'").get() as { sql: string } | undefined;
+    if (!index || index.sql.includes("content_rowid='number'")) {
+      return;
+    }
+
+    this.logger.info('Rekeying message search index by message number');
+    this.db.exec(`
+      DROP TRIGGER IF EXISTS messages_fts_insert;
+      DROP TRIGGER IF EXISTS messages_fts_delete;
+      DROP TRIGGER IF EXISTS messages_fts_update;
+      DROP TABLE messages_fts;
+    `);
+    this.db.exec(readFileSync(join(__dirname, 'schema.sql'), 'utf-8'));
+  }
+
+  /**
+   * Rebuild the message search index when it is out of step with the
+   * messages table (e.g. a database created before the index was added)
+   */
+  private rebuildSearchIndexIfStale(): void {
+    const messages = this.db.prepare('SELECT COUNT(*) as count FROM messages').get() as { count: number };
+    const indexed = this.db.prepare('SELECT COUNT(*) as count FROM messages_fts_docsize').get() as { count: number };
+    
+    if (messages.count !== indexed.count) {
+      this.logger.info({ messages: messages.count, indexed: indexed.count }, 'Rebuilding message search index');
+      this.db.exec("INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')");
+    }
+  }
+
   /**
    * Seed default data (message bases, etc.)
    */
@@ -0,0 +1,120 @@
+/**
+ * AI Usage Repository
+ *
+ * Records the tokens each AI call used, tagged with the feature that made
+ * it and the caller it was for. Totals since a point in time drive daily
+ * budgets; totals per day drive the control panel charts.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+
+export interface AIUsageRecord {
+  feature: string;
+  userId?: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIUsageTotal {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIDailyFeatureUsage extends AIUsageTotal {
+  date: string; // YYYY-MM-DD, UTC
+  feature: string;
+}
+
+export interface AIUserUsage extends AIUsageTotal {
+  userId: string;
+  handle?: string;
+}
+
+export class AIUsageRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Record one AI call
+   */
+  record(entry: AIUsageRecord): void {
+    this.db.run(
+      `INSERT INTO ai_usage (feature, user_id, input_tokens, output_tokens, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [entry.feature, entry.userId || null, entry.inputTokens, entry.outputTokens, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Tokens a user has used since a time, across all features
+   */
+  getUserTotalSince(userId: string, since: Date): number {
+    const row = this.db.get<{ total: number | null }>(
+      `SELECT SUM(input_tokens + output_tokens) AS total
+       FROM ai_usage
+       WHERE user_id = ? AND created_at >= ?`,
+      [userId, since.toISOString()]
+    );
+
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Tokens a feature has used since a time, across all users
+   */
+  getFeatureTotalSince(feature: string, since: Date): number {
+    const row = this.db.get<{ total: number | null }>(
+      `SELECT SUM(input_tokens + output_tokens) AS total
+       FROM ai_usage
+       WHERE feature = ? AND created_at >= ?`,
+      [feature, since.toISOString()]
+    );
+
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Tokens per feature per day since a time, oldest day first
+   */
+  getDailyByFeature(since: Date): AIDailyFeatureUsage[] {
+    const rows = this.db.all<any>(
+      `SELECT substr(created_at, 1, 10) AS date, feature,
+              SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens
+       FROM ai_usage
+       WHERE created_at >= ?
+       GROUP BY date, feature
+       ORDER BY date ASC, feature ASC`,
+      [since.toISOString()]
+    );
+
+    return rows.map(row => ({
+      date: row.date,
+      feature: row.feature,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+    }));
+  }
+
+  /**
+   * The users who have used the most tokens since a time
+   */
+  getTopUsersSince(since: Date, limit: number = 10): AIUserUsage[] {
+    const rows = this.db.all<any>(
+      `SELECT a.user_id, u.handle,
+              SUM(a.input_tokens) AS input_tokens, SUM(a.output_tokens) AS output_tokens
+       FROM ai_usage a
+       LEFT JOIN users u ON u.id = a.user_id
+       WHERE a.user_id IS NOT NULL AND a.created_at >= ?
+       GROUP BY a.user_id
+       ORDER BY SUM(a.input_tokens + a.output_tokens) DESC
+       LIMIT ?`,
+      [since.toISOString(), limit]
+    );
+
+    return rows.map(row => ({
+      userId: row.user_id,
+      handle: row.handle ?? undefined,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+    }));
+  }
+}
@@ -128,6 +128,16 @@ export class DoorSessionRepository {
     );
   }
   
+  /**
+   * Delete a user's sessions for one door
+   */
+  deleteUserDoorSessionsForDoor(userId: string, doorId: string): void {
+    this.db.run(
+      `DELETE FROM door_sessions WHERE user_id = ? AND door_id = ?`,
+      [userId, doorId]
+    );
+  }
+  
   /**
    * Delete all door sessions for a user
    */
@@ -0,0 +1,81 @@
+/**
+ * FTN Repository
+ *
+ * Bookkeeping for FidoNet-style echomail: the MSGID of every message
+ * tossed in or sent out, so duplicates can be dropped and replies
+ * threaded, and how far export has reached in each linked base.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+
+export type FtnDirection = 'in' | 'out';
+
+export class FtnRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Find the local message a MSGID belongs to
+   */
+  findMessageIdByMsgid(msgid: string): string | null {
+    const row = this.db.get<{ message_id: string }>(
+      `SELECT message_id FROM ftn_msgids WHERE msgid = ?`,
+      [msgid]
+    );
+
+    return row?.message_id ?? null;
+  }
+
+  /**
+   * Get the MSGID a local message was tossed in or sent out with
+   */
+  getMsgid(messageId: string, direction?: FtnDirection): string | null {
+    const row = direction
+      ? this.db.get<{ msgid: string }>(
+          `SELECT msgid FROM ftn_msgids WHERE message_id = ? AND direction = ?`,
+          [messageId, direction]
+        )
+      : this.db.get<{ msgid: string }>(
+          `SELECT msgid FROM ftn_msgids WHERE message_id = ?`,
+          [messageId]
+        );
+
+    return row?.msgid ?? null;
+  }
+
+  /**
+   * Remember the MSGID of a message tossed in or sent out
+   */
+  recordMsgid(msgid: string, messageId: string, direction: FtnDirection): void {
+    this.db.run(
+      `INSERT OR IGNORE INTO ftn_msgids (msgid, message_id, direction, created_at)
+       VALUES (?, ?, ?, ?)`,
+      [msgid, messageId, direction, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Get the number of the newest message exported from each base
+   */
+  getExportPointers(): Map<string, number> {
+    const rows = this.db.all<{ base_id: string; last_number: number }>(
+      `SELECT base_id, last_number FROM ftn_export_pointers`,
+      []
+    );
+
+    return new Map(rows.map(row => [row.base_id, row.last_number]));
+  }
+
+  /**
+   * Move a base's export position forward
+   */
+  setExportPointer(baseId: string, lastNumber: number): void {
+    this.db.run(
+      `INSERT INTO ftn_export_pointers (base_id, last_number, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(base_id) DO UPDATE SET
+         last_number = excluded.last_number,
+         updated_at = excluded.updated_at`,
+      [baseId, lastNumber, new Date().toISOString()]
+    );
+  }
+}
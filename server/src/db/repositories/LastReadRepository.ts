@@ -0,0 +1,68 @@
+/**
+ * LastRead Repository
+ *
+ * Tracks how far each user has read in each message base. A pointer is
+ * the time the newest message the user has read there was shown; anything
+ * shown later is unread. A held post counts from when it was released.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+
+export class LastReadRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Get the user's read position in a base, or null if they have never read it
+   */
+  getLastRead(userId: string, baseId: string): Date | null {
+    const row = this.db.get<{ last_read_at: string }>(
+      `SELECT last_read_at FROM message_lastread WHERE user_id = ? AND base_id = ?`,
+      [userId, baseId]
+    );
+
+    return row ? new Date(row.last_read_at) : null;
+  }
+
+  /**
+   * Move the pointer up to a message. Reading an older message never
+   * moves the pointer back.
+   */
+  markMessageRead(userId: string, messageId: string): void {
+    this.db.run(
+      `INSERT INTO message_lastread (user_id, base_id, last_read_at, updated_at)
+       SELECT ?, base_id, released_at, ? FROM messages WHERE id = ? AND released_at IS NOT NULL
+       ON CONFLICT(user_id, base_id) DO UPDATE SET
+         last_read_at = excluded.last_read_at,
+         updated_at = excluded.updated_at
+       WHERE julianday(excluded.last_read_at) > julianday(message_lastread.last_read_at)`,
+      [userId, new Date().toISOString(), messageId]
+    );
+  }
+
+  /**
+   * Mark everything posted in a base up to now as read
+   */
+  markBaseRead(userId: string, baseId: string): void {
+    const now = new Date().toISOString();
+
+    this.db.run(
+      `INSERT INTO message_lastread (user_id, base_id, last_read_at, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, base_id) DO UPDATE SET
+         last_read_at = excluded.last_read_at,
+         updated_at = excluded.updated_at`,
+      [userId, baseId, now, now]
+    );
+  }
+
+  /**
+   * Mark everything posted in several bases up to now as read
+   */
+  markBasesRead(userId: string, baseIds: string[]): void {
+    this.db.transaction(() => {
+      for (const baseId of baseIds) {
+        this.markBaseRead(userId, baseId);
+      }
+    });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Mail Repository
+ *
+ * Handles storage of private mail between users. Sender and recipient
+ * delete their own copy independently.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface Mail {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  replyToId?: string;
+  subject: string;
+  body: string;
+  createdAt: Date;
+  readAt?: Date;
+  deletedBySender: boolean;
+  deletedByRecipient: boolean;
+  // Joined fields
+  fromHandle?: string;
+  toHandle?: string;
+}
+
+export interface CreateMailData {
+  fromUserId: string;
+  toUserId: string;
+  subject: string;
+  body: string;
+  replyToId?: string;
+}
+
+const MAIL_SELECT = `SELECT m.*, f.handle as from_handle, t.handle as to_handle
+       FROM mail m
+       LEFT JOIN users f ON m.from_user_id = f.id
+       LEFT JOIN users t ON m.to_user_id = t.id`;
+
+export class MailRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Create a new mail
+   */
+  createMail(data: CreateMailData): Mail {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    this.db.run(
+      `INSERT INTO mail (id, from_user_id, to_user_id, reply_to_id, subject, body, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        data.fromUserId,
+        data.toUserId,
+        data.replyToId || null,
+        data.subject,
+        data.body,
+        now
+      ]
+    );
+
+    return this.getMail(id) as Mail;
+  }
+
+  /**
+   * Get mail by ID, unless both sender and recipient have deleted it
+   */
+  getMail(id: string): Mail | null {
+    const row = this.db.get<any>(
+      `${MAIL_SELECT}
+       WHERE m.id = ? AND NOT (m.deleted_by_sender = 1 AND m.deleted_by_recipient = 1)`,
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapToMail(row);
+  }
+
+  /**
+   * Get mail received by a user, newest first
+   */
+  getInbox(userId: string, limit: number = 50, offset: number = 0): Mail[] {
+    const rows = this.db.all<any>(
+      `${MAIL_SELECT}
+       WHERE m.to_user_id = ? AND m.deleted_by_recipient = 0
+       ORDER BY m.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [userId, limit, offset]
+    );
+
+    return rows.map(row => this.mapToMail(row));
+  }
+
+  /**
+   * Get mail sent by a user, newest first
+   */
+  getSent(userId: string, limit: number = 50, offset: number = 0): Mail[] {
+    const rows = this.db.all<any>(
+      `${MAIL_SELECT}
+       WHERE m.from_user_id = ? AND m.deleted_by_sender = 0
+       ORDER BY m.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [userId, limit, offset]
+    );
+
+    return rows.map(row => this.mapToMail(row));
+  }
+
+  /**
+   * Get count of mail in a user's inbox
+   */
+  getInboxCount(userId: string): number {
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM mail
+       WHERE to_user_id = ? AND deleted_by_recipient = 0`,
+      [userId]
+    );
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Get count of mail sent by a user
+   */
+  getSentCount(userId: string): number {
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM mail
+       WHERE from_user_id = ? AND deleted_by_sender = 0`,
+      [userId]
+    );
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Get count of unread mail in a user's inbox
+   */
+  getUnreadCount(userId: string): number {
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM mail
+       WHERE to_user_id = ? AND deleted_by_recipient = 0 AND read_at IS NULL`,
+      [userId]
+    );
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Mark mail as read, keeping the time it was first read
+   */
+  markRead(id: string): void {
+    const now = new Date().toISOString();
+
+    this.db.run(
+      `UPDATE mail SET read_at = ? WHERE id = ? AND read_at IS NULL`,
+      [now, id]
+    );
+  }
+
+  /**
+   * Delete mail from one user's view. The sender and recipient each keep
+   * their copy until they delete it.
+   */
+  deleteMail(id: string, userId: string): void {
+    this.db.run(
+      `UPDATE mail SET deleted_by_sender = 1 WHERE id = ? AND from_user_id = ?`,
+      [id, userId]
+    );
+    this.db.run(
+      `UPDATE mail SET deleted_by_recipient = 1 WHERE id = ? AND to_user_id = ?`,
+      [id, userId]
+    );
+  }
+
+  /**
+   * Map database row to Mail
+   */
+  private mapToMail(row: any): Mail {
+    return {
+      id: row.id,
+      fromUserId: row.from_user_id,
+      toUserId: row.to_user_id,
+      replyToId: row.reply_to_id || undefined,
+      subject: row.subject,
+      body: row.body,
+      createdAt: new Date(row.created_at),
+      readAt: row.read_at ? new Date(row.read_at) : undefined,
+      deletedBySender: row.deleted_by_sender === 1,
+      deletedByRecipient: row.deleted_by_recipient === 1,
+      fromHandle: row.from_handle,
+      toHandle: row.to_handle
+    };
+  }
+}
@@ -7,6 +7,13 @@
 import type { BBSDatabase } from '../Database.js';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * How new posts in a base are moderated: 'off' skips screening,
+ * 'flagged' holds posts the classifier flags, 'all' holds every post
+ * until a moderator approves it
+ */
+export type ModerationPolicy = 'off' | 'flagged' | 'all';
+
 export interface MessageBase {
   id: string;
   name: string;
@@ -16,6 +23,9 @@ export interface MessageBase {
   postCount: number;
   lastPostAt?: Date;
   sortOrder: number;
+  moderationPolicy: ModerationPolicy;
+  echoTag?: string; // FTN echomail area the base is linked to
+  aiSysopReplies: boolean; // Whether the AI SysOp replies to posts here
 }
 
 export interface CreateMessageBaseData {
@@ -24,6 +34,9 @@ export interface CreateMessageBaseData {
   accessLevelRead?: number;
   accessLevelWrite?: number;
   sortOrder?: number;
+  moderationPolicy?: ModerationPolicy;
+  echoTag?: string | null; // null unlinks the base
+  aiSysopReplies?: boolean;
 }
 
 export class MessageBaseRepository {
@@ -36,15 +49,18 @@ export class MessageBaseRepository {
     const id = uuidv4();
     
     this.db.run(
-      `INSERT INTO message_bases (id, name, description, access_level_read, access_level_write, sort_order)
-       VALUES (?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO message_bases (id, name, description, access_level_read, access_level_write, sort_order, moderation_policy, echo_tag, ai_sysop_replies)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         data.name,
         data.description || null,
         data.accessLevelRead ?? 0,
         data.accessLevelWrite ?? 10,
-        data.sortOrder ?? 0
+        data.sortOrder ?? 0,
+        data.moderationPolicy ?? 'flagged',
+        data.echoTag || null,
+        data.aiSysopReplies ? 1 : 0
       ]
     );
     
@@ -65,6 +81,20 @@ export class MessageBaseRepository {
     return this.mapToMessageBase(row);
   }
   
+  /**
+   * Get the message base linked to an echomail area
+   */
+  getMessageBaseByEchoTag(echoTag: string): MessageBase | null {
+    const row = this.db.get<any>(
+      `SELECT * FROM message_bases WHERE echo_tag = ? COLLATE NOCASE`,
+      [echoTag]
+    );
+    
+    if (!row) return null;
+    
+    return this.mapToMessageBase(row);
+  }
+  
   /**
    * Get all message bases ordered by sort_order
    */
@@ -118,6 +148,18 @@ export class MessageBaseRepository {
       updates.push('sort_order = ?');
       values.push(data.sortOrder);
     }
+    if (data.moderationPolicy !== undefined) {
+      updates.push('moderation_policy = ?');
+      values.push(data.moderationPolicy);
+    }
+    if (data.echoTag !== undefined) {
+      updates.push('echo_tag = ?');
+      values.push(data.echoTag || null);
+    }
+    if (data.aiSysopReplies !== undefined) {
+      updates.push('ai_sysop_replies = ?');
+      values.push(data.aiSysopReplies ? 1 : 0);
+    }
     
     if (updates.length === 0) return;
     
@@ -139,6 +181,19 @@ export class MessageBaseRepository {
     );
   }
   
+  /**
+   * Get each base's conference number for offline readers. Numbers come
+   * from the rowid, so they stay put when bases are added or reordered.
+   */
+  getConferenceNumbers(): Map<string, number> {
+    const rows = this.db.all<{ id: string; number: number }>(
+      `SELECT id, rowid as number FROM message_bases`,
+      []
+    );
+    
+    return new Map(rows.map(row => [row.id, row.number]));
+  }
+  
   /**
    * Increment post count
    */
@@ -163,7 +218,10 @@ export class MessageBaseRepository {
       accessLevelWrite: row.access_level_write,
       postCount: row.post_count,
       lastPostAt: row.last_post_at ? new Date(row.last_post_at) : undefined,
-      sortOrder: row.sort_order
+      sortOrder: row.sort_order,
+      moderationPolicy: row.moderation_policy ?? 'flagged',
+      echoTag: row.echo_tag ?? undefined,
+      aiSysopReplies: row.ai_sysop_replies === 1
     };
   }
 }
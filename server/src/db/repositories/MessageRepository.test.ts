@@ -0,0 +1,232 @@
+/**
+ * MessageRepository Tests
+ *
+ * Tests for full-text message search, held messages, message numbers,
+ * unread tracking and edit history
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BBSDatabase } from '../Database.js';
+import { MessageRepository } from './MessageRepository.js';
+import { LastReadRepository } from './LastReadRepository.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('MessageRepository search', () => {
+  let db: BBSDatabase;
+  let repository: MessageRepository;
+
+  const post = (subject: string, body: string, baseId = 'base-1', userId = 'user-a') =>
+    repository.createMessage({ baseId, userId, subject, body });
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new MessageRepository(db);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+    db.run('INSERT INTO message_bases (id, name, access_level_read) VALUES (?, ?, ?)', ['base-1', 'Retro', 0]);
+    db.run('INSERT INTO message_bases (id, name, access_level_read) VALUES (?, ?, ?)', ['base-2', 'SysOps Only', 100]);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should rank subject matches above body matches', () => {
+    post('Favourite games', 'I still play modem games on the weekend');
+    post('Modem speeds', 'My first was 2400 baud');
+
+    const results = repository.searchMessages('modem');
+
+    expect(results.map(r => r.subject)).toEqual(['Modem speeds', 'Favourite games']);
+    expect(results[0]).toMatchObject({ authorHandle: 'Alice', baseName: 'Retro' });
+    expect(results[1].snippet).toContain('[modem]');
+  });
+
+  it('should follow edits and exclude deleted messages', () => {
+    const edited = post('Old news', 'nothing here');
+    const deleted = post('Zmodem tips', 'use zmodem for uploads');
+
+    repository.updateMessage(edited.id, 'Fresh news', 'zmodem resumes transfers');
+    repository.deleteMessage(deleted.id);
+
+    expect(repository.searchMessages('nothing')).toHaveLength(0);
+    expect(repository.searchMessages('zmodem').map(r => r.id)).toEqual([edited.id]);
+    expect(repository.countSearchResults('zmodem')).toBe(1);
+  });
+
+  it('should apply base, author, date and access filters', () => {
+    post('Door games', 'LORD forever', 'base-1', 'user-a');
+    post('Door games', 'TradeWars forever', 'base-1', 'user-b');
+    post('Door games', 'SysOp door setup', 'base-2', 'user-a');
+
+    expect(repository.searchMessages('door', { authorHandle: 'Bob' })).toHaveLength(1);
+    expect(repository.searchMessages('door', { baseId: 'base-2' })).toHaveLength(1);
+    expect(repository.searchMessages('door', { maxAccessLevel: 10 })).toHaveLength(2);
+    expect(repository.searchMessages('door', { since: new Date(Date.now() + 60000) })).toHaveLength(0);
+    expect(repository.countSearchResults('door', { until: new Date(Date.now() + 60000) })).toBe(3);
+  });
+
+  it('should treat search operators as plain words and support prefixes', () => {
+    post('BBS lists', 'Where to find boards: "telnet" NEAR(ansi)');
+
+    expect(repository.searchMessages('NEAR(ansi)')).toHaveLength(1);
+    expect(repository.searchMessages('"telnet')).toHaveLength(1);
+    expect(repository.searchMessages('boa*')).toHaveLength(1);
+    expect(repository.searchMessages('boa')).toHaveLength(0);
+    expect(repository.searchMessages('***')).toEqual([]);
+  });
+
+  it('should hide held messages from listings and search until released', () => {
+    const held = post('Modem deals', 'cheap modems here');
+    post('Modem speeds', 'My first was 2400 baud');
+
+    repository.setHeld(held.id, true);
+
+    expect(repository.getMessage(held.id)?.isHeld).toBe(true);
+    expect(repository.getMessages('base-1').map(m => m.subject)).toEqual(['Modem speeds']);
+    expect(repository.getMessageCount('base-1')).toBe(1);
+    expect(repository.searchMessages('modem')).toHaveLength(1);
+
+    repository.setHeld(held.id, false);
+
+    expect(repository.getMessageCount('base-1')).toBe(2);
+    expect(repository.searchMessages('modem')).toHaveLength(2);
+  });
+
+  it('should keep message numbers when the database is vacuumed', () => {
+    const gone = post('Old news', 'nothing here');
+    const first = post('Modem speeds', 'My first was 2400 baud');
+    const reply = repository.createMessage({ baseId: 'base-1', userId: 'user-b', subject: 'Re: Modem speeds', body: 'Mine was 1200', parentId: first.id });
+    const [before] = repository.getMessagesAfterNumber('base-1', 0).filter(m => m.id === reply.id);
+
+    db.run('DELETE FROM messages WHERE id = ?', [gone.id]);
+    db.run('VACUUM');
+
+    const [after] = repository.getMessagesAfterNumber('base-1', 0).filter(m => m.id === reply.id);
+    expect(after).toMatchObject({ number: before.number, parentNumber: before.parentNumber });
+    expect(repository.getMessageByNumber(before.parentNumber!)?.id).toBe(first.id);
+    expect(repository.searchMessages('baud').map(m => m.id)).toEqual([first.id]);
+  });
+});
+
+describe('MessageRepository unread tracking', () => {
+  let db: BBSDatabase;
+  let repository: MessageRepository;
+  let lastRead: LastReadRepository;
+
+  // Posts in the past, a minute apart, so read pointers order cleanly
+  let minutesAgo = 60;
+  const post = (subject: string, baseId = 'base-1', userId = 'user-a') => {
+    const message = repository.createMessage({ baseId, userId, subject, body: 'text' });
+    const createdAt = new Date(Date.now() - minutesAgo-- * 60000).toISOString();
+    db.run('UPDATE messages SET created_at = ?, released_at = ? WHERE id = ?', [createdAt, createdAt, message.id]);
+    return message;
+  };
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new MessageRepository(db);
+    lastRead = new LastReadRepository(db);
+    minutesAgo = 60;
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+    db.run('INSERT INTO message_bases (id, name, access_level_read) VALUES (?, ?, ?)', ['base-1', 'Retro', 0]);
+    db.run('INSERT INTO message_bases (id, name, access_level_read) VALUES (?, ?, ?)', ['base-2', 'Doors', 0]);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should treat everything but the user\'s own posts as unread at first', () => {
+    post('First');
+    post('Second');
+    post('Mine', 'base-2', 'user-b');
+
+    expect(repository.getUnreadMessages('user-b', 'base-1').map(m => m.subject)).toEqual(['First', 'Second']);
+    expect(repository.getUnreadCounts('user-b')).toEqual(new Map([['base-1', 2]]));
+    expect(lastRead.getLastRead('user-b', 'base-1')).toBeNull();
+  });
+
+  it('should move the pointer forward but never back', () => {
+    const first = post('First');
+    const second = post('Second');
+    post('Third');
+
+    lastRead.markMessageRead('user-b', second.id);
+    lastRead.markMessageRead('user-b', first.id);
+
+    expect(repository.getUnreadMessages('user-b', 'base-1').map(m => m.subject)).toEqual(['Third']);
+    expect(repository.getUnreadCounts('user-a').size).toBe(0);
+  });
+
+  it('should mark whole bases read', () => {
+    post('Retro news');
+    post('Door news', 'base-2');
+
+    lastRead.markBaseRead('user-b', 'base-1');
+    expect(repository.getUnreadCounts('user-b')).toEqual(new Map([['base-2', 1]]));
+
+    lastRead.markBasesRead('user-b', ['base-1', 'base-2']);
+    expect(repository.getUnreadCounts('user-b').size).toBe(0);
+
+    minutesAgo = -1;
+    post('Later news', 'base-2');
+    expect(repository.getUnreadCounts('user-b')).toEqual(new Map([['base-2', 1]]));
+  });
+});
+
+describe('MessageRepository edit history', () => {
+  let db: BBSDatabase;
+  let repository: MessageRepository;
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new MessageRepository(db);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['sysop', 'SysOp', 'hash']);
+    db.run('INSERT INTO message_bases (id, name) VALUES (?, ?)', ['base-1', 'Retro']);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should keep each prior version when edits and deletes are attributed', () => {
+    const message = repository.createMessage({ baseId: 'base-1', userId: 'user-a', subject: 'Draft', body: 'v1' });
+
+    repository.updateMessage(message.id, 'Final', 'v2', 'user-a');
+    repository.deleteMessage(message.id, 'sysop');
+
+    expect(repository.getMessage(message.id)).toBeNull();
+    expect(repository.getRevisions(message.id)).toMatchObject([
+      { subject: 'Draft', body: 'v1', action: 'edit', changedByHandle: 'Alice' },
+      { subject: 'Final', body: 'v2', action: 'delete', changedByHandle: 'SysOp' },
+    ]);
+  });
+
+  it('should not record history for unattributed changes', () => {
+    const message = repository.createMessage({ baseId: 'base-1', userId: 'user-a', subject: 'Draft', body: 'v1' });
+
+    repository.updateMessage(message.id, 'Final', 'v2');
+
+    expect(repository.getMessage(message.id)?.editedAt).toBeInstanceOf(Date);
+    expect(repository.getRevisions(message.id)).toEqual([]);
+  });
+});
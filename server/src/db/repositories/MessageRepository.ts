@@ -18,6 +18,7 @@ export interface Message {
   editedAt?: Date;
   isDeleted: boolean;
   aiModerationFlag?: string;
+  isHeld: boolean; // Waiting for a moderator; hidden from lists until approved
   // Joined fields
   authorHandle?: string;
 }
@@ -30,6 +31,42 @@ export interface CreateMessageData {
   parentId?: string;
 }
 
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  subject: string; // Content before the change
+  body: string;
+  action: 'edit' | 'delete';
+  changedBy: string;
+  changedByHandle?: string;
+  createdAt: Date;
+}
+
+export interface NumberedMessage extends Message {
+  number: number; // Stable per-message number, used by offline readers and echomail
+  parentNumber?: number;
+  parentAuthorHandle?: string;
+}
+
+export interface MessageSearchFilters {
+  baseId?: string;
+  authorHandle?: string;
+  since?: Date;
+  until?: Date;
+  maxAccessLevel?: number; // Only search bases readable at this access level
+}
+
+export interface MessageSearchResult extends Message {
+  baseName?: string;
+  snippet: string; // Matching text with hits wrapped in the highlight markers
+  rank: number; // bm25 score; lower is a better match
+}
+
+export interface SearchHighlight {
+  start: string;
+  end: string;
+}
+
 export class MessageRepository {
   constructor(private db: BBSDatabase) {}
   
@@ -41,8 +78,8 @@ export class MessageRepository {
     const now = new Date().toISOString();
     
     this.db.run(
-      `INSERT INTO messages (id, base_id, parent_id, user_id, subject, body, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO messages (id, base_id, parent_id, user_id, subject, body, created_at, released_at, number)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(number), 0) + 1 FROM messages))`,
       [
         id,
         data.baseId,
@@ -50,6 +87,7 @@ export class MessageRepository {
         data.userId,
         data.subject,
         data.body,
+        now,
         now
       ]
     );
@@ -82,7 +120,7 @@ export class MessageRepository {
       `SELECT m.*, u.handle as author_handle
        FROM messages m
        LEFT JOIN users u ON m.user_id = u.id
-       WHERE m.base_id = ? AND m.is_deleted = 0 AND m.parent_id IS NULL
+       WHERE m.base_id = ? AND m.is_deleted = 0 AND m.is_held = 0 AND m.parent_id IS NULL
        ORDER BY m.created_at DESC
        LIMIT ? OFFSET ?`,
       [baseId, limit, offset]
@@ -99,7 +137,7 @@ export class MessageRepository {
       `SELECT m.*, u.handle as author_handle
        FROM messages m
        LEFT JOIN users u ON m.user_id = u.id
-       WHERE m.parent_id = ? AND m.is_deleted = 0
+       WHERE m.parent_id = ? AND m.is_deleted = 0 AND m.is_held = 0
        ORDER BY m.created_at ASC`,
       [parentId]
     );
@@ -107,19 +145,100 @@ export class MessageRepository {
     return rows.map(row => this.mapToMessage(row));
   }
   
+  /**
+   * Get every message in the thread containing a message, oldest first.
+   * Soft-deleted messages are included so the thread keeps its shape.
+   */
+  getThread(id: string): Message[] {
+    const rows = this.db.all<any>(
+      `WITH RECURSIVE
+         ancestors(id, parent_id) AS (
+           SELECT id, parent_id FROM messages WHERE id = ?
+           UNION ALL
+           SELECT m.id, m.parent_id FROM messages m JOIN ancestors a ON m.id = a.parent_id
+         ),
+         thread(id) AS (
+           SELECT id FROM ancestors WHERE parent_id IS NULL
+           UNION ALL
+           SELECT m.id FROM messages m JOIN thread t ON m.parent_id = t.id
+         )
+       SELECT m.*, u.handle as author_handle
+       FROM messages m
+       JOIN thread t ON m.id = t.id
+       LEFT JOIN users u ON m.user_id = u.id
+       ORDER BY m.created_at ASC`,
+      [id]
+    );
+    
+    return rows.map(row => this.mapToMessage(row));
+  }
+  
   /**
    * Get message count for a base
    */
   getMessageCount(baseId: string): number {
     const result = this.db.get<{ count: number }>(
       `SELECT COUNT(*) as count FROM messages 
-       WHERE base_id = ? AND is_deleted = 0 AND parent_id IS NULL`,
+       WHERE base_id = ? AND is_deleted = 0 AND is_held = 0 AND parent_id IS NULL`,
       [baseId]
     );
     
     return result?.count || 0;
   }
   
+  /**
+   * Get messages in a base numbered above a position, oldest first.
+   * Replies are included; held and deleted messages are not.
+   */
+  getMessagesAfterNumber(baseId: string, afterNumber: number, limit: number = 500): NumberedMessage[] {
+    const rows = this.db.all<any>(
+      `SELECT m.*, u.handle as author_handle,
+              p.number as parent_number, pu.handle as parent_author_handle
+       FROM messages m
+       LEFT JOIN users u ON m.user_id = u.id
+       LEFT JOIN messages p ON p.id = m.parent_id
+       LEFT JOIN users pu ON p.user_id = pu.id
+       WHERE m.base_id = ? AND m.number > ? AND m.is_deleted = 0 AND m.is_held = 0
+       ORDER BY m.number ASC
+       LIMIT ?`,
+      [baseId, afterNumber, limit]
+    );
+    
+    return rows.map(row => ({
+      ...this.mapToMessage(row),
+      number: row.number,
+      parentNumber: row.parent_number ?? undefined,
+      parentAuthorHandle: row.parent_author_handle ?? undefined,
+    }));
+  }
+  
+  /**
+   * Get the number of the newest message in a base, or 0 if it is empty
+   */
+  getLatestMessageNumber(baseId: string): number {
+    const row = this.db.get<{ number: number | null }>(
+      `SELECT MAX(number) as number FROM messages WHERE base_id = ?`,
+      [baseId]
+    );
+    
+    return row?.number ?? 0;
+  }
+  
+  /**
+   * Get a message by its number
+   */
+  getMessageByNumber(number: number): Message | null {
+    const row = this.db.get<any>(
+      `SELECT m.*, u.handle as author_handle
+       FROM messages m
+       LEFT JOIN users u ON m.user_id = u.id
+       WHERE m.number = ? AND m.is_deleted = 0`,
+      [number]
+    );
+    
+    return row ? this.mapToMessage(row) : null;
+  }
+  
   /**
    * Get messages in a message base since a specific date
    */
@@ -130,7 +249,7 @@ export class MessageRepository {
       `SELECT m.*, u.handle as author_handle
        FROM messages m
        LEFT JOIN users u ON m.user_id = u.id
-       WHERE m.base_id = ? AND m.is_deleted = 0 AND m.created_at > ?
+       WHERE m.base_id = ? AND m.is_deleted = 0 AND m.is_held = 0 AND m.created_at > ?
        ORDER BY m.created_at DESC`,
       [baseId, sinceIso]
     );
@@ -138,6 +257,44 @@ export class MessageRepository {
     return rows.map(row => this.mapToMessage(row));
   }
   
+  /**
+   * Get messages in a base the user has not read yet, oldest first.
+   * The user's own posts are never unread.
+   */
+  getUnreadMessages(userId: string, baseId: string, limit: number = 50): Message[] {
+    const rows = this.db.all<any>(
+      `SELECT m.*, u.handle as author_handle
+       FROM messages m
+       LEFT JOIN users u ON m.user_id = u.id
+       LEFT JOIN message_lastread lr ON lr.user_id = ? AND lr.base_id = m.base_id
+       WHERE m.base_id = ? AND m.is_deleted = 0 AND m.is_held = 0 AND m.user_id != ?
+         AND (lr.last_read_at IS NULL OR julianday(m.released_at) > julianday(lr.last_read_at))
+       ORDER BY m.released_at ASC
+       LIMIT ?`,
+      [userId, baseId, userId, limit]
+    );
+    
+    return rows.map(row => this.mapToMessage(row));
+  }
+  
+  /**
+   * Count unread messages per base for a user. Bases with nothing
+   * unread are left out.
+   */
+  getUnreadCounts(userId: string): Map<string, number> {
+    const rows = this.db.all<{ base_id: string; count: number }>(
+      `SELECT m.base_id, COUNT(*) as count
+       FROM messages m
+       LEFT JOIN message_lastread lr ON lr.user_id = ? AND lr.base_id = m.base_id
+       WHERE m.is_deleted = 0 AND m.is_held = 0 AND m.user_id != ?
+         AND (lr.last_read_at IS NULL OR julianday(m.released_at) > julianday(lr.last_read_at))
+       GROUP BY m.base_id`,
+      [userId, userId]
+    );
+    
+    return new Map(rows.map(row => [row.base_id, row.count]));
+  }
+  
   /**
    * Get recent messages across all bases
    */
@@ -146,7 +303,7 @@ export class MessageRepository {
       `SELECT m.*, u.handle as author_handle
        FROM messages m
        LEFT JOIN users u ON m.user_id = u.id
-       WHERE m.is_deleted = 0
+       WHERE m.is_deleted = 0 AND m.is_held = 0
        ORDER BY m.created_at DESC
        LIMIT ?`,
       [limit]
@@ -156,27 +313,66 @@ export class MessageRepository {
   }
   
   /**
-   * Update message
+   * Update message. When the editor is given, the previous subject and
+   * body are kept as a revision.
    */
-  updateMessage(id: string, subject: string, body: string): void {
+  updateMessage(id: string, subject: string, body: string, editedBy?: string): void {
     const now = new Date().toISOString();
     
-    this.db.run(
-      `UPDATE messages 
-       SET subject = ?, body = ?, edited_at = ?
-       WHERE id = ?`,
-      [subject, body, now, id]
-    );
+    this.db.transaction(() => {
+      if (editedBy) {
+        this.saveRevision(id, 'edit', editedBy);
+      }
+      
+      this.db.run(
+        `UPDATE messages 
+         SET subject = ?, body = ?, edited_at = ?
+         WHERE id = ?`,
+        [subject, body, now, id]
+      );
+    });
   }
   
   /**
-   * Soft delete message
+   * Soft delete message. When the deleter is given, the content at the
+   * time of deletion is kept as a revision.
    */
-  deleteMessage(id: string): void {
-    this.db.run(
-      `UPDATE messages SET is_deleted = 1 WHERE id = ?`,
-      [id]
+  deleteMessage(id: string, deletedBy?: string): void {
+    this.db.transaction(() => {
+      if (deletedBy) {
+        this.saveRevision(id, 'delete', deletedBy);
+      }
+      
+      this.db.run(
+        `UPDATE messages SET is_deleted = 1 WHERE id = ?`,
+        [id]
+      );
+    });
+  }
+  
+  /**
+   * Get the prior versions of a message, oldest first
+   */
+  getRevisions(messageId: string): MessageRevision[] {
+    const rows = this.db.all<any>(
+      `SELECT r.*, u.handle as changed_by_handle
+       FROM message_revisions r
+       LEFT JOIN users u ON r.changed_by = u.id
+       WHERE r.message_id = ?
+       ORDER BY r.created_at ASC, r.rowid ASC`,
+      [messageId]
     );
+    
+    return rows.map(row => ({
+      id: row.id,
+      messageId: row.message_id,
+      subject: row.subject,
+      body: row.body,
+      action: row.action,
+      changedBy: row.changed_by,
+      changedByHandle: row.changed_by_handle,
+      createdAt: new Date(row.created_at)
+    }));
   }
   
   /**
@@ -189,6 +385,62 @@ export class MessageRepository {
     );
   }
   
+  /**
+   * Mark a new message as not shown yet, so it is stamped when it is
+   * first released
+   */
+  markUnreleased(id: string): void {
+    this.db.run(
+      `UPDATE messages SET released_at = NULL WHERE id = ?`,
+      [id]
+    );
+  }
+  
+  /**
+   * Stamp a message being shown for the first time as the newest in its
+   * base, by release time and by number, so read pointers and the QWK and
+   * echomail exports that moved on while it was held still pick it up.
+   * Messages that have been shown before keep their place, and the
+   * posting time is never changed.
+   */
+  restamp(id: string): void {
+    this.db.transaction(() => {
+      const row = this.db.get<{ number: number; subject: string; body: string; released_at: string | null }>(
+        `SELECT number, subject, body, released_at FROM messages WHERE id = ?`,
+        [id]
+      );
+      if (!row || row.released_at) {
+        return;
+      }
+
+      const next = this.db.get<{ number: number }>(`SELECT MAX(number) + 1 as number FROM messages`)!.number;
+      this.db.run(
+        `UPDATE messages SET number = ?, released_at = ? WHERE id = ?`,
+        [next, new Date().toISOString(), id]
+      );
+
+      // The search index is keyed by number, so move the entry along
+      this.db.run(
+        `INSERT INTO messages_fts(messages_fts, rowid, subject, body) VALUES ('delete', ?, ?, ?)`,
+        [row.number, row.subject, row.body]
+      );
+      this.db.run(
+        `INSERT INTO messages_fts(rowid, subject, body) VALUES (?, ?, ?)`,
+        [next, row.subject, row.body]
+      );
+    });
+  }
+  
+  /**
+   * Hold a message back from lists, or release it
+   */
+  setHeld(id: string, held: boolean): void {
+    this.db.run(
+      `UPDATE messages SET is_held = ? WHERE id = ?`,
+      [held ? 1 : 0, id]
+    );
+  }
+  
   /**
    * Get count of messages posted by a user
    */
@@ -202,6 +454,136 @@ export class MessageRepository {
     return result?.count || 0;
   }
 
+  /**
+   * Count the replies a user has posted since a given time
+   */
+  countRepliesByUserSince(userId: string, since: Date): number {
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM messages 
+       WHERE user_id = ? AND parent_id IS NOT NULL AND created_at >= ?`,
+      [userId, since.toISOString()]
+    );
+    
+    return result?.count || 0;
+  }
+
+  /**
+   * Full-text search over subjects and bodies, best matches first.
+   * Subject hits weigh more than body hits.
+   */
+  searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit: number = 20,
+    offset: number = 0,
+    highlight: SearchHighlight = { start: '[', end: ']' }
+  ): MessageSearchResult[] {
+    const match = MessageRepository.toMatchQuery(query);
+    if (!match) return [];
+    
+    const { where, params } = this.buildSearchFilters(filters);
+    const rows = this.db.all<any>(
+      `SELECT m.*, u.handle as author_handle, mb.name as base_name,
+              snippet(messages_fts, -1, ?, ?, '...', 12) as snippet,
+              bm25(messages_fts, 10.0, 1.0) as rank
+       FROM messages_fts
+       JOIN messages m ON m.number = messages_fts.rowid
+       JOIN message_bases mb ON m.base_id = mb.id
+       LEFT JOIN users u ON m.user_id = u.id
+       WHERE messages_fts MATCH ? AND m.is_deleted = 0 AND m.is_held = 0${where}
+       ORDER BY rank
+       LIMIT ? OFFSET ?`,
+      [highlight.start, highlight.end, match, ...params, limit, offset]
+    );
+    
+    return rows.map(row => ({
+      ...this.mapToMessage(row),
+      baseName: row.base_name,
+      snippet: row.snippet,
+      rank: row.rank
+    }));
+  }
+  
+  /**
+   * Count full-text search hits
+   */
+  countSearchResults(query: string, filters: MessageSearchFilters = {}): number {
+    const match = MessageRepository.toMatchQuery(query);
+    if (!match) return 0;
+    
+    const { where, params } = this.buildSearchFilters(filters);
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count
+       FROM messages_fts
+       JOIN messages m ON m.number = messages_fts.rowid
+       JOIN message_bases mb ON m.base_id = mb.id
+       LEFT JOIN users u ON m.user_id = u.id
+       WHERE messages_fts MATCH ? AND m.is_deleted = 0 AND m.is_held = 0${where}`,
+      [match, ...params]
+    );
+    
+    return result?.count || 0;
+  }
+  
+  /**
+   * Copy a message's current subject and body into its history
+   */
+  private saveRevision(messageId: string, action: MessageRevision['action'], changedBy: string): void {
+    this.db.run(
+      `INSERT INTO message_revisions (id, message_id, subject, body, action, changed_by, created_at)
+       SELECT ?, id, subject, body, ?, ?, ? FROM messages WHERE id = ?`,
+      [uuidv4(), action, changedBy, new Date().toISOString(), messageId]
+    );
+  }
+  
+  /**
+   * Turn user input into an FTS5 query: every word must match, quoted so
+   * FTS5 operators and punctuation are taken literally. A trailing * on a
+   * word keeps it as a prefix search.
+   */
+  private static toMatchQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .map(word => {
+        const prefix = word.endsWith('*');
+        const text = word.replace(/["*]/g, '');
+        return text ? `"${text}"${prefix ? '*' : ''}` : '';
+      })
+      .filter(Boolean)
+      .join(' ');
+  }
+  
+  /**
+   * SQL conditions for search filters
+   */
+  private buildSearchFilters(filters: MessageSearchFilters): { where: string; params: unknown[] } {
+    let where = '';
+    const params: unknown[] = [];
+    
+    if (filters.baseId) {
+      where += ' AND m.base_id = ?';
+      params.push(filters.baseId);
+    }
+    if (filters.authorHandle) {
+      where += ' AND u.handle = ?';
+      params.push(filters.authorHandle);
+    }
+    if (filters.since) {
+      where += ' AND m.created_at >= ?';
+      params.push(filters.since.toISOString());
+    }
+    if (filters.until) {
+      where += ' AND m.created_at <= ?';
+      params.push(filters.until.toISOString());
+    }
+    if (filters.maxAccessLevel !== undefined) {
+      where += ' AND mb.access_level_read <= ?';
+      params.push(filters.maxAccessLevel);
+    }
+    
+    return { where, params };
+  }
+  
   /**
    * Map database row to Message
    */
@@ -217,6 +599,7 @@ export class MessageRepository {
       editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
       isDeleted: row.is_deleted === 1,
       aiModerationFlag: row.ai_moderation_flag,
+      isHeld: row.is_held === 1,
       authorHandle: row.author_handle
     };
   }
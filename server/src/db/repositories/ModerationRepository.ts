@@ -0,0 +1,168 @@
+/**
+ * Moderation Repository
+ *
+ * Tracks posts held for review and what moderators decided about them.
+ * Whether a post is hidden lives on the message itself (is_held); this
+ * table records why it was held and how the hold was resolved.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+
+export type ModerationStatus = 'pending' | 'approved' | 'removed';
+
+export type ModerationSource = 'ai' | 'rules' | 'policy';
+
+export interface ModerationQueueEntry {
+  messageId: string;
+  category?: string;
+  reason: string;
+  source: ModerationSource;
+  status: ModerationStatus;
+  createdAt: Date;
+  reviewedBy?: string;
+  reviewedByHandle?: string;
+  reviewedAt?: Date;
+  reviewReason?: string;
+  // Joined fields
+  baseId: string;
+  baseName?: string;
+  subject: string;
+  body: string;
+  authorHandle?: string;
+  postedAt: Date;
+}
+
+export interface HoldData {
+  messageId: string;
+  category?: string;
+  reason: string;
+  source: ModerationSource;
+}
+
+export class ModerationRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Add a post to the queue. A post already waiting has its category and
+   * reason replaced, so a classifier can explain a hold made by policy;
+   * a post reviewed before and held again after an edit waits again.
+   */
+  addToQueue(data: HoldData): void {
+    this.db.run(
+      `INSERT INTO moderation_queue (message_id, category, reason, source, status, created_at)
+       VALUES (?, ?, ?, ?, 'pending', ?)
+       ON CONFLICT(message_id) DO UPDATE SET
+         category = excluded.category,
+         reason = excluded.reason,
+         source = excluded.source,
+         status = 'pending',
+         created_at = CASE WHEN moderation_queue.status = 'pending'
+           THEN moderation_queue.created_at ELSE excluded.created_at END,
+         reviewed_by = NULL,
+         reviewed_at = NULL,
+         review_reason = NULL`,
+      [data.messageId, data.category || null, data.reason, data.source, new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Take a waiting post off the queue, once the classifier has cleared it
+   */
+  removeFromQueue(messageId: string): void {
+    this.db.run(
+      `DELETE FROM moderation_queue WHERE message_id = ? AND status = 'pending'`,
+      [messageId]
+    );
+  }
+
+  /**
+   * Get the queue entry for a post
+   */
+  getEntry(messageId: string): ModerationQueueEntry | null {
+    const row = this.db.get<any>(
+      `${this.selectEntries()}
+       WHERE q.message_id = ?`,
+      [messageId]
+    );
+
+    return row ? this.mapToEntry(row) : null;
+  }
+
+  /**
+   * Get queue entries with a status; waiting posts oldest first,
+   * reviewed posts most recently reviewed first
+   */
+  getQueue(status: ModerationStatus = 'pending', limit: number = 50, offset: number = 0): ModerationQueueEntry[] {
+    const order = status === 'pending' ? 'q.created_at ASC' : 'q.reviewed_at DESC';
+    const rows = this.db.all<any>(
+      `${this.selectEntries()}
+       WHERE q.status = ?
+       ORDER BY ${order}
+       LIMIT ? OFFSET ?`,
+      [status, limit, offset]
+    );
+
+    return rows.map(row => this.mapToEntry(row));
+  }
+
+  /**
+   * Count queue entries with a status
+   */
+  countQueue(status: ModerationStatus = 'pending'): number {
+    const result = this.db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM moderation_queue WHERE status = ?`,
+      [status]
+    );
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Record a moderator's decision on a waiting post
+   */
+  resolve(messageId: string, status: Exclude<ModerationStatus, 'pending'>, reviewedBy: string, reason?: string): void {
+    this.db.run(
+      `UPDATE moderation_queue
+       SET status = ?, reviewed_by = ?, reviewed_at = ?, review_reason = ?
+       WHERE message_id = ? AND status = 'pending'`,
+      [status, reviewedBy, new Date().toISOString(), reason || null, messageId]
+    );
+  }
+
+  /**
+   * Queue entries joined with the post, its base and the people involved
+   */
+  private selectEntries(): string {
+    return `SELECT q.*, m.base_id, m.subject, m.body, m.created_at as posted_at,
+              mb.name as base_name, author.handle as author_handle, reviewer.handle as reviewed_by_handle
+       FROM moderation_queue q
+       JOIN messages m ON m.id = q.message_id
+       LEFT JOIN message_bases mb ON mb.id = m.base_id
+       LEFT JOIN users author ON author.id = m.user_id
+       LEFT JOIN users reviewer ON reviewer.id = q.reviewed_by`;
+  }
+
+  /**
+   * Map database row to ModerationQueueEntry
+   */
+  private mapToEntry(row: any): ModerationQueueEntry {
+    return {
+      messageId: row.message_id,
+      category: row.category ?? undefined,
+      reason: row.reason,
+      source: row.source,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedByHandle: row.reviewed_by_handle ?? undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewReason: row.review_reason ?? undefined,
+      baseId: row.base_id,
+      baseName: row.base_name ?? undefined,
+      subject: row.subject,
+      body: row.body,
+      authorHandle: row.author_handle ?? undefined,
+      postedAt: new Date(row.posted_at)
+    };
+  }
+}
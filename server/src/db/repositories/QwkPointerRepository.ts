@@ -0,0 +1,71 @@
+/**
+ * QWK Pointer Repository
+ *
+ * Tracks how far each user's offline mail packets have reached in each
+ * message base. A pointer is the number of the newest message the user's
+ * reader has confirmed receiving there; anything numbered higher goes in
+ * the next packet. Where the last packet reached is kept alongside it
+ * until the reader confirms that packet. Only the latest download is
+ * remembered: confirming always applies to it, whichever packet the
+ * reader actually has. Each packet repeats everything the one before it
+ * held, so this only skips what the user downloaded but never opened.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+
+export class QwkPointerRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Get the user's export positions, keyed by base ID
+   */
+  getPointers(userId: string): Map<string, number> {
+    const rows = this.db.all<{ base_id: string; last_number: number }>(
+      `SELECT base_id, last_number FROM qwk_pointers WHERE user_id = ?`,
+      [userId]
+    );
+
+    return new Map(rows.map(row => [row.base_id, row.last_number]));
+  }
+
+  /**
+   * Record where a packet just built reaches in each base, replacing
+   * what an earlier unconfirmed packet reached
+   */
+  setSentPointers(userId: string, pointers: Map<string, number>): void {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const [baseId, sentNumber] of pointers) {
+        this.db.run(
+          `INSERT INTO qwk_pointers (user_id, base_id, last_number, sent_number, updated_at)
+           VALUES (?, ?, 0, ?, ?)
+           ON CONFLICT(user_id, base_id) DO UPDATE SET
+             sent_number = excluded.sent_number,
+             updated_at = excluded.updated_at`,
+          [userId, baseId, sentNumber, now]
+        );
+      }
+    });
+  }
+
+  /**
+   * Move the user's export positions forward to where their latest packet
+   * reached, once their reader has confirmed receiving a packet
+   */
+  confirmSentPointers(userId: string): void {
+    this.db.run(
+      `UPDATE qwk_pointers
+       SET last_number = sent_number, sent_number = NULL, updated_at = ?
+       WHERE user_id = ? AND sent_number IS NOT NULL`,
+      [new Date().toISOString(), userId]
+    );
+  }
+
+  /**
+   * Forget the user's export positions so the next packet starts over
+   */
+  resetPointers(userId: string): void {
+    this.db.run(`DELETE FROM qwk_pointers WHERE user_id = ?`, [userId]);
+  }
+}
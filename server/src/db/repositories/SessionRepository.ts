@@ -0,0 +1,94 @@
+/**
+ * Session Repository
+ *
+ * Persists snapshots of authenticated sessions so callers can resume
+ * after a dropped connection or a server restart.
+ */
+
+import type { BBSDatabase } from '../Database.js';
+import type { Session } from '@baudagain/shared';
+
+/**
+ * The parts of a session that survive a reconnect. Node, terminal size and
+ * connection ID belong to the connection and are assigned afresh.
+ */
+export type SessionSnapshot = Omit<Session, 'connectionId' | 'node' | 'columns' | 'rows'>;
+
+export class SessionRepository {
+  constructor(private db: BBSDatabase) {}
+
+  /**
+   * Create or replace the snapshot for a session
+   */
+  saveSession(session: Session, tokenHash: string): void {
+    if (!session.userId) {
+      return;
+    }
+
+    const snapshot: SessionSnapshot = {
+      id: session.id,
+      userId: session.userId,
+      handle: session.handle,
+      terminalMode: session.terminalMode,
+      state: session.state,
+      currentMenu: session.currentMenu,
+      lastActivity: session.lastActivity,
+      data: session.data,
+    };
+
+    this.db.run(
+      `INSERT INTO sessions (id, token_hash, user_id, snapshot, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         token_hash = excluded.token_hash,
+         snapshot = excluded.snapshot,
+         updated_at = excluded.updated_at`,
+      [
+        session.id,
+        tokenHash,
+        session.userId,
+        JSON.stringify(snapshot),
+        session.lastActivity.toISOString()
+      ]
+    );
+  }
+
+  /**
+   * Get the session snapshot for a resume token hash
+   */
+  getSessionByTokenHash(tokenHash: string): SessionSnapshot | null {
+    const row = this.db.get<any>(
+      `SELECT snapshot FROM sessions WHERE token_hash = ?`,
+      [tokenHash]
+    );
+
+    if (!row) return null;
+
+    const snapshot = JSON.parse(row.snapshot);
+    return {
+      ...snapshot,
+      lastActivity: new Date(snapshot.lastActivity)
+    };
+  }
+
+  /**
+   * Delete a session snapshot
+   */
+  deleteSession(id: string): void {
+    this.db.run(
+      `DELETE FROM sessions WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Delete snapshots not updated since the cutoff
+   */
+  deleteSessionsBefore(cutoff: Date): number {
+    const result = this.db.run(
+      `DELETE FROM sessions WHERE updated_at < ?`,
+      [cutoff.toISOString()]
+    );
+    return result.changes;
+  }
+}
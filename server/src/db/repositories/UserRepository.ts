@@ -16,9 +16,10 @@ export class UserRepository {
       location?: string;
       bio?: string;
       accessLevel?: number;
+      id?: string; // A fixed ID, for accounts the BBS itself posts as
     }
   ): User {
-    const id = uuidv4();
+    const id = options?.id || uuidv4();
     const now = new Date().toISOString();
     const preferences: UserPreferences = {
       terminalType: 'ansi',
@@ -27,7 +27,10 @@ CREATE TABLE IF NOT EXISTS message_bases (
     access_level_write INTEGER DEFAULT 10,
     post_count INTEGER DEFAULT 0,
     last_post_at DATETIME,
-    sort_order INTEGER DEFAULT 0
+    sort_order INTEGER DEFAULT 0,
+    moderation_policy TEXT DEFAULT 'flagged',
+    echo_tag TEXT, -- FTN echomail area this base is linked to, if any
+    ai_sysop_replies INTEGER DEFAULT 0 -- whether the AI SysOp joins in here
 );
 
 -- Messages
@@ -42,6 +45,9 @@ CREATE TABLE IF NOT EXISTS messages (
     edited_at DATETIME,
     is_deleted INTEGER DEFAULT 0,
     ai_moderation_flag TEXT,
+    is_held INTEGER DEFAULT 0,
+    released_at DATETIME, -- when the post was first shown; NULL while a new post is held
+    number INTEGER UNIQUE, -- stable message number for offline readers, echomail and search
     FOREIGN KEY (base_id) REFERENCES message_bases(id),
     FOREIGN KEY (parent_id) REFERENCES messages(id),
     FOREIGN KEY (user_id) REFERENCES users(id)
@@ -49,6 +55,109 @@ CREATE TABLE IF NOT EXISTS messages (
 
 CREATE INDEX IF NOT EXISTS idx_messages_base ON messages(base_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_messages_user ON messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+-- Full-text search over message subjects and bodies. The index reads its
+-- text from messages; triggers keep it in step with inserts, edits and
+-- deletes. Soft-deleted messages stay indexed and are filtered at query time.
+-- Entries are keyed by message number.
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    subject,
+    body,
+    content='messages',
+    content_rowid='number'
+);
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts(rowid, subject, body) VALUES (new.number, new.subject, new.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, subject, body) VALUES ('delete', old.number, old.subject, old.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF subject, body ON messages BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, subject, body) VALUES ('delete', old.number, old.subject, old.body);
+    INSERT INTO messages_fts(rowid, subject, body) VALUES (new.number, new.subject, new.body);
+END;
+
+-- Prior versions of edited or deleted messages, for moderators
+CREATE TABLE IF NOT EXISTS message_revisions (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    action TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (message_id) REFERENCES messages(id),
+    FOREIGN KEY (changed_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions(message_id, created_at);
+
+-- Posts held for a moderator. Held messages stay hidden until approved.
+-- source is what held the post: 'ai', 'rules' or 'policy' (base requires approval).
+CREATE TABLE IF NOT EXISTS moderation_queue (
+    message_id TEXT PRIMARY KEY,
+    category TEXT,
+    reason TEXT NOT NULL,
+    source TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    reviewed_by TEXT,
+    reviewed_at DATETIME,
+    review_reason TEXT,
+    FOREIGN KEY (message_id) REFERENCES messages(id),
+    FOREIGN KEY (reviewed_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_queue_status ON moderation_queue(status, created_at);
+
+-- Per-user read position in each message base. Messages shown after
+-- last_read_at are unread for that user.
+CREATE TABLE IF NOT EXISTS message_lastread (
+    user_id TEXT NOT NULL,
+    base_id TEXT NOT NULL,
+    last_read_at DATETIME NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, base_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (base_id) REFERENCES message_bases(id) ON DELETE CASCADE
+);
+
+-- Per-user QWK export position in each message base, by message number;
+-- anything above last_number goes in the next packet.
+-- sent_number is where the last packet reached, until the reader confirms it.
+CREATE TABLE IF NOT EXISTS qwk_pointers (
+    user_id TEXT NOT NULL,
+    base_id TEXT NOT NULL,
+    last_number INTEGER NOT NULL,
+    sent_number INTEGER,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, base_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (base_id) REFERENCES message_bases(id) ON DELETE CASCADE
+);
+
+-- Echomail message IDs seen or sent, for dupe checks and reply threading
+CREATE TABLE IF NOT EXISTS ftn_msgids (
+    msgid TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK(direction IN ('in', 'out')),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ftn_msgids_message ON ftn_msgids(message_id);
+
+-- How far echomail export has reached in each linked base
+CREATE TABLE IF NOT EXISTS ftn_export_pointers (
+    base_id TEXT PRIMARY KEY,
+    last_number INTEGER NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (base_id) REFERENCES message_bases(id) ON DELETE CASCADE
+);
 
 -- Door game sessions
 CREATE TABLE IF NOT EXISTS door_sessions (
@@ -64,6 +173,38 @@ CREATE TABLE IF NOT EXISTS door_sessions (
 
 CREATE INDEX IF NOT EXISTS idx_door_sessions_user ON door_sessions(user_id, door_id);
 
+-- Private mail between users
+CREATE TABLE IF NOT EXISTS mail (
+    id TEXT PRIMARY KEY,
+    from_user_id TEXT NOT NULL,
+    to_user_id TEXT NOT NULL,
+    reply_to_id TEXT,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    read_at DATETIME,
+    deleted_by_sender INTEGER DEFAULT 0,
+    deleted_by_recipient INTEGER DEFAULT 0,
+    FOREIGN KEY (from_user_id) REFERENCES users(id),
+    FOREIGN KEY (to_user_id) REFERENCES users(id),
+    FOREIGN KEY (reply_to_id) REFERENCES mail(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mail_to ON mail(to_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mail_from ON mail(from_user_id, created_at DESC);
+
+-- Resumable caller sessions (snapshot of an authenticated session)
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    token_hash TEXT UNIQUE NOT NULL,
+    user_id TEXT NOT NULL,
+    snapshot TEXT NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_updated ON sessions(updated_at);
+
 -- Activity log
 CREATE TABLE IF NOT EXISTS activity_log (
     id TEXT PRIMARY KEY,
@@ -91,3 +232,17 @@ CREATE TABLE IF NOT EXISTS art_gallery (
 
 CREATE INDEX IF NOT EXISTS idx_art_gallery_user ON art_gallery(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_art_gallery_created ON art_gallery(created_at DESC);
+
+-- Tokens used by each AI call, for usage charts and daily budgets
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feature TEXT NOT NULL,
+    user_id TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id, created_at);
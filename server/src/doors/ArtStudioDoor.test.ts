@@ -179,6 +179,41 @@ describe('ArtStudioDoor', () => {
       expect(output).toContain('ART STUDIO');
     });
 
+    it('should stream the sketch to the caller while generating', async () => {
+      const writes: string[] = [];
+      const stream = {
+        signal: new AbortController().signal,
+        charsPerSecond: 0,
+        write: async (text: string) => { writes.push(text); },
+      };
+      mockArtGenerator.generateFramedArt = vi.fn(async (options) => {
+        await options.onSketch?.('/\\_/\\\n');
+        return { content: 'cat', framedContent: 'cat' };
+      }) as any;
+
+      const output = await door.processInput('2', session, stream);
+
+      expect(writes[0]).toContain('GENERATING ART');
+      expect(writes).toContain('/\\_/\\\r\n');
+      expect(output).not.toContain('GENERATING ART');
+      expect(output).toContain('Art generated successfully');
+    });
+
+    it('should return to the menu when the caller cancels the sketch', async () => {
+      const controller = new AbortController();
+      const stream = { signal: controller.signal, charsPerSecond: 0, write: vi.fn() };
+      mockArtGenerator.generateFramedArt = vi.fn(async () => {
+        controller.abort();
+        throw new Error('Art generation was cancelled');
+      }) as any;
+
+      const output = await door.processInput('2', session, stream);
+
+      expect(output).toContain('Cancelled');
+      expect(output).not.toContain('Failed to generate art');
+      expect(session.data.door?.gameState.mode).toBe('menu');
+    });
+
     it('should enforce rate limiting', async () => {
       // Exhaust rate limit (5 per minute)
       for (let i = 0; i < 5; i++) {
@@ -6,13 +6,15 @@
  */
 
 import type { Door } from './Door.js';
-import { TERMINAL_WIDTH } from '@baudagain/shared';
 import type { Session } from '@baudagain/shared';
 import type { ANSIArtGenerator, ArtStyle, ColorTheme } from '../services/ANSIArtGenerator.js';
 import { RateLimiter } from '../utils/RateLimiter.js';
 import { sanitizeInput } from '../utils/ValidationUtils.js';
-import { ANSIRenderingService, RENDER_CONTEXTS } from '../ansi/ANSIRenderingService.js';
+import { ANSIRenderingService } from '../ansi/ANSIRenderingService.js';
+import { getTerminalWidth, getRenderContext } from '../utils/TerminalSize.js';
 import type { FrameLine } from '../ansi/ANSIFrameBuilder.js';
+import { typeOut, type OutputStream } from '../core/OutputStream.js';
+import { AIProviderError } from '../ai/AIProvider.js';
 
 interface ArtStudioState {
   currentArt?: {
@@ -66,7 +68,7 @@ export class ArtStudioDoor implements Door {
   /**
    * Process user input
    */
-  async processInput(input: string, session: Session): Promise<string> {
+  async processInput(input: string, session: Session, output?: OutputStream): Promise<string> {
     const sanitizedInput = sanitizeInput(input);
     
     if (!sanitizedInput) {
@@ -88,9 +90,9 @@ export class ArtStudioDoor implements Door {
       case 'style':
         return this.handleStyleInput(sanitizedInput, session, state);
       case 'theme':
-        return this.handleThemeInput(sanitizedInput, session, state);
+        return this.handleThemeInput(sanitizedInput, session, state, output);
       case 'preview':
-        return this.handlePreviewInput(sanitizedInput, session, state);
+        return this.handlePreviewInput(sanitizedInput, session, state, output);
       case 'save_title':
         return this.handleSaveTitleInput(sanitizedInput, session, state);
       default:
@@ -118,7 +120,7 @@ export class ArtStudioDoor implements Door {
         state.currentArt = undefined;
         state.pendingDescription = undefined;
         state.pendingStyle = undefined;
-        return this.promptForDescription();
+        return this.promptForDescription(session);
         
       case '2':
       case 'V':
@@ -129,7 +131,7 @@ export class ArtStudioDoor implements Door {
                  this.showMainMenu(session);
         }
         state.mode = 'preview';
-        return this.showArtPreview(state.currentArt);
+        return this.showArtPreview(state.currentArt, session);
         
       case '3':
       case 'H':
@@ -159,18 +161,18 @@ export class ArtStudioDoor implements Door {
     // Validate description length
     if (input.length < 3) {
       return '\r\n\x1b[33mDescription too short. Please be more descriptive.\x1b[0m\r\n\r\n' +
-             this.promptForDescription();
+             this.promptForDescription(session);
     }
     
     if (input.length > 200) {
       return '\r\n\x1b[33mDescription too long (max 200 characters).\x1b[0m\r\n\r\n' +
-             this.promptForDescription();
+             this.promptForDescription(session);
     }
     
     // Store description and move to style selection
     state.pendingDescription = input;
     state.mode = 'style';
-    return this.promptForStyle();
+    return this.promptForStyle(session);
   }
   
   /**
@@ -205,13 +207,13 @@ export class ArtStudioDoor implements Door {
     
     if (!selectedStyle) {
       return '\r\n\x1b[33mInvalid style. Please select 1-5.\x1b[0m\r\n\r\n' +
-             this.promptForStyle();
+             this.promptForStyle(session);
     }
     
     // Store style and move to theme selection
     state.pendingStyle = selectedStyle;
     state.mode = 'theme';
-    return this.promptForTheme();
+    return this.promptForTheme(session);
   }
   
   /**
@@ -220,7 +222,8 @@ export class ArtStudioDoor implements Door {
   private async handleThemeInput(
     input: string,
     session: Session,
-    state: ArtStudioState
+    state: ArtStudioState,
+    output?: OutputStream
   ): Promise<string> {
     if (input.toUpperCase() === 'CANCEL') {
       state.mode = 'menu';
@@ -241,7 +244,7 @@ export class ArtStudioDoor implements Door {
     
     if (!selectedTheme) {
       return '\r\n\x1b[33mInvalid theme. Please select 1-3.\x1b[0m\r\n\r\n' +
-             this.promptForTheme();
+             this.promptForTheme(session);
     }
     
     // Check rate limit
@@ -253,7 +256,7 @@ export class ArtStudioDoor implements Door {
     }
     
     // Generate the art!
-    return this.generateArt(session, state, selectedTheme);
+    return this.generateArt(session, state, selectedTheme, output);
   }
   
   /**
@@ -262,7 +265,8 @@ export class ArtStudioDoor implements Door {
   private async handlePreviewInput(
     input: string,
     session: Session,
-    state: ArtStudioState
+    state: ArtStudioState,
+    output?: OutputStream
   ): Promise<string> {
     const cmd = input.toUpperCase();
     
@@ -278,17 +282,17 @@ export class ArtStudioDoor implements Door {
         
         if (!this.artGalleryRepository) {
           return '\r\n\x1b[33m⚠️  Gallery not available.\x1b[0m\r\n\r\n' +
-                 this.showArtPreview(state.currentArt);
+                 this.showArtPreview(state.currentArt, session);
         }
         
         if (!session.userId) {
           return '\r\n\x1b[33m⚠️  You must be logged in to save art.\x1b[0m\r\n\r\n' +
-                 this.showArtPreview(state.currentArt);
+                 this.showArtPreview(state.currentArt, session);
         }
         
         // Prompt for title
         state.mode = 'save_title';
-        return this.promptForTitle(state.currentArt.description);
+        return this.promptForTitle(state.currentArt.description, session);
         
       case '2':
       case 'R':
@@ -303,13 +307,13 @@ export class ArtStudioDoor implements Door {
         if (session.userId && !this.rateLimiter.isAllowed(session.userId)) {
           const resetTime = this.rateLimiter.getResetTime(session.userId);
           return '\r\n\x1b[33m⚠️  Rate limit reached. Please wait ' + resetTime + ' seconds.\x1b[0m\r\n\r\n' +
-                 this.showArtPreview(state.currentArt);
+                 this.showArtPreview(state.currentArt, session);
         }
         
         // Regenerate
         state.pendingDescription = state.currentArt.description;
         state.pendingStyle = state.currentArt.style;
-        return this.generateArt(session, state, state.currentArt.colorTheme);
+        return this.generateArt(session, state, state.currentArt.colorTheme, output);
         
       case '3':
       case 'M':
@@ -320,7 +324,7 @@ export class ArtStudioDoor implements Door {
         
       default:
         return '\r\n\x1b[33mInvalid selection. Please try again.\x1b[0m\r\n\r\n' +
-               this.showArtPreview(state.currentArt!);
+               this.showArtPreview(state.currentArt!, session);
     }
   }
   
@@ -330,7 +334,8 @@ export class ArtStudioDoor implements Door {
   private async generateArt(
     session: Session,
     state: ArtStudioState,
-    theme: ColorTheme
+    theme: ColorTheme,
+    stream?: OutputStream
   ): Promise<string> {
     if (!this.artGenerator) {
       state.mode = 'menu';
@@ -361,8 +366,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       loadingContent,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -373,6 +378,13 @@ export class ArtStudioDoor implements Door {
     output += '\x1b[33m⏳ Please wait while the AI creates your masterpiece...\x1b[0m\r\n';
     output += '\r\n';
     
+    // Show the loading screen now and let the caller watch the sketch
+    // being drawn; a keypress cancels it
+    if (stream) {
+      await stream.write(output + '\x1b[90m');
+      output = '\x1b[0m\r\n\r\n';
+    }
+    
     try {
       // Generate the art
       const art = await this.artGenerator.generateFramedArt(
@@ -383,11 +395,16 @@ export class ArtStudioDoor implements Door {
           height: 15,
           colorTheme: theme,
           applyColors: true,
+          onSketch: stream
+            ? async (text) => { await typeOut(stream, text.replace(/\r?\n/g, '\r\n')); }
+            : undefined,
+          signal: stream?.signal,
+          userId: session.userId,
         },
         {
           title: '🎨 ' + state.pendingDescription.substring(0, 40) + (state.pendingDescription.length > 40 ? '...' : ''),
           attribution: session.handle || 'Anonymous',
-          frameWidth: TERMINAL_WIDTH,
+          frameWidth: getTerminalWidth(session),
           includeTimestamp: false,
         }
       );
@@ -420,12 +437,21 @@ export class ArtStudioDoor implements Door {
       // Show the art
       state.mode = 'preview';
       return output + '\x1b[32m✓ Art generated successfully!\x1b[0m\r\n\r\n' +
-             this.showArtPreview(state.currentArt);
+             this.showArtPreview(state.currentArt, session);
       
     } catch (error) {
+      state.mode = 'menu';
+      if (stream?.signal.aborted) {
+        return output + '\x1b[33mCancelled.\x1b[0m\r\n\r\n' + this.showMainMenu(session);
+      }
+      
+      if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+        return output + '\x1b[33m🎨 The spirits are tired of painting for today. Come back tomorrow!\x1b[0m\r\n\r\n' +
+               this.showMainMenu(session);
+      }
+      
       console.error('Error generating art:', error);
       
-      state.mode = 'menu';
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       
       return output + '\x1b[31m❌ Failed to generate art: ' + errorMsg + '\x1b[0m\r\n\r\n' +
@@ -456,8 +482,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false // Don't validate since we're within door handler which enforces width
     );
     
@@ -473,7 +499,7 @@ export class ArtStudioDoor implements Door {
   /**
    * Prompt for art description
    */
-  private promptForDescription(): string {
+  private promptForDescription(session: Session): string {
     const content: FrameLine[] = [
       { text: 'DESCRIBE YOUR ART', align: 'center' },
     ];
@@ -481,8 +507,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -501,7 +527,7 @@ export class ArtStudioDoor implements Door {
   /**
    * Prompt for art style
    */
-  private promptForStyle(): string {
+  private promptForStyle(session: Session): string {
     const content: FrameLine[] = [
       { text: 'SELECT ART STYLE', align: 'center' },
     ];
@@ -509,8 +535,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -528,7 +554,7 @@ export class ArtStudioDoor implements Door {
   /**
    * Prompt for color theme
    */
-  private promptForTheme(): string {
+  private promptForTheme(session: Session): string {
     const content: FrameLine[] = [
       { text: 'SELECT COLOR THEME', align: 'center' },
     ];
@@ -536,8 +562,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -560,18 +586,18 @@ export class ArtStudioDoor implements Door {
   ): Promise<string> {
     if (input.toUpperCase() === 'CANCEL') {
       state.mode = 'preview';
-      return '\r\n\x1b[33mSave cancelled.\x1b[0m\r\n\r\n' + this.showArtPreview(state.currentArt!);
+      return '\r\n\x1b[33mSave cancelled.\x1b[0m\r\n\r\n' + this.showArtPreview(state.currentArt!, session);
     }
     
     // Validate title
     if (input.length < 1) {
       return '\r\n\x1b[33mTitle cannot be empty.\x1b[0m\r\n\r\n' +
-             this.promptForTitle(state.currentArt!.description);
+             this.promptForTitle(state.currentArt!.description, session);
     }
     
     if (input.length > 100) {
       return '\r\n\x1b[33mTitle too long (max 100 characters).\x1b[0m\r\n\r\n' +
-             this.promptForTitle(state.currentArt!.description);
+             this.promptForTitle(state.currentArt!.description, session);
     }
     
     // Save to gallery
@@ -591,20 +617,20 @@ export class ArtStudioDoor implements Door {
       state.mode = 'preview';
       return '\r\n\x1b[32m✓ Art saved to gallery!\x1b[0m\r\n' +
              '\x1b[90mVisit the Art Gallery from the main menu to view it.\x1b[0m\r\n\r\n' +
-             this.showArtPreview(state.currentArt);
+             this.showArtPreview(state.currentArt, session);
       
     } catch (error) {
       console.error('Error saving art:', error);
       state.mode = 'preview';
       return '\r\n\x1b[31m❌ Failed to save art.\x1b[0m\r\n\r\n' +
-             this.showArtPreview(state.currentArt!);
+             this.showArtPreview(state.currentArt!, session);
     }
   }
   
   /**
    * Prompt for art title
    */
-  private promptForTitle(defaultTitle: string): string {
+  private promptForTitle(defaultTitle: string, session: Session): string {
     const content: FrameLine[] = [
       { text: 'SAVE TO GALLERY', align: 'center' },
     ];
@@ -612,8 +638,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -629,7 +655,7 @@ export class ArtStudioDoor implements Door {
   /**
    * Show art preview
    */
-  private showArtPreview(art: { description: string; style: ArtStyle; colorTheme: ColorTheme; framedContent: string }): string {
+  private showArtPreview(art: { description: string; style: ArtStyle; colorTheme: ColorTheme; framedContent: string }, session: Session): string {
     const content: FrameLine[] = [
       { text: '\x1b[36m1.\x1b[0m Save to Gallery' },
       { text: '\x1b[36m2.\x1b[0m Regenerate (create a new version)' },
@@ -643,8 +669,8 @@ export class ArtStudioDoor implements Door {
     output += '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\nSelect an option: ';
@@ -677,8 +703,8 @@ export class ArtStudioDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\nPress ENTER to return to menu: ';
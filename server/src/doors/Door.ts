@@ -6,6 +6,7 @@
  */
 
 import type { Session } from '@baudagain/shared';
+import type { OutputStream } from '../core/OutputStream.js';
 
 export interface Door {
   /**
@@ -38,9 +39,11 @@ export interface Door {
    * 
    * @param input - The user's input
    * @param session - The user's session
-   * @returns The response output to display
+   * @param output - Sends output before processing finishes, e.g. an AI
+   *                 reply typed out as it is generated
+   * @returns The response output to display, after anything streamed
    */
-  processInput(input: string, session: Session): Promise<string>;
+  processInput(input: string, session: Session, output?: OutputStream): Promise<string>;
   
   /**
    * Exit the door game
@@ -50,4 +53,12 @@ export interface Door {
    * @returns The exit message to display
    */
   exit(session: Session): Promise<string>;
+  
+  /**
+   * Erase anything the door remembers about a user between visits.
+   * Only doors that keep such memory implement this.
+   * 
+   * @param userId - The user to forget
+   */
+  forget?(userId: string): void;
 }
@@ -0,0 +1,206 @@
+/**
+ * Oracle Door Tests
+ *
+ * Tests for the Oracle's memory of callers across visits: recalling
+ * earlier answers, summarising long histories and forgetting on request
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OracleDoor } from './OracleDoor.js';
+import { BBSDatabase } from '../db/Database.js';
+import { DoorSessionRepository } from '../db/repositories/DoorSessionRepository.js';
+import type { Session } from '@baudagain/shared';
+import { SessionState } from '@baudagain/shared';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('OracleDoor', () => {
+  let db: BBSDatabase;
+  let repository: DoorSessionRepository;
+  let mockAIService: any;
+  let door: OracleDoor;
+
+  const visit = async () => {
+    const session: Session = {
+      id: 'test-session',
+      connectionId: 'test-conn',
+      userId: 'user-a',
+      handle: 'Alice',
+      state: SessionState.IN_DOOR,
+      currentMenu: '',
+      lastActivity: new Date(),
+      data: { door: { doorId: 'oracle', gameState: {}, history: [] } },
+    };
+    const output = await door.enter(session);
+    return { session, output };
+  };
+
+  // A few seconds pass between questions, keeping within the rate limit
+  const ask = (question: string, session: Session) => {
+    vi.setSystemTime(Date.now() + 7000);
+    return door.processInput(question, session);
+  };
+
+  const memory = () => repository.getActiveDoorSession('user-a', 'oracle:memory');
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new DoorSessionRepository(db);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+
+    mockAIService = {
+      generateCompletion: vi.fn().mockResolvedValue('🔮 The stars favour bold moves.'),
+    };
+    door = new OracleDoor(mockAIService, repository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should remember questions and answers across visits', async () => {
+    const first = await visit();
+    expect(first.output).not.toContain('The Oracle remembers you');
+    await ask('Will my BBS thrive?', first.session);
+
+    const second = await visit();
+    expect(second.output).toContain('The Oracle remembers you');
+    await ask('Should I buy a faster modem?', second.session);
+
+    const prompt = mockAIService.generateCompletion.mock.calls[1][0];
+    expect(prompt).toContain('You have met this seeker before');
+    expect(prompt).toContain('Will my BBS thrive?');
+    expect(JSON.parse(memory()!.history)).toHaveLength(2);
+  });
+
+  it('should answer "what did you tell me last time" from the previous visit', async () => {
+    const first = await visit();
+    await ask('Will my BBS thrive?', first.session);
+
+    vi.setSystemTime(Date.now() + 60000);
+    const second = await visit();
+    await ask('Should I buy a faster modem?', second.session);
+    mockAIService.generateCompletion.mockClear();
+
+    const answer = await ask('What did you tell me last time?', second.session);
+
+    expect(answer).toContain('Will my BBS thrive?');
+    expect(answer).not.toContain('faster modem');
+    expect(mockAIService.generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should admit when it has no memory of a caller', async () => {
+    const { session } = await visit();
+
+    const answer = await ask('Remind me what you said', session);
+
+    expect(answer).toContain('no memory of you');
+  });
+
+  it('should summarise older exchanges once the history grows long', async () => {
+    const { session } = await visit();
+    for (let i = 1; i <= 20; i++) {
+      await ask(`Question ${i}?`, session);
+    }
+
+    mockAIService.generateCompletion.mockResolvedValueOnce('🔮 Answer 21').mockResolvedValueOnce('The seeker keeps asking numbered questions.');
+    await ask('Question 21?', session);
+
+    const summaryPrompt = mockAIService.generateCompletion.mock.calls.at(-1)[0];
+    expect(summaryPrompt).toContain('Question 1?');
+    expect(summaryPrompt).toContain('Question 11?');
+    expect(summaryPrompt).not.toContain('Question 12?');
+
+    await vi.waitFor(() => expect(JSON.parse(memory()!.state).summary).toBe('The seeker keeps asking numbered questions.'));
+    const saved = memory()!;
+    expect(JSON.parse(saved.history).map((exchange: any) => exchange.question)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `Question ${i + 12}?`)
+    );
+  });
+
+  it('should drop the oldest exchanges when summarising fails', async () => {
+    const { session } = await visit();
+    for (let i = 1; i <= 20; i++) {
+      await ask(`Question ${i}?`, session);
+    }
+
+    mockAIService.generateCompletion.mockResolvedValueOnce('🔮 Answer 21').mockRejectedValueOnce(new Error('AI unavailable'));
+    await ask('Question 21?', session);
+
+    await vi.waitFor(() => expect(JSON.parse(memory()!.history)).toHaveLength(20));
+    const history = JSON.parse(memory()!.history);
+    expect(history[0].question).toBe('Question 2?');
+  });
+
+  it('should answer without waiting for the summary, keeping questions asked meanwhile', async () => {
+    const { session } = await visit();
+    for (let i = 1; i <= 20; i++) {
+      await ask(`Question ${i}?`, session);
+    }
+
+    let finishSummary!: (summary: string) => void;
+    mockAIService.generateCompletion
+      .mockResolvedValueOnce('🔮 Answer 21')
+      .mockReturnValueOnce(new Promise(resolve => { finishSummary = resolve; }));
+
+    expect(await ask('Question 21?', session)).toContain('Answer 21');
+    await ask('Question 22?', session);
+    finishSummary('The seeker keeps asking numbered questions.');
+
+    await vi.waitFor(() => expect(JSON.parse(memory()!.state).summary).toBe('The seeker keeps asking numbered questions.'));
+    expect(JSON.parse(memory()!.history).map((exchange: any) => exchange.question)).toEqual(
+      Array.from({ length: 11 }, (_, i) => `Question ${i + 12}?`)
+    );
+  });
+
+  it('should treat only questions about earlier answers as recall', async () => {
+    const { session } = await visit();
+
+    await ask('Remind me to back up my BBS', session);
+
+    expect(mockAIService.generateCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still show the vision when it cannot be remembered', async () => {
+    const { session } = await visit();
+    vi.spyOn(repository, 'createDoorSession').mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    const answer = await ask('Will my BBS thrive?', session);
+
+    expect(answer).toContain('The stars favour bold moves.');
+    expect(answer).not.toContain('restless');
+  });
+
+  it('should not remember failed visions', async () => {
+    const { session } = await visit();
+    mockAIService.generateCompletion.mockRejectedValue(new Error('timeout'));
+
+    await ask('Will my BBS thrive?', session);
+
+    expect(memory()).toBeNull();
+  });
+
+  it('should forget a user', async () => {
+    const { session } = await visit();
+    await ask('Will my BBS thrive?', session);
+
+    door.forget('user-a');
+
+    expect(memory()).toBeNull();
+    const again = await visit();
+    expect(again.output).not.toContain('The Oracle remembers you');
+  });
+});
@@ -3,16 +3,55 @@
  * 
  * An AI-powered mystical fortune teller that responds to user questions
  * with cryptic, mystical wisdom.
+ * 
+ * The Oracle remembers each caller's questions and its answers across
+ * visits. Memory is kept in its own door session, apart from the one used
+ * to resume a visit, and older exchanges are folded into a short summary
+ * so the prompt stays small however often a caller returns. Summaries are
+ * written in the background so the caller never waits on them.
  */
 
 import type { Door } from './Door.js';
-import { TERMINAL_WIDTH } from '@baudagain/shared';
 import type { Session } from '@baudagain/shared';
 import type { AIService } from '../ai/AIService.js';
+import type { DoorSessionRepository } from '../db/repositories/DoorSessionRepository.js';
+import { AIProviderError } from '../ai/AIProvider.js';
 import { RateLimiter } from '../utils/RateLimiter.js';
 import { sanitizeInput } from '../utils/ValidationUtils.js';
-import { ANSIRenderingService, RENDER_CONTEXTS } from '../ansi/ANSIRenderingService.js';
+import { ANSIRenderingService } from '../ansi/ANSIRenderingService.js';
+import { getTerminalWidth, getRenderContext } from '../utils/TerminalSize.js';
 import type { FrameLine } from '../ansi/ANSIFrameBuilder.js';
+import { typeOut, type OutputStream } from '../core/OutputStream.js';
+
+const MAX_RESPONSE_LENGTH = 150;
+
+// Door session that holds what the Oracle remembers of each caller
+const MEMORY_DOOR_ID = 'oracle:memory';
+
+// Once a caller has this many exchanges, the older ones are summarised...
+const MAX_REMEMBERED_EXCHANGES = 20;
+
+// ...keeping this many word for word
+const KEPT_EXCHANGES = 10;
+
+// Exchanges quoted in the prompt
+const PROMPT_EXCHANGES = 5;
+
+const MAX_SUMMARY_LENGTH = 500;
+
+// Questions about earlier visits, answered from memory
+const RECALL_QUESTION = /\b(last time|what did you (tell|say to|show) me|what did i ask|remind me what you (said|told me))\b/i;
+
+interface OracleExchange {
+  question: string;
+  response: string;
+  timestamp: string;
+}
+
+interface OracleMemory {
+  summary?: string;
+  exchanges: OracleExchange[];
+}
 
 export class OracleDoor implements Door {
   id = 'oracle';
@@ -20,8 +59,13 @@ export class OracleDoor implements Door {
   description = 'Seek wisdom from the mystical Oracle';
   private rateLimiter: RateLimiter;
   private renderingService: ANSIRenderingService;
+  // Users whose memory is being summarised
+  private summarising = new Set<string>();
   
-  constructor(private aiService?: AIService) {
+  constructor(
+    private aiService?: AIService,
+    private doorSessionRepository?: DoorSessionRepository
+  ) {
     // 10 requests per minute per user
     this.rateLimiter = new RateLimiter(10, 60000);
     this.renderingService = new ANSIRenderingService();
@@ -33,6 +77,12 @@ export class OracleDoor implements Door {
   async enter(session: Session): Promise<string> {
     // Check if this is a resumed session
     const isResuming = session.data.door?.history && session.data.door.history.length > 0;
+    const isKnown = this.hasMemory(session.userId);
+    
+    // Recall only looks at exchanges from before this visit
+    if (session.data.door) {
+      session.data.door.gameState = { ...session.data.door.gameState, visitStartedAt: new Date().toISOString() };
+    }
     
     const content: FrameLine[] = [
       { text: '🔮 THE ORACLE 🔮', align: 'center' },
@@ -44,6 +94,11 @@ export class OracleDoor implements Door {
         { text: 'You return to the dimly lit chamber...' },
         { text: 'The Oracle remembers you.' }
       );
+    } else if (isKnown) {
+      content.push(
+        { text: 'You enter the dimly lit chamber once more.' },
+        { text: 'The Oracle remembers you.' }
+      );
     } else {
       content.push(
         { text: 'You enter a dimly lit chamber. Incense fills the' },
@@ -59,8 +114,8 @@ export class OracleDoor implements Door {
     let output = '\r\n';
     output += this.renderingService.renderFrame(
       content,
-      { width: TERMINAL_WIDTH, style: 'double' },
-      RENDER_CONTEXTS.TERMINAL_80,
+      { width: getTerminalWidth(session), style: 'double' },
+      getRenderContext(session),
       false
     );
     output += '\r\n';
@@ -84,7 +139,7 @@ export class OracleDoor implements Door {
   /**
    * Process user input
    */
-  async processInput(input: string, session: Session): Promise<string> {
+  async processInput(input: string, session: Session, output?: OutputStream): Promise<string> {
     // Sanitize and trim input
     const sanitizedInput = sanitizeInput(input);
     
@@ -101,6 +156,13 @@ export class OracleDoor implements Door {
              'Enter your question (or type \x1b[33mQ\x1b[0m to leave): ';
     }
     
+    // Questions about earlier visits are answered from memory
+    if (session.userId && RECALL_QUESTION.test(sanitizedInput)) {
+      return '\r\n' +
+             `\x1b[35m${this.recall(session)}\x1b[0m\r\n\r\n` +
+             'Enter your question (or type \x1b[33mQ\x1b[0m to leave): ';
+    }
+    
     // Generate Oracle response
     let response: string;
     
@@ -114,24 +176,39 @@ export class OracleDoor implements Door {
         
         // Generate mystical response
         const prompt = `You are a mystical oracle, a fortune teller with ancient wisdom. 
-A seeker asks: "${sanitizedInput}"
+${this.describeMemory(session.userId)}A seeker asks: "${sanitizedInput}"
 
 Respond in a cryptic, mystical tone. Use mystical symbols (🔮, ✨, 🌙, ⭐) and be dramatic.
 Keep your response under 150 characters. Be mysterious and profound.`;
         
-        response = await this.aiService.generateCompletion(prompt, {
+        const options = {
           maxTokens: 150,
-          temperature: 0.9  // Higher temperature for more creative/mystical responses
-        });
-        
-        // Ensure response starts with a mystical symbol if it doesn't have one
-        if (!response.match(/^[🔮✨🌙⭐]/)) {
-          response = '🔮 ' + response;
-        }
+          temperature: 0.9,  // Higher temperature for more creative/mystical responses
+          feature: 'oracle' as const,
+          userId: session.userId
+        };
         
-        // Enforce 150 character limit
-        if (response.length > 150) {
-          response = response.substring(0, 147) + '...';
+        // Type the vision out as the spirits reveal it
+        let interrupted = false;
+        if (output) {
+          await output.write(thinking + '\r\n\x1b[35m');
+          response = await typeOut(
+            output,
+            this.shapeResponse(this.aiService.streamCompletion(prompt, options, output.signal))
+          );
+          interrupted = output.signal.aborted;
+        } else {
+          response = await this.aiService.generateCompletion(prompt, options);
+          
+          // Ensure response starts with a mystical symbol if it doesn't have one
+          if (!response.match(/^[🔮✨🌙⭐]/)) {
+            response = '🔮 ' + response;
+          }
+          
+          // Enforce 150 character limit
+          if (response.length > MAX_RESPONSE_LENGTH) {
+            response = response.substring(0, MAX_RESPONSE_LENGTH - 3) + '...';
+          }
         }
         
         // Store in history
@@ -153,6 +230,24 @@ Keep your response under 150 characters. Be mysterious and profound.`;
           session.data.door.history = session.data.door.history.slice(-10);
         }
         
+        if (session.userId) {
+          // The vision has already been seen; failing to save it shouldn't undo that
+          try {
+            this.remember(session.userId, {
+              question: sanitizedInput,
+              response: response,
+              timestamp: new Date().toISOString()
+            });
+          } catch (error) {
+            console.error('Error saving Oracle memory:', error);
+          }
+        }
+        
+        if (output) {
+          return '\x1b[0m' + (interrupted ? ' \x1b[2m[interrupted]\x1b[0m' : '') + '\r\n\r\n' +
+                 'Enter your question (or type \x1b[33mQ\x1b[0m to leave): ';
+        }
+        
         return thinking + 
                `\r\n\x1b[35m${response}\x1b[0m\r\n\r\n` +
                'Enter your question (or type \x1b[33mQ\x1b[0m to leave): ';
@@ -162,7 +257,9 @@ Keep your response under 150 characters. Be mysterious and profound.`;
         
         // Provide more helpful error message
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        if (errorMsg.includes('timeout') || errorMsg.includes('ECONNREFUSED')) {
+        if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+          response = '🔮 The spirits are tired... Return tomorrow, seeker.';
+        } else if (errorMsg.includes('timeout') || errorMsg.includes('ECONNREFUSED')) {
           response = '🔮 The spirits are silent... The connection to the ethereal realm is weak.';
         } else if (errorMsg.includes('rate limit')) {
           response = '🔮 The spirits grow weary... Return in a moment, seeker.';
@@ -181,6 +278,223 @@ Keep your response under 150 characters. Be mysterious and profound.`;
            'Enter your question (or type \x1b[33mQ\x1b[0m to leave): ';
   }
   
+  /**
+   * Forget everything the Oracle remembers about a user
+   */
+  forget(userId: string): void {
+    if (!this.doorSessionRepository) {
+      return;
+    }
+    
+    this.doorSessionRepository.deleteUserDoorSessionsForDoor(userId, MEMORY_DOOR_ID);
+    this.doorSessionRepository.deleteUserDoorSessionsForDoor(userId, this.id);
+  }
+  
+  /**
+   * Whether the Oracle has met this user before
+   */
+  private hasMemory(userId?: string): boolean {
+    const memory = this.loadMemory(userId);
+    return !!memory && (memory.exchanges.length > 0 || !!memory.summary);
+  }
+  
+  /**
+   * Load what the Oracle remembers of a user
+   */
+  private loadMemory(userId?: string): OracleMemory | null {
+    if (!userId || !this.doorSessionRepository) {
+      return null;
+    }
+    
+    const saved = this.doorSessionRepository.getActiveDoorSession(userId, MEMORY_DOOR_ID);
+    if (!saved) {
+      return null;
+    }
+    
+    try {
+      const state = JSON.parse(saved.state) as { summary?: string };
+      return { summary: state.summary, exchanges: JSON.parse(saved.history) as OracleExchange[] };
+    } catch {
+      return null;
+    }
+  }
+  
+  /**
+   * Add an exchange to a user's memory, and start summarising the oldest
+   * exchanges once there are too many to keep word for word
+   */
+  private remember(userId: string, exchange: OracleExchange): void {
+    if (!this.doorSessionRepository) {
+      return;
+    }
+    
+    const memory = this.loadMemory(userId) ?? { exchanges: [] };
+    memory.exchanges.push(exchange);
+    this.saveMemory(userId, memory);
+    
+    if (memory.exchanges.length > MAX_REMEMBERED_EXCHANGES && !this.summarising.has(userId)) {
+      this.summarising.add(userId);
+      this.summariseMemory(userId, memory)
+        .catch(error => console.error('Error saving Oracle memory summary:', error))
+        .finally(() => this.summarising.delete(userId));
+    }
+  }
+  
+  /**
+   * Fold all but the latest exchanges into the summary. Exchanges added
+   * while the summary is written are kept.
+   */
+  private async summariseMemory(userId: string, memory: OracleMemory): Promise<void> {
+    const older = memory.exchanges.slice(0, -KEPT_EXCHANGES);
+    let summary: string | undefined;
+    try {
+      summary = await this.summarise(userId, memory.summary, older);
+    } catch (error) {
+      // Without a summary, the oldest exchanges are simply forgotten
+      console.error('Error summarising Oracle memory:', error);
+    }
+    
+    // The user may have asked more meanwhile, or asked to be forgotten
+    const current = this.loadMemory(userId);
+    if (!current) {
+      return;
+    }
+    
+    if (summary !== undefined) {
+      current.summary = summary;
+      current.exchanges = current.exchanges.slice(older.length);
+    } else {
+      current.exchanges = current.exchanges.slice(-MAX_REMEMBERED_EXCHANGES);
+    }
+    this.saveMemory(userId, current);
+  }
+  
+  /**
+   * Save what the Oracle remembers of a user
+   */
+  private saveMemory(userId: string, memory: OracleMemory): void {
+    if (!this.doorSessionRepository) {
+      return;
+    }
+    
+    const saved = this.doorSessionRepository.getActiveDoorSession(userId, MEMORY_DOOR_ID);
+    if (saved) {
+      this.doorSessionRepository.updateDoorSession(saved.id, { summary: memory.summary }, memory.exchanges);
+    } else {
+      this.doorSessionRepository.createDoorSession({
+        userId,
+        doorId: MEMORY_DOOR_ID,
+        state: { summary: memory.summary },
+        history: memory.exchanges
+      });
+    }
+  }
+  
+  /**
+   * Fold older exchanges into the summary of a user's past visits
+   */
+  private async summarise(userId: string, summary: string | undefined, exchanges: OracleExchange[]): Promise<string> {
+    if (!this.aiService) {
+      throw new Error('AI service not available');
+    }
+    
+    const transcript = exchanges
+      .map(exchange => `Seeker: ${exchange.question}\nOracle: ${exchange.response}`)
+      .join('\n');
+    
+    const prompt = `Summarise what a seeker has asked an oracle over past visits and what the oracle foretold.
+${summary ? `Earlier summary: ${summary}\n` : ''}Exchanges:
+${transcript}
+
+Write plain text in the third person ("The seeker..."), under 300 characters. Keep the subjects they keep returning to.`;
+    
+    const result = await this.aiService.generateCompletion(prompt, {
+      maxTokens: 150,
+      temperature: 0.3,
+      feature: 'oracle',
+      userId
+    });
+    
+    return result.trim().substring(0, MAX_SUMMARY_LENGTH);
+  }
+  
+  /**
+   * Describe what the Oracle remembers of a user for its prompt
+   */
+  private describeMemory(userId?: string): string {
+    const memory = this.loadMemory(userId);
+    if (!memory || (!memory.summary && memory.exchanges.length === 0)) {
+      return '';
+    }
+    
+    let context = 'You have met this seeker before.\n';
+    if (memory.summary) {
+      context += `What you remember of their past visits: ${memory.summary}\n`;
+    }
+    if (memory.exchanges.length > 0) {
+      context += 'Their most recent questions and your answers:\n';
+      for (const exchange of memory.exchanges.slice(-PROMPT_EXCHANGES)) {
+        context += `- They asked "${exchange.question}"; you said "${exchange.response}"\n`;
+      }
+    }
+    
+    return context + 'Let your memory colour your answer where it fits.\n';
+  }
+  
+  /**
+   * Answer "what did you tell me last time" from memory
+   */
+  private recall(session: Session): string {
+    const memory = this.loadMemory(session.userId);
+    const visitStartedAt = session.data.door?.gameState?.visitStartedAt as string | undefined;
+    const earlier = memory?.exchanges.filter(exchange => !visitStartedAt || exchange.timestamp < visitStartedAt) ?? [];
+    const last = earlier[earlier.length - 1];
+    
+    if (last) {
+      return `🔮 When last we spoke, you asked: "${last.question}"\r\n` +
+             `   The spirits answered: ${last.response}`;
+    }
+    
+    if (memory?.summary) {
+      return `🔮 The mists of time blur the details... yet I recall this: ${memory.summary}`;
+    }
+    
+    return '🔮 The crystal ball shows no memory of you, seeker. Ours is a new acquaintance.';
+  }
+  
+  /**
+   * Give a streamed response the same shape as a complete one: a mystical
+   * symbol up front and no more than 150 characters
+   */
+  private async *shapeResponse(chunks: AsyncIterable<string>): AsyncIterable<string> {
+    let text = '';
+    let sent = 0;
+    
+    for await (const chunk of chunks) {
+      if (!text && !chunk.match(/^[🔮✨🌙⭐]/)) {
+        text = '🔮 ';
+      }
+      text += chunk;
+      
+      // Over the limit: cut it short and stop listening
+      if (text.length > MAX_RESPONSE_LENGTH) {
+        yield text.substring(sent, MAX_RESPONSE_LENGTH - 3) + '...';
+        return;
+      }
+      
+      // Hold back the last few characters until we know whether they fit
+      const ready = Math.min(text.length, MAX_RESPONSE_LENGTH - 3);
+      if (ready > sent) {
+        yield text.substring(sent, ready);
+        sent = ready;
+      }
+    }
+    
+    if (text.length > sent) {
+      yield text.substring(sent);
+    }
+  }
+  
   /**
    * Exit The Oracle's chamber
    */
@@ -8,9 +8,10 @@
 import type { CommandHandler } from '../core/CommandHandler.js';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import type { Session, MessageContent } from '@baudagain/shared';
-import { SessionState, ContentType, TERMINAL_WIDTH } from '@baudagain/shared';
+import { SessionState, ContentType } from '@baudagain/shared';
 import type { ArtGalleryRepository } from '../db/repositories/ArtGalleryRepository.js';
 import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+import { getTerminalWidth, getTerminalHeight } from '../utils/TerminalSize.js';
 
 export interface ArtGalleryHandlerDependencies extends HandlerDependencies {
   artGalleryRepository: ArtGalleryRepository;
@@ -23,12 +24,11 @@ interface ArtGalleryFlowState {
 }
 
 export class ArtGalleryHandler implements CommandHandler {
-  private readonly ITEMS_PER_PAGE = 10;
-  private readonly BOX_WIDTH: number;
+  // Rows used by the gallery frame, headers and prompt around the list
+  private readonly LIST_CHROME_ROWS = 14;
+  private readonly MIN_ITEMS_PER_PAGE = 5;
   
-  constructor(private deps: ArtGalleryHandlerDependencies) {
-    this.BOX_WIDTH = (TERMINAL_WIDTH || 80) - 2;
-  }
+  constructor(private deps: ArtGalleryHandlerDependencies) {}
   
   canHandle(command: string, session: Session): boolean {
     // Handle 'A' command from main menu or when in art gallery flow
@@ -66,11 +66,26 @@ export class ArtGalleryHandler implements CommandHandler {
     }
   }
   
+  /**
+   * Redraw the gallery page the caller was on
+   */
+  async redraw(session: Session): Promise<string> {
+    const galleryState = session.data.artGallery as ArtGalleryFlowState | undefined;
+    return this.displayArtGalleryList(session, galleryState?.currentPage ?? 0);
+  }
+  
+  /**
+   * Number of art pieces listed per page at the session's screen height
+   */
+  private getItemsPerPage(session: Session): number {
+    return Math.max(this.MIN_ITEMS_PER_PAGE, getTerminalHeight(session) - this.LIST_CHROME_ROWS);
+  }
+  
   /**
    * Helper to create borders
    */
-  private getBorders() {
-    const width = this.BOX_WIDTH;
+  private getBorders(session: Session) {
+    const width = getTerminalWidth(session) - 2;
     const cyan = '\x1b[36m';
     const reset = '\x1b[0m';
     
@@ -121,12 +136,13 @@ export class ArtGalleryHandler implements CommandHandler {
    * Display the art gallery list
    */
   private displayArtGalleryList(session: Session, page: number): string {
-    const offset = page * this.ITEMS_PER_PAGE;
-    const artPieces = this.deps.artGalleryRepository.getAllArtPieces(this.ITEMS_PER_PAGE, offset);
+    const itemsPerPage = this.getItemsPerPage(session);
+    const offset = page * itemsPerPage;
+    const artPieces = this.deps.artGalleryRepository.getAllArtPieces(itemsPerPage, offset);
     const totalCount = this.deps.artGalleryRepository.getArtPieceCount();
-    const totalPages = Math.ceil(totalCount / this.ITEMS_PER_PAGE);
+    const totalPages = Math.ceil(totalCount / itemsPerPage);
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     let output = '\r\n';
     output += b.top;
     output += b.center('\x1b[1;33mANSI ART GALLERY\x1b[0m');
@@ -186,6 +202,8 @@ export class ArtGalleryHandler implements CommandHandler {
         title: 'Main Menu',
         options: [
           { key: 'M', label: 'Message Bases', description: 'Read and post messages' },
+          { key: 'N', label: 'New Scan', description: 'Read new messages in all bases' },
+          { key: 'E', label: 'E-mail', description: 'Read and send private mail' },
           { key: 'D', label: 'Door Games', description: 'Play interactive games' },
           { key: 'A', label: 'Art Gallery', description: 'View AI-generated ANSI art' },
           { key: 'P', label: 'Page SysOp', description: 'Get help from the AI SysOp' },
@@ -195,13 +213,13 @@ export class ArtGalleryHandler implements CommandHandler {
       };
       
       return '\r\n\x1b[33mReturning to main menu...\x1b[0m\r\n\r\n' + 
-             this.deps.renderer.render(menuContent) + '\r\nCommand: ';
+             this.deps.renderer.render(menuContent, getTerminalWidth(session)) + '\r\nCommand: ';
     }
     
     // Next page
     if (upperInput === 'N') {
       const totalCount = this.deps.artGalleryRepository.getArtPieceCount();
-      const totalPages = Math.ceil(totalCount / this.ITEMS_PER_PAGE);
+      const totalPages = Math.ceil(totalCount / this.getItemsPerPage(session));
       const nextPage = galleryState.currentPage + 1;
       
       if (nextPage < totalPages) {
@@ -245,8 +263,9 @@ export class ArtGalleryHandler implements CommandHandler {
     // View art piece by number
     const num = parseInt(input);
     if (!isNaN(num) && num > 0) {
-      const offset = galleryState.currentPage * this.ITEMS_PER_PAGE;
-      const artPieces = this.deps.artGalleryRepository.getAllArtPieces(this.ITEMS_PER_PAGE, offset);
+      const itemsPerPage = this.getItemsPerPage(session);
+      const offset = galleryState.currentPage * itemsPerPage;
+      const artPieces = this.deps.artGalleryRepository.getAllArtPieces(itemsPerPage, offset);
       // Calculate index relative to current page list, not total offset
       // The list is numbered offset+1, offset+2, etc.
       // User enters (offset + i + 1)
@@ -289,7 +308,7 @@ export class ArtGalleryHandler implements CommandHandler {
              this.displayArtGalleryList(session, session.data.artGallery?.currentPage || 0);
     }
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     let output = '\r\n';
     output += b.top;
     
@@ -311,7 +330,7 @@ export class ArtGalleryHandler implements CommandHandler {
     
     // Calculate max width in the content to see if it needs truncation
     const lines = normalizedContent.split('\r\n');
-    const maxWidth = this.BOX_WIDTH;
+    const maxWidth = getTerminalWidth(session) - 2;
     
     // Process each line to ensure it doesn't break the terminal layout
     const processedLines = lines.map(line => {
@@ -1,10 +1,11 @@
 import type { CommandHandler } from '../core/CommandHandler.js';
-import type { Session, SessionState, AuthFlowState } from '@baudagain/shared';
+import type { Session, SessionState, AuthFlowState, User } from '@baudagain/shared';
 import type { TerminalRenderer, MessageContent, PromptContent, ErrorContent, MenuContent, EchoControlContent } from '@baudagain/shared';
 import { ContentType } from '@baudagain/shared';
 import type { UserService } from '../services/UserService.js';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import { AIResponseHelper } from '../utils/AIResponseHelper.js';
+import { getTerminalWidth } from '../utils/TerminalSize.js';
 
 const MAX_LOGIN_ATTEMPTS = 5;
 
@@ -250,6 +251,10 @@ export class AuthHandler implements CommandHandler {
         enabled: true,
       };
 
+      // Saved preference applies until the terminal reports its own size
+      const columns = session.columns ?? user.preferences?.screenWidth;
+      const rows = session.rows ?? user.preferences?.screenHeight;
+
       // Update session to authenticated state and set current menu to main
       this.deps.sessionManager.updateSession(session.id, {
         state: 'authenticated' as SessionState,
@@ -257,6 +262,9 @@ export class AuthHandler implements CommandHandler {
         handle: user.handle,
         currentMenu: 'main',
         data: {},
+        columns,
+        rows,
+        terminalMode: user.preferences?.terminalType,
       });
 
       // Generate AI welcome message using helper with loading indicator
@@ -275,6 +283,8 @@ export class AuthHandler implements CommandHandler {
         title: 'Main Menu',
         options: [
           { key: 'M', label: 'Message Bases', description: 'Read and post messages' },
+          { key: 'N', label: 'New Scan', description: 'Read new messages in all bases' },
+          { key: 'E', label: 'E-mail', description: 'Read and send private mail' },
           { key: 'D', label: 'Door Games', description: 'Play interactive games' },
           { key: 'A', label: 'Art Gallery', description: 'View AI-generated ANSI art' },
           { key: 'P', label: 'Page SysOp', description: 'Get help from the AI SysOp' },
@@ -283,7 +293,7 @@ export class AuthHandler implements CommandHandler {
         ],
       };
 
-      return this.deps.renderer.render(echoOn) + welcomeOutput + this.deps.renderer.render(menuContent) + '\r\nCommand: ';
+      return this.deps.renderer.render(echoOn) + welcomeOutput + this.deps.renderer.render(menuContent, getTerminalWidth({ columns })) + '\r\nCommand: ';
     }
 
     return 'Registration error.\r\n';
@@ -311,89 +321,119 @@ export class AuthHandler implements CommandHandler {
       }
 
       // Successful login (UserService already updated last login)
+      return this.completeLogin(user, session);
+    }
 
-      // Re-enable echo after password input
-      const echoOn: EchoControlContent = {
-        type: ContentType.ECHO_CONTROL,
-        enabled: true,
-      };
+    return 'Login error.\r\n';
+  }
 
-      // Update session to authenticated state and set current menu to main
-      this.deps.sessionManager.updateSession(session.id, {
-        state: 'authenticated' as SessionState,
-        userId: user.id,
-        handle: user.handle,
-        currentMenu: 'main',
-        data: {},
-      });
+  /**
+   * Complete a successful login: move the session to the authenticated
+   * state and render the greeting and main menu.
+   *
+   * Also used by transports that authenticate up front (SSH).
+   */
+  async completeLogin(user: User, session: Session): Promise<string> {
+    // Re-enable echo after password input
+    const echoOn: EchoControlContent = {
+      type: ContentType.ECHO_CONTROL,
+      enabled: true,
+    };
 
-      // Generate AI greeting using helper with loading indicator
-      let greetingText = `\r\nWelcome back, ${user.handle}!\r\n`;
-      if (user.lastLogin) {
-        greetingText += `Last login: ${user.lastLogin.toLocaleString()}\r\n\r\n`;
-      } else {
-        greetingText += `This is your first login!\r\n\r\n`;
-      }
+    // Saved preference applies until the terminal reports its own size
+    const columns = session.columns ?? user.preferences?.screenWidth;
+    const rows = session.rows ?? user.preferences?.screenHeight;
 
-      const greetingOutput = await AIResponseHelper.renderAIResponse(
-        this.deps.aiSysOp,
-        () => this.deps.aiSysOp!.generateGreeting(user.handle, user.lastLogin),
-        this.deps.renderer,
-        greetingText,
-        true,
-        'Generating personalized greeting...'
-      );
+    // Update session to authenticated state and set current menu to main
+    this.deps.sessionManager.updateSession(session.id, {
+      state: 'authenticated' as SessionState,
+      userId: user.id,
+      handle: user.handle,
+      currentMenu: 'main',
+      data: {},
+      columns,
+      rows,
+      terminalMode: user.preferences?.terminalType,
+    });
 
-      // Check if user should receive a daily digest
-      let digestAvailable = false;
-      if (
-        this.deps.dailyDigestService &&
-        this.deps.messageRepository &&
-        this.deps.messageBaseRepository &&
-        user.lastLogin
-      ) {
-        digestAvailable = this.deps.dailyDigestService.shouldGenerateDigest(user.lastLogin);
-      }
+    // Generate AI greeting using helper with loading indicator
+    let greetingText = `\r\nWelcome back, ${user.handle}!\r\n`;
+    if (user.lastLogin) {
+      greetingText += `Last login: ${user.lastLogin.toLocaleString()}\r\n\r\n`;
+    } else {
+      greetingText += `This is your first login!\r\n\r\n`;
+    }
 
-      // If digest is available, offer it to the user
-      let digestOutput = '';
-      if (digestAvailable) {
-        // Store digest state in session for later retrieval
-        this.deps.sessionManager.updateSession(session.id, {
-          data: {
-            ...session.data,
-            digestAvailable: true,
-          },
-        });
-
-        // Show notification about available digest
-        const message: MessageContent = {
-          type: ContentType.MESSAGE,
-          text: '\r\n📰 A daily digest is available with updates since your last visit.\r\n',
-          style: 'info',
-        };
-        digestOutput = this.deps.renderer.render(message);
-        digestOutput += 'Type "DIGEST" at any time to view it, or continue to the main menu.\r\n\r\n';
-      }
+    const greetingOutput = await AIResponseHelper.renderAIResponse(
+      this.deps.aiSysOp,
+      () => this.deps.aiSysOp!.generateGreeting(user.handle, user.lastLogin),
+      this.deps.renderer,
+      greetingText,
+      true,
+      'Generating personalized greeting...'
+    );
 
-      // Show main menu immediately after login (or after digest)
-      const menuContent: MenuContent = {
-        type: ContentType.MENU,
-        title: 'Main Menu',
-        options: [
-          { key: 'M', label: 'Message Bases', description: 'Read and post messages' },
-          { key: 'D', label: 'Door Games', description: 'Play interactive games' },
-          { key: 'A', label: 'Art Gallery', description: 'View AI-generated ANSI art' },
-          { key: 'P', label: 'Page SysOp', description: 'Get help from the AI SysOp' },
-          { key: 'U', label: 'User Profile', description: 'View and edit your profile' },
-          { key: 'G', label: 'Goodbye', description: 'Log off the BBS' },
-        ],
+    // Check if user should receive a daily digest
+    let digestAvailable = false;
+    if (
+      this.deps.dailyDigestService &&
+      this.deps.messageRepository &&
+      this.deps.messageBaseRepository &&
+      user.lastLogin
+    ) {
+      digestAvailable = this.deps.dailyDigestService.shouldGenerateDigest(user.lastLogin);
+    }
+
+    // If digest is available, offer it to the user
+    let digestOutput = '';
+    if (digestAvailable) {
+      // Store digest state in session for later retrieval
+      this.deps.sessionManager.updateSession(session.id, {
+        data: {
+          ...session.data,
+          digestAvailable: true,
+        },
+      });
+
+      // Show notification about available digest
+      const message: MessageContent = {
+        type: ContentType.MESSAGE,
+        text: '\r\n📰 A daily digest is available with updates since your last visit.\r\n',
+        style: 'info',
       };
+      digestOutput = this.deps.renderer.render(message);
+      digestOutput += 'Type "DIGEST" at any time to view it, or continue to the main menu.\r\n\r\n';
+    }
 
-      return this.deps.renderer.render(echoOn) + greetingOutput + digestOutput + this.deps.renderer.render(menuContent) + '\r\nCommand: ';
+    // Tell the caller about unread mail
+    let mailOutput = '';
+    const unreadMail = this.deps.mailService?.getUnreadCount(user.id) ?? 0;
+    if (unreadMail > 0) {
+      const message: MessageContent = {
+        type: ContentType.MESSAGE,
+        text: `\r\n📬 You have ${unreadMail} new mail message${unreadMail !== 1 ? 's' : ''}. Press E to read ${unreadMail !== 1 ? 'them' : 'it'}.\r\n`,
+        style: 'info',
+      };
+      mailOutput = this.deps.renderer.render(message);
     }
 
-    return 'Login error.\r\n';
+    // Show main menu immediately after login (or after digest)
+    const menuContent: MenuContent = {
+      type: ContentType.MENU,
+      title: 'Main Menu',
+      options: [
+        { key: 'M', label: 'Message Bases', description: 'Read and post messages' },
+        { key: 'N', label: 'New Scan', description: 'Read new messages in all bases' },
+        { key: 'E', label: 'E-mail', description: 'Read and send private mail' },
+        { key: 'D', label: 'Door Games', description: 'Play interactive games' },
+        { key: 'A', label: 'Art Gallery', description: 'View AI-generated ANSI art' },
+        { key: 'P', label: 'Page SysOp', description: 'Get help from the AI SysOp' },
+        { key: 'U', label: 'User Profile', description: 'View and edit your profile' },
+        { key: 'G', label: 'Goodbye', description: 'Log off the BBS' },
+      ],
+    };
+
+    return this.deps.renderer.render(echoOn) + greetingOutput + digestOutput + mailOutput + this.deps.renderer.render(menuContent, getTerminalWidth({ columns })) + '\r\nCommand: ';
   }
 
   /**
@@ -33,7 +33,7 @@ describe('Daily Digest Integration', () => {
     };
 
     mockMessageRepository = {
-      findByBaseIdSince: vi.fn(),
+      getUnreadMessages: vi.fn(),
     };
 
     mockMessageBaseRepository = {
@@ -163,7 +163,7 @@ describe('Daily Digest Integration', () => {
         { id: 'base1', name: 'General Discussion' },
       ]);
 
-      mockMessageRepository.findByBaseIdSince.mockReturnValue([
+      mockMessageRepository.getUnreadMessages.mockReturnValue([
         {
           id: 'msg1',
           subject: 'Test Message',
@@ -250,7 +250,7 @@ describe('Daily Digest Integration', () => {
         { id: 'base1', name: 'General Discussion' },
       ]);
 
-      mockMessageRepository.findByBaseIdSince.mockReturnValue([]);
+      mockMessageRepository.getUnreadMessages.mockReturnValue([]);
 
       const response = await menuHandler.handle('DIGEST', mockSession);
 
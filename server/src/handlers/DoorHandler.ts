@@ -6,13 +6,15 @@
  */
 
 import type { CommandHandler } from '../core/CommandHandler.js';
+import { limitWidth, type OutputStream } from '../core/OutputStream.js';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import type { Session } from '@baudagain/shared';
-import { SessionState, TERMINAL_WIDTH, ContentType } from '@baudagain/shared';
+import { SessionState, ContentType } from '@baudagain/shared';
 import type { Door } from '../doors/Door.js';
 import type { DoorSessionRepository } from '../db/repositories/DoorSessionRepository.js';
 import { NotificationEventType, createNotificationEvent, DoorEnteredPayload, DoorExitedPayload } from '../notifications/types.js';
 import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+import { getTerminalWidth } from '../utils/TerminalSize.js';
 
 export interface DoorHandlerDependencies extends HandlerDependencies {
   doorSessionRepository?: DoorSessionRepository;
@@ -22,8 +24,6 @@ export class DoorHandler implements CommandHandler {
   private doors: Map<string, Door> = new Map();
   private doorTimeoutMs: number = 30 * 60 * 1000; // 30 minutes default
   private timeoutCheckInterval: NodeJS.Timeout | null = null;
-  private readonly MAX_WIDTH = TERMINAL_WIDTH; // 80
-  private readonly BOX_WIDTH = TERMINAL_WIDTH - 2; // 78
   
   constructor(private deps: DoorHandlerDependencies) {
     // Start timeout checking
@@ -32,12 +32,15 @@ export class DoorHandler implements CommandHandler {
   
   /**
    * Enforce width limit on door output
-   * Intercepts door output and ensures all lines respect MAX_WIDTH
+   * Intercepts door output and ensures all lines fit the session's terminal
    * 
    * @param output - Raw output from door game
+   * @param session - Session whose terminal width applies
    * @returns Width-enforced output
    */
-  private enforceWidth(output: string): string {
+  private enforceWidth(output: string, session: Session): string {
+    const maxWidth = getTerminalWidth(session);
+    
     // Split into lines (handle both \r\n and \n)
     const lines = output.split(/\r?\n/);
     
@@ -46,8 +49,8 @@ export class DoorHandler implements CommandHandler {
       const width = ANSIWidthCalculator.calculate(line);
       
       // If line exceeds max width, truncate it
-      if (width > this.MAX_WIDTH) {
-        return ANSIWidthCalculator.truncate(line, this.MAX_WIDTH, '...');
+      if (width > maxWidth) {
+        return ANSIWidthCalculator.truncate(line, maxWidth, '...');
       }
       
       return line;
@@ -180,9 +183,11 @@ export class DoorHandler implements CommandHandler {
       return true;
     }
     
-    // Handle if user selects door games from menu (authenticated or in_menu state)
+    // Handle if user selects door games from menu (authenticated or in_menu
+    // state), unless the caller is in another area that shares the menu state
     if (command.toUpperCase() === 'D' && 
-        (session.state === SessionState.IN_MENU || session.state === SessionState.AUTHENTICATED)) {
+        (session.state === SessionState.IN_MENU || session.state === SessionState.AUTHENTICATED) &&
+        !session.data.mail && !session.data.artGallery?.viewing) {
       return true;
     }
     
@@ -197,14 +202,26 @@ export class DoorHandler implements CommandHandler {
   /**
    * Handle the command
    */
-  async handle(command: string, session: Session): Promise<string> {
+  async handle(command: string, session: Session, output?: OutputStream): Promise<string> {
     // If not in door, show door menu
     if (!session.data.door || !session.data.door.doorId) {
       return this.handleDoorSelection(command, session);
     }
     
     // If in door, process input
-    return this.handleDoorInput(command, session);
+    return this.handleDoorInput(command, session, output);
+  }
+  
+  /**
+   * Redraw the door menu, or re-enter the door the caller was playing
+   */
+  async redraw(session: Session): Promise<string> {
+    const door = session.data.door?.doorId ? this.doors.get(session.data.door.doorId) : undefined;
+    if (!door) {
+      return this.showDoorMenu(session);
+    }
+    
+    return this.enforceWidth(await door.enter(session), session);
   }
   
   /**
@@ -216,7 +233,7 @@ export class DoorHandler implements CommandHandler {
     // Show door menu if 'D' command
     if (cmd === 'D') {
       session.data.door = {};  // Initialize door state
-      return this.showDoorMenu();
+      return this.showDoorMenu(session);
     }
     
     // Handle 'Q' to return to main menu
@@ -229,6 +246,8 @@ export class DoorHandler implements CommandHandler {
         title: 'Main Menu',
         options: [
           { key: 'M', label: 'Message Bases', description: 'Read and post messages' },
+          { key: 'N', label: 'New Scan', description: 'Read new messages in all bases' },
+          { key: 'E', label: 'E-mail', description: 'Read and send private mail' },
           { key: 'D', label: 'Door Games', description: 'Play interactive games' },
           { key: 'A', label: 'Art Gallery', description: 'View AI-generated ANSI art' },
           { key: 'P', label: 'Page SysOp', description: 'Get help from the AI SysOp' },
@@ -237,19 +256,19 @@ export class DoorHandler implements CommandHandler {
         ],
       };
       return '\r\n\x1b[33mReturning to main menu...\x1b[0m\r\n\r\n' + 
-             this.deps.renderer.render(menuContent) + '\r\nCommand: ';
+             this.deps.renderer.render(menuContent, getTerminalWidth(session)) + '\r\nCommand: ';
     }
     
     // Try to parse door selection (1, 2, 3, etc.)
     const doorIndex = parseInt(cmd, 10);
     if (isNaN(doorIndex) || doorIndex < 1) {
-      return this.showDoorMenu('\r\nInvalid selection. Please try again.\r\n\r\n');
+      return this.showDoorMenu(session, '\r\nInvalid selection. Please try again.\r\n\r\n');
     }
     
     // Get door by index
     const doorsArray = Array.from(this.doors.values());
     if (doorIndex > doorsArray.length) {
-      return this.showDoorMenu('\r\nInvalid selection. Please try again.\r\n\r\n');
+      return this.showDoorMenu(session, '\r\nInvalid selection. Please try again.\r\n\r\n');
     }
     
     const door = doorsArray[doorIndex - 1];
@@ -315,7 +334,7 @@ export class DoorHandler implements CommandHandler {
       const output = await door.enter(session);
       
       // Apply width enforcement to door output
-      const enforcedOutput = this.enforceWidth(output);
+      const enforcedOutput = this.enforceWidth(output, session);
       
       // If resuming, add a message
       if (savedSession) {
@@ -334,7 +353,7 @@ export class DoorHandler implements CommandHandler {
   /**
    * Handle input while in a door
    */
-  private async handleDoorInput(command: string, session: Session): Promise<string> {
+  private async handleDoorInput(command: string, session: Session, output?: OutputStream): Promise<string> {
     const doorId = session.data.door?.doorId;
     if (!doorId) {
       return this.exitDoor(session);
@@ -353,10 +372,12 @@ export class DoorHandler implements CommandHandler {
     
     // Process input through the door
     try {
-      const output = await door.processInput(command, session);
+      // Streamed output is kept to the terminal's width as it is sent
+      const stream = output && limitWidth(output, getTerminalWidth(session));
+      const doorOutput = await door.processInput(command, session, stream);
       
       // Apply width enforcement to door output
-      const enforcedOutput = this.enforceWidth(output);
+      const enforcedOutput = this.enforceWidth(doorOutput, session);
       
       // Save door session state to database
       if (this.deps.doorSessionRepository && session.userId && session.data.door) {
@@ -391,7 +412,7 @@ export class DoorHandler implements CommandHandler {
       try {
         exitMessage = await door.exit(session);
         // Apply width enforcement to exit message
-        exitMessage = this.enforceWidth(exitMessage);
+        exitMessage = this.enforceWidth(exitMessage, session);
       } catch (error) {
         console.error(`Error exiting door ${door.id}:`, error);
         exitMessage = '\r\nExiting door game...\r\n\r\n';
@@ -442,8 +463,8 @@ export class DoorHandler implements CommandHandler {
   /**
    * Helper to create borders
    */
-  private getBorders() {
-    const width = this.BOX_WIDTH;
+  private getBorders(session: Session) {
+    const width = getTerminalWidth(session) - 2;
     return {
       top: '╔' + '═'.repeat(width) + '╗\r\n',
       mid: '╠' + '═'.repeat(width) + '╣\r\n',
@@ -470,9 +491,10 @@ export class DoorHandler implements CommandHandler {
   /**
    * Show the door games menu
    */
-  private showDoorMenu(message?: string): string {
+  private showDoorMenu(session: Session, message?: string): string {
     let output = message || '';
-    const b = this.getBorders();
+    const b = this.getBorders(session);
+    const descWidth = getTerminalWidth(session) - 8;
     
     output += '\r\n';
     output += b.top;
@@ -488,7 +510,7 @@ export class DoorHandler implements CommandHandler {
         const line = `${index}. ${name}`;
         output += b.line(line);
         
-        const desc = door.description.padEnd(this.BOX_WIDTH - 6).substring(0, this.BOX_WIDTH - 6);
+        const desc = door.description.padEnd(descWidth).substring(0, descWidth);
         const descLine = `   ${desc}`;
         output += b.line(descLine);
         index++;
@@ -501,6 +523,6 @@ export class DoorHandler implements CommandHandler {
     output += '\r\nSelect a door (or Q to quit): ';
     
     // Apply width enforcement to the menu (optional, but good for safety)
-    return this.enforceWidth(output);
+    return this.enforceWidth(output, session);
   }
 }
@@ -6,6 +6,8 @@ import type { DailyDigestService } from '../services/DailyDigestService.js';
 import type { MessageRepository } from '../db/repositories/MessageRepository.js';
 import type { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
 import type { UserService } from '../services/UserService.js';
+import type { MailService } from '../services/MailService.js';
+import type { ScreenService } from '../services/ScreenService.js';
 
 /**
  * Handler Dependencies Interface
@@ -22,4 +24,6 @@ export interface HandlerDependencies {
   messageRepository?: MessageRepository;
   messageBaseRepository?: MessageBaseRepository;
   userService?: UserService;
+  mailService?: MailService;
+  screenService?: ScreenService;
 }
@@ -0,0 +1,123 @@
+/**
+ * MailHandler Tests
+ *
+ * Tests for private mail on the terminal: entering from the menu, reading,
+ * sending, replying and deleting, and keeping the menu's other handlers
+ * out of the way while a mail is open
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MailHandler } from './MailHandler.js';
+import { DoorHandler } from './DoorHandler.js';
+import { MailService } from '../services/MailService.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MailRepository } from '../db/repositories/MailRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+import type { Session } from '@baudagain/shared';
+import { SessionState } from '@baudagain/shared';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('MailHandler', () => {
+  let db: BBSDatabase;
+  let mailService: MailService;
+  let handler: MailHandler;
+  let session: Session;
+
+  const input = (command: string) => handler.handle(command, session);
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+
+    mailService = new MailService(new MailRepository(db), new UserRepository(db));
+    handler = new MailHandler({ renderer: {} as any, sessionManager: {} as any, mailService });
+
+    session = {
+      id: 'session-a',
+      connectionId: 'conn-a',
+      userId: 'user-a',
+      handle: 'Alice',
+      state: SessionState.IN_MENU,
+      currentMenu: 'main',
+      lastActivity: new Date(),
+      data: {},
+    };
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should open the inbox from the menu', async () => {
+    mailService.sendMail({ fromUserId: 'user-b', toHandle: 'Alice', subject: 'Welcome aboard', body: 'Hi Alice' });
+
+    expect(handler.canHandle('E', session)).toBe(true);
+    const output = await input('E');
+
+    expect(output).toContain('E-MAIL - INBOX');
+    expect(output).toContain('Welcome aboard');
+    expect(output).toContain('1 unread');
+    expect(handler.canHandle('anything', session)).toBe(true);
+  });
+
+  it('should send mail through the compose steps', async () => {
+    await input('E');
+    await input('S');
+    expect(await input('Nobody')).toContain('No user named "Nobody"');
+    await input('Bob');
+    await input('Meetup');
+    const output = await input('Saturday at noon?');
+
+    expect(output).toContain('Mail sent!');
+    expect(mailService.getInbox('user-b')).toMatchObject([{ subject: 'Meetup', body: 'Saturday at noon?' }]);
+  });
+
+  it('should read a mail and reply to it', async () => {
+    mailService.sendMail({ fromUserId: 'user-b', toHandle: 'Alice', subject: 'Question', body: 'Got a minute?' });
+    await input('E');
+
+    const read = await input('1');
+    expect(read).toContain('Got a minute?');
+    expect(mailService.getUnreadCount('user-a')).toBe(0);
+
+    await input('R');
+    expect(await input('Sure')).toContain('Mail sent!');
+    expect(mailService.getInbox('user-b')).toMatchObject([{ subject: 'Re: Question', body: 'Sure' }]);
+  });
+
+  it('should delete the open mail on D rather than opening door games', async () => {
+    const doorHandler = new DoorHandler({ sessionManager: {} as any } as any);
+    mailService.sendMail({ fromUserId: 'user-b', toHandle: 'Alice', subject: 'Old news', body: 'Delete me' });
+    await input('E');
+    await input('1');
+
+    try {
+      expect(doorHandler.canHandle('D', session)).toBe(false);
+    } finally {
+      doorHandler.stopTimeoutChecking();
+    }
+
+    expect(await input('D')).toContain('Mail deleted.');
+    expect(mailService.getInbox('user-a')).toEqual([]);
+  });
+
+  it('should return to the main menu on Q', async () => {
+    await input('E');
+
+    expect(await input('Q')).toContain('Returning to main menu');
+    expect(session.data.mail).toBeUndefined();
+    expect(handler.canHandle('M', session)).toBe(false);
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Mail Handler
+ *
+ * Handles private mail: inbox and sent folders, reading, sending,
+ * replying, forwarding and deleting.
+ */
+
+import type { CommandHandler } from '../core/CommandHandler.js';
+import type { HandlerDependencies } from './HandlerDependencies.js';
+import type { Session, MailFlowState } from '@baudagain/shared';
+import { SessionState } from '@baudagain/shared';
+import type { MailService } from '../services/MailService.js';
+import type { Mail } from '../db/repositories/MailRepository.js';
+import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+import { getTerminalWidth, getTerminalHeight } from '../utils/TerminalSize.js';
+
+// Rows taken by the frame, headers and prompt around a page of mail
+const LIST_CHROME_ROWS = 11;
+const MIN_PAGE_ROWS = 5;
+
+export interface MailHandlerDependencies extends HandlerDependencies {
+  mailService: MailService;
+}
+
+export class MailHandler implements CommandHandler {
+  constructor(private deps: MailHandlerDependencies) {}
+
+  /**
+   * Check if this handler can handle the command
+   */
+  canHandle(command: string, session: Session): boolean {
+    // Handle if user is in the mail flow
+    if (session.data.mail) {
+      return true;
+    }
+
+    // Handle if user selects e-mail from menu
+    return command.toUpperCase() === 'E' &&
+           (session.state === SessionState.IN_MENU || session.state === SessionState.AUTHENTICATED);
+  }
+
+  /**
+   * Handle the command
+   */
+  async handle(command: string, session: Session): Promise<string> {
+    if (!session.userId) {
+      return '\r\n\x1b[33m⚠ You must be logged in to use e-mail.\x1b[0m\r\n';
+    }
+
+    // Entering mail from the main menu
+    if (!session.data.mail) {
+      session.data.mail = { folder: 'inbox', listOffset: 0 };
+      session.state = SessionState.IN_MENU;
+      return this.showMailList(session, session.data.mail);
+    }
+
+    const mailState = session.data.mail;
+
+    if (mailState.composing) {
+      return this.handleComposing(command, session, mailState);
+    }
+
+    if (mailState.readingMail && mailState.currentMailId) {
+      return this.handleReadingMail(command, session, mailState);
+    }
+
+    return this.handleListCommands(command, session, mailState);
+  }
+
+  /**
+   * Redraw the current mail screen, keeping any draft
+   */
+  async redraw(session: Session): Promise<string> {
+    const mailState = session.data.mail ?? { folder: 'inbox' };
+
+    if (mailState.composing) {
+      let output = this.composeHeader(session, mailState);
+      if (mailState.draftTo) output += `\r\nTo: ${mailState.draftTo}\r\n`;
+      if (mailState.draftSubject) output += `Subject: ${mailState.draftSubject}\r\n`;
+      return output + this.composePrompt(mailState);
+    }
+
+    if (mailState.readingMail && mailState.currentMailId) {
+      const mail = this.deps.mailService.getMail(mailState.currentMailId, session.userId!);
+      if (mail) {
+        return this.renderMail(mail, session);
+      }
+      mailState.readingMail = false;
+      mailState.currentMailId = undefined;
+    }
+
+    return this.showMailList(session, mailState);
+  }
+
+  /**
+   * Inner frame width for the session's terminal
+   */
+  private getBoxWidth(session: Session): number {
+    return getTerminalWidth(session) - 2;
+  }
+
+  /**
+   * Helper to create borders
+   */
+  private getBorders(session: Session) {
+    const width = this.getBoxWidth(session);
+    return {
+      top: '╔' + '═'.repeat(width) + '╗\r\n',
+      mid: '╠' + '═'.repeat(width) + '╣\r\n',
+      bot: '╚' + '═'.repeat(width) + '╝\r\n',
+      empty: '║' + ' '.repeat(width) + '║\r\n',
+      line: (text: string) => {
+        const visualWidth = ANSIWidthCalculator.calculate(text);
+        const paddingNeeded = Math.max(0, (width - 2) - visualWidth);
+        return '║ ' + text + ' '.repeat(paddingNeeded) + ' ║\r\n';
+      },
+      center: (text: string) => {
+        const visualWidth = ANSIWidthCalculator.calculate(text);
+        const totalPadding = Math.max(0, (width - 2) - visualWidth);
+        const left = Math.floor(totalPadding / 2);
+        const right = totalPadding - left;
+        return '║ ' + ' '.repeat(left) + text + ' '.repeat(right) + ' ║\r\n';
+      }
+    };
+  }
+
+  /**
+   * Number of mails listed per page at the session's screen height
+   */
+  private getListPageSize(session: Session): number {
+    return Math.max(MIN_PAGE_ROWS, getTerminalHeight(session) - LIST_CHROME_ROWS);
+  }
+
+  /**
+   * Handle commands on the inbox or sent list
+   */
+  private handleListCommands(command: string, session: Session, mailState: MailFlowState): string {
+    const cmd = command.trim().toUpperCase();
+    const userId = session.userId!;
+
+    // Return to main menu
+    if (cmd === 'Q' || cmd === 'QUIT') {
+      session.data.mail = undefined;
+      session.state = SessionState.IN_MENU;
+      return '\r\nReturning to main menu...\r\n';
+    }
+
+    // Switch folders
+    if (cmd === 'I' || cmd === 'O') {
+      mailState.folder = cmd === 'I' ? 'inbox' : 'sent';
+      mailState.listOffset = 0;
+      return this.showMailList(session, mailState);
+    }
+
+    // Page through the list
+    if (cmd === 'N' || cmd === 'NEXT') {
+      const nextOffset = (mailState.listOffset ?? 0) + this.getListPageSize(session);
+      if (this.getFolder(userId, mailState, 1, nextOffset).length > 0) {
+        mailState.listOffset = nextOffset;
+      }
+      return this.showMailList(session, mailState);
+    }
+
+    if (cmd === 'B' || cmd === 'BACK') {
+      mailState.listOffset = Math.max(0, (mailState.listOffset ?? 0) - this.getListPageSize(session));
+      return this.showMailList(session, mailState);
+    }
+
+    // Send new mail
+    if (cmd === 'S' || cmd === 'SEND') {
+      return this.startComposing(session, mailState, {});
+    }
+
+    // Read mail by number
+    const mailNum = parseInt(cmd, 10);
+    if (!isNaN(mailNum) && mailNum > 0) {
+      const [mail] = this.getFolder(userId, mailState, 1, mailNum - 1);
+      if (!mail) {
+        return '\r\nInvalid mail number.\r\n\r\n' + this.showMailList(session, mailState);
+      }
+
+      mailState.readingMail = true;
+      mailState.currentMailId = mail.id;
+      return this.renderMail(this.deps.mailService.readMail(mail.id, userId) ?? mail, session);
+    }
+
+    return this.showMailList(session, mailState);
+  }
+
+  /**
+   * Get a page of the current folder
+   */
+  private getFolder(userId: string, mailState: MailFlowState, limit: number, offset: number): Mail[] {
+    return mailState.folder === 'sent'
+      ? this.deps.mailService.getSent(userId, limit, offset)
+      : this.deps.mailService.getInbox(userId, limit, offset);
+  }
+
+  /**
+   * Show the inbox or sent folder
+   */
+  private showMailList(session: Session, mailState: MailFlowState): string {
+    const userId = session.userId!;
+    const sent = mailState.folder === 'sent';
+
+    // Fetch one extra mail to tell whether there is another page
+    const pageSize = this.getListPageSize(session);
+    const offset = mailState.listOffset ?? 0;
+    const page = this.getFolder(userId, mailState, pageSize + 1, offset);
+    const hasMore = page.length > pageSize;
+    const mails = page.slice(0, pageSize);
+
+    const b = this.getBorders(session);
+    const subjectWidth = Math.max(10, this.getBoxWidth(session) - 36);
+    let output = '\r\n';
+    output += b.top;
+    output += b.center(sent ? 'E-MAIL - SENT' : 'E-MAIL - INBOX');
+    output += b.mid;
+
+    if (mails.length === 0) {
+      output += b.line(sent ? 'You have not sent any mail.' : 'Your inbox is empty.');
+    } else {
+      mails.forEach((mail, index) => {
+        const num = (offset + index + 1).toString().padEnd(3);
+        const marker = !sent && !mail.readAt ? '\x1b[1;33m*\x1b[0m' : ' ';
+        const subject = mail.subject.padEnd(subjectWidth).substring(0, subjectWidth);
+        const who = ((sent ? mail.toHandle : mail.fromHandle) || 'Unknown').padEnd(15).substring(0, 15);
+        const date = mail.createdAt.toLocaleDateString();
+        output += b.line(`${num}${marker} ${subject} ${who} ${date}`);
+      });
+    }
+
+    output += b.empty;
+    if (!sent) {
+      const unread = this.deps.mailService.getUnreadCount(userId);
+      output += b.line(`${unread} unread  (* = new)`);
+    }
+    output += b.line(`[#] Read  [S] Send  ${sent ? '[I] Inbox' : '[O] Sent'}  [Q] Back`);
+
+    if (hasMore || offset > 0) {
+      let pageText = `Mail ${offset + 1}-${offset + mails.length}`;
+      if (hasMore) pageText += '  [N] Next page';
+      if (offset > 0) pageText += '  [B] Previous page';
+      output += b.line(pageText);
+    }
+    output += b.bot;
+    output += '\r\nCommand: ';
+
+    return output;
+  }
+
+  /**
+   * Render a mail with its header and actions
+   */
+  private renderMail(mail: Mail, session: Session): string {
+    const b = this.getBorders(session);
+    let output = '\r\n';
+    output += b.top;
+    output += b.line(`From: ${mail.fromHandle || 'Unknown'}`);
+    output += b.line(`To: ${mail.toHandle || 'Unknown'}`);
+    output += b.line(`Subject: ${mail.subject}`);
+    output += b.line(`Date: ${mail.createdAt.toLocaleString()}`);
+    output += b.mid;
+
+    // Forwarded mail keeps the original's line breaks
+    for (const paragraph of mail.body.split(/\r?\n/)) {
+      const lines = this.wordWrap(paragraph, this.getBoxWidth(session) - 4);
+      if (lines.length === 0) {
+        output += b.empty;
+      }
+      lines.forEach(line => {
+        output += b.line(line);
+      });
+    }
+
+    output += b.bot;
+    output += '\r\n[R] Reply  [F] Forward  [D] Delete  [Enter] Back: ';
+
+    return output;
+  }
+
+  /**
+   * Handle input while reading a mail
+   */
+  private handleReadingMail(command: string, session: Session, mailState: MailFlowState): string {
+    const cmd = command.trim().toUpperCase();
+    const mailId = mailState.currentMailId!;
+
+    mailState.readingMail = false;
+    mailState.currentMailId = undefined;
+
+    if (cmd === 'R' || cmd === 'REPLY') {
+      return this.startComposing(session, mailState, { replyToId: mailId });
+    }
+
+    if (cmd === 'F' || cmd === 'FORWARD') {
+      return this.startComposing(session, mailState, { forwardId: mailId });
+    }
+
+    if (cmd === 'D' || cmd === 'DELETE') {
+      const deleted = this.deps.mailService.deleteMail(mailId, session.userId!);
+      const notice = deleted
+        ? '\r\n\x1b[32m✓ Mail deleted.\x1b[0m\r\n'
+        : '\r\n\x1b[31m✗ Mail not found.\x1b[0m\r\n';
+      return notice + this.showMailList(session, mailState);
+    }
+
+    return this.showMailList(session, mailState);
+  }
+
+  /**
+   * Start composing new mail, a reply or a forward
+   */
+  private startComposing(
+    session: Session,
+    mailState: MailFlowState,
+    target: Pick<MailFlowState, 'replyToId' | 'forwardId'>
+  ): string {
+    const originalId = target.replyToId ?? target.forwardId;
+    const original = originalId ? this.deps.mailService.getMail(originalId, session.userId!) : null;
+    if (originalId && !original) {
+      return '\r\n\x1b[31m✗ Mail not found.\x1b[0m\r\n\r\n' + this.showMailList(session, mailState);
+    }
+
+    mailState.composing = true;
+    mailState.replyToId = target.replyToId;
+    mailState.forwardId = target.forwardId;
+    mailState.composeStep = target.replyToId ? 'body' : 'to';
+
+    let output = this.composeHeader(session, mailState);
+    if (original) {
+      output += `\r\nOriginal: ${original.subject} (from ${original.fromHandle || 'Unknown'})\r\n`;
+    }
+    return output + this.composePrompt(mailState);
+  }
+
+  /**
+   * Framed title for the compose screen
+   */
+  private composeHeader(session: Session, mailState: MailFlowState): string {
+    const title = mailState.replyToId ? 'REPLY' : mailState.forwardId ? 'FORWARD MAIL' : 'SEND MAIL';
+    const b = this.getBorders(session);
+    return '\r\n' + b.top + b.center(title) + b.bot;
+  }
+
+  /**
+   * Prompt for the current compose step
+   */
+  private composePrompt(mailState: MailFlowState): string {
+    switch (mailState.composeStep) {
+      case 'to':
+        return '\r\nTo (handle, or CANCEL to abort): ';
+      case 'subject':
+        return '\r\nEnter subject (or CANCEL to abort): ';
+      default:
+        return mailState.forwardId
+          ? '\r\nAdd a note, or press Enter for none (CANCEL to abort): '
+          : '\r\nEnter message (or CANCEL to abort): ';
+    }
+  }
+
+  /**
+   * Clear the compose draft
+   */
+  private clearDraft(mailState: MailFlowState): void {
+    mailState.composing = false;
+    mailState.composeStep = undefined;
+    mailState.draftTo = undefined;
+    mailState.draftSubject = undefined;
+    mailState.replyToId = undefined;
+    mailState.forwardId = undefined;
+  }
+
+  /**
+   * Handle the compose steps
+   */
+  private handleComposing(command: string, session: Session, mailState: MailFlowState): string {
+    const input = command.trim();
+
+    if (input.toUpperCase() === 'CANCEL') {
+      this.clearDraft(mailState);
+      return '\r\n\x1b[33mMail cancelled.\x1b[0m\r\n\r\n' + this.showMailList(session, mailState);
+    }
+
+    if (mailState.composeStep === 'to') {
+      if (!input) {
+        return '\r\n\x1b[33m⚠ Enter a handle to send to.\x1b[0m\r\n' + this.composePrompt(mailState);
+      }
+      if (!this.deps.mailService.userExists(input)) {
+        return `\r\n\x1b[33m⚠ No user named "${input}".\x1b[0m\r\n` + this.composePrompt(mailState);
+      }
+
+      mailState.draftTo = input;
+      mailState.composeStep = mailState.forwardId ? 'body' : 'subject';
+      return this.composePrompt(mailState);
+    }
+
+    if (mailState.composeStep === 'subject') {
+      if (!input) {
+        return '\r\n\x1b[33m⚠ Subject cannot be empty.\x1b[0m\r\n' + this.composePrompt(mailState);
+      }
+
+      mailState.draftSubject = input;
+      mailState.composeStep = 'body';
+      return this.composePrompt(mailState);
+    }
+
+    // Body step; a forward may go without a note
+    if (!input && !mailState.forwardId) {
+      return '\r\n\x1b[33m⚠ Message cannot be empty.\x1b[0m\r\n' + this.composePrompt(mailState);
+    }
+
+    const userId = session.userId!;
+    try {
+      if (mailState.replyToId) {
+        this.deps.mailService.replyToMail(mailState.replyToId, userId, input);
+      } else if (mailState.forwardId) {
+        this.deps.mailService.forwardMail(mailState.forwardId, userId, mailState.draftTo!, input);
+      } else {
+        this.deps.mailService.sendMail({
+          fromUserId: userId,
+          toHandle: mailState.draftTo!,
+          subject: mailState.draftSubject!,
+          body: input,
+        });
+      }
+
+      this.clearDraft(mailState);
+      return '\r\n\x1b[32m✓ Mail sent!\x1b[0m\r\n\r\n' + this.showMailList(session, mailState);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.clearDraft(mailState);
+      return `\r\n\x1b[31m✗ Error sending mail: ${errorMsg}\x1b[0m\r\n\r\n` +
+             this.showMailList(session, mailState);
+    }
+  }
+
+  /**
+   * Word wrap text to fit within width
+   */
+  private wordWrap(text: string, width: number): string[] {
+    const words = text.split(' ');
+    const lines: string[] = [];
+    let currentLine = '';
+
+    for (const word of words) {
+      const testLine = currentLine ? `${currentLine} ${word}` : word;
+      if (ANSIWidthCalculator.calculate(testLine) <= width) {
+        currentLine = testLine;
+      } else {
+        if (currentLine) lines.push(currentLine);
+        currentLine = word;
+      }
+    }
+
+    if (currentLine) lines.push(currentLine);
+
+    return lines;
+  }
+}
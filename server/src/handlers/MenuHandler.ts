@@ -1,9 +1,11 @@
 import type { CommandHandler } from '../core/CommandHandler.js';
+import type { OutputStream } from '../core/OutputStream.js';
 import type { Session, Menu, MenuOption, MenuFlowState, MessageContent } from '@baudagain/shared';
 import { SessionState, ContentType } from '@baudagain/shared';
 import type { TerminalRenderer, MenuContent as MenuContentType } from '@baudagain/shared';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import { AIResponseHelper } from '../utils/AIResponseHelper.js';
+import { getTerminalWidth } from '../utils/TerminalSize.js';
 
 /**
  * Menu Handler
@@ -32,6 +34,16 @@ export class MenuHandler implements CommandHandler {
           label: 'Message Bases',
           description: 'Read and post messages',
         },
+        {
+          key: 'N',
+          label: 'New Scan',
+          description: 'Read new messages in all bases',
+        },
+        {
+          key: 'E',
+          label: 'E-mail',
+          description: 'Read and send private mail',
+        },
         {
           key: 'D',
           label: 'Door Games',
@@ -71,12 +83,12 @@ export class MenuHandler implements CommandHandler {
     );
   }
 
-  async handle(command: string, session: Session): Promise<string> {
+  async handle(command: string, session: Session, output?: OutputStream): Promise<string> {
     const upperCommand = command.toUpperCase();
 
     // Check if we're in Page SysOp flow
     if (session.data.menu?.pagingSysOp) {
-      return this.handlePageSysOpInput(command, session);
+      return this.handlePageSysOpInput(command, session, output);
     }
 
     // Ensure we have a valid menu, default to 'main'
@@ -84,12 +96,12 @@ export class MenuHandler implements CommandHandler {
 
     // If empty command or just authenticated, show current menu
     if (command === '' || command.trim() === '') {
-      return this.displayMenu(currentMenuId);
+      return this.displayMenu(currentMenuId, session);
     }
 
     // Special commands
     if (upperCommand === 'MENU' || upperCommand === '?') {
-      return this.displayMenu(currentMenuId);
+      return this.displayMenu(currentMenuId, session);
     }
 
     // Handle HELP command
@@ -105,24 +117,37 @@ export class MenuHandler implements CommandHandler {
     // Handle menu selection
     const menu = this.menus.get(currentMenuId);
     if (!menu) {
-      return this.displayMenu('main');
+      return this.displayMenu('main', session);
     }
 
     // Find matching option
     const option = menu.options.find((opt) => opt.key.toUpperCase() === upperCommand);
 
     if (!option) {
-      return this.displayMenuWithMessage(menu.id, `\r\nInvalid command: ${command}\r\n`);
+      return this.displayMenuWithMessage(menu.id, session, `\r\nInvalid command: ${command}\r\n`);
     }
 
     // Handle the menu option
     return this.handleMenuOption(option, session);
   }
 
+  /**
+   * Redraw the current menu, or the Page SysOp prompt
+   */
+  async redraw(session: Session): Promise<string> {
+    if (session.data.menu?.pagingSysOp) {
+      return '\r\n\x1b[36m=== Page SysOp ===\x1b[0m\r\n\r\n' +
+             'Your question (or press Enter): ';
+    }
+
+    const currentMenuId = this.menus.has(session.currentMenu) ? session.currentMenu : 'main';
+    return this.displayMenu(currentMenuId, session);
+  }
+
   /**
    * Display a menu
    */
-  private displayMenu(menuId: string): string {
+  private displayMenu(menuId: string, session: Session): string {
     const menu = this.menus.get(menuId);
     if (!menu) {
       return 'Menu not found.\r\n';
@@ -138,7 +163,7 @@ export class MenuHandler implements CommandHandler {
       })),
     };
 
-    return this.deps.renderer.render(menuContent) + '\r\nCommand: ';
+    return this.deps.renderer.render(menuContent, getTerminalWidth(session)) + '\r\nCommand: ';
   }
 
   /**
@@ -146,6 +171,7 @@ export class MenuHandler implements CommandHandler {
    */
   private displayMenuWithMessage(
     menuId: string,
+    session: Session,
     message?: string,
     messageStyle: 'info' | 'success' | 'warning' = 'info'
   ): string {
@@ -160,7 +186,7 @@ export class MenuHandler implements CommandHandler {
       output += this.deps.renderer.render(messageContent);
     }
     
-    output += this.displayMenu(menuId);
+    output += this.displayMenu(menuId, session);
     return output;
   }
 
@@ -170,25 +196,45 @@ export class MenuHandler implements CommandHandler {
   private async handleMenuOption(option: MenuOption, session: Session): Promise<string> {
     switch (option.key.toUpperCase()) {
       case 'M':
-        return this.displayMenuWithMessage('main', '\r\nMessage Bases coming soon!\r\n');
+        return this.displayMenuWithMessage('main', session, '\r\nMessage Bases coming soon!\r\n');
+      
+      case 'N':
+        // New scan is handled by MessageHandler
+        // This case should not be reached if MessageHandler is registered before MenuHandler
+        return this.displayMenuWithMessage('main', session, '\r\nNew Scan - please try again.\r\n');
+      
+      case 'E':
+        // E-mail is handled by MailHandler
+        // This case should not be reached if MailHandler is registered before MenuHandler
+        return this.displayMenuWithMessage('main', session, '\r\nE-mail - please try again.\r\n');
       
       case 'D':
         // Door Games are handled by DoorHandler
         // This case should not be reached if DoorHandler is registered before MenuHandler
-        return this.displayMenuWithMessage('main', '\r\nDoor Games - please try again.\r\n');
+        return this.displayMenuWithMessage('main', session, '\r\nDoor Games - please try again.\r\n');
       
       case 'P':
         return this.startPageSysOp(session);
       
       case 'U':
-        return this.displayMenuWithMessage('main', '\r\nUser Profile coming soon!\r\n');
+        return this.displayMenuWithMessage('main', session, '\r\nUser Profile coming soon!\r\n');
       
-      case 'G':
-        return '\r\n\x1b[33mGoodbye! Thanks for calling BaudAgain BBS.\x1b[0m\r\n\r\n' +
+      case 'G': {
+        // Logging off ends the session for good - it cannot be resumed
+        this.deps.sessionManager.revokeResumeToken(session.id);
+        const goodbyeScreen = this.deps.screenService?.renderActive(
+          'goodbye',
+          { handle: session.handle || 'Caller' },
+          getTerminalWidth(session)
+        );
+        return (goodbyeScreen
+                 ? '\r\n' + goodbyeScreen + '\r\n'
+                 : '\r\n\x1b[33mGoodbye! Thanks for calling BaudAgain BBS.\x1b[0m\r\n\r\n') +
                'Connection will close in 3 seconds...\r\n';
+      }
       
       default:
-        return this.displayMenuWithMessage('main', `\r\n"${option.label}" is not yet implemented.\r\n`);
+        return this.displayMenuWithMessage('main', session, `\r\n"${option.label}" is not yet implemented.\r\n`);
     }
   }
 
@@ -199,6 +245,7 @@ export class MenuHandler implements CommandHandler {
     if (!this.deps.aiSysOp) {
       return this.displayMenuWithMessage(
         'main',
+        session,
         '\r\n\x1b[33mThe AI SysOp is not available at this time.\x1b[0m\r\n',
         'warning'
       );
@@ -226,7 +273,7 @@ export class MenuHandler implements CommandHandler {
   /**
    * Handle input during Page SysOp flow
    */
-  private async handlePageSysOpInput(input: string, session: Session): Promise<string> {
+  private async handlePageSysOpInput(input: string, session: Session, output?: OutputStream): Promise<string> {
     // Check for cancel
     if (input.toUpperCase() === 'CANCEL') {
       this.deps.sessionManager.updateSession(session.id, {
@@ -235,7 +282,7 @@ export class MenuHandler implements CommandHandler {
           menu: undefined,
         },
       });
-      return this.displayMenuWithMessage('main', '\r\n\x1b[33mPage cancelled.\x1b[0m\r\n', 'warning');
+      return this.displayMenuWithMessage('main', session, '\r\n\x1b[33mPage cancelled.\x1b[0m\r\n', 'warning');
     }
 
     // Clear the paging state
@@ -250,6 +297,7 @@ export class MenuHandler implements CommandHandler {
     if (!this.deps.aiSysOp) {
       return this.displayMenuWithMessage(
         'main',
+        session,
         '\r\n\x1b[33mThe AI SysOp is not available.\x1b[0m\r\n',
         'warning'
       );
@@ -258,10 +306,24 @@ export class MenuHandler implements CommandHandler {
     const question = input.trim() || undefined;
     const handle = session.handle || 'User';
     
+    // Type the reply out as the SysOp writes it; a keypress cuts it short
+    if (output) {
+      await output.write('\r\n');
+      const interrupted = await AIResponseHelper.streamAIResponse(
+        output,
+        this.deps.aiSysOp.streamPageResponse(handle, question, output.signal, session.userId),
+        this.deps.renderer,
+        'The SysOp is responding...'
+      );
+      
+      return (interrupted ? '\x1b[0m\r\n\x1b[2m[interrupted]\x1b[0m\r\n' : '') +
+             '\r\n' + this.displayMenu('main', session);
+    }
+    
     // Get AI response using helper with 5 second timeout (as per requirements)
     const aiOutput = await AIResponseHelper.renderAIResponseWithTimeout(
       this.deps.aiSysOp,
-      () => this.deps.aiSysOp!.respondToPage(handle, question),
+      () => this.deps.aiSysOp!.respondToPage(handle, question, session.userId),
       this.deps.renderer,
       'The SysOp is temporarily unavailable. Please try again later.',
       5000,  // 5 second timeout as per requirements
@@ -269,7 +331,7 @@ export class MenuHandler implements CommandHandler {
       'The SysOp is responding...'
     );
     
-    return '\r\n' + aiOutput + '\r\n' + this.displayMenu('main');
+    return '\r\n' + aiOutput + '\r\n' + this.displayMenu('main', session);
   }
 
   /**
@@ -280,6 +342,7 @@ export class MenuHandler implements CommandHandler {
     if (!session.data.digestAvailable) {
       return this.displayMenuWithMessage(
         'main',
+        session,
         '\r\n\x1b[33mNo daily digest available. You need to be away for at least 24 hours.\x1b[0m\r\n',
         'warning'
       );
@@ -294,6 +357,7 @@ export class MenuHandler implements CommandHandler {
     ) {
       return this.displayMenuWithMessage(
         'main',
+        session,
         '\r\n\x1b[33mDaily digest service is not available.\x1b[0m\r\n',
         'warning'
       );
@@ -305,6 +369,7 @@ export class MenuHandler implements CommandHandler {
       if (!user || !user.lastLogin) {
         return this.displayMenuWithMessage(
           'main',
+          session,
           '\r\n\x1b[33mUnable to retrieve your last login information.\x1b[0m\r\n',
           'warning'
         );
@@ -321,13 +386,10 @@ export class MenuHandler implements CommandHandler {
       // Get all message bases
       const allBases = this.deps.messageBaseRepository.getAllMessageBases();
 
-      // Get new messages since last login for each base
+      // Get messages the user has not read yet in each base
       const messageBasesWithActivity = [];
       for (const base of allBases) {
-        const newMessages = this.deps.messageRepository.findByBaseIdSince(
-          base.id,
-          user.lastLogin
-        );
+        const newMessages = this.deps.messageRepository.getUnreadMessages(user.id, base.id);
 
         if (newMessages.length > 0) {
           messageBasesWithActivity.push({
@@ -341,6 +403,7 @@ export class MenuHandler implements CommandHandler {
       if (messageBasesWithActivity.length === 0) {
         return this.displayMenuWithMessage(
           'main',
+          session,
           '\r\n\x1b[33mNo new activity since your last visit.\x1b[0m\r\n',
           'warning'
         );
@@ -352,7 +415,7 @@ export class MenuHandler implements CommandHandler {
         messageBasesWithActivity,
       });
 
-      const formatted = this.deps.dailyDigestService.formatDigest(digest);
+      const formatted = this.deps.dailyDigestService.formatDigest(digest, getTerminalWidth(session));
       output += '\r\n' + formatted.framed + '\r\n\r\n';
 
       // Clear the digest available flag after showing it
@@ -363,11 +426,12 @@ export class MenuHandler implements CommandHandler {
         },
       });
 
-      return output + this.displayMenu('main');
+      return output + this.displayMenu('main', session);
     } catch (error) {
       console.error('Error generating daily digest:', error);
       return this.displayMenuWithMessage(
         'main',
+        session,
         '\r\n\x1b[31mError generating daily digest. Please try again later.\x1b[0m\r\n',
         'warning'
       );
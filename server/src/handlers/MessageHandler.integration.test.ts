@@ -47,6 +47,9 @@ describe('MessageHandler - Conversation Starters Integration', () => {
             postCount: 10,
           },
         ]),
+        getUnreadCounts: vi.fn().mockReturnValue(new Map()),
+        markMessageRead: vi.fn(),
+        getThreadMessages: vi.fn().mockReturnValue([]),
       },
       conversationStarter: {
         generateQuestion: vi.fn().mockResolvedValue({
@@ -173,4 +176,331 @@ describe('MessageHandler - Conversation Starters Integration', () => {
     
     expect(output).toContain('No messages yet');
   });
+
+  describe('terminal size', () => {
+    const makeMessages = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `msg${i + 1}`,
+        subject: `Subject ${i + 1}`,
+        authorHandle: 'testuser',
+        body: 'Test body',
+        createdAt: new Date(),
+      }));
+
+    it('should draw frames at the session width', async () => {
+      mockSession.columns = 132;
+
+      const output = await messageHandler.handle('M', mockSession);
+
+      expect(output).toContain('╔' + '═'.repeat(130) + '╗');
+    });
+
+    it('should size list pages to the session height', async () => {
+      mockSession.rows = 20;
+      mockDeps.messageService.getMessages.mockReturnValue(makeMessages(11));
+
+      const output = await messageHandler.handle('M', mockSession);
+
+      // 20 rows leave room for 10 messages; one extra is fetched to detect more
+      expect(mockDeps.messageService.getMessages).toHaveBeenCalledWith('base1', 11, 0);
+      expect(output).toContain('Messages 1-10');
+      expect(output).toContain('[N] Next page');
+      expect(output).not.toContain('Subject 11');
+    });
+
+    it('should page long message bodies with a More prompt', async () => {
+      mockSession.rows = 24;
+      mockSession.data.message = { inMessageBase: true, currentBaseId: 'base1' };
+      const longMessage = {
+        ...makeMessages(1)[0],
+        body: Array.from({ length: 400 }, (_, i) => `word${i}`).join(' '),
+      };
+      mockDeps.messageService.getMessages.mockReturnValue([longMessage]);
+      mockDeps.messageService.getMessage = vi.fn().mockReturnValue(longMessage);
+
+      const firstPage = await messageHandler.handle('1', mockSession);
+      expect(firstPage).toContain('-- More --');
+      expect(firstPage).not.toContain('word399');
+
+      let output = firstPage;
+      for (let i = 0; i < 10 && output.includes('-- More --'); i++) {
+        output = await messageHandler.handle('', mockSession);
+      }
+
+      expect(output).toContain('word399');
+      expect(output).toContain('Press Enter to continue');
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      mockDeps.messageService.searchMessages = vi.fn().mockResolvedValue({
+        results: [
+          {
+            id: 'msg7',
+            subject: 'Modem speeds',
+            authorHandle: 'sysop',
+            baseName: 'General Discussion',
+            snippet: 'my first \x1b[1;33mmodem\x1b[0m was 2400 baud',
+            body: 'My first modem was 2400 baud',
+            createdAt: new Date(),
+          },
+        ],
+        total: 1,
+      });
+      mockDeps.messageService.getMessage = vi.fn();
+    });
+
+    it('should search the current base and show highlighted hits', async () => {
+      const prompt = await messageHandler.handle('F', mockSession);
+      expect(prompt).toContain('SEARCH GENERAL DISCUSSION');
+
+      const output = await messageHandler.handle('modem', mockSession);
+
+      expect(mockDeps.messageService.searchMessages).toHaveBeenCalledWith(
+        'user1', 'modem', { baseId: 'base1' }, expect.any(Number), 0, expect.any(Object)
+      );
+      expect(output).toContain('SEARCH: modem');
+      expect(output).toContain('Modem speeds');
+      expect(output).toContain('sysop in General Discussion');
+      expect(output).toContain('\x1b[1;33mmodem\x1b[0m');
+    });
+
+    it('should open a hit and return to the results', async () => {
+      await messageHandler.handle('F', mockSession);
+      await messageHandler.handle('modem', mockSession);
+
+      const message = await messageHandler.handle('1', mockSession);
+      expect(message).toContain('Subject: Modem speeds');
+
+      const output = await messageHandler.handle('', mockSession);
+      expect(output).toContain('SEARCH: modem');
+
+      const list = await messageHandler.handle('Q', mockSession);
+      expect(list).toContain('Test Message');
+      expect((mockSession.data.message as any).searchQuery).toBeUndefined();
+    });
+  });
+
+  describe('new scan', () => {
+    let unread: any[];
+
+    beforeEach(() => {
+      unread = [
+        { id: 'msg8', baseId: 'base1', subject: 'Still dialing in', authorHandle: 'sysop', body: 'Yes', createdAt: new Date() },
+        { id: 'msg9', baseId: 'base1', subject: 'Same here', authorHandle: 'caller', body: 'Me too', createdAt: new Date() },
+      ];
+      Object.assign(mockDeps.messageService, {
+        getAccessibleMessageBasesForUser: vi.fn().mockResolvedValue([
+          { id: 'base1', name: 'General Discussion', postCount: 10 },
+          { id: 'base2', name: 'Door Games', postCount: 0 },
+        ]),
+        getUnreadMessages: vi.fn((_userId: string, baseId: string) => baseId === 'base1' ? unread.slice(0, 1) : []),
+        getUnreadCounts: vi.fn(() => new Map(unread.length ? [['base1', unread.length]] : [])),
+        markMessageRead: vi.fn((_userId: string, id: string) => {
+          unread = unread.filter(message => message.id !== id);
+        }),
+        markAllRead: vi.fn().mockResolvedValue(undefined),
+      });
+      mockSession.state = SessionState.IN_MENU;
+      mockSession.data = {};
+    });
+
+    it('should walk unread messages from the main menu and end on the base list', async () => {
+      expect(messageHandler.canHandle('N', mockSession)).toBe(true);
+
+      const first = await messageHandler.handle('N', mockSession);
+      expect(first).toContain('General Discussion\x1b[0m - 2 new messages');
+      expect(first).toContain('Subject: Still dialing in');
+      expect(first).toContain('[S] Skip base');
+      expect(mockDeps.messageService.markMessageRead).toHaveBeenCalledWith('user1', 'msg8');
+
+      const second = await messageHandler.handle('', mockSession);
+      expect(second).toContain('Subject: Same here');
+
+      const done = await messageHandler.handle('', mockSession);
+      expect(done).toContain('No more new messages.');
+      expect(done).toContain('MESSAGE BASES');
+      expect((mockSession.data.message as any).scanningNew).toBe(false);
+    });
+
+    it('should skip a base without marking the rest of it read', async () => {
+      await messageHandler.handle('N', mockSession);
+
+      const output = await messageHandler.handle('S', mockSession);
+
+      expect(output).toContain('No more new messages.');
+      expect(unread.map(message => message.id)).toEqual(['msg9']);
+      expect(output).toContain('1 new');
+    });
+
+    it('should mark everything read from the base list', async () => {
+      await messageHandler.handle('M', mockSession);
+
+      const output = await messageHandler.handle('A', mockSession);
+
+      expect(mockDeps.messageService.markAllRead).toHaveBeenCalledWith('user1');
+      expect(output).toContain('All messages marked as read.');
+    });
+
+    it('should leave N to the mail and art gallery areas', () => {
+      mockSession.data = { mail: { folder: 'inbox' } };
+      expect(messageHandler.canHandle('N', mockSession)).toBe(false);
+    });
+  });
+
+  describe('threads', () => {
+    const root = { id: 'msg1', baseId: 'base1', subject: 'Test Message', authorHandle: 'testuser', body: 'Test body', createdAt: new Date('2026-10-01T12:00:00Z'), isDeleted: false };
+    const reply = { id: 'msg2', baseId: 'base1', parentId: 'msg1', subject: 'Re: Test Message', authorHandle: 'caller', body: 'Agreed', createdAt: new Date(), isDeleted: false };
+
+    beforeEach(() => {
+      const messages: Record<string, any> = { msg1: root, msg2: reply };
+      Object.assign(mockDeps.messageService, {
+        getMessage: vi.fn((id: string) => messages[id] ?? null),
+        getThread: vi.fn().mockReturnValue({ message: root, replies: [{ message: reply, replies: [] }] }),
+        getThreadMessages: vi.fn().mockReturnValue([root, reply]),
+        canUserWriteBase: vi.fn().mockResolvedValue(true),
+        draftReply: vi.fn().mockReturnValue({ subject: 'Re: Test Message', quote: 'On 2026-10-01, testuser wrote:\n> Test body' }),
+        postMessage: vi.fn().mockReturnValue({ id: 'msg3', isHeld: false }),
+      });
+    });
+
+    it('should show the thread position and move through the thread', async () => {
+      const first = await messageHandler.handle('1', mockSession);
+      expect(first).toContain('Thread: message 1 of 2');
+      expect(first).toContain('[R] Reply  [T] Thread  [N] Next in thread  [P] Parent');
+
+      const next = await messageHandler.handle('N', mockSession);
+      expect(next).toContain('Subject: Re: Test Message');
+
+      const parent = await messageHandler.handle('P', mockSession);
+      expect(parent).toContain('Subject: Test Message');
+      expect((mockSession.data.message as any).currentMessageId).toBe('msg1');
+    });
+
+    it('should draw the thread as a tree and open entries from it', async () => {
+      await messageHandler.handle('1', mockSession);
+
+      const tree = await messageHandler.handle('T', mockSession);
+      expect(tree).toContain('THREAD: Test Message');
+      expect(tree).toContain('└ Re: Test Message');
+
+      const opened = await messageHandler.handle('2', mockSession);
+      expect(opened).toContain('From: caller');
+      expect((mockSession.data.message as any).viewingThread).toBe(false);
+    });
+
+    it('should post a reply under a quote of the parent', async () => {
+      await messageHandler.handle('1', mockSession);
+
+      const prompt = await messageHandler.handle('R', mockSession);
+      expect(prompt).toContain('> Test body');
+      expect(prompt).toContain('Enter your reply');
+
+      const output = await messageHandler.handle('Me too', mockSession);
+
+      expect(mockDeps.messageService.postMessage).toHaveBeenCalledWith({
+        baseId: 'base1',
+        userId: 'user1',
+        subject: 'Re: Test Message',
+        body: 'On 2026-10-01, testuser wrote:\n> Test body\n\nMe too',
+        parentId: 'msg1',
+      });
+      expect(output).toContain('Reply posted successfully');
+      expect(output).toContain('Subject: Test Message');
+    });
+  });
+
+  describe('edit and delete', () => {
+    const own = { id: 'msg1', baseId: 'base1', userId: 'user1', subject: 'Test Message', authorHandle: 'testuser', body: 'Test body', createdAt: new Date(), isDeleted: false };
+
+    beforeEach(() => {
+      Object.assign(mockDeps.messageService, {
+        getMessages: vi.fn().mockReturnValue([own]),
+        getMessage: vi.fn().mockReturnValue(own),
+        canModifyMessage: vi.fn().mockResolvedValue(true),
+        editMessage: vi.fn().mockResolvedValue({ ...own, body: 'Fixed body' }),
+        deleteMessage: vi.fn().mockResolvedValue(undefined),
+      });
+    });
+
+    it('should offer edit and delete on the caller\'s own posts', async () => {
+      const output = await messageHandler.handle('1', mockSession);
+
+      expect(output).toContain('[E] Edit  [D] Delete');
+    });
+
+    it('should keep the subject when left blank and save the new body', async () => {
+      await messageHandler.handle('1', mockSession);
+
+      const prompt = await messageHandler.handle('E', mockSession);
+      expect(prompt).toContain('EDIT MESSAGE');
+      await messageHandler.handle('', mockSession);
+      const output = await messageHandler.handle('Fixed body', mockSession);
+
+      expect(mockDeps.messageService.editMessage).toHaveBeenCalledWith('msg1', 'user1', {
+        subject: 'Test Message',
+        body: 'Fixed body',
+      });
+      expect(output).toContain('Message updated');
+      expect(output).toContain('Fixed body');
+    });
+
+    it('should delete only after confirmation', async () => {
+      await messageHandler.handle('1', mockSession);
+
+      await messageHandler.handle('D', mockSession);
+      const kept = await messageHandler.handle('N', mockSession);
+      expect(mockDeps.messageService.deleteMessage).not.toHaveBeenCalled();
+      expect(kept).toContain('Subject: Test Message');
+
+      await messageHandler.handle('D', mockSession);
+      const output = await messageHandler.handle('Y', mockSession);
+
+      expect(mockDeps.messageService.deleteMessage).toHaveBeenCalledWith('msg1', 'user1');
+      expect(output).toContain('Message deleted');
+      expect((mockSession.data.message as any).readingMessage).toBe(false);
+    });
+
+    it('should refuse once the edit window has passed', async () => {
+      mockDeps.messageService.canModifyMessage.mockResolvedValue(false);
+      await messageHandler.handle('1', mockSession);
+
+      const output = await messageHandler.handle('E', mockSession);
+
+      expect(output).toContain('You can no longer edit this message');
+      expect((mockSession.data.message as any).editingMessage).toBeUndefined();
+    });
+  });
+
+  describe('redraw', () => {
+    it('should redraw a post in progress with its draft subject', async () => {
+      mockSession.data.message = {
+        inMessageBase: true,
+        currentBaseId: 'base1',
+        postingMessage: true,
+        postStep: 'body',
+        draftSubject: 'Half-written post',
+      };
+
+      const output = await messageHandler.redraw(mockSession);
+
+      expect(output).toContain('POST NEW MESSAGE');
+      expect(output).toContain('Subject: Half-written post');
+      expect(output).toContain('Enter message body');
+    });
+
+    it('should fall back to the message list from a pending confirmation', async () => {
+      mockSession.data.message = {
+        inMessageBase: true,
+        currentBaseId: 'base1',
+        confirmingSummary: true,
+      } as any;
+
+      const output = await messageHandler.redraw(mockSession);
+
+      expect(output).toContain('Test Message');
+      expect((mockSession.data.message as any).confirmingSummary).toBe(false);
+    });
+  });
 });
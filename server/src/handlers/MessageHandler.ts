@@ -7,21 +7,43 @@
 import type { CommandHandler } from '../core/CommandHandler.js';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import type { Session } from '@baudagain/shared';
-import { SessionState, ContentType, TERMINAL_WIDTH } from '@baudagain/shared';
-import type { MessageService } from '../services/MessageService.js';
+import { SessionState, ContentType } from '@baudagain/shared';
+import type { MessageService, MessageThread } from '../services/MessageService.js';
 import type { MessageBase } from '../db/repositories/MessageBaseRepository.js';
 import type { Message } from '../db/repositories/MessageRepository.js';
 import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+import { AIProviderError } from '../ai/AIProvider.js';
+import { getTerminalWidth, getTerminalHeight } from '../utils/TerminalSize.js';
+
+// Rows taken by the frame, headers and prompt around a page of content
+const LIST_CHROME_ROWS = 10;
+const MESSAGE_HEADER_ROWS = 8;
+const CONTINUATION_CHROME_ROWS = 4;
+const MIN_PAGE_ROWS = 5;
+const SEARCH_CHROME_ROWS = 10;
+const SEARCH_HIT_ROWS = 3; // Heading and up to two lines of snippet
+const MAX_THREAD_INDENT = 8; // Deeper replies are drawn at this depth
+
+// Search hits in the snippet are shown bold yellow
+const SEARCH_HIGHLIGHT = { start: '\x1b[1;33m', end: '\x1b[0m' };
 
 interface MessageFlowState {
   showingBaseList?: boolean;
   inMessageBase?: boolean;
   currentBaseId?: string;
+  listOffset?: number; // First message shown on the current list page
   readingMessage?: boolean;
   currentMessageId?: string;
+  readingLine?: number; // Next body line to show when a message spans pages
   postingMessage?: boolean;
   postStep?: 'subject' | 'body';
   draftSubject?: string;
+  replyToId?: string; // Message being replied to, if the post is a reply
+  viewingThread?: boolean;
+  editingMessage?: boolean;
+  editStep?: 'subject' | 'body';
+  confirmingDelete?: boolean;
+  threadOffset?: number; // First entry shown on the current thread tree page
   viewingSummary?: boolean;
   confirmingSummary?: boolean;
   viewingStarters?: boolean;
@@ -29,6 +51,13 @@ interface MessageFlowState {
   startersGeneratedAt?: Date;
   viewingCatchUp?: boolean;
   confirmingCatchUp?: boolean;
+  enteringSearch?: boolean;
+  searchQuery?: string;
+  searchBaseId?: string; // Base being searched; all readable bases if unset
+  searchOffset?: number;
+  viewingSearchResults?: boolean;
+  scanningNew?: boolean; // Walking unread messages across all bases
+  scanBaseIndex?: number; // Base being scanned, as an index into the accessible bases
 }
 
 export interface MessageHandlerDependencies extends HandlerDependencies {
@@ -39,8 +68,6 @@ export interface MessageHandlerDependencies extends HandlerDependencies {
 }
 
 export class MessageHandler implements CommandHandler {
-  private readonly BOX_WIDTH = TERMINAL_WIDTH - 2; // 78
-
   constructor(private deps: MessageHandlerDependencies) {}
   
   /**
@@ -52,9 +79,12 @@ export class MessageHandler implements CommandHandler {
       return true;
     }
     
-    // Handle if user selects message bases from menu
-    if (command.toUpperCase() === 'M' && 
-        (session.state === SessionState.IN_MENU || session.state === SessionState.AUTHENTICATED)) {
+    // Handle message bases and new scan from the menu, unless the caller
+    // is in another area that shares the menu state
+    const cmd = command.toUpperCase();
+    if ((cmd === 'M' || cmd === 'N') &&
+        (session.state === SessionState.IN_MENU || session.state === SessionState.AUTHENTICATED) &&
+        !session.data.mail && !session.data.artGallery?.viewing) {
       return true;
     }
     
@@ -79,11 +109,35 @@ export class MessageHandler implements CommandHandler {
       return this.handlePostingFlow(command, session, messageState);
     }
     
+    // Handle editing or deleting the message being read
+    if (messageState.editingMessage && messageState.currentMessageId) {
+      return this.handleEditFlow(command, session, messageState);
+    }
+    
+    if (messageState.confirmingDelete && messageState.currentMessageId) {
+      return this.handleConfirmingDelete(command, session, messageState);
+    }
+    
+    // Handle thread tree
+    if (messageState.viewingThread && messageState.currentMessageId) {
+      return this.handleThreadView(command, session, messageState);
+    }
+    
     // Handle reading message
     if (messageState.readingMessage && messageState.currentMessageId) {
       return this.handleReadingMessage(command, session, messageState);
     }
     
+    // Handle search query entry
+    if (messageState.enteringSearch) {
+      return this.handleSearchInput(command, session, messageState);
+    }
+    
+    // Handle search results
+    if (messageState.viewingSearchResults) {
+      return this.handleSearchResults(command, session, messageState);
+    }
+    
     // Handle viewing summary
     if (messageState.viewingSummary) {
       return this.handleViewingSummary(command, session, messageState);
@@ -114,6 +168,11 @@ export class MessageHandler implements CommandHandler {
       return this.handleMessageBaseCommands(command, session, messageState);
     }
     
+    // New scan from the main menu
+    if (cmd === 'N' && !messageState.showingBaseList) {
+      return this.startNewScan(session, messageState);
+    }
+    
     // Show message base list (first time or after 'M' command)
     if (cmd === 'M') {
       messageState.inMessageBase = false;
@@ -130,10 +189,83 @@ export class MessageHandler implements CommandHandler {
     return 'Unknown command in message handler.\r\n';
   }
   
+  /**
+   * Redraw the current message screen. Drafts are kept; screens waiting
+   * on a one-off answer (summaries, starters) fall back to the list.
+   */
+  async redraw(session: Session): Promise<string> {
+    const messageState = (session.data.message ?? {}) as MessageFlowState;
+    
+    if (messageState.postingMessage && messageState.replyToId) {
+      const parent = this.deps.messageService.getMessage(messageState.replyToId);
+      if (parent) {
+        return this.showReplyPrompt(parent, session);
+      }
+    }
+    
+    if (messageState.postingMessage) {
+      const b = this.getBorders(session);
+      let output = '\r\n' + b.top + b.center('POST NEW MESSAGE') + b.bot;
+      if (messageState.postStep === 'body') {
+        output += `\r\nSubject: ${messageState.draftSubject}\r\n`;
+        output += '\r\nEnter message body (or CANCEL to abort): ';
+      } else {
+        output += '\r\nEnter subject (or CANCEL to abort): ';
+      }
+      return output;
+    }
+    
+    if (messageState.viewingThread && messageState.currentMessageId) {
+      return this.showThread(session, messageState);
+    }
+    
+    if ((messageState.editingMessage || messageState.confirmingDelete) && messageState.currentMessageId) {
+      const message = this.deps.messageService.getMessage(messageState.currentMessageId);
+      if (message) {
+        return messageState.editingMessage
+          ? this.showEditPrompt(message, session, messageState)
+          : this.showDeletePrompt(message, session);
+      }
+      messageState.editingMessage = false;
+      messageState.editStep = undefined;
+      messageState.confirmingDelete = false;
+    }
+    
+    if (messageState.readingMessage && messageState.currentMessageId) {
+      const message = this.deps.messageService.getMessage(messageState.currentMessageId);
+      if (message) {
+        return this.renderMessage(message, messageState.readingLine ?? 0, session, messageState);
+      }
+      messageState.readingMessage = false;
+      messageState.currentMessageId = undefined;
+      messageState.readingLine = undefined;
+    }
+    
+    if (messageState.enteringSearch) {
+      return this.showSearchPrompt(session, messageState);
+    }
+    
+    if (messageState.viewingSearchResults) {
+      return this.showSearchResults(session, messageState);
+    }
+    
+    messageState.viewingSummary = false;
+    messageState.confirmingSummary = false;
+    messageState.viewingStarters = false;
+    messageState.viewingCatchUp = false;
+    messageState.confirmingCatchUp = false;
+    
+    if (messageState.inMessageBase && messageState.currentBaseId) {
+      return this.showMessageList(session, messageState);
+    }
+    
+    return this.showMessageBaseList(session);
+  }
+  
   /**
    * Handle message base selection from list
    */
-  private handleMessageBaseSelection(command: string, session: Session, messageState: MessageFlowState): string {
+  private async handleMessageBaseSelection(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
     const cmd = command.toUpperCase();
     
     // Return to main menu
@@ -145,6 +277,22 @@ export class MessageHandler implements CommandHandler {
       return '\r\nReturning to main menu...\r\n';
     }
     
+    // Search all message bases
+    if (cmd === 'F' || cmd === 'FIND') {
+      return this.startSearch(session, messageState, undefined);
+    }
+    
+    // Read new messages in all bases
+    if (cmd === 'N' || cmd === 'NEW') {
+      return this.startNewScan(session, messageState);
+    }
+    
+    // Mark all bases read
+    if ((cmd === 'A' || cmd === 'ALL') && session.userId) {
+      await this.deps.messageService.markAllRead(session.userId);
+      return '\r\n\x1b[32m✓ All messages marked as read.\x1b[0m\r\n' + this.showMessageBaseList(session);
+    }
+    
     // Select message base by number
     const baseNum = parseInt(cmd, 10);
     if (!isNaN(baseNum) && baseNum > 0) {
@@ -156,6 +304,7 @@ export class MessageHandler implements CommandHandler {
         messageState.showingBaseList = false;
         messageState.inMessageBase = true;
         messageState.currentBaseId = selectedBase.id;
+        messageState.listOffset = 0;
         return this.showMessageList(session, messageState);
       }
     }
@@ -164,11 +313,18 @@ export class MessageHandler implements CommandHandler {
     return '\r\nInvalid selection.\r\n\r\n' + this.showMessageBaseList(session);
   }
   
+  /**
+   * Inner frame width for the session's terminal
+   */
+  private getBoxWidth(session: Session): number {
+    return getTerminalWidth(session) - 2;
+  }
+
   /**
    * Helper to create borders
    */
-  private getBorders() {
-    const width = this.BOX_WIDTH;
+  private getBorders(session: Session) {
+    const width = this.getBoxWidth(session);
     return {
       top: '╔' + '═'.repeat(width) + '╗\r\n',
       mid: '╠' + '═'.repeat(width) + '╣\r\n',
@@ -198,8 +354,12 @@ export class MessageHandler implements CommandHandler {
   private showMessageBaseList(session: Session): string {
     const userAccessLevel = session.userId ? 10 : 0; // TODO: Get actual access level
     const bases = this.deps.messageService.getAccessibleMessageBases(userAccessLevel);
+    const unreadCounts = session.userId
+      ? this.deps.messageService.getUnreadCounts(session.userId)
+      : new Map<string, number>();
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
+    const nameWidth = Math.max(10, this.getBoxWidth(session) - 33);
     let output = '\r\n';
     output += b.top;
     output += b.center('MESSAGE BASES');
@@ -210,13 +370,20 @@ export class MessageHandler implements CommandHandler {
     } else {
       bases.forEach((base, index) => {
         const num = (index + 1).toString().padEnd(2);
-        const name = base.name.padEnd(45).substring(0, 45);
+        const name = base.name.padEnd(nameWidth).substring(0, nameWidth);
         const count = `(${base.postCount})`.padStart(6);
-        output += b.line(`${num}. ${name} ${count}`);
+        const unread = unreadCounts.get(base.id);
+        const newCount = unread ? `\x1b[1;33m${unread} new\x1b[0m` : '';
+        output += b.line(`${num}. ${name} ${count} ${newCount}`);
       });
     }
     
     output += b.empty;
+    if (session.userId) {
+      output += b.line('N. New scan of all bases');
+      output += b.line('A. Mark all messages read');
+    }
+    output += b.line('F. Find messages in all bases');
     output += b.line('Q. Return to Main Menu');
     output += b.bot;
     output += '\r\nSelect a message base (or Q to quit): ';
@@ -234,9 +401,31 @@ export class MessageHandler implements CommandHandler {
     if (cmd === 'Q' || cmd === 'QUIT') {
       messageState.inMessageBase = false;
       messageState.currentBaseId = undefined;
+      messageState.listOffset = undefined;
       return this.showMessageBaseList(session);
     }
     
+    // Page through the message list
+    if (cmd === 'N' || cmd === 'NEXT') {
+      const pageSize = this.getListPageSize(session);
+      const nextOffset = (messageState.listOffset ?? 0) + pageSize;
+      if (this.deps.messageService.getMessages(messageState.currentBaseId!, 1, nextOffset).length > 0) {
+        messageState.listOffset = nextOffset;
+      }
+      return this.showMessageList(session, messageState);
+    }
+    
+    if (cmd === 'B' || cmd === 'BACK') {
+      const pageSize = this.getListPageSize(session);
+      messageState.listOffset = Math.max(0, (messageState.listOffset ?? 0) - pageSize);
+      return this.showMessageList(session, messageState);
+    }
+    
+    // Search this message base
+    if (cmd === 'F' || cmd === 'FIND') {
+      return this.startSearch(session, messageState, messageState.currentBaseId);
+    }
+    
     // Post new message
     if (cmd === 'P' || cmd === 'POST') {
       return await this.startPostingMessage(session, messageState);
@@ -282,9 +471,15 @@ export class MessageHandler implements CommandHandler {
       return '\r\nMessage base not found.\r\n\r\n' + this.showMessageBaseList(session);
     }
     
-    const messages = this.deps.messageService.getMessages(messageState.currentBaseId, 20);
+    // Fetch one extra message to tell whether there is another page
+    const pageSize = this.getListPageSize(session);
+    const offset = messageState.listOffset ?? 0;
+    const page = this.deps.messageService.getMessages(messageState.currentBaseId, pageSize + 1, offset);
+    const hasMore = page.length > pageSize;
+    const messages = page.slice(0, pageSize);
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
+    const subjectWidth = Math.max(10, this.getBoxWidth(session) - 33);
     let output = '\r\n';
     output += b.top;
     output += b.center(base.name);
@@ -294,8 +489,8 @@ export class MessageHandler implements CommandHandler {
       output += b.line('No messages yet. Be the first to post!');
     } else {
       messages.forEach((msg, index) => {
-        const num = (index + 1).toString().padEnd(3);
-        const subject = msg.subject.padEnd(45).substring(0, 45);
+        const num = (offset + index + 1).toString().padEnd(3);
+        const subject = msg.subject.padEnd(subjectWidth).substring(0, subjectWidth);
         const author = (msg.authorHandle || 'Unknown').padEnd(15).substring(0, 15);
         output += b.line(`${num} ${subject} ${author}`);
       });
@@ -317,6 +512,14 @@ export class MessageHandler implements CommandHandler {
     menuText += '  [U] Catch Me Up  [S] Summarize  [Q] Back';
     
     output += b.line(menuText);
+    
+    let navText = '[F] Find';
+    if (hasMore || offset > 0) {
+      navText += `  Messages ${offset + 1}-${offset + messages.length}`;
+      if (hasMore) navText += '  [N] Next page';
+      if (offset > 0) navText += '  [B] Previous page';
+    }
+    output += b.line(navText);
     output += b.bot;
     output += '\r\nCommand: ';
     
@@ -331,33 +534,97 @@ export class MessageHandler implements CommandHandler {
       return '\r\nError: No message base selected.\r\n';
     }
     
-    const messages = this.deps.messageService.getMessages(messageState.currentBaseId, 20);
+    const [message] = this.deps.messageService.getMessages(messageState.currentBaseId, 1, messageNum - 1);
     
-    if (messageNum < 1 || messageNum > messages.length) {
+    if (!message) {
       return '\r\nInvalid message number.\r\n\r\n' + this.showMessageList(session, messageState);
     }
     
-    const message = messages[messageNum - 1];
-    
+    return this.openMessage(message, session, messageState);
+  }
+  
+  /**
+   * Show a message from the top and mark it read
+   */
+  private openMessage(message: Message, session: Session, messageState: MessageFlowState): string {
     messageState.readingMessage = true;
     messageState.currentMessageId = message.id;
+    messageState.readingLine = undefined;
+    this.markRead(session, message);
     
-    const b = this.getBorders();
+    return this.renderMessage(message, 0, session, messageState);
+  }
+  
+  /**
+   * Move the caller's read position past a message they have opened
+   */
+  private markRead(session: Session, message: Message): void {
+    if (session.userId) {
+      this.deps.messageService.markMessageRead(session.userId, message.id);
+    }
+  }
+  
+  /**
+   * Render a message's header and the first screenful of its body from
+   * the given line
+   */
+  private renderMessage(message: Message, fromLine: number, session: Session, messageState: MessageFlowState): string {
+    const b = this.getBorders(session);
     let output = '\r\n';
     output += b.top;
     output += b.line(`From: ${(message.authorHandle || 'Unknown')}`);
     output += b.line(`Subject: ${message.subject}`);
     output += b.line(`Date: ${message.createdAt.toLocaleString()}`);
+    
+    let headerRows = MESSAGE_HEADER_ROWS;
+    const thread = this.deps.messageService.getThreadMessages(message.id);
+    if (thread.length > 1) {
+      const position = thread.findIndex(m => m.id === message.id) + 1;
+      output += b.line(`Thread: message ${position} of ${thread.length}`);
+      headerRows++;
+    }
     output += b.mid;
     
+    const rows = Math.max(MIN_PAGE_ROWS, getTerminalHeight(session) - headerRows);
+    return output + this.renderMessageBody(message, fromLine, rows, session, messageState);
+  }
+  
+  /**
+   * Render one screenful of a message body, closing the frame and
+   * prompting for more if the body runs past the bottom of the screen
+   */
+  private renderMessageBody(
+    message: Message,
+    fromLine: number,
+    rows: number,
+    session: Session,
+    messageState: MessageFlowState
+  ): string {
+    const b = this.getBorders(session);
+    
     // Word wrap the body
-    const lines = this.wordWrap(message.body, this.BOX_WIDTH - 4);
-    lines.forEach(line => {
+    const lines = this.wordWrap(message.body, this.getBoxWidth(session) - 4);
+    const endLine = Math.min(lines.length, fromLine + rows);
+    
+    let output = '';
+    lines.slice(fromLine, endLine).forEach(line => {
       output += b.line(line);
     });
-    
     output += b.bot;
-    output += '\r\nPress Enter to continue: ';
+    
+    if (endLine < lines.length) {
+      messageState.readingLine = endLine;
+      output += '\r\n-- More -- [Enter] Continue, [Q] Stop: ';
+    } else {
+      messageState.readingLine = undefined;
+      output += '\r\n[R] Reply  [T] Thread  [N] Next in thread  [P] Parent';
+      if (session.userId && message.userId === session.userId) {
+        output += '  [E] Edit  [D] Delete';
+      }
+      output += messageState.scanningNew
+        ? '\r\n[Enter] Next new message, [S] Skip base, [Q] Stop scan: '
+        : '\r\nPress Enter to continue: ';
+    }
     
     return output;
   }
@@ -365,13 +632,622 @@ export class MessageHandler implements CommandHandler {
   /**
    * Handle reading message state
    */
-  private handleReadingMessage(command: string, session: Session, messageState: MessageFlowState): string {
+  private async handleReadingMessage(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
+    const cmd = command.toUpperCase();
+    
+    const threadOutput = await this.handleThreadCommand(cmd, session, messageState);
+    if (threadOutput !== undefined) {
+      return threadOutput;
+    }
+    
+    if (['E', 'EDIT', 'D', 'DELETE'].includes(cmd)) {
+      const message = this.deps.messageService.getMessage(messageState.currentMessageId!);
+      if (message) {
+        return this.startModifying(message, cmd.startsWith('E'), session, messageState);
+      }
+    }
+    
+    const skipping = messageState.scanningNew && (cmd === 'S' || cmd === 'SKIP');
+    
+    // Continue a message that spans more than one screen
+    if (messageState.readingLine !== undefined && cmd !== 'Q' && cmd !== 'QUIT' && !skipping) {
+      const message = this.deps.messageService.getMessage(messageState.currentMessageId!);
+      if (message) {
+        const b = this.getBorders(session);
+        const rows = Math.max(MIN_PAGE_ROWS, getTerminalHeight(session) - CONTINUATION_CHROME_ROWS);
+        return '\r\n' + b.top + this.renderMessageBody(message, messageState.readingLine, rows, session, messageState);
+      }
+    }
+    
     messageState.readingMessage = false;
     messageState.currentMessageId = undefined;
+    messageState.readingLine = undefined;
+    
+    // On to the next unread message during a new scan
+    if (messageState.scanningNew) {
+      if (cmd === 'Q' || cmd === 'QUIT') {
+        return this.endNewScan(session, messageState, 'New scan stopped.');
+      }
+      if (skipping) {
+        messageState.scanBaseIndex = (messageState.scanBaseIndex ?? 0) + 1;
+      }
+      return this.showNextNewMessage(session, messageState);
+    }
+    
+    // Back to the hits if the message was opened from a search
+    if (messageState.viewingSearchResults) {
+      return this.showSearchResults(session, messageState);
+    }
+    
+    return this.showMessageList(session, messageState);
+  }
+  
+  /**
+   * Handle reply and thread navigation on the reading screen. Returns
+   * undefined for commands that are not about the thread.
+   */
+  private async handleThreadCommand(cmd: string, session: Session, messageState: MessageFlowState): Promise<string | undefined> {
+    if (!['R', 'REPLY', 'T', 'THREAD', 'N', 'NEXT', 'P', 'PARENT'].includes(cmd)) {
+      return undefined;
+    }
+    
+    const message = this.deps.messageService.getMessage(messageState.currentMessageId!);
+    if (!message) {
+      return undefined;
+    }
+    
+    if (cmd === 'R' || cmd === 'REPLY') {
+      return this.startReply(message, session, messageState);
+    }
+    
+    if (cmd === 'T' || cmd === 'THREAD') {
+      messageState.viewingThread = true;
+      messageState.threadOffset = undefined;
+      return this.showThread(session, messageState);
+    }
+    
+    if (cmd === 'N' || cmd === 'NEXT') {
+      const thread = this.deps.messageService.getThreadMessages(message.id);
+      const next = thread[thread.findIndex(m => m.id === message.id) + 1];
+      if (!next) {
+        return '\r\n\x1b[33mNo more messages in this thread.\x1b[0m\r\n' + this.openMessage(message, session, messageState);
+      }
+      return this.openMessage(next, session, messageState);
+    }
+    
+    const parent = message.parentId ? this.deps.messageService.getMessage(message.parentId) : null;
+    if (!parent) {
+      const notice = message.parentId ? 'The message this replies to was deleted.' : 'This message starts the thread.';
+      return `\r\n\x1b[33m${notice}\x1b[0m\r\n` + this.openMessage(message, session, messageState);
+    }
+    return this.openMessage(parent, session, messageState);
+  }
+  
+  /**
+   * Show the thread around the current message as an indented tree
+   */
+  private showThread(session: Session, messageState: MessageFlowState): string {
+    const entries = this.getThreadEntries(messageState.currentMessageId!);
+    const pageSize = this.getListPageSize(session);
+    const offset = messageState.threadOffset ?? 0;
+    const page = entries.slice(offset, offset + pageSize);
+    
+    const b = this.getBorders(session);
+    const subjectWidth = Math.max(10, this.getBoxWidth(session) - 24);
+    let output = '\r\n';
+    output += b.top;
+    output += b.center(`THREAD: ${entries[0]?.message.subject ?? ''}`);
+    output += b.mid;
+    
+    page.forEach((entry, index) => {
+      const num = (offset + index + 1).toString().padEnd(3);
+      const depth = Math.min(entry.depth, MAX_THREAD_INDENT);
+      const branch = depth > 0 ? '  '.repeat(depth - 1) + '└ ' : '';
+      const subject = (branch + entry.message.subject).padEnd(subjectWidth).substring(0, subjectWidth);
+      const author = (entry.message.isDeleted || entry.message.isHeld ? '' : entry.message.authorHandle || 'Unknown').padEnd(15).substring(0, 15);
+      const text = `${num} ${subject} ${author}`;
+      output += b.line(entry.message.id === messageState.currentMessageId ? `\x1b[1;33m${text}\x1b[0m` : text);
+    });
+    
+    output += b.empty;
+    let navText = '[#] Read  [Q] Back to message';
+    if (offset + pageSize < entries.length) navText += '  [N] Next page';
+    if (offset > 0) navText += '  [B] Previous page';
+    output += b.line(navText);
+    output += b.bot;
+    output += '\r\nCommand: ';
+    
+    return output;
+  }
+  
+  /**
+   * Handle commands on the thread tree
+   */
+  private handleThreadView(command: string, session: Session, messageState: MessageFlowState): string {
+    const cmd = command.toUpperCase();
+    const pageSize = this.getListPageSize(session);
+    const entries = this.getThreadEntries(messageState.currentMessageId!);
+    
+    if (cmd === 'N' || cmd === 'NEXT') {
+      const nextOffset = (messageState.threadOffset ?? 0) + pageSize;
+      if (nextOffset < entries.length) {
+        messageState.threadOffset = nextOffset;
+      }
+      return this.showThread(session, messageState);
+    }
+    
+    if (cmd === 'B' || cmd === 'BACK') {
+      messageState.threadOffset = Math.max(0, (messageState.threadOffset ?? 0) - pageSize);
+      return this.showThread(session, messageState);
+    }
+    
+    const entryNum = parseInt(cmd, 10);
+    if (!isNaN(entryNum) && entryNum > 0) {
+      const entry = entries[entryNum - 1];
+      const message = entry && !entry.message.isDeleted && !entry.message.isHeld
+        ? this.deps.messageService.getMessage(entry.message.id)
+        : null;
+      if (!message) {
+        return '\r\nInvalid message number.\r\n' + this.showThread(session, messageState);
+      }
+      
+      messageState.viewingThread = false;
+      messageState.threadOffset = undefined;
+      return this.openMessage(message, session, messageState);
+    }
+    
+    // Anything else goes back to the message the tree was opened from
+    messageState.viewingThread = false;
+    messageState.threadOffset = undefined;
+    const current = this.deps.messageService.getMessage(messageState.currentMessageId!);
+    if (current) {
+      return this.openMessage(current, session, messageState);
+    }
     
+    messageState.readingMessage = false;
+    messageState.currentMessageId = undefined;
     return this.showMessageList(session, messageState);
   }
   
+  /**
+   * Flatten the thread containing a message into tree order with depths
+   */
+  private getThreadEntries(messageId: string): Array<{ message: Message; depth: number }> {
+    const thread = this.deps.messageService.getThread(messageId);
+    const entries: Array<{ message: Message; depth: number }> = [];
+    
+    const visit = (node: MessageThread, depth: number) => {
+      entries.push({ message: node.message, depth });
+      node.replies.forEach(reply => visit(reply, depth + 1));
+    };
+    if (thread) visit(thread, 0);
+    
+    return entries;
+  }
+  
+  /**
+   * Start replying to a message, quoting it
+   */
+  private async startReply(message: Message, session: Session, messageState: MessageFlowState): Promise<string> {
+    if (!session.userId) {
+      return '\r\n\x1b[33m⚠ You must be logged in to reply.\x1b[0m\r\n' +
+             this.openMessage(message, session, messageState);
+    }
+    
+    const canWrite = await this.deps.messageService.canUserWriteBase(session.userId, message.baseId);
+    if (!canWrite) {
+      return '\r\n\x1b[33m⚠ You do not have permission to post in this message base.\x1b[0m\r\n' +
+             this.openMessage(message, session, messageState);
+    }
+    
+    messageState.postingMessage = true;
+    messageState.postStep = 'body';
+    messageState.replyToId = message.id;
+    messageState.draftSubject = this.deps.messageService.draftReply(message).subject;
+    
+    return this.showReplyPrompt(message, session);
+  }
+  
+  /**
+   * Show the reply header with the quote that will open the reply
+   */
+  private showReplyPrompt(parent: Message, session: Session): string {
+    const b = this.getBorders(session);
+    const draft = this.deps.messageService.draftReply(parent);
+    
+    let output = '\r\n' + b.top + b.center('REPLY') + b.mid;
+    output += b.line(`Subject: ${draft.subject}`);
+    output += b.empty;
+    draft.quote.split('\n').forEach(line => {
+      this.wordWrap(line, this.getBoxWidth(session) - 4).forEach(wrapped => {
+        output += b.line(`\x1b[36m${wrapped}\x1b[0m`);
+      });
+    });
+    output += b.bot;
+    output += '\r\nYour reply follows the quote above.';
+    output += '\r\nEnter your reply (or CANCEL to abort): ';
+    
+    return output;
+  }
+  
+  /**
+   * Start editing or deleting a message, if the caller is its author
+   * within the edit window or a sysop
+   */
+  private async startModifying(
+    message: Message,
+    editing: boolean,
+    session: Session,
+    messageState: MessageFlowState
+  ): Promise<string> {
+    const allowed = await this.deps.messageService.canModifyMessage(session.userId, message);
+    if (!allowed) {
+      const action = editing ? 'edit' : 'delete';
+      return `\r\n\x1b[33m⚠ You can no longer ${action} this message.\x1b[0m\r\n` +
+             this.openMessage(message, session, messageState);
+    }
+    
+    if (editing) {
+      messageState.editingMessage = true;
+      messageState.editStep = 'subject';
+      return this.showEditPrompt(message, session, messageState);
+    }
+    
+    messageState.confirmingDelete = true;
+    return this.showDeletePrompt(message, session);
+  }
+  
+  /**
+   * Show the edit header and the prompt for the current step
+   */
+  private showEditPrompt(message: Message, session: Session, messageState: MessageFlowState): string {
+    const b = this.getBorders(session);
+    let output = '\r\n' + b.top + b.center('EDIT MESSAGE') + b.mid;
+    output += b.line(`Subject: ${messageState.draftSubject ?? message.subject}`);
+    output += b.bot;
+    
+    output += messageState.editStep === 'body'
+      ? '\r\nEnter new message body (Enter to keep, CANCEL to abort): '
+      : '\r\nEnter new subject (Enter to keep, CANCEL to abort): ';
+    
+    return output;
+  }
+  
+  /**
+   * Handle the edit flow: a new subject, then a new body. A blank answer
+   * keeps what is there.
+   */
+  private async handleEditFlow(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
+    const message = this.deps.messageService.getMessage(messageState.currentMessageId!);
+    
+    if (!message || command.toUpperCase() === 'CANCEL') {
+      messageState.editingMessage = false;
+      messageState.editStep = undefined;
+      messageState.draftSubject = undefined;
+      if (!message) {
+        return '\r\n\x1b[31m✗ The message has been deleted.\x1b[0m\r\n' + await this.closeMessage(session, messageState);
+      }
+      return '\r\n\x1b[33mEdit cancelled.\x1b[0m\r\n' + this.openMessage(message, session, messageState);
+    }
+    
+    if (messageState.editStep === 'subject') {
+      messageState.draftSubject = command.trim() || message.subject;
+      messageState.editStep = 'body';
+      return '\r\nEnter new message body (Enter to keep, CANCEL to abort): ';
+    }
+    
+    const subject = messageState.draftSubject ?? message.subject;
+    messageState.editingMessage = false;
+    messageState.editStep = undefined;
+    messageState.draftSubject = undefined;
+    
+    try {
+      const updated = await this.deps.messageService.editMessage(message.id, session.userId!, {
+        subject,
+        body: command.trim() || message.body
+      });
+      
+      const edited = updated.isHeld
+        ? '\r\n\x1b[33m✓ Message updated. It will appear again once it has been reviewed.\x1b[0m\r\n'
+        : '\r\n\x1b[32m✓ Message updated.\x1b[0m\r\n';
+      return edited + this.openMessage(updated, session, messageState);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      return `\r\n\x1b[31m✗ Error editing message: ${errorMsg}\x1b[0m\r\n` +
+             this.openMessage(message, session, messageState);
+    }
+  }
+  
+  /**
+   * Ask before deleting a message
+   */
+  private showDeletePrompt(message: Message, session: Session): string {
+    const b = this.getBorders(session);
+    return '\r\n' + b.top + b.center('DELETE MESSAGE') + b.mid +
+           b.line(`Subject: ${message.subject}`) +
+           b.bot +
+           '\r\nDelete this message? (Y/N): ';
+  }
+  
+  /**
+   * Handle the answer to the delete prompt
+   */
+  private async handleConfirmingDelete(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
+    messageState.confirmingDelete = false;
+    
+    const message = this.deps.messageService.getMessage(messageState.currentMessageId!);
+    if (!message) {
+      return this.closeMessage(session, messageState);
+    }
+    
+    const cmd = command.toUpperCase();
+    if (cmd !== 'Y' && cmd !== 'YES') {
+      return this.openMessage(message, session, messageState);
+    }
+    
+    try {
+      await this.deps.messageService.deleteMessage(message.id, session.userId!);
+      return '\r\n\x1b[32m✓ Message deleted.\x1b[0m\r\n' + await this.closeMessage(session, messageState);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      return `\r\n\x1b[31m✗ Error deleting message: ${errorMsg}\x1b[0m\r\n` +
+             this.openMessage(message, session, messageState);
+    }
+  }
+  
+  /**
+   * Stop reading and go back to wherever the message was opened from
+   */
+  private async closeMessage(session: Session, messageState: MessageFlowState): Promise<string> {
+    messageState.readingMessage = false;
+    messageState.currentMessageId = undefined;
+    messageState.readingLine = undefined;
+    
+    if (messageState.scanningNew) {
+      return this.showNextNewMessage(session, messageState);
+    }
+    if (messageState.viewingSearchResults) {
+      return this.showSearchResults(session, messageState);
+    }
+    return this.showMessageList(session, messageState);
+  }
+  
+  /**
+   * Start walking unread messages across every base the caller can read
+   */
+  private async startNewScan(session: Session, messageState: MessageFlowState): Promise<string> {
+    if (!session.userId) {
+      return '\r\n\x1b[33m⚠ You must be logged in to scan for new messages.\x1b[0m\r\n';
+    }
+    
+    messageState.inMessageBase = false;
+    messageState.currentBaseId = undefined;
+    messageState.showingBaseList = true;
+    messageState.scanningNew = true;
+    messageState.scanBaseIndex = 0;
+    
+    return this.showNextNewMessage(session, messageState);
+  }
+  
+  /**
+   * Show the oldest unread message in the current scan base, moving on
+   * to later bases once it has nothing left. Reading a message marks it
+   * read, so each call picks up where the last one stopped.
+   */
+  private async showNextNewMessage(session: Session, messageState: MessageFlowState): Promise<string> {
+    const bases = await this.deps.messageService.getAccessibleMessageBasesForUser(session.userId);
+    
+    while ((messageState.scanBaseIndex ?? 0) < bases.length) {
+      const base = bases[messageState.scanBaseIndex ?? 0];
+      const [message] = this.deps.messageService.getUnreadMessages(session.userId!, base.id, 1);
+      
+      if (message) {
+        const remaining = this.deps.messageService.getUnreadCounts(session.userId!).get(base.id) ?? 1;
+        const heading = `\r\n\x1b[36m${base.name}\x1b[0m - ${remaining} new message${remaining !== 1 ? 's' : ''}\r\n`;
+        return heading + this.openMessage(message, session, messageState);
+      }
+      
+      messageState.scanBaseIndex = (messageState.scanBaseIndex ?? 0) + 1;
+    }
+    
+    return this.endNewScan(session, messageState, 'No more new messages.');
+  }
+  
+  /**
+   * Finish a new scan and go back to the message base list
+   */
+  private endNewScan(session: Session, messageState: MessageFlowState, notice: string): string {
+    messageState.scanningNew = false;
+    messageState.scanBaseIndex = undefined;
+    
+    return `\r\n\x1b[32m${notice}\x1b[0m\r\n` + this.showMessageBaseList(session);
+  }
+  
+  /**
+   * Number of messages listed per page at the session's screen height
+   */
+  private getListPageSize(session: Session): number {
+    return Math.max(MIN_PAGE_ROWS, getTerminalHeight(session) - LIST_CHROME_ROWS);
+  }
+  
+  /**
+   * Start a search of one message base, or all of them
+   */
+  private startSearch(session: Session, messageState: MessageFlowState, baseId: string | undefined): string {
+    messageState.enteringSearch = true;
+    messageState.searchBaseId = baseId;
+    return this.showSearchPrompt(session, messageState);
+  }
+  
+  /**
+   * Show the search query prompt
+   */
+  private showSearchPrompt(session: Session, messageState: MessageFlowState): string {
+    const base = messageState.searchBaseId
+      ? this.deps.messageService.getMessageBase(messageState.searchBaseId)
+      : null;
+    
+    const b = this.getBorders(session);
+    return '\r\n' + b.top +
+           b.center(base ? `SEARCH ${base.name.toUpperCase()}` : 'SEARCH ALL MESSAGE BASES') +
+           b.bot +
+           '\r\nSearch for (word* matches prefixes, CANCEL to abort): ';
+  }
+  
+  /**
+   * Handle the search query
+   */
+  private async handleSearchInput(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
+    const query = command.trim();
+    
+    if (!query || query.toUpperCase() === 'CANCEL') {
+      return this.leaveSearch(session, messageState);
+    }
+    
+    messageState.enteringSearch = false;
+    messageState.searchQuery = query;
+    messageState.searchOffset = 0;
+    messageState.viewingSearchResults = true;
+    
+    return this.showSearchResults(session, messageState);
+  }
+  
+  /**
+   * Handle commands on the search results screen
+   */
+  private async handleSearchResults(command: string, session: Session, messageState: MessageFlowState): Promise<string> {
+    const cmd = command.toUpperCase();
+    const pageSize = this.getSearchPageSize(session);
+    
+    if (cmd === 'Q' || cmd === 'QUIT') {
+      return this.leaveSearch(session, messageState);
+    }
+    
+    if (cmd === 'F' || cmd === 'FIND') {
+      messageState.viewingSearchResults = false;
+      messageState.searchQuery = undefined;
+      return this.startSearch(session, messageState, messageState.searchBaseId);
+    }
+    
+    if (cmd === 'N' || cmd === 'NEXT') {
+      const { total } = await this.search(session, messageState, 0, 0);
+      const nextOffset = (messageState.searchOffset ?? 0) + pageSize;
+      if (nextOffset < total) {
+        messageState.searchOffset = nextOffset;
+      }
+      return this.showSearchResults(session, messageState);
+    }
+    
+    if (cmd === 'B' || cmd === 'BACK') {
+      messageState.searchOffset = Math.max(0, (messageState.searchOffset ?? 0) - pageSize);
+      return this.showSearchResults(session, messageState);
+    }
+    
+    // Read a hit by number
+    const hitNum = parseInt(cmd, 10);
+    if (!isNaN(hitNum) && hitNum > 0) {
+      const { results: [hit] } = await this.search(session, messageState, 1, hitNum - 1);
+      if (!hit) {
+        return '\r\nInvalid result number.\r\n\r\n' + await this.showSearchResults(session, messageState);
+      }
+      
+      return this.openMessage(hit, session, messageState);
+    }
+    
+    return this.showSearchResults(session, messageState);
+  }
+  
+  /**
+   * Leave search and go back to where it was started
+   */
+  private leaveSearch(session: Session, messageState: MessageFlowState): string {
+    messageState.enteringSearch = false;
+    messageState.viewingSearchResults = false;
+    messageState.searchQuery = undefined;
+    messageState.searchBaseId = undefined;
+    messageState.searchOffset = undefined;
+    
+    if (messageState.inMessageBase && messageState.currentBaseId) {
+      return this.showMessageList(session, messageState);
+    }
+    return this.showMessageBaseList(session);
+  }
+  
+  /**
+   * Run the session's current search
+   */
+  private search(session: Session, messageState: MessageFlowState, limit: number, offset: number) {
+    return this.deps.messageService.searchMessages(
+      session.userId,
+      messageState.searchQuery ?? '',
+      { baseId: messageState.searchBaseId },
+      limit,
+      offset,
+      SEARCH_HIGHLIGHT
+    );
+  }
+  
+  /**
+   * Number of search hits shown per page at the session's screen height
+   */
+  private getSearchPageSize(session: Session): number {
+    return Math.max(2, Math.floor((getTerminalHeight(session) - SEARCH_CHROME_ROWS) / SEARCH_HIT_ROWS));
+  }
+  
+  /**
+   * Show a page of ranked search hits with highlighted snippets
+   */
+  private async showSearchResults(session: Session, messageState: MessageFlowState): Promise<string> {
+    const pageSize = this.getSearchPageSize(session);
+    const offset = messageState.searchOffset ?? 0;
+    
+    let page;
+    try {
+      page = await this.search(session, messageState, pageSize, offset);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      return `\r\n\x1b[31m✗ ${errorMsg}\x1b[0m\r\n` + this.leaveSearch(session, messageState);
+    }
+    const { results, total } = page;
+    
+    const b = this.getBorders(session);
+    const innerWidth = this.getBoxWidth(session) - 4;
+    let output = '\r\n';
+    output += b.top;
+    output += b.center(`SEARCH: ${messageState.searchQuery}`);
+    output += b.mid;
+    
+    if (results.length === 0) {
+      output += b.line('No messages found.');
+    } else {
+      results.forEach((hit, index) => {
+        const num = (offset + index + 1).toString().padEnd(3);
+        const where = `${hit.authorHandle || 'Unknown'} in ${hit.baseName || 'Unknown'}`;
+        const subjectWidth = Math.max(10, innerWidth - 4 - where.length - 2);
+        const subject = hit.subject.length > subjectWidth ? hit.subject.substring(0, subjectWidth - 3) + '...' : hit.subject;
+        output += b.line(`${num} ${subject}  \x1b[90m${where}\x1b[0m`);
+        
+        const snippet = hit.snippet.replace(/\s+/g, ' ');
+        this.wordWrap(snippet, innerWidth - 4).slice(0, SEARCH_HIT_ROWS - 1).forEach(line => {
+          output += b.line(`    ${line}`);
+        });
+      });
+    }
+    
+    output += b.empty;
+    output += b.line('[#] Read  [F] New search  [Q] Back');
+    if (total > results.length || offset > 0) {
+      let pageText = `Results ${offset + 1}-${offset + results.length} of ${total}`;
+      if (offset + results.length < total) pageText += '  [N] Next page';
+      if (offset > 0) pageText += '  [B] Previous page';
+      output += b.line(pageText);
+    }
+    output += b.bot;
+    output += '\r\nCommand: ';
+    
+    return output;
+  }
+  
   /**
    * Start posting a new message
    */
@@ -400,7 +1276,7 @@ export class MessageHandler implements CommandHandler {
     messageState.postingMessage = true;
     messageState.postStep = 'subject';
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     return '\r\n' + b.top +
            b.center('POST NEW MESSAGE') +
            b.bot +
@@ -415,9 +1291,16 @@ export class MessageHandler implements CommandHandler {
       messageState.postingMessage = false;
       messageState.postStep = undefined;
       messageState.draftSubject = undefined;
+      if (messageState.replyToId) {
+        return '\r\n\x1b[33mReply cancelled.\x1b[0m\r\n' + this.finishReply(session, messageState);
+      }
       return '\r\n\x1b[33mPost cancelled.\x1b[0m\r\n\r\n' + this.showMessageList(session, messageState);
     }
     
+    if (messageState.replyToId) {
+      return this.handleReplyBody(command, session, messageState);
+    }
+    
     if (messageState.postStep === 'subject') {
       if (!command.trim()) {
         return '\r\n\x1b[33m⚠ Subject cannot be empty.\x1b[0m\r\nEnter subject (or CANCEL to abort): ';
@@ -439,7 +1322,7 @@ export class MessageHandler implements CommandHandler {
         // Show loading indicator
         const posting = '\r\n⏳ Posting message...\r\n';
         
-        this.deps.messageService.postMessage({
+        const message = this.deps.messageService.postMessage({
           baseId: messageState.currentBaseId!,
           userId: session.userId!,
           subject: messageState.draftSubject!,
@@ -450,8 +1333,10 @@ export class MessageHandler implements CommandHandler {
         messageState.postStep = undefined;
         messageState.draftSubject = undefined;
         
-        return posting + '\r\n\x1b[32m✓ Message posted successfully!\x1b[0m\r\n\r\n' + 
-               this.showMessageList(session, messageState);
+        const posted = message.isHeld
+          ? '\r\n\x1b[33m✓ Message received. It will appear once it has been reviewed.\x1b[0m\r\n\r\n'
+          : '\r\n\x1b[32m✓ Message posted successfully!\x1b[0m\r\n\r\n';
+        return posting + posted + this.showMessageList(session, messageState);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         
@@ -475,6 +1360,64 @@ export class MessageHandler implements CommandHandler {
     return '\r\nUnknown posting state.\r\n';
   }
   
+  /**
+   * Post the reply body under the quote of the parent
+   */
+  private handleReplyBody(command: string, session: Session, messageState: MessageFlowState): string {
+    if (!command.trim()) {
+      return '\r\n\x1b[33m⚠ Reply cannot be empty.\x1b[0m\r\nEnter your reply (or CANCEL to abort): ';
+    }
+    
+    const parent = this.deps.messageService.getMessage(messageState.replyToId!);
+    messageState.postingMessage = false;
+    messageState.postStep = undefined;
+    messageState.draftSubject = undefined;
+    
+    if (!parent) {
+      return '\r\n\x1b[31m✗ The message you were replying to has been deleted.\x1b[0m\r\n' +
+             this.finishReply(session, messageState);
+    }
+    
+    try {
+      const draft = this.deps.messageService.draftReply(parent);
+      const reply = this.deps.messageService.postMessage({
+        baseId: parent.baseId,
+        userId: session.userId!,
+        subject: draft.subject,
+        body: `${draft.quote}\n\n${command.trim()}`,
+        parentId: parent.id
+      });
+      
+      const posted = reply.isHeld
+        ? '\r\n\x1b[33m✓ Reply received. It will appear once it has been reviewed.\x1b[0m\r\n'
+        : '\r\n\x1b[32m✓ Reply posted successfully!\x1b[0m\r\n';
+      return posted + this.finishReply(session, messageState);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const userMessage = errorMsg.includes('Rate limit')
+        ? 'You are posting too quickly. Please wait a moment and try again.'
+        : `Error posting reply: ${errorMsg}`;
+      
+      return `\r\n\x1b[31m✗ ${userMessage}\x1b[0m\r\n` + this.finishReply(session, messageState);
+    }
+  }
+  
+  /**
+   * Leave the reply flow and go back to the message being replied to
+   */
+  private finishReply(session: Session, messageState: MessageFlowState): string {
+    const parent = this.deps.messageService.getMessage(messageState.replyToId!);
+    messageState.replyToId = undefined;
+    
+    if (parent) {
+      return this.openMessage(parent, session, messageState);
+    }
+    
+    messageState.readingMessage = false;
+    messageState.currentMessageId = undefined;
+    return this.showMessageList(session, messageState);
+  }
+  
   /**
    * Show conversation starters
    */
@@ -493,13 +1436,14 @@ export class MessageHandler implements CommandHandler {
       return '\r\n\x1b[31m✗ Error: Message base not found.\x1b[0m\r\n';
     }
     
-    // Check cache first (cache for 1 hour)
+    // Check cache first (cache for 1 hour). A resumed session holds the
+    // timestamp as an ISO string.
     const CACHE_DURATION_MS = 60 * 60 * 1000; // 1 hour
     const now = new Date();
     
     if (messageState.cachedStarters && 
         messageState.startersGeneratedAt &&
-        (now.getTime() - messageState.startersGeneratedAt.getTime()) < CACHE_DURATION_MS) {
+        (now.getTime() - new Date(messageState.startersGeneratedAt).getTime()) < CACHE_DURATION_MS) {
       // Use cached starters
       messageState.viewingStarters = true;
       return this.displayConversationStarters(messageState.cachedStarters, session, messageState);
@@ -568,7 +1512,7 @@ export class MessageHandler implements CommandHandler {
    * Display conversation starters
    */
   private displayConversationStarters(starters: any[], session: Session, messageState: MessageFlowState): string {
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     let output = '';
     output += b.top;
     output += b.center('\x1b[36m💡 CONVERSATION STARTERS\x1b[0m');
@@ -582,7 +1526,7 @@ export class MessageHandler implements CommandHandler {
       const question = starter.question;
       
       // Word wrap the question to fit in the frame
-      const lines = this.wordWrap(question, this.BOX_WIDTH - 6);
+      const lines = this.wordWrap(question, this.getBoxWidth(session) - 6);
       lines.forEach((line, lineIndex) => {
         if (lineIndex === 0) {
           output += b.line(`  \x1b[33m${num}.\x1b[0m ${line}`);
@@ -628,7 +1572,7 @@ export class MessageHandler implements CommandHandler {
         // Skip to body prompt since we already have the subject
         messageState.postStep = 'body';
         
-        const b = this.getBorders();
+        const b = this.getBorders(session);
         return '\r\n' + b.top +
                b.center('POST NEW MESSAGE') +
                b.bot +
@@ -646,22 +1590,29 @@ export class MessageHandler implements CommandHandler {
    * Word wrap text to fit width
    */
   private wordWrap(text: string, width: number): string[] {
-    const words = text.split(' ');
     const lines: string[] = [];
-    let currentLine = '';
     
-    for (const word of words) {
-      // Use ANSIWidthCalculator to determine if line fits
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      if (ANSIWidthCalculator.calculate(testLine) <= width) {
-        currentLine = testLine;
-      } else {
-        if (currentLine) lines.push(currentLine);
-        currentLine = word;
+    // Wrap each line of the text on its own so line breaks are kept
+    for (const paragraph of text.split('\n')) {
+      const words = paragraph.split(' ');
+      let currentLine = '';
+      
+      for (const word of words) {
+        // Use ANSIWidthCalculator to determine if line fits
+        const testLine = currentLine ? `${currentLine} ${word}` : word;
+        if (ANSIWidthCalculator.calculate(testLine) <= width) {
+          currentLine = testLine;
+        } else {
+          if (currentLine) lines.push(currentLine);
+          currentLine = word;
+        }
       }
+      
+      lines.push(currentLine);
     }
     
-    if (currentLine) lines.push(currentLine);
+    // Drop trailing blank lines
+    while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
     
     return lines;
   }
@@ -688,7 +1639,7 @@ export class MessageHandler implements CommandHandler {
     
     messageState.confirmingSummary = true;
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     let output = '\r\n';
     output += b.top;
     output += b.center('THREAD SUMMARIZATION');
@@ -735,15 +1686,18 @@ export class MessageHandler implements CommandHandler {
         messageBaseId: messageState.currentBaseId,
         messageBaseName: base?.name || 'Message Base',
         maxMessages: 50,
+        userId: session.userId,
       });
       
-      const formatted = this.deps.messageSummarizer.formatSummary(summary, TERMINAL_WIDTH);
+      const formatted = this.deps.messageSummarizer.formatSummary(summary, getTerminalWidth(session));
       
       messageState.viewingSummary = true;
       
       return output + formatted.framed + '\r\n\r\nPress Enter to continue: ';
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const errorMsg = error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED'
+        ? error.getUserMessage()
+        : error instanceof Error ? error.message : 'Unknown error';
       
       return output + 
              `\r\n\x1b[31m✗ Error generating summary: ${errorMsg}\x1b[0m\r\n\r\n` +
@@ -783,14 +1737,9 @@ export class MessageHandler implements CommandHandler {
       return '\r\n\x1b[31m✗ Error: Message base not found.\x1b[0m\r\n';
     }
     
-    // Get user's last login time to determine "unread" messages
-    const user = await this.deps.userService?.getUserById(session.userId);
-    const lastLogin = user?.lastLogin || new Date(0); // If no last login, show all messages
-    
-    // Get messages since last login
-    const unreadMessages = this.deps.messageService.getMessagesSince(messageState.currentBaseId, lastLogin);
+    const unreadMessages = this.deps.messageService.getUnreadMessages(session.userId, messageState.currentBaseId);
     
-    const b = this.getBorders();
+    const b = this.getBorders(session);
     
     if (unreadMessages.length === 0) {
       return '\r\n' + b.top +
@@ -799,7 +1748,7 @@ export class MessageHandler implements CommandHandler {
              b.empty +
              b.line('\x1b[32m✓ You\'re all caught up!\x1b[0m') +
              b.empty +
-             b.line('No new messages since your last visit.') +
+             b.line('No unread messages in this base.') +
              b.empty +
              b.bot +
              '\r\nPress Enter to continue: ';
@@ -813,7 +1762,6 @@ export class MessageHandler implements CommandHandler {
     output += b.mid;
     output += b.empty;
     output += b.line(`Unread messages: ${unreadMessages.length}`);
-    output += b.line(`Since: ${lastLogin.toLocaleString()}`);
     output += b.empty;
     output += b.line('\x1b[33m⚠ Note: This uses AI and may take a few seconds\x1b[0m');
     output += b.empty;
@@ -854,12 +1802,8 @@ export class MessageHandler implements CommandHandler {
     try {
       const base = this.deps.messageService.getMessageBase(messageState.currentBaseId);
       
-      // Get user's last login time
-      const user = await this.deps.userService?.getUserById(session.userId);
-      const lastLogin = user?.lastLogin || new Date(0);
-      
       // Get unread messages
-      const unreadMessages = this.deps.messageService.getMessagesSince(messageState.currentBaseId, lastLogin);
+      const unreadMessages = this.deps.messageService.getUnreadMessages(session.userId, messageState.currentBaseId);
       
       if (unreadMessages.length === 0) {
         return output + '\r\n\x1b[32m✓ You\'re all caught up! No new messages.\x1b[0m\r\n\r\n' +
@@ -873,6 +1817,7 @@ export class MessageHandler implements CommandHandler {
         messageBaseId: messageState.currentBaseId,
         messageBaseName: base?.name || 'Message Base',
         maxMessages: 50,
+        userId: session.userId,
       });
       
       const timeoutPromise = new Promise((_, reject) => {
@@ -882,7 +1827,7 @@ export class MessageHandler implements CommandHandler {
       const summary = await Promise.race([summaryPromise, timeoutPromise]);
       
       // Format the summary with proper width
-      const formatted = this.deps.messageSummarizer.formatSummary(summary, TERMINAL_WIDTH);
+      const formatted = this.deps.messageSummarizer.formatSummary(summary, getTerminalWidth(session));
       
       messageState.viewingCatchUp = true;
       
@@ -891,7 +1836,9 @@ export class MessageHandler implements CommandHandler {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       
       let userMessage = 'Error generating catch-me-up summary';
-      if (errorMsg.includes('timeout')) {
+      if (error instanceof AIProviderError && error.code === 'BUDGET_EXCEEDED') {
+        userMessage = error.getUserMessage();
+      } else if (errorMsg.includes('timeout')) {
         userMessage = 'Summary generation timed out. Please try again later.';
       } else if (errorMsg.includes('rate limit')) {
         userMessage = 'AI service rate limit reached. Please try again in a few minutes.';
@@ -1,20 +1,17 @@
 import type { CommandHandler } from '../core/CommandHandler.js';
 import type { HandlerDependencies } from './HandlerDependencies.js';
 import type { Session, MessageContent } from '@baudagain/shared';
-import { SessionState, ContentType, TERMINAL_WIDTH } from '@baudagain/shared';
+import { SessionState, ContentType } from '@baudagain/shared';
 import type { ArtGalleryRepository } from '../db/repositories/ArtGalleryRepository.js';
 import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+import { getTerminalWidth } from '../utils/TerminalSize.js';
 
 export interface UserProfileHandlerDependencies extends HandlerDependencies {
   artGalleryRepository: ArtGalleryRepository;
 }
 
 export class UserProfileHandler implements CommandHandler {
-  private readonly BOX_WIDTH: number;
-  
-  constructor(private deps: UserProfileHandlerDependencies) {
-    this.BOX_WIDTH = (TERMINAL_WIDTH || 80) - 2;
-  }
+  constructor(private deps: UserProfileHandlerDependencies) {}
   
   canHandle(command: string, session: Session): boolean {
     const upperCommand = command.toUpperCase();
@@ -41,7 +38,7 @@ export class UserProfileHandler implements CommandHandler {
       const messageCount = this.deps.messageRepository!.getMessageCountByUser(userId);
       const artCount = this.deps.artGalleryRepository.getArtPieceCountByUser(userId);
 
-      return this.renderProfile(user, messageCount, artCount);
+      return this.renderProfile(user, messageCount, artCount, session);
     } catch (error) {
       console.error('UserProfileHandler error:', error);
       return 'An error occurred loading the profile.\r\n';
@@ -51,8 +48,8 @@ export class UserProfileHandler implements CommandHandler {
   /**
    * Helper to create borders
    */
-  private getBorders() {
-    const width = this.BOX_WIDTH;
+  private getBorders(session: Session) {
+    const width = getTerminalWidth(session) - 2;
     const cyan = '\x1b[36m';
     const reset = '\x1b[0m';
     
@@ -86,8 +83,8 @@ export class UserProfileHandler implements CommandHandler {
     };
   }
   
-  private renderProfile(user: any, messageCount: number, artCount: number): string {
-    const b = this.getBorders();
+  private renderProfile(user: any, messageCount: number, artCount: number, session: Session): string {
+    const b = this.getBorders(session);
     let output = '\r\n';
     
     output += b.top;
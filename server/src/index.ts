@@ -12,22 +12,30 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import fastifyStatic from '@fastify/static';
 import { WebSocketConnection } from './connection/WebSocketConnection.js';
+import { TelnetServer } from './connection/TelnetServer.js';
 import { ConnectionManager } from './connection/ConnectionManager.js';
+import { NodeManager } from './connection/NodeManager.js';
+import { superviseConnection } from './connection/ConnectionLifecycle.js';
+import type { IConnection } from './connection/IConnection.js';
+import { SSHServer } from './connection/SSHServer.js';
 
 import { BBSDatabase } from './db/Database.js';
 import { UserRepository } from './db/repositories/UserRepository.js';
 import { SessionManager } from './session/SessionManager.js';
 import { WebTerminalRenderer } from './terminal/WebTerminalRenderer.js';
 import { BBSCore } from './core/BBSCore.js';
+import { MODEM_CHARS_PER_SECOND, type OutputStream } from './core/OutputStream.js';
 import { AuthHandler } from './handlers/AuthHandler.js';
 import { MenuHandler } from './handlers/MenuHandler.js';
-import { AIProviderFactory, AIService, AISysOp } from './ai/index.js';
+import { AIProviderFactory, AIService, AISysOp, OllamaProvider } from './ai/index.js';
 import { getConfigLoader } from './config/index.js';
-import type { WelcomeScreenContent, PromptContent } from '@baudagain/shared';
+import type { WelcomeScreenContent, PromptContent, LinesBusyContent, User } from '@baudagain/shared';
 import { ContentType } from '@baudagain/shared';
 import { registerAPIRoutes } from './api/routes.js';
 import { JWTUtil } from './auth/jwt.js';
 import { NotificationEventType, createNotificationEvent, UserJoinedPayload, UserLeftPayload } from './notifications/types.js';
+import { clampTerminalWidth, getTerminalWidth } from './utils/TerminalSize.js';
+import { ANSITerminalMode } from './ansi/ANSITerminalMode.js';
 
 const server = Fastify({
   logger: {
@@ -61,12 +69,27 @@ const { MessageBaseRepository } = await import('./db/repositories/MessageBaseRep
 const messageBaseRepository = new MessageBaseRepository(database);
 const { MessageRepository } = await import('./db/repositories/MessageRepository.js');
 const messageRepository = new MessageRepository(database);
+const { LastReadRepository } = await import('./db/repositories/LastReadRepository.js');
+const lastReadRepository = new LastReadRepository(database);
 const { ArtGalleryRepository } = await import('./db/repositories/ArtGalleryRepository.js');
 const artGalleryRepository = new ArtGalleryRepository(database);
+const { SessionRepository } = await import('./db/repositories/SessionRepository.js');
+const sessionRepository = new SessionRepository(database);
+const { MailRepository } = await import('./db/repositories/MailRepository.js');
+const mailRepository = new MailRepository(database);
+const { ModerationRepository } = await import('./db/repositories/ModerationRepository.js');
+const moderationRepository = new ModerationRepository(database);
+const { QwkPointerRepository } = await import('./db/repositories/QwkPointerRepository.js');
+const qwkPointerRepository = new QwkPointerRepository(database);
+const { FtnRepository } = await import('./db/repositories/FtnRepository.js');
+const ftnRepository = new FtnRepository(database);
+const { AIUsageRepository } = await import('./db/repositories/AIUsageRepository.js');
+const aiUsageRepository = new AIUsageRepository(database);
 
 // Initialize managers and renderers
 const connectionManager = new ConnectionManager(server.log);
-const sessionManager = new SessionManager(server.log);
+const nodeManager = new NodeManager(config.bbs.maxNodes, server.log);
+const sessionManager = new SessionManager(server.log, sessionRepository);
 const terminalRenderer = new WebTerminalRenderer();
 
 // Initialize notification service
@@ -90,29 +113,48 @@ try {
       provider: config.ai.provider,
       model: config.ai.model,
       apiKey,
+      baseUrl: config.ai.baseUrl,
     });
-    aiService = new AIService(aiProvider, server.log);
+    // Budgets are re-read on every call so config changes apply immediately
+    const { AIUsageTracker } = await import('./ai/AIUsageTracker.js');
+    const usageTracker = new AIUsageTracker(aiUsageRepository, () => configLoader.getConfig().ai.budgets, server.log);
+    aiService = new AIService(aiProvider, server.log, undefined, usageTracker);
     aiSysOp = new AISysOp(aiService, config, server.log);
     
+    // Check the local model is installed, pulling it in the background so
+    // startup isn't held up by a download
+    if (aiProvider instanceof OllamaProvider) {
+      const model = config.ai.model;
+      server.log.info({ model }, 'Checking Ollama model');
+      aiProvider.ensureModel()
+        .then(status => server.log.info({ model, status }, 'Ollama model ready'))
+        .catch(error => server.log.warn({ model, error: error instanceof Error ? error.message : String(error) }, 'Ollama model unavailable - AI features will use fallbacks until it is'));
+    }
+    
     // Initialize AI Configuration Assistant
     const { AIConfigAssistant } = await import('./ai/AIConfigAssistant.js');
-    aiConfigAssistant = new AIConfigAssistant(aiProvider, configLoader, server.log);
+    aiConfigAssistant = new AIConfigAssistant(aiService.forFeature('config'), configLoader, server.log, {
+      userRepository,
+      notificationService,
+      // Doors are registered further down, before any request can arrive
+      installedDoors: () => doorHandler.getDoors().values(),
+    });
     
     // Initialize ANSI Art Generator
     const { ANSIArtGenerator } = await import('./services/ANSIArtGenerator.js');
-    artGenerator = new ANSIArtGenerator(aiProvider, server.log);
+    artGenerator = new ANSIArtGenerator(aiService.forFeature('art'), server.log);
     
     // Initialize Message Summarizer
     const { MessageSummarizer } = await import('./services/MessageSummarizer.js');
-    messageSummarizer = new MessageSummarizer(aiProvider, server.log);
+    messageSummarizer = new MessageSummarizer(aiService.forFeature('summarizer'), server.log);
     
     // Initialize Daily Digest Service
     const { DailyDigestService } = await import('./services/DailyDigestService.js');
-    dailyDigestService = new DailyDigestService(aiProvider, server.log);
+    dailyDigestService = new DailyDigestService(aiService.forFeature('digest'), server.log);
     
     // Initialize Conversation Starter
     const { ConversationStarter } = await import('./services/ConversationStarter.js');
-    conversationStarter = new ConversationStarter(aiProvider, server.log);
+    conversationStarter = new ConversationStarter(aiService.forFeature('starter'), server.log);
     
     // Initialize Daily Question Service
     const { DailyQuestionService } = await import('./services/DailyQuestionService.js');
@@ -136,8 +178,23 @@ try {
 // Initialize services
 const { UserService } = await import('./services/UserService.js');
 const userService = new UserService(userRepository);
+const { ModerationService } = await import('./services/ModerationService.js');
+const moderationService = new ModerationService(moderationRepository, messageRepository, messageBaseRepository, userRepository, aiService, server.log);
 const { MessageService } = await import('./services/MessageService.js');
-const messageService = new MessageService(messageBaseRepository, messageRepository, userRepository, notificationService);
+const messageService = new MessageService(messageBaseRepository, messageRepository, userRepository, notificationService, lastReadRepository, config.security.messageEditWindowMinutes ?? 60, moderationService);
+
+// Let the AI SysOp reply to posts in bases that opt in
+if (aiSysOp && config.ai.sysop.participateInChat) {
+  const { SysOpChatService } = await import('./services/SysOpChatService.js');
+  new SysOpChatService(aiSysOp, messageService, messageRepository, messageBaseRepository, userRepository, config, server.log)
+    .listen(notificationService);
+  server.log.info({ chatFrequency: config.ai.sysop.chatFrequency }, 'AI SysOp chat participation enabled');
+}
+
+const { MailService } = await import('./services/MailService.js');
+const mailService = new MailService(mailRepository, userRepository, notificationService);
+const { QwkService } = await import('./services/QwkService.js');
+const qwkService = new QwkService(messageService, messageRepository, messageBaseRepository, qwkPointerRepository, userRepository, config.bbs);
 const { DoorService } = await import('./services/DoorService.js');
 // DoorService will be initialized after doors are registered
 
@@ -168,6 +225,43 @@ if (config.aiFeatures?.dailyQuestion?.enabled && dailyQuestionService) {
   );
 }
 
+// Register echomail export and toss if FTN is enabled
+if (config.ftn?.enabled) {
+  const ftnConfig = config.ftn;
+  const { EchomailService } = await import('./services/EchomailService.js');
+  const echomailService = new EchomailService(
+    messageRepository,
+    messageBaseRepository,
+    ftnRepository,
+    userRepository,
+    messageService,
+    {
+      ...ftnConfig,
+      inbound: path.resolve(projectRoot, ftnConfig.inbound),
+      outbound: path.resolve(projectRoot, ftnConfig.outbound),
+      origin: ftnConfig.origin || config.bbs.name,
+    },
+    server.log
+  );
+  scheduledTaskService.registerTask({
+    id: 'ftn-echomail',
+    name: 'FTN Echomail Export and Toss',
+    schedule: ftnConfig.schedule,
+    enabled: true,
+    handler: async () => {
+      echomailService.run();
+    },
+  });
+  server.log.info(
+    { address: ftnConfig.address, uplink: ftnConfig.uplink, schedule: ftnConfig.schedule },
+    'FTN echomail task registered'
+  );
+}
+
+// Welcome and goodbye screens, as designed in the control panel
+const { ScreenService } = await import('./services/ScreenService.js');
+const screenService = new ScreenService(configLoader, path.resolve(projectRoot, 'data/ansi'), server.log, artGenerator);
+
 // Initialize BBS Core and register handlers
 const bbsCore = new BBSCore(sessionManager, server.log);
 
@@ -181,10 +275,13 @@ const handlerDeps = {
   messageRepository,
   messageBaseRepository,
   userService,
+  mailService,
+  screenService,
 };
 
 // Register AuthHandler first (takes precedence for CONNECTED/AUTHENTICATING states)
-bbsCore.registerHandler(new AuthHandler(userService, handlerDeps));
+const authHandler = new AuthHandler(userService, handlerDeps);
+bbsCore.registerHandler(authHandler);
 // Register DoorHandler before MenuHandler (takes precedence for door game commands)
 const { DoorHandler } = await import('./handlers/DoorHandler.js');
 const doorHandlerDeps = {
@@ -194,7 +291,7 @@ const doorHandlerDeps = {
 const doorHandler = new DoorHandler(doorHandlerDeps);
 // Register The Oracle door game
 const { OracleDoor } = await import('./doors/OracleDoor.js');
-const oracleDoor = new OracleDoor(aiService);
+const oracleDoor = new OracleDoor(aiService, doorSessionRepository);
 doorHandler.registerDoor(oracleDoor);
 
 // Register Art Studio door game
@@ -220,6 +317,13 @@ const messageHandlerDeps = {
 };
 const messageHandler = new MessageHandler(messageHandlerDeps);
 bbsCore.registerHandler(messageHandler);
+// Register MailHandler before MenuHandler (takes precedence for e-mail commands)
+const { MailHandler } = await import('./handlers/MailHandler.js');
+const mailHandler = new MailHandler({
+  ...handlerDeps,
+  mailService
+});
+bbsCore.registerHandler(mailHandler);
 // Register ArtGalleryHandler before MenuHandler (takes precedence for art gallery commands)
 const { ArtGalleryHandler } = await import('./handlers/ArtGalleryHandler.js');
 const artGalleryHandlerDeps = {
@@ -300,24 +404,130 @@ server.log.info('Rate limiting enabled: 100 requests per 15 minutes (localhost e
 
 await server.register(websocket);
 
-// WebSocket route for BBS terminal connections
-server.register(async function (fastify) {
-  fastify.get('/ws', { websocket: true }, async (socket, _req) => {
-    // Wrap WebSocket in our connection abstraction
-    const connection = new WebSocketConnection(socket);
-    connectionManager.addConnection(connection);
+/**
+ * Attach a new caller to the BBS, regardless of transport.
+ * `user` is set when the transport already authenticated the caller (SSH).
+ * `resumeToken` is set when a web terminal reconnects after a drop.
+ */
+async function handleNewConnection(connection: IConnection, user?: User, resumeToken?: string): Promise<void> {
+  // Take the lowest free node, or give the caller a busy signal
+  const node = nodeManager.allocate(connection.id);
+  if (node === null) {
+    const busyContent: LinesBusyContent = {
+      type: ContentType.LINES_BUSY,
+      title: config.bbs.name.toUpperCase(),
+      maxNodes: nodeManager.getMaxNodes().toString(),
+    };
+    try {
+      await connection.send(terminalRenderer.render(busyContent, clampTerminalWidth(connection.columns)));
+    } catch (err) {
+      server.log.error({ err }, 'Error sending lines busy screen');
+    }
+    await connection.close();
+    return;
+  }
 
-    // Create session for this connection
-    const session = sessionManager.createSession(connection.id);
-    
-    // Register connection with notification service
-    notificationService.registerClient(connection, session.userId);
+  connectionManager.addConnection(connection);
 
-    fastify.log.info(
-      { connectionId: connection.id, sessionId: session.id },
-      'New connection established'
+  // Free the node however the call ends - even if the caller hangs up
+  // before the welcome screen has gone out
+  try {
+    await superviseConnection(
+      connection,
+      () => attachCaller(connection, node, user, resumeToken),
+      () => releaseCaller(connection, node),
+      (err) => server.log.error({ err, connectionId: connection.id }, 'Error releasing node')
     );
+  } catch (err) {
+    server.log.error({ err, connectionId: connection.id }, 'Error setting up connection');
+  }
+}
+
+/**
+ * Start a caller's session on their node: greet them, or put a resumed
+ * caller back where they were, and route their input through BBSCore
+ */
+async function attachCaller(connection: IConnection, node: number, user?: User, resumeToken?: string): Promise<void> {
+  // Reattach a dropped session if the caller has a valid resume token,
+  // otherwise create a new session for this connection
+  const resumed = resumeToken ? sessionManager.resumeSession(resumeToken, connection.id) : undefined;
+  if (resumed?.previousConnectionId) {
+    await connectionManager.getConnection(resumed.previousConnectionId)?.close();
+  }
+  const session = resumed?.session ?? sessionManager.createSession(connection.id);
+  sessionManager.updateSession(session.id, {
+    node,
+    columns: connection.columns,
+    rows: connection.rows,
+  });
+
+  // Keep the session's render size in step with the caller's window
+  connection.onResize?.((columns, rows) => {
+    sessionManager.updateSession(session.id, { columns, rows });
+  });
+  
+  // Register connection with notification service. Only the web terminal
+  // understands its JSON events; on Telnet and SSH they would show as text.
+  if (connection.acceptsEvents) {
+    notificationService.registerClient(connection, session.userId);
+  }
+
+  server.log.info(
+    { connectionId: connection.id, sessionId: session.id, node, resumed: !!resumed },
+    'New connection established'
+  );
 
+  // Give web callers a resume token once they have logged in
+  let resumeTokenOffered = !!resumed;
+  const offerResumeToken = async () => {
+    if (resumeTokenOffered || !connection.sendResumeToken) {
+      return;
+    }
+    const token = sessionManager.issueResumeToken(session.id);
+    if (token) {
+      resumeTokenOffered = true;
+      await connection.sendResumeToken(token);
+    }
+  };
+
+  // Update notification service once the user has authenticated
+  let userJoinedAnnounced = !!session.userId;
+  const announceUserJoined = async () => {
+    const updatedSession = sessionManager.getSession(session.id);
+    if (updatedSession?.userId && !userJoinedAnnounced) {
+      userJoinedAnnounced = true;
+      if (connection.acceptsEvents) {
+        notificationService.authenticateClient(connection.id, updatedSession.userId);
+      }
+      
+      // Broadcast user joined event
+      const userJoinedPayload: UserJoinedPayload = {
+        userId: updatedSession.userId,
+        handle: updatedSession.handle || 'Unknown',
+        node,
+      };
+      const userJoinedEvent = createNotificationEvent(
+        NotificationEventType.USER_JOINED,
+        userJoinedPayload
+      );
+      await notificationService.broadcastToAuthenticated(userJoinedEvent);
+      
+      server.log.info(
+        { userId: updatedSession.userId, handle: updatedSession.handle },
+        'User joined - notification broadcast'
+      );
+    }
+  };
+
+  if (resumed) {
+    // A resumed caller goes straight back to the screen they were on
+    try {
+      await connection.send(await bbsCore.redrawScreen(session.id));
+    } catch (err) {
+      server.log.error({ err }, 'Error redrawing resumed session');
+    }
+    await announceUserJoined();
+  } else {
     // Send welcome screen using structured content
     try {
       const welcomeContent: WelcomeScreenContent = {
@@ -325,100 +535,178 @@ server.register(async function (fastify) {
         title: 'BAUDAGAIN BBS',
         subtitle: 'The Haunted Terminal',
         tagline: 'Where digital spirits dwell',
-        node: '1',
-        maxNodes: '4',
+        node: node.toString(),
+        maxNodes: nodeManager.getMaxNodes().toString(),
         callerCount: connectionManager.getConnectionCount().toString(),
       };
       
-      const welcomeScreen = terminalRenderer.render(welcomeContent);
+      const terminalWidth = getTerminalWidth(sessionManager.getSession(session.id));
+      const welcomeScreen = screenService.renderActive('welcome', {
+        node: welcomeContent.node,
+        max_nodes: welcomeContent.maxNodes,
+        caller_count: welcomeContent.callerCount,
+      }, terminalWidth) ?? terminalRenderer.render(welcomeContent, terminalWidth);
       await connection.send(welcomeScreen);
       
       // Send login prompt
-      const promptContent: PromptContent = {
-        type: ContentType.PROMPT,
-        text: '\r\nEnter your handle, or type NEW to register: ',
-      };
-      await connection.send(terminalRenderer.render(promptContent));
+      if (!user) {
+        const promptContent: PromptContent = {
+          type: ContentType.PROMPT,
+          text: '\r\nEnter your handle, or type NEW to register: ',
+        };
+        await connection.send(terminalRenderer.render(promptContent));
+      }
     } catch (err) {
-      fastify.log.error({ err }, 'Error sending welcome screen');
+      server.log.error({ err }, 'Error sending welcome screen');
       await connection.send('Welcome to BaudAgain BBS!\r\n');
-      await connection.send('Enter your handle, or type NEW to register: ');
+      if (!user) {
+        await connection.send('Enter your handle, or type NEW to register: ');
+      }
     }
+  }
 
-    // Handle incoming data - route through BBSCore
-    connection.onData(async (input) => {
-      try {
-        const response = await bbsCore.processInput(session.id, input);
-        await connection.send(response);
-        
-        // Update notification service if user authenticated
-        const updatedSession = sessionManager.getSession(session.id);
-        if (updatedSession?.userId && !notificationService.getClient(connection.id)?.authenticated) {
-          notificationService.authenticateClient(connection.id, updatedSession.userId);
-          
-          // Broadcast user joined event
-          const userJoinedPayload: UserJoinedPayload = {
-            userId: updatedSession.userId,
-            handle: updatedSession.handle || 'Unknown',
-            node: 1, // TODO: Implement proper node tracking
-          };
-          const userJoinedEvent = createNotificationEvent(
-            NotificationEventType.USER_JOINED,
-            userJoinedPayload
-          );
-          await notificationService.broadcastToAuthenticated(userJoinedEvent);
-          
-          fastify.log.info(
-            { userId: updatedSession.userId, handle: updatedSession.handle },
-            'User joined - notification broadcast'
-          );
-        }
-      } catch (err) {
-        fastify.log.error({ err, sessionId: session.id }, 'Error processing input');
-        await connection.send('An error occurred. Please try again.\r\n');
-      }
-    });
+  // Callers authenticated by the transport skip the login prompt
+  if (user) {
+    const loginOutput = await authHandler.completeLogin(user, sessionManager.getSession(session.id) ?? session);
+    await connection.send(
+      ANSITerminalMode.apply(loginOutput, sessionManager.getSession(session.id)?.terminalMode)
+    );
+    await announceUserJoined();
+  }
 
-    // Handle connection close
-    connection.onClose(async () => {
-      // Get session info before removing it
-      const closingSession = sessionManager.getSession(session.id);
-      
-      // Broadcast user left event if user was authenticated
-      if (closingSession?.userId && closingSession.handle) {
-        const userLeftPayload: UserLeftPayload = {
-          userId: closingSession.userId,
-          handle: closingSession.handle,
-          node: 1, // TODO: Implement proper node tracking
-        };
-        const userLeftEvent = createNotificationEvent(
-          NotificationEventType.USER_LEFT,
-          userLeftPayload
-        );
-        
+  // Output the current command is still streaming, e.g. an AI reply being
+  // typed out. Any keypress meanwhile interrupts it.
+  let streaming: AbortController | null = null;
+
+  // Handle incoming data - route through BBSCore
+  connection.onData(async (input) => {
+    if (streaming) {
+      streaming.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    const output: OutputStream = {
+      signal: controller.signal,
+      charsPerSecond: MODEM_CHARS_PER_SECOND,
+      write: async (text) => {
+        if (!streaming) {
+          streaming = controller;
+          connection.setInterrupt?.(() => controller.abort());
+        }
         try {
-          await notificationService.broadcastToAuthenticated(userLeftEvent);
-          fastify.log.info(
-            { userId: closingSession.userId, handle: closingSession.handle },
-            'User left - notification broadcast'
-          );
-        } catch (err) {
-          fastify.log.error({ err }, 'Error broadcasting user left event');
+          await connection.send(text);
+        } catch {
+          // The caller hung up; stop generating for them
+          controller.abort();
         }
+      },
+    };
+
+    const stopStreaming = () => {
+      if (streaming) {
+        streaming = null;
+        connection.setInterrupt?.(null);
       }
+    };
+
+    try {
+      const response = await bbsCore.processInput(session.id, input, output);
+      stopStreaming();
+      await connection.send(response);
       
-      sessionManager.removeSession(session.id);
-    });
+      await announceUserJoined();
+      await offerResumeToken();
+    } catch (err) {
+      stopStreaming();
+      server.log.error({ err, sessionId: session.id }, 'Error processing input');
+      await connection.send('An error occurred. Please try again.\r\n');
+    }
+  });
 
-    // Handle errors
-    connection.onError((error) => {
-      fastify.log.error({ connectionId: connection.id, error }, 'Connection error');
-    });
+  // Handle errors
+  connection.onError((error) => {
+    server.log.error({ connectionId: connection.id, error }, 'Connection error');
+  });
+}
+
+/**
+ * Free a caller's node and end their session, telling everyone they left
+ */
+async function releaseCaller(connection: IConnection, node: number): Promise<void> {
+  // No session here means it was resumed on a newer connection (or never
+  // started); only free this node
+  const closingSession = sessionManager.getSessionByConnection(connection.id);
+  if (!closingSession) {
+    nodeManager.release(connection.id);
+    return;
+  }
+  
+  // Broadcast user left event if user was authenticated
+  if (closingSession.userId && closingSession.handle) {
+    const userLeftPayload: UserLeftPayload = {
+      userId: closingSession.userId,
+      handle: closingSession.handle,
+      node,
+    };
+    const userLeftEvent = createNotificationEvent(
+      NotificationEventType.USER_LEFT,
+      userLeftPayload
+    );
+    
+    try {
+      await notificationService.broadcastToAuthenticated(userLeftEvent);
+      server.log.info(
+        { userId: closingSession.userId, handle: closingSession.handle },
+        'User left - notification broadcast'
+      );
+    } catch (err) {
+      server.log.error({ err }, 'Error broadcasting user left event');
+    }
+  }
+  
+  sessionManager.removeSession(closingSession.id);
+  nodeManager.release(connection.id);
+}
+
+// The web terminal sends its first message (a resume token or its size)
+// as soon as it connects; don't hold up the welcome screen much longer
+const RESUME_GREETING_TIMEOUT_MS = 1000;
+
+// WebSocket route for BBS terminal connections
+server.register(async function (fastify) {
+  fastify.get('/ws', { websocket: true }, async (socket) => {
+    // Wrap WebSocket in our connection abstraction
+    const connection = new WebSocketConnection(socket);
+    const resume = await connection.whenGreeted(RESUME_GREETING_TIMEOUT_MS);
+    // The caller hung up while we waited; don't give them a node
+    if (!connection.isOpen) {
+      return;
+    }
+    await handleNewConnection(connection, undefined, resume);
   });
 });
 
+// Telnet listener for classic BBS clients (SyncTERM, NetRunner, etc.)
+const telnetServer = config.network.telnetPort
+  ? new TelnetServer(server.log, handleNewConnection)
+  : null;
+
+// SSH listener - authenticates against the same user accounts as the terminal login
+const sshServer = config.network.sshPort
+  ? new SSHServer(
+      server.log,
+      userService,
+      {
+        hostKeyPath: config.network.sshHostKeyPath || 'data/ssh_host_key',
+        maxLoginAttempts: config.security.maxLoginAttempts,
+      },
+      handleNewConnection
+    )
+  : null;
+
 // Register REST API routes for control panel
-await registerAPIRoutes(server, userRepository, sessionManager, jwtUtil, config, messageBaseRepository, messageService, doorService, notificationService, aiConfigAssistant, aiSysOp, artGalleryRepository, artGenerator, messageSummarizer, dailyQuestionService, scheduledTaskService);
+await registerAPIRoutes(server, userRepository, sessionManager, jwtUtil, config, messageBaseRepository, messageService, doorService, notificationService, aiConfigAssistant, aiSysOp, artGalleryRepository, artGenerator, messageSummarizer, dailyQuestionService, scheduledTaskService, nodeManager, mailService, moderationService, qwkService, aiService, screenService);
 
 // Health check endpoint
 server.get('/health', async () => {
@@ -443,6 +731,14 @@ const shutdown = async () => {
     server.log.info('Stopping scheduled tasks...');
     scheduledTaskService.shutdown();
     
+    // Stop accepting telnet and SSH callers
+    if (telnetServer) {
+      await telnetServer.close();
+    }
+    if (sshServer) {
+      await sshServer.close();
+    }
+    
     // Send goodbye message to all connected users
     const connections = connectionManager.getAllConnections();
     // Note: Each 🌙 emoji takes 2 columns in xterm.js, so reduce spacing by 1 for each emoji
@@ -517,6 +813,14 @@ process.on('unhandledRejection', (reason, promise) => {
 try {
   await server.listen({ port: PORT, host: HOST });
   console.log(`\n🖥️  BaudAgain BBS Server running on ws://localhost:${PORT}/ws`);
+  if (telnetServer && config.network.telnetPort) {
+    await telnetServer.listen(config.network.telnetPort, HOST);
+    console.log(`📞 Telnet listener running on telnet://localhost:${config.network.telnetPort}`);
+  }
+  if (sshServer && config.network.sshPort) {
+    await sshServer.listen(config.network.sshPort, HOST);
+    console.log(`🔐 SSH listener running on ssh://localhost:${config.network.sshPort}`);
+  }
   console.log(`📊 Health check: http://localhost:${PORT}/health\n`);
   console.log('🔍 Debug: ANSI Width Calculation Logic Updated (Version 2.0)');
 } catch (err) {
@@ -12,6 +12,7 @@ import {
   createNotificationEvent,
   MessageNewPayload,
   UserJoinedPayload,
+  MailReceivedPayload,
   NotificationErrorCode,
 } from './types';
 
@@ -385,6 +386,31 @@ describe('NotificationService', () => {
       expect(conn3.sentMessages).toHaveLength(1);
     });
 
+    it('should send user events to every connection of that user only', async () => {
+      const conn1 = new MockConnection('conn-1');
+      const conn2 = new MockConnection('conn-2');
+      const conn3 = new MockConnection('conn-3');
+
+      service.registerClient(conn1, 'user-1');
+      service.registerClient(conn2, 'user-1'); // same user, second connection
+      service.registerClient(conn3, 'user-3');
+
+      const payload: MailReceivedPayload = {
+        mailId: 'mail-1',
+        fromHandle: 'user3',
+        subject: 'Hello',
+        unreadCount: 1,
+        createdAt: new Date().toISOString(),
+      };
+
+      const event = createNotificationEvent(NotificationEventType.MAIL_RECEIVED, payload);
+      await service.broadcastToUser('user-1', event);
+
+      expect(conn1.sentMessages).toHaveLength(1);
+      expect(conn2.sentMessages).toHaveLength(1);
+      expect(conn3.sentMessages).toHaveLength(0);
+    });
+
     it('should not send to closed connections', async () => {
       const connection = new MockConnection('conn-1');
       service.registerClient(connection);
@@ -409,6 +435,49 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('Server-side Listeners', () => {
+    const payload: MessageNewPayload = {
+      messageId: 'msg-1',
+      messageBaseId: 'base-1',
+      messageBaseName: 'General',
+      subject: 'Test Message',
+      authorHandle: 'testuser',
+      createdAt: new Date().toISOString(),
+    };
+
+    it('should notify listeners even when no client is subscribed', async () => {
+      const listener = vi.fn();
+      service.addListener(NotificationEventType.MESSAGE_NEW, listener);
+      service.addListener(NotificationEventType.USER_JOINED, vi.fn());
+
+      await service.broadcast(createNotificationEvent(NotificationEventType.MESSAGE_NEW, payload));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ data: payload }));
+    });
+
+    it('should keep going when a listener fails and stop once removed', async () => {
+      const failing = vi.fn().mockRejectedValue(new Error('boom'));
+      const listener = vi.fn();
+      const remove = service.addListener(NotificationEventType.MESSAGE_NEW, failing);
+      service.addListener(NotificationEventType.MESSAGE_NEW, listener);
+
+      await service.broadcast(createNotificationEvent(NotificationEventType.MESSAGE_NEW, payload));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'message.new' }), 'Event listener failed');
+
+      remove();
+      await service.broadcast(createNotificationEvent(NotificationEventType.MESSAGE_NEW, payload));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(failing).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should send error event to client', async () => {
       const connection = new MockConnection('conn-1');
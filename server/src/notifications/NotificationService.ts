@@ -58,6 +58,11 @@ interface ClientMetadata {
   authenticated: boolean;
 }
 
+/**
+ * Server-side handler for an event, e.g. a service reacting to new posts
+ */
+export type NotificationListener<T> = (event: NotificationEvent<T>) => void | Promise<void>;
+
 /**
  * NotificationService manages event broadcasting and subscriptions
  */
@@ -67,6 +72,9 @@ export class NotificationService {
   
   /** Map of event type to list of subscriptions */
   private subscriptionsByEvent: Map<NotificationEventType, ClientSubscription[]> = new Map();
+  
+  /** Map of event type to in-process listeners */
+  private listeners: Map<NotificationEventType, Array<NotificationListener<any>>> = new Map();
 
   constructor(private logger: FastifyBaseLogger) {
     this.logger.info('NotificationService initialized');
@@ -340,18 +348,55 @@ export class NotificationService {
     return providedFields.every(field => supportedFields.includes(field));
   }
 
+  // ============================================================================
+  // Server-side Listeners
+  // ============================================================================
+
+  /**
+   * Listen for an event inside the server. Listeners hear every broadcast
+   * of the event type, whether or not any client is subscribed.
+   * 
+   * @returns A function that removes the listener
+   */
+  addListener<T>(eventType: NotificationEventType, listener: NotificationListener<T>): () => void {
+    const listeners = this.listeners.get(eventType) || [];
+    listeners.push(listener);
+    this.listeners.set(eventType, listeners);
+
+    return () => {
+      const remaining = (this.listeners.get(eventType) || []).filter(l => l !== listener);
+      this.listeners.set(eventType, remaining);
+    };
+  }
+
+  /**
+   * Hand an event to its listeners without waiting for them. A failing
+   * listener is logged and doesn't affect the others.
+   */
+  private notifyListeners<T>(event: NotificationEvent<T>): void {
+    for (const listener of this.listeners.get(event.type) || []) {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch(error => {
+          this.logger.error({ eventType: event.type, error }, 'Event listener failed');
+        });
+    }
+  }
+
   // ============================================================================
   // Event Broadcasting
   // ============================================================================
 
   /**
-   * Broadcast an event to all subscribed clients
+   * Broadcast an event to all subscribed clients and server-side listeners
    */
   async broadcast<T>(event: NotificationEvent<T>): Promise<void> {
     const eventType = event.type;
     
     this.logger.debug({ eventType, timestamp: event.timestamp }, 'Broadcasting event');
 
+    this.notifyListeners(event);
+
     // Get subscriptions for this event type
     const subscriptions = this.subscriptionsByEvent.get(eventType) || [];
 
@@ -415,6 +460,33 @@ export class NotificationService {
     await Promise.allSettled(sendPromises);
   }
 
+  /**
+   * Broadcast an event to every connection a user is authenticated on
+   */
+  async broadcastToUser<T>(userId: string, event: NotificationEvent<T>): Promise<void> {
+    const userClients = Array.from(this.clients.values()).filter(
+      client => client.authenticated && client.userId === userId
+    );
+
+    const sendPromises = userClients.map(async (client) => {
+      try {
+        await this.sendEventToClient(client.connection, event);
+      } catch (error) {
+        this.logger.error(
+          { connectionId: client.connection.id, eventType: event.type, error },
+          'Failed to send event to user client'
+        );
+      }
+    });
+
+    await Promise.allSettled(sendPromises);
+
+    this.logger.debug(
+      { eventType: event.type, userId, clientCount: userClients.length },
+      'Event sent to user'
+    );
+  }
+
   /**
    * Broadcast an event to all authenticated clients
    */
@@ -18,6 +18,14 @@ import { NotificationEventType } from './types.js';
 export const MESSAGE_EVENTS = [
   NotificationEventType.MESSAGE_NEW,
   NotificationEventType.MESSAGE_REPLY,
+  NotificationEventType.MESSAGE_UPDATED,
+] as const;
+
+/**
+ * Mail-related event types (delivered only to the recipient)
+ */
+export const MAIL_EVENTS = [
+  NotificationEventType.MAIL_RECEIVED,
 ] as const;
 
 /**
@@ -75,6 +83,7 @@ export const BROADCAST_EVENTS = [
 export const FILTERABLE_EVENTS = [
   NotificationEventType.MESSAGE_NEW,
   NotificationEventType.MESSAGE_REPLY,
+  NotificationEventType.MESSAGE_UPDATED,
   NotificationEventType.DOOR_UPDATE,
 ] as const;
 
@@ -83,6 +92,7 @@ export const FILTERABLE_EVENTS = [
  */
 export const ALL_EVENT_TYPES = [
   ...MESSAGE_EVENTS,
+  ...MAIL_EVENTS,
   ...USER_EVENTS,
   ...SYSTEM_EVENTS,
   ...DOOR_EVENTS,
@@ -147,6 +157,7 @@ export const MAX_BATCH_SIZE = 10;
 export const EVENT_FILTER_FIELDS: Record<string, string[]> = {
   [NotificationEventType.MESSAGE_NEW]: ['messageBaseId'],
   [NotificationEventType.MESSAGE_REPLY]: ['messageBaseId', 'parentId'],
+  [NotificationEventType.MESSAGE_UPDATED]: ['messageBaseId'],
   [NotificationEventType.DOOR_UPDATE]: ['sessionId', 'doorId'],
 };
 
@@ -198,6 +209,7 @@ export function isValidEventType(eventType: string): eventType is NotificationEv
  */
 export function getEventCategory(eventType: NotificationEventType): string {
   if (MESSAGE_EVENTS.includes(eventType as any)) return 'message';
+  if (MAIL_EVENTS.includes(eventType as any)) return 'mail';
   if (USER_EVENTS.includes(eventType as any)) return 'user';
   if (SYSTEM_EVENTS.includes(eventType as any)) return 'system';
   if (DOOR_EVENTS.includes(eventType as any)) return 'door';
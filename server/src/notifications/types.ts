@@ -37,6 +37,10 @@ export enum NotificationEventType {
   // Message Events
   MESSAGE_NEW = 'message.new',
   MESSAGE_REPLY = 'message.reply',
+  MESSAGE_UPDATED = 'message.updated',
+  
+  // Mail Events
+  MAIL_RECEIVED = 'mail.received',
   
   // User Events
   USER_JOINED = 'user.joined',
@@ -112,6 +116,61 @@ export interface MessageReplyPayload {
   createdAt: string;
 }
 
+/**
+ * Payload for message.updated event
+ * Fired when a message is edited or deleted
+ */
+export interface MessageUpdatedPayload {
+  /** Unique identifier of the message */
+  messageId: string;
+  
+  /** Unique identifier of the message base */
+  messageBaseId: string;
+  
+  /** Name of the message base */
+  messageBaseName: string;
+  
+  /** Subject line after the change */
+  subject: string;
+  
+  /** Handle of the message author */
+  authorHandle: string;
+  
+  /** Handle of the user who made the change */
+  changedByHandle: string;
+  
+  /** Whether the message was deleted rather than edited */
+  deleted: boolean;
+  
+  /** ISO 8601 timestamp of the change */
+  updatedAt: string;
+}
+
+// ============================================================================
+// Mail Event Payloads
+// ============================================================================
+
+/**
+ * Payload for mail.received event
+ * Sent only to the recipient when private mail arrives
+ */
+export interface MailReceivedPayload {
+  /** Unique identifier of the mail */
+  mailId: string;
+  
+  /** Handle of the sender */
+  fromHandle: string;
+  
+  /** Subject line of the mail */
+  subject: string;
+  
+  /** Number of unread mails in the recipient's inbox */
+  unreadCount: number;
+  
+  /** ISO 8601 timestamp when the mail was sent */
+  createdAt: string;
+}
+
 // ============================================================================
 // User Event Payloads
 // ============================================================================
@@ -334,6 +393,8 @@ export interface ErrorPayload {
 
 export type MessageNewEvent = NotificationEvent<MessageNewPayload>;
 export type MessageReplyEvent = NotificationEvent<MessageReplyPayload>;
+export type MessageUpdatedEvent = NotificationEvent<MessageUpdatedPayload>;
+export type MailReceivedEvent = NotificationEvent<MailReceivedPayload>;
 export type UserJoinedEvent = NotificationEvent<UserJoinedPayload>;
 export type UserLeftEvent = NotificationEvent<UserLeftPayload>;
 export type SystemAnnouncementEvent = NotificationEvent<SystemAnnouncementPayload>;
@@ -354,6 +415,8 @@ export type ErrorEvent = NotificationEvent<ErrorPayload>;
 export type AnyNotificationEvent =
   | MessageNewEvent
   | MessageReplyEvent
+  | MessageUpdatedEvent
+  | MailReceivedEvent
   | UserJoinedEvent
   | UserLeftEvent
   | SystemAnnouncementEvent
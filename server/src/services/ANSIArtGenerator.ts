@@ -21,6 +21,9 @@ export interface ArtGenerationOptions {
   maxTokens?: number;
   colorTheme?: ColorTheme;
   applyColors?: boolean;
+  onSketch?: (text: string) => Promise<void>; // Receives the raw art as the AI draws it
+  signal?: AbortSignal; // Cancels a streamed generation
+  userId?: string; // Who the art is for, for AI budgets
 }
 
 export interface GeneratedArt {
@@ -99,9 +102,12 @@ export class ANSIArtGenerator {
         maxTokens,
         temperature: 0.8,
         systemPrompt,
+        userId: options.userId,
       };
 
-      const artContent = await this.provider.generateCompletion(prompt, aiOptions);
+      const artContent = options.onSketch && this.provider.streamCompletion
+        ? await this.streamArt(prompt, aiOptions, options.onSketch, options.signal)
+        : await this.provider.generateCompletion(prompt, aiOptions);
 
       // Clean and validate the generated art
       const cleanedArt = this.cleanArt(artContent);
@@ -157,6 +163,28 @@ export class ANSIArtGenerator {
     }
   }
 
+  /**
+   * Stream the art from the provider, showing each chunk as it arrives
+   */
+  private async streamArt(
+    prompt: string,
+    aiOptions: AIOptions,
+    onSketch: (text: string) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let artContent = '';
+    for await (const chunk of this.provider.streamCompletion!(prompt, aiOptions, signal)) {
+      artContent += chunk;
+      await onSketch(chunk);
+    }
+
+    if (signal?.aborted) {
+      throw new AIProviderError('Art generation was cancelled', 'API_ERROR');
+    }
+
+    return artContent;
+  }
+
   /**
    * Build the prompt for art generation
    */
@@ -527,6 +555,7 @@ Style: Classic ASCII Art
     // Create frame builder
     const frameBuilder = new ANSIFrameBuilder({
       width: frameWidth,
+      maxWidth: frameWidth,
       padding: 2,
       style: 'double',
       align: 'center',
@@ -43,6 +43,8 @@ async function example1_analyzeActivity() {
     accessLevelWrite: 10,
     postCount: 15,
     sortOrder: 0,
+    moderationPolicy: 'flagged',
+    aiSysopReplies: false,
   };
 
   // Simulate recent messages
@@ -55,6 +57,7 @@ async function example1_analyzeActivity() {
       body: 'Just joined, excited to be here!',
       createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
       isDeleted: false,
+      isHeld: false,
       authorHandle: 'newbie',
     },
     {
@@ -65,6 +68,7 @@ async function example1_analyzeActivity() {
       body: 'What is everyone\'s favorite programming language?',
       createdAt: new Date(Date.now() - 5 * 60 * 60 * 1000), // 5 hours ago
       isDeleted: false,
+      isHeld: false,
       authorHandle: 'coder',
     },
     {
@@ -75,6 +79,7 @@ async function example1_analyzeActivity() {
       body: 'I love Python for its simplicity!',
       createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
       isDeleted: false,
+      isHeld: false,
       authorHandle: 'pythonista',
     },
   ];
@@ -108,6 +113,7 @@ async function example2_generateAutoQuestion() {
       body: 'Anyone know good techniques for ANSI art?',
       createdAt: new Date(Date.now() - 30 * 60 * 60 * 1000), // 30 hours ago (lull!)
       isDeleted: false,
+      isHeld: false,
       authorHandle: 'artist',
     },
   ];
@@ -192,6 +198,8 @@ async function example5_detectAndReviveLulls() {
     accessLevelWrite: 10,
     postCount: 50,
     sortOrder: 0,
+    moderationPolicy: 'flagged',
+    aiSysopReplies: false,
   };
 
   // Last message was 26 hours ago - conversation lull!
@@ -204,6 +212,7 @@ async function example5_detectAndReviveLulls() {
       body: 'Anyone remember programming on the C64?',
       createdAt: new Date(Date.now() - 26 * 60 * 60 * 1000),
       isDeleted: false,
+      isHeld: false,
       authorHandle: 'retroman',
     },
   ];
@@ -245,6 +254,8 @@ async function example6_monitorMultipleBases() {
         accessLevelWrite: 10,
         postCount: 100,
         sortOrder: 0,
+        moderationPolicy: 'flagged',
+        aiSysopReplies: false,
       },
       messages: [], // Empty - needs attention
     },
@@ -257,6 +268,8 @@ async function example6_monitorMultipleBases() {
         accessLevelWrite: 10,
         postCount: 50,
         sortOrder: 1,
+        moderationPolicy: 'flagged',
+        aiSysopReplies: false,
       },
       messages: [
         {
@@ -267,6 +280,7 @@ async function example6_monitorMultipleBases() {
           body: 'What do you think about AI?',
           createdAt: new Date(Date.now() - 1 * 60 * 60 * 1000), // 1 hour ago - active!
           isDeleted: false,
+          isHeld: false,
           authorHandle: 'techie',
         },
       ],
@@ -306,6 +320,8 @@ async function example7_scheduledDailyQuestion() {
     accessLevelWrite: 10,
     postCount: 100,
     sortOrder: 0,
+    moderationPolicy: 'flagged',
+    aiSysopReplies: false,
   };
 
   // Get recent messages (would come from database)
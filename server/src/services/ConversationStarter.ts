@@ -536,6 +536,7 @@ Style: Fun Questions
 
     const frameBuilder = new ANSIFrameBuilder({
       width: frameWidth,
+      maxWidth: frameWidth,
       padding: 2,
       style: 'double',
       align: 'center',
@@ -87,7 +87,7 @@ export class DailyDigestService {
       // Generate summaries for each message base
       const messageBaseSummaries = await Promise.all(
         messageBasesWithActivity.map(item =>
-          this.summarizeMessageBase(item.base, item.newMessages)
+          this.summarizeMessageBase(item.base, item.newMessages, userId)
         )
       );
 
@@ -95,7 +95,8 @@ export class DailyDigestService {
       const overallSummary = await this.generateOverallSummary(
         lastLogin,
         messageBaseSummaries,
-        totalNewMessages
+        totalNewMessages,
+        userId
       );
 
       const digest: DailyDigest = {
@@ -136,7 +137,8 @@ export class DailyDigestService {
    */
   private async summarizeMessageBase(
     base: MessageBase,
-    newMessages: Message[]
+    newMessages: Message[],
+    userId: string
   ): Promise<{
     baseId: string;
     baseName: string;
@@ -160,6 +162,7 @@ export class DailyDigestService {
       maxTokens: 300,
       temperature: 0.3,
       systemPrompt,
+      userId,
     };
 
     const summaryText = await this.provider.generateCompletion(prompt, aiOptions);
@@ -215,7 +218,8 @@ Format as a simple list:
       messageCount: number;
       highlights: string[];
     }>,
-    totalNewMessages: number
+    totalNewMessages: number,
+    userId: string
   ): Promise<string> {
     const hoursSinceLogin = Math.floor(
       (Date.now() - lastLogin.getTime()) / (1000 * 60 * 60)
@@ -250,6 +254,7 @@ Keep it warm and engaging, like a helpful friend catching you up.`;
       maxTokens: 200,
       temperature: 0.7,
       systemPrompt,
+      userId,
     };
 
     return this.provider.generateCompletion(prompt, aiOptions);
@@ -400,6 +405,7 @@ Guidelines:
 
     const frameBuilder = new ANSIFrameBuilder({
       width: frameWidth,
+      maxWidth: frameWidth,
       padding: 2,
       style: 'double',
       align: 'left',
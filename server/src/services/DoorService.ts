@@ -82,6 +82,24 @@ export class DoorService {
     return this.doors.get(doorId) || null;
   }
 
+  /**
+   * Make a door forget what it remembers about a user
+   * 
+   * @returns false if the door keeps no memory of users
+   */
+  forgetUser(doorId: string, userId: string): boolean {
+    const door = this.getDoor(doorId);
+    if (!door) {
+      throw new Error('Door game not found');
+    }
+    if (!door.forget) {
+      return false;
+    }
+
+    door.forget(userId);
+    return true;
+  }
+
   /**
    * Enter a door game
    */
@@ -0,0 +1,259 @@
+/**
+ * EchomailService Tests
+ *
+ * Tests for FTN packet reading and writing, exporting new posts from
+ * linked bases and tossing inbound packets with dupe checking
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EchomailService } from './EchomailService.js';
+import { buildPacket, parsePacket, parseFtnAddress, type FtnMessage } from './FtnPacket.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MessageRepository } from '../db/repositories/MessageRepository.js';
+import { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import { FtnRepository } from '../db/repositories/FtnRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+import { ModerationRepository } from '../db/repositories/ModerationRepository.js';
+import { MessageService } from './MessageService.js';
+import { ModerationService } from './ModerationService.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+const ours = parseFtnAddress('21:1/100');
+const uplink = parseFtnAddress('21:1/1');
+
+describe('FtnPacket', () => {
+  it('should round-trip echomail through a Type-2+ packet', () => {
+    const date = new Date(2024, 2, 5, 14, 30, 15);
+    const data = buildPacket(
+      {
+        from: ours,
+        to: uplink,
+        password: 'secret',
+        messages: [{
+          area: 'RETRO',
+          from: 'Alice',
+          to: 'All',
+          subject: 'Modems',
+          date,
+          body: 'My first was 2400 baud\nThen 14.4k',
+          msgid: '21:1/100 0badcafe',
+          reply: '21:1/200 12345678',
+        }],
+      },
+      { tearLine: 'BaudAgain', origin: 'BaudAgain BBS', seenBy: [ours, uplink] }
+    );
+
+    const text = data.toString('latin1');
+    expect(text).toContain('AREA:RETRO\r\x01MSGID: 21:1/100 0badcafe\r\x01REPLY: 21:1/200 12345678\r');
+    expect(text).toContain('05 Mar 24  14:30:15\0');
+    expect(text).toContain('--- BaudAgain\r * Origin: BaudAgain BBS (21:1/100)\rSEEN-BY: 1/1 100\r\x01PATH: 1/100\r');
+    expect(data.subarray(-2)).toEqual(Buffer.alloc(2));
+
+    const packet = parsePacket(data);
+    expect(packet).toMatchObject({ from: ours, to: uplink, password: 'SECRET' });
+    expect(packet.messages).toEqual([{
+      area: 'RETRO',
+      from: 'Alice',
+      to: 'All',
+      subject: 'Modems',
+      date,
+      body: 'My first was 2400 baud\nThen 14.4k',
+      msgid: '21:1/100 0badcafe',
+      reply: '21:1/200 12345678',
+      origin: '21:1/100',
+    }]);
+  });
+
+  it('should reject data that is not a packet', () => {
+    expect(() => parsePacket(Buffer.from('not a packet'))).toThrow('Invalid packet');
+    expect(() => parseFtnAddress('1/100')).toThrow('Invalid FTN address');
+  });
+});
+
+describe('EchomailService', () => {
+  let db: BBSDatabase;
+  let messageRepo: MessageRepository;
+  let ftnRepo: FtnRepository;
+  let echomail: EchomailService;
+  let inbound: string;
+  let outbound: string;
+
+  const post = (subject: string, body: string, baseId = 'base-retro', parentId?: string) =>
+    messageRepo.createMessage({ baseId, userId: 'user-a', subject, body, parentId });
+
+  const dropPacket = (name: string, messages: Partial<FtnMessage>[], password = 'SECRET') => {
+    const data = buildPacket(
+      {
+        from: uplink,
+        to: ours,
+        password,
+        messages: messages.map(message => ({
+          area: 'RETRO',
+          from: 'Carol',
+          to: 'All',
+          subject: 'Hello',
+          date: new Date(),
+          body: 'Greetings from another board',
+          ...message,
+        })),
+      },
+      { tearLine: 'Hub', origin: 'The Hub', seenBy: [uplink] }
+    );
+    fs.writeFileSync(path.join(inbound, name), data);
+  };
+
+  const readOutbound = () => fs.readdirSync(outbound).map(name => parsePacket(fs.readFileSync(path.join(outbound, name))));
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    messageRepo = new MessageRepository(db);
+    ftnRepo = new FtnRepository(db);
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'echomail-'));
+    inbound = path.join(root, 'inbound');
+    outbound = path.join(root, 'outbound');
+    fs.mkdirSync(inbound);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO message_bases (id, name, echo_tag) VALUES (?, ?, ?)', ['base-retro', 'Retro', 'RETRO']);
+    db.run('INSERT INTO message_bases (id, name) VALUES (?, ?)', ['base-local', 'Local']);
+
+    const messageBaseRepo = new MessageBaseRepository(db);
+    const userRepo = new UserRepository(db);
+    const moderationService = new ModerationService(
+      new ModerationRepository(db), messageRepo, messageBaseRepo, userRepo, undefined, mockLogger
+    );
+    echomail = new EchomailService(
+      messageRepo,
+      messageBaseRepo,
+      ftnRepo,
+      userRepo,
+      new MessageService(messageBaseRepo, messageRepo, userRepo, undefined, undefined, 60, moderationService),
+      { enabled: true, address: '21:1/100', uplink: '21:1/1', password: 'secret', inbound, outbound, schedule: '*/15', origin: 'BaudAgain BBS' },
+      mockLogger
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(path.dirname(inbound), { recursive: true, force: true });
+  });
+
+  describe('exportOutbound', () => {
+    it('should start from the newest post when a base is first linked', () => {
+      post('Old news', 'Posted before the link');
+
+      expect(echomail.exportOutbound()).toEqual({ fileName: undefined, messageCount: 0 });
+      expect(fs.existsSync(outbound)).toBe(false);
+    });
+
+    it('should pack new posts from linked bases for the uplink', () => {
+      echomail.exportOutbound();
+      const first = post('Modems', 'What was your first modem?');
+      post('Re: Modems', 'A 2400', 'base-retro', first.id);
+      post('Local only', 'Stays here', 'base-local');
+
+      const result = echomail.exportOutbound();
+
+      expect(result.messageCount).toBe(2);
+      expect(result.fileName).toMatch(/^[0-9A-F]{8}\.PKT$/);
+
+      const [packet] = readOutbound();
+      expect(packet).toMatchObject({ from: ours, to: uplink, password: 'SECRET' });
+      expect(packet.messages.map(m => m.subject)).toEqual(['Modems', 'Re: Modems']);
+      expect(packet.messages[0]).toMatchObject({ area: 'RETRO', from: 'Alice', body: 'What was your first modem?' });
+      expect(packet.messages[0].msgid).toMatch(/^21:1\/100 [0-9a-f]{8}$/);
+      expect(packet.messages[1]).toMatchObject({ to: 'Alice', reply: packet.messages[0].msgid });
+
+      expect(echomail.exportOutbound().messageCount).toBe(0);
+    });
+  });
+
+  describe('tossInbound', () => {
+    it('should post echomail into the linked base and drop duplicates', () => {
+      dropPacket('00000001.PKT', [
+        { subject: 'Hello', msgid: '21:1/200 00000001' },
+        { subject: 'No MSGID here' },
+        { area: 'NOWHERE', msgid: '21:1/200 00000002' },
+      ]);
+      dropPacket('00000002.pkt', [
+        { subject: 'Hello', msgid: '21:1/200 00000001' },
+        { subject: 'No MSGID here' },
+      ]);
+
+      const result = echomail.tossInbound();
+
+      expect(result).toEqual({ packets: 2, imported: 2, duplicates: 2, unknownArea: 1, badPackets: [] });
+      expect(fs.readdirSync(inbound)).toEqual([]);
+
+      const messages = messageRepo.getMessages('base-retro');
+      expect(messages).toHaveLength(2);
+      expect(messages.find(m => m.subject === 'Hello')).toMatchObject({
+        userId: 'echomail',
+        authorHandle: 'Echomail',
+        body: 'From: Carol (21:1/1)\n\nGreetings from another board',
+      });
+    });
+
+    it('should thread replies and never send tossed mail back out', () => {
+      echomail.exportOutbound();
+      const local = post('Modems', 'What was your first modem?');
+      echomail.exportOutbound();
+      const [sent] = readOutbound();
+
+      dropPacket('00000003.PKT', [
+        { subject: 'Re: Modems', msgid: '21:1/200 00000003', reply: sent.messages[0].msgid },
+      ]);
+      echomail.tossInbound();
+
+      const [reply] = messageRepo.getReplies(local.id);
+      expect(reply).toMatchObject({ subject: 'Re: Modems', baseId: 'base-retro' });
+      expect(echomail.exportOutbound().messageCount).toBe(0);
+    });
+
+    it('should strip escape codes and cut tossed mail to the length limits', () => {
+      dropPacket('00000006.PKT', [
+        { subject: '\x1b[2JWipe', msgid: '21:1/200 00000006', body: `\x1b]0;owned\x07${'Long story. '.repeat(2000)}` },
+      ]);
+
+      echomail.tossInbound();
+
+      const [message] = messageRepo.getMessages('base-retro');
+      expect(message.subject).toBe('[2JWipe');
+      expect(message.body).not.toContain('\x1b');
+      expect(message.body).toHaveLength(10000);
+    });
+
+    it('should hold tossed mail for moderation like a local post', () => {
+      db.run("UPDATE message_bases SET moderation_policy = 'all' WHERE id = ?", ['base-retro']);
+      dropPacket('00000007.PKT', [{ msgid: '21:1/200 00000007' }]);
+
+      expect(echomail.tossInbound().imported).toBe(1);
+      expect(messageRepo.getMessages('base-retro')).toEqual([]);
+    });
+
+    it('should set aside packets with the wrong password or that cannot be read', () => {
+      dropPacket('00000004.PKT', [{ msgid: '21:1/200 00000004' }], 'WRONG');
+      fs.writeFileSync(path.join(inbound, '00000005.PKT'), 'garbage');
+
+      const result = echomail.tossInbound();
+
+      expect(result.badPackets).toEqual(['00000004.PKT', '00000005.PKT']);
+      expect(fs.readdirSync(path.join(inbound, 'bad')).sort()).toEqual(['00000004.PKT', '00000005.PKT']);
+      expect(messageRepo.getMessages('base-retro')).toEqual([]);
+    });
+  });
+});
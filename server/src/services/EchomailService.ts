@@ -0,0 +1,300 @@
+/**
+ * Echomail Service
+ *
+ * FidoNet-style echomail for message bases linked to an echo tag. Export
+ * packs new local posts into a Type-2+ packet for the uplink in the
+ * outbound directory; tossing reads packets from the inbound directory
+ * into the linked bases. A mailer (or any script) moves the files between
+ * systems. MSGIDs are recorded both ways so duplicates are dropped,
+ * replies thread, and tossed mail is never sent back out.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { FastifyBaseLogger } from 'fastify';
+import type { MessageRepository } from '../db/repositories/MessageRepository.js';
+import type { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import type { FtnRepository } from '../db/repositories/FtnRepository.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type { MessageService } from './MessageService.js';
+import type { FtnConfig } from '../config/ConfigLoader.js';
+import {
+  buildPacket,
+  parsePacket,
+  parseFtnAddress,
+  formatFtnAddress,
+  type FtnAddress,
+  type FtnMessage
+} from './FtnPacket.js';
+
+// Keep packets to a size tossers cope with; the rest goes in the next run
+const MAX_MESSAGES_PER_PACKET = 500;
+
+// Local user that tossed echomail is posted as. It is found by its fixed
+// ID, as its handle is only reserved against registration.
+const ECHOMAIL_USER_ID = 'echomail';
+const ECHOMAIL_HANDLE = 'Echomail';
+
+const TEAR_LINE = 'BaudAgain';
+
+export interface EchomailExportResult {
+  fileName?: string; // Packet written to the outbound directory, if any
+  messageCount: number;
+}
+
+export interface EchomailTossResult {
+  packets: number;
+  imported: number;
+  duplicates: number;
+  unknownArea: number;
+  badPackets: string[]; // Files moved to inbound/bad
+}
+
+export class EchomailService {
+  private address: FtnAddress;
+  private uplink: FtnAddress;
+
+  constructor(
+    private messageRepo: MessageRepository,
+    private messageBaseRepo: MessageBaseRepository,
+    private ftnRepo: FtnRepository,
+    private userRepo: UserRepository,
+    private messageService: MessageService,
+    private config: FtnConfig & { origin: string },
+    private logger: FastifyBaseLogger
+  ) {
+    this.address = parseFtnAddress(config.address);
+    this.uplink = parseFtnAddress(config.uplink);
+  }
+
+  /**
+   * Export then toss, as the scheduled job does
+   */
+  run(): { exported: EchomailExportResult; tossed: EchomailTossResult } {
+    const exported = this.exportOutbound();
+    const tossed = this.tossInbound();
+    return { exported, tossed };
+  }
+
+  /**
+   * Write every new post in the linked bases to one packet for the uplink.
+   * A base's first scan only marks where export starts, so linking a base
+   * doesn't send its whole history to the echo.
+   */
+  exportOutbound(): EchomailExportResult {
+    const pointers = this.ftnRepo.getExportPointers();
+    const messages: FtnMessage[] = [];
+    const exported = new Map<string, string>(); // Message ID to MSGID
+    const newPointers = new Map<string, number>();
+
+    for (const base of this.messageBaseRepo.getAllMessageBases()) {
+      if (!base.echoTag) {
+        continue;
+      }
+
+      const pointer = pointers.get(base.id);
+      if (pointer === undefined) {
+        newPointers.set(base.id, this.messageRepo.getLatestMessageNumber(base.id));
+        continue;
+      }
+
+      const room = MAX_MESSAGES_PER_PACKET - messages.length;
+      if (room <= 0) {
+        break;
+      }
+
+      const baseMessages = this.messageRepo.getMessagesAfterNumber(base.id, pointer, room);
+      for (const message of baseMessages) {
+        // Mail tossed in from the echo has already been everywhere else
+        if (this.ftnRepo.getMsgid(message.id)) {
+          continue;
+        }
+
+        const msgid = `${formatFtnAddress(this.address)} ${createHash('sha1').update(message.id).digest('hex').slice(0, 8)}`;
+        messages.push({
+          area: base.echoTag,
+          from: message.authorHandle || 'Unknown',
+          to: message.parentAuthorHandle || 'All',
+          subject: message.subject,
+          date: message.createdAt,
+          body: message.body,
+          msgid,
+          reply: message.parentId ? this.getReplyMsgid(message.parentId, exported) : undefined,
+        });
+        exported.set(message.id, msgid);
+      }
+      if (baseMessages.length > 0) {
+        newPointers.set(base.id, baseMessages[baseMessages.length - 1].number);
+      }
+    }
+
+    let fileName: string | undefined;
+    if (messages.length > 0) {
+      const packet = buildPacket(
+        { from: this.address, to: this.uplink, password: this.config.password || '', messages },
+        { tearLine: TEAR_LINE, origin: this.config.origin, seenBy: [this.address, this.uplink] }
+      );
+      fileName = this.writeOutbound(packet);
+    }
+
+    for (const [messageId, msgid] of exported) {
+      this.ftnRepo.recordMsgid(msgid, messageId, 'out');
+    }
+    for (const [baseId, lastNumber] of newPointers) {
+      this.ftnRepo.setExportPointer(baseId, lastNumber);
+    }
+
+    if (fileName) {
+      this.logger.info({ fileName, messageCount: messages.length }, 'Echomail packet exported');
+    }
+    return { fileName, messageCount: messages.length };
+  }
+
+  /**
+   * Toss every packet in the inbound directory. Tossed packets are
+   * deleted; ones that can't be read or fail the password check are moved
+   * to inbound/bad for the sysop to look at.
+   */
+  tossInbound(): EchomailTossResult {
+    const result: EchomailTossResult = { packets: 0, imported: 0, duplicates: 0, unknownArea: 0, badPackets: [] };
+    fs.mkdirSync(this.config.inbound, { recursive: true });
+
+    const files = fs.readdirSync(this.config.inbound)
+      .filter(name => /\.pkt$/i.test(name))
+      .sort();
+
+    for (const name of files) {
+      const filePath = path.join(this.config.inbound, name);
+
+      let messages: FtnMessage[];
+      try {
+        const packet = parsePacket(fs.readFileSync(filePath));
+        if ((this.config.password || '').toUpperCase() !== packet.password.toUpperCase()) {
+          throw new Error(`Wrong packet password from ${formatFtnAddress(packet.from)}`);
+        }
+        messages = packet.messages;
+      } catch (error) {
+        this.logger.warn({ fileName: name, error }, 'Bad echomail packet');
+        this.moveToBad(filePath);
+        result.badPackets.push(name);
+        continue;
+      }
+
+      for (const message of messages) {
+        const outcome = this.tossMessage(message);
+        if (outcome === 'imported') {
+          result.imported++;
+        } else if (outcome === 'duplicate') {
+          result.duplicates++;
+        } else {
+          result.unknownArea++;
+        }
+      }
+
+      fs.unlinkSync(filePath);
+      result.packets++;
+    }
+
+    if (result.packets > 0 || result.badPackets.length > 0) {
+      this.logger.info(result, 'Echomail tossed');
+    }
+    return result;
+  }
+
+  /**
+   * Post one tossed message into the base linked to its area
+   */
+  private tossMessage(message: FtnMessage): 'imported' | 'duplicate' | 'unknown-area' {
+    const base = this.messageBaseRepo.getMessageBaseByEchoTag(message.area);
+    if (!base) {
+      this.logger.warn({ area: message.area }, 'Echomail for an area no message base is linked to');
+      return 'unknown-area';
+    }
+
+    // Messages without a MSGID are told apart by their content
+    const msgid = message.msgid || `NOMSGID ${createHash('sha1')
+      .update([message.area, message.from, message.subject, message.body].join('\0'))
+      .digest('hex')}`;
+    if (this.ftnRepo.findMessageIdByMsgid(msgid)) {
+      return 'duplicate';
+    }
+
+    const parentId = message.reply ? this.ftnRepo.findMessageIdByMsgid(message.reply) : null;
+    const parent = parentId ? this.messageRepo.getMessage(parentId) : null;
+    const author = message.origin ? `${message.from} (${message.origin})` : message.from;
+
+    // Sanitized, cut to length and screened like any other post
+    const posted = this.messageService.importMessage({
+      baseId: base.id,
+      userId: this.getOrCreateEchomailUser().id,
+      subject: message.subject,
+      body: `From: ${author}\n\n${message.body}`,
+      parentId: parent?.baseId === base.id ? parent.id : undefined,
+    });
+    this.ftnRepo.recordMsgid(msgid, posted.id, 'in');
+
+    return 'imported';
+  }
+
+  /**
+   * Find the MSGID a reply points at: the parent may be in this packet,
+   * an earlier one, or have been tossed in from the echo
+   */
+  private getReplyMsgid(parentId: string, exported: Map<string, string>): string | undefined {
+    return exported.get(parentId) ?? this.ftnRepo.getMsgid(parentId) ?? undefined;
+  }
+
+  /**
+   * Write a packet to the outbound directory under a fresh name. It is
+   * written under a temporary name first so a mailer never picks up half
+   * a packet.
+   */
+  private writeOutbound(packet: Buffer): string {
+    fs.mkdirSync(this.config.outbound, { recursive: true });
+
+    let serial = Math.floor(Date.now() / 1000) >>> 0;
+    let fileName = this.packetName(serial);
+    while (fs.existsSync(path.join(this.config.outbound, fileName))) {
+      fileName = this.packetName(++serial);
+    }
+
+    const filePath = path.join(this.config.outbound, fileName);
+    fs.writeFileSync(`${filePath}.tmp`, packet);
+    fs.renameSync(`${filePath}.tmp`, filePath);
+    return fileName;
+  }
+
+  private packetName(serial: number): string {
+    return `${(serial >>> 0).toString(16).padStart(8, '0').toUpperCase()}.PKT`;
+  }
+
+  private moveToBad(filePath: string): void {
+    const badDir = path.join(this.config.inbound, 'bad');
+    fs.mkdirSync(badDir, { recursive: true });
+    fs.renameSync(filePath, path.join(badDir, path.basename(filePath)));
+  }
+
+  /**
+   * Get or create the user tossed echomail is posted as
+   */
+  private getOrCreateEchomailUser() {
+    let user = this.userRepo.findById(ECHOMAIL_USER_ID);
+
+    if (!user) {
+      user = this.userRepo.create(
+        ECHOMAIL_HANDLE,
+        '', // Never logs in
+        {
+          realName: 'FidoNet Echomail',
+          bio: 'Messages from other boards, tossed in from linked echoes',
+          id: ECHOMAIL_USER_ID,
+        }
+      );
+
+      this.logger.info({ userId: user.id }, 'Created echomail user');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * FTN Packet Format
+ *
+ * Reads and writes FidoNet Type-2+ packets (FSC-0039/FSC-0048), the
+ * .PKT files mailers pass between systems:
+ * - a 58-byte packet header naming the sending and receiving nodes
+ * - packed messages, each a 14-byte header, a 20-byte date and
+ *   NUL-terminated to, from, subject and text fields
+ * - two NUL bytes to end the packet
+ * Echomail text starts with an AREA line and carries ^A kludge lines
+ * (MSGID, REPLY), a tear line, an Origin line, SEEN-BY and PATH.
+ */
+
+import { CP437 } from '../ansi/CP437.js';
+
+const PACKET_HEADER_SIZE = 58;
+const PACKET_TYPE = 2;
+const MESSAGE_TYPE = 2;
+const CAPABILITY_TYPE_2_PLUS = 0x0001;
+const PASSWORD_LENGTH = 8;
+
+// Longest to, from and subject fields, not counting the NUL
+const NAME_LENGTH = 35;
+const SUBJECT_LENGTH = 71;
+
+const KLUDGE = '\x01';
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface FtnAddress {
+  zone: number;
+  net: number;
+  node: number;
+  point: number;
+}
+
+export interface FtnMessage {
+  area: string;
+  from: string;
+  to: string;
+  subject: string;
+  date: Date;
+  body: string;
+  msgid?: string;
+  reply?: string; // MSGID of the message being replied to
+  origin?: string; // Address from the Origin line
+}
+
+export interface FtnPacket {
+  from: FtnAddress;
+  to: FtnAddress;
+  password: string;
+  messages: FtnMessage[];
+}
+
+export interface EchomailOptions {
+  tearLine: string; // Program name shown on the tear line
+  origin: string; // Text of the Origin line, usually the BBS name
+  seenBy: FtnAddress[]; // Nodes that have now seen the message
+}
+
+/**
+ * Parse an address such as 21:1/100 or 21:1/100.5
+ */
+export function parseFtnAddress(address: string): FtnAddress {
+  const match = address.trim().match(/^(\d+):(\d+)\/(\d+)(?:\.(\d+))?(?:@\S+)?$/);
+  if (!match) {
+    throw new Error(`Invalid FTN address: ${address}`);
+  }
+
+  return {
+    zone: Number(match[1]),
+    net: Number(match[2]),
+    node: Number(match[3]),
+    point: match[4] ? Number(match[4]) : 0,
+  };
+}
+
+/**
+ * Format an address as zone:net/node, with .point for points
+ */
+export function formatFtnAddress(address: FtnAddress): string {
+  const base = `${address.zone}:${address.net}/${address.node}`;
+  return address.point ? `${base}.${address.point}` : base;
+}
+
+/**
+ * Build a packet of echomail messages
+ */
+export function buildPacket(packet: FtnPacket, options: EchomailOptions, created: Date = new Date()): Buffer {
+  const { from, to } = packet;
+  const header = Buffer.alloc(PACKET_HEADER_SIZE);
+  header.writeUInt16LE(from.node, 0);
+  header.writeUInt16LE(to.node, 2);
+  header.writeUInt16LE(created.getFullYear(), 4);
+  header.writeUInt16LE(created.getMonth(), 6); // Months count from 0
+  header.writeUInt16LE(created.getDate(), 8);
+  header.writeUInt16LE(created.getHours(), 10);
+  header.writeUInt16LE(created.getMinutes(), 12);
+  header.writeUInt16LE(created.getSeconds(), 14);
+  header.writeUInt16LE(PACKET_TYPE, 18);
+  header.writeUInt16LE(from.net, 20);
+  header.writeUInt16LE(to.net, 22);
+  header[24] = 0xfe; // Product code: none assigned
+  Buffer.from(packet.password.toUpperCase().slice(0, PASSWORD_LENGTH), 'latin1').copy(header, 26);
+  header.writeUInt16LE(from.zone, 34);
+  header.writeUInt16LE(to.zone, 36);
+  header.writeUInt16BE(CAPABILITY_TYPE_2_PLUS, 40); // Byte-swapped copy of the capability word
+  header.writeUInt16LE(CAPABILITY_TYPE_2_PLUS, 44);
+  header.writeUInt16LE(from.zone, 46);
+  header.writeUInt16LE(to.zone, 48);
+  header.writeUInt16LE(from.point, 50);
+  header.writeUInt16LE(to.point, 52);
+
+  const parts: Buffer[] = [header];
+  for (const message of packet.messages) {
+    const messageHeader = Buffer.alloc(14);
+    messageHeader.writeUInt16LE(MESSAGE_TYPE, 0);
+    messageHeader.writeUInt16LE(from.node, 2);
+    messageHeader.writeUInt16LE(to.node, 4);
+    messageHeader.writeUInt16LE(from.net, 6);
+    messageHeader.writeUInt16LE(to.net, 8);
+    // Attribute and cost stay zero
+
+    parts.push(
+      messageHeader,
+      nulTerminated(formatFtnDate(message.date).padEnd(19, ' ')),
+      nulTerminated(message.to.slice(0, NAME_LENGTH)),
+      nulTerminated(message.from.slice(0, NAME_LENGTH)),
+      nulTerminated(message.subject.slice(0, SUBJECT_LENGTH)),
+      nulTerminated(buildEchomailText(message, from, options))
+    );
+  }
+
+  parts.push(Buffer.alloc(2));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parse a packet. Netmail (messages without an AREA line) is skipped.
+ */
+export function parsePacket(data: Buffer): FtnPacket {
+  if (data.length < PACKET_HEADER_SIZE + 2) {
+    throw new Error('Invalid packet: file is too short');
+  }
+  if (data.readUInt16LE(18) !== PACKET_TYPE) {
+    throw new Error('Invalid packet: not a Type-2 packet');
+  }
+
+  // Type-2+ packets keep zones and points after the capability word
+  const capabilities = data.readUInt16LE(44);
+  const isType2Plus = (capabilities & CAPABILITY_TYPE_2_PLUS) !== 0 && data.readUInt16BE(40) === capabilities;
+  const from: FtnAddress = {
+    zone: (isType2Plus && data.readUInt16LE(46)) || data.readUInt16LE(34),
+    net: data.readUInt16LE(20),
+    node: data.readUInt16LE(0),
+    point: isType2Plus ? data.readUInt16LE(50) : 0,
+  };
+  const to: FtnAddress = {
+    zone: (isType2Plus && data.readUInt16LE(48)) || data.readUInt16LE(36),
+    net: data.readUInt16LE(22),
+    node: data.readUInt16LE(2),
+    point: isType2Plus ? data.readUInt16LE(52) : 0,
+  };
+  const password = data.toString('latin1', 26, 26 + PASSWORD_LENGTH).replace(/\0.*$/s, '').trim();
+
+  const messages: FtnMessage[] = [];
+  let position = PACKET_HEADER_SIZE;
+
+  while (true) {
+    if (position + 2 > data.length) {
+      throw new Error('Invalid packet: missing end of packet');
+    }
+    const type = data.readUInt16LE(position);
+    if (type === 0) {
+      break;
+    }
+    if (type !== MESSAGE_TYPE || position + 14 > data.length) {
+      throw new Error('Invalid packet: damaged message header');
+    }
+    position += 14;
+
+    const fields: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const end = data.indexOf(0, position);
+      if (end === -1) {
+        throw new Error('Invalid packet: unterminated message field');
+      }
+      fields.push(CP437.decode(data.subarray(position, end)));
+      position = end + 1;
+    }
+
+    const [date, to, fromName, subject, text] = fields;
+    const message = parseEchomailText(text);
+    if (message) {
+      messages.push({ ...message, from: fromName.trim(), to: to.trim(), subject: subject.trim(), date: parseFtnDate(date) });
+    }
+  }
+
+  return { from, to, password, messages };
+}
+
+/**
+ * Lay out echomail text: AREA line and kludges, the body, then the tear
+ * line, Origin line, SEEN-BY and PATH
+ */
+function buildEchomailText(message: FtnMessage, from: FtnAddress, options: EchomailOptions): string {
+  const lines = [`AREA:${message.area}`];
+  if (message.msgid) {
+    lines.push(`${KLUDGE}MSGID: ${message.msgid}`);
+  }
+  if (message.reply) {
+    lines.push(`${KLUDGE}REPLY: ${message.reply}`);
+  }
+  lines.push(`${KLUDGE}CHRS: CP437 2`);
+
+  lines.push(...message.body.replace(/\r\n?/g, '\n').split('\n'));
+  lines.push(
+    `--- ${options.tearLine}`,
+    ` * Origin: ${options.origin} (${formatFtnAddress(from)})`,
+    `SEEN-BY: ${formatNetNodes(options.seenBy)}`,
+    `${KLUDGE}PATH: ${formatNetNodes([from])}`
+  );
+
+  return lines.map(line => `${line}\r`).join('');
+}
+
+/**
+ * Pull the area, kludges and origin out of echomail text, leaving the
+ * body. Returns null for netmail.
+ */
+function parseEchomailText(text: string): Omit<FtnMessage, 'from' | 'to' | 'subject' | 'date'> | null {
+  const lines = text.replace(/\n/g, '').split('\r');
+  const areaLine = lines[0]?.match(/^AREA:\s*(\S+)/i);
+  if (!areaLine) {
+    return null;
+  }
+
+  let msgid: string | undefined;
+  let reply: string | undefined;
+  let origin: string | undefined;
+  const body: string[] = [];
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith(KLUDGE)) {
+      const kludge = line.slice(1).match(/^(\w+):?\s*(.*)$/);
+      if (kludge?.[1].toUpperCase() === 'MSGID') {
+        msgid = kludge[2].trim();
+      } else if (kludge?.[1].toUpperCase() === 'REPLY') {
+        reply = kludge[2].trim();
+      }
+      continue;
+    }
+    if (/^SEEN-BY:/.test(line)) {
+      continue;
+    }
+
+    const originLine = line.match(/^ \* Origin: .*\(([^()]+)\)\s*$/);
+    if (originLine) {
+      origin = originLine[1].trim();
+      // The tear line sits just above the Origin line
+      if (body.length > 0 && /^---( |$)/.test(body[body.length - 1])) {
+        body.pop();
+      }
+      continue;
+    }
+
+    body.push(line.trimEnd());
+  }
+
+  return {
+    area: areaLine[1].toUpperCase(),
+    body: body.join('\n').trim(),
+    msgid,
+    reply,
+    origin,
+  };
+}
+
+/**
+ * List nodes as SEEN-BY and PATH do: net/node, leaving the net off when
+ * it is the same as the one before
+ */
+function formatNetNodes(addresses: FtnAddress[]): string {
+  const sorted = [...addresses].sort((a, b) => a.net - b.net || a.node - b.node);
+  let lastNet = -1;
+  return sorted
+    .filter((address, i) => i === 0 || address.net !== sorted[i - 1].net || address.node !== sorted[i - 1].node)
+    .map(address => {
+      const entry = address.net === lastNet ? String(address.node) : `${address.net}/${address.node}`;
+      lastNet = address.net;
+      return entry;
+    })
+    .join(' ');
+}
+
+/**
+ * Format a message date as "DD Mon YY  HH:MM:SS"
+ */
+function formatFtnDate(date: Date): string {
+  return `${pad2(date.getDate())} ${MONTHS[date.getMonth()]} ${pad2(date.getFullYear() % 100)}  ` +
+    `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`;
+}
+
+/**
+ * Parse a message date, falling back to now for the odd formats some
+ * software writes
+ */
+function parseFtnDate(text: string): Date {
+  const match = text.trim().match(/^(\d{1,2}) (\w{3}) (\d{2})\s+(\d{2}):(\d{2}):(\d{2})/);
+  const month = match ? MONTHS.indexOf(match[2]) : -1;
+  if (!match || month === -1) {
+    return new Date();
+  }
+
+  const year = Number(match[3]);
+  return new Date(year < 80 ? 2000 + year : 1900 + year, month, Number(match[1]),
+    Number(match[4]), Number(match[5]), Number(match[6]));
+}
+
+function nulTerminated(text: string): Buffer {
+  return Buffer.concat([CP437.encode(text.replace(/\0/g, '')), Buffer.alloc(1)]);
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,142 @@
+/**
+ * MailService Tests
+ *
+ * Tests for private mail: delivery, read state, reply/forward,
+ * per-user delete and new mail notifications
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MailService } from './MailService.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MailRepository } from '../db/repositories/MailRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+import { NotificationEventType } from '../notifications/types.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('MailService', () => {
+  let db: BBSDatabase;
+  let mailService: MailService;
+  let mockNotificationService: any;
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-c', 'Carol', 'hash']);
+
+    mockNotificationService = {
+      broadcastToUser: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mailService = new MailService(new MailRepository(db), new UserRepository(db), mockNotificationService);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const send = (subject = 'Hello', body = 'Hi Bob') =>
+    mailService.sendMail({ fromUserId: 'user-a', toHandle: 'Bob', subject, body });
+
+  it('should deliver mail to the recipient as unread', () => {
+    const mail = send();
+
+    expect(mail).toMatchObject({ fromHandle: 'Alice', toHandle: 'Bob', subject: 'Hello' });
+    expect(mailService.getInbox('user-b').map(m => m.id)).toEqual([mail.id]);
+    expect(mailService.getSent('user-a').map(m => m.id)).toEqual([mail.id]);
+    expect(mailService.getUnreadCount('user-b')).toBe(1);
+    expect(mailService.getUnreadCount('user-a')).toBe(0);
+  });
+
+  it('should reject mail to an unknown handle', () => {
+    expect(() => mailService.sendMail({
+      fromUserId: 'user-a',
+      toHandle: 'Nobody',
+      subject: 'Hello',
+      body: 'Anyone there?',
+    })).toThrow('not found');
+  });
+
+  it('should not count mail that fails validation against the rate limit', () => {
+    const remaining = mailService.getRemainingMails('user-a');
+
+    expect(() => send('', 'No subject')).toThrow('Subject');
+    expect(() => mailService.sendMail({ fromUserId: 'user-a', toHandle: 'Nobody', subject: 'Hi', body: 'Hi' })).toThrow('not found');
+    expect(mailService.getRemainingMails('user-a')).toBe(remaining);
+
+    send();
+    expect(mailService.getRemainingMails('user-a')).toBe(remaining - 1);
+  });
+
+  it('should notify only the recipient when mail arrives', () => {
+    const mail = send();
+
+    expect(mockNotificationService.broadcastToUser).toHaveBeenCalledTimes(1);
+    const [userId, event] = mockNotificationService.broadcastToUser.mock.calls[0];
+    expect(userId).toBe('user-b');
+    expect(event.type).toBe(NotificationEventType.MAIL_RECEIVED);
+    expect(event.data).toMatchObject({ mailId: mail.id, fromHandle: 'Alice', unreadCount: 1 });
+  });
+
+  it('should mark mail read only when the recipient reads it', () => {
+    const mail = send();
+
+    expect(mailService.readMail(mail.id, 'user-a')?.readAt).toBeUndefined();
+    expect(mailService.getUnreadCount('user-b')).toBe(1);
+
+    expect(mailService.readMail(mail.id, 'user-b')?.readAt).toBeInstanceOf(Date);
+    expect(mailService.getUnreadCount('user-b')).toBe(0);
+  });
+
+  it('should not show mail to anyone but the sender and recipient', () => {
+    const mail = send();
+
+    expect(mailService.readMail(mail.id, 'user-c')).toBeNull();
+    expect(mailService.deleteMail(mail.id, 'user-c')).toBe(false);
+    expect(() => mailService.replyToMail(mail.id, 'user-c', 'Me too')).toThrow('Mail not found');
+  });
+
+  it('should reply to the other party with a single Re: prefix', () => {
+    const mail = send();
+
+    const reply = mailService.replyToMail(mail.id, 'user-b', 'Hi Alice');
+    const replyToReply = mailService.replyToMail(reply.id, 'user-a', 'Hi again');
+
+    expect(reply).toMatchObject({ toHandle: 'Alice', subject: 'Re: Hello', replyToId: mail.id });
+    expect(replyToReply).toMatchObject({ toHandle: 'Bob', subject: 'Re: Hello', replyToId: reply.id });
+  });
+
+  it('should forward mail with the original quoted below the note', () => {
+    const mail = send('Plans', 'Meet at noon');
+
+    const forwarded = mailService.forwardMail(mail.id, 'user-b', 'Carol', 'FYI');
+
+    expect(forwarded).toMatchObject({ fromHandle: 'Bob', toHandle: 'Carol', subject: 'Fwd: Plans' });
+    expect(forwarded.body).toMatch(/^FYI\n\n--- Forwarded mail ---\nFrom: Alice\n/);
+    expect(forwarded.body).toContain('Meet at noon');
+  });
+
+  it('should delete mail for one side only', () => {
+    const mail = send();
+
+    expect(mailService.deleteMail(mail.id, 'user-b')).toBe(true);
+
+    expect(mailService.getInbox('user-b')).toHaveLength(0);
+    expect(mailService.getUnreadCount('user-b')).toBe(0);
+    expect(mailService.readMail(mail.id, 'user-b')).toBeNull();
+    expect(mailService.getSent('user-a')).toHaveLength(1);
+    expect(mailService.readMail(mail.id, 'user-a')?.id).toBe(mail.id);
+  });
+});
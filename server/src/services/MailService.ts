@@ -0,0 +1,245 @@
+/**
+ * Mail Service
+ *
+ * Business logic for private mail between users.
+ */
+
+import type { MailRepository, Mail } from '../db/repositories/MailRepository.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type { NotificationService } from '../notifications/NotificationService.js';
+import { validateLength, sanitizeInput } from '../utils/ValidationUtils.js';
+import { RateLimiter } from '../utils/RateLimiter.js';
+import { NotificationEventType, createNotificationEvent, type MailReceivedPayload } from '../notifications/types.js';
+
+export interface SendMailData {
+  fromUserId: string;
+  toHandle: string;
+  subject: string;
+  body: string;
+  replyToId?: string;
+}
+
+export class MailService {
+  private mailRateLimiter: RateLimiter;
+
+  constructor(
+    private mailRepo: MailRepository,
+    private userRepo: UserRepository,
+    private notificationService?: NotificationService
+  ) {
+    // 30 mails per hour (3600000 ms)
+    this.mailRateLimiter = new RateLimiter(30, 3600000);
+  }
+
+  /**
+   * Get mail received by a user
+   */
+  getInbox(userId: string, limit: number = 50, offset: number = 0): Mail[] {
+    return this.mailRepo.getInbox(userId, limit, offset);
+  }
+
+  /**
+   * Get mail sent by a user
+   */
+  getSent(userId: string, limit: number = 50, offset: number = 0): Mail[] {
+    return this.mailRepo.getSent(userId, limit, offset);
+  }
+
+  /**
+   * Get count of mail in a user's inbox
+   */
+  getInboxCount(userId: string): number {
+    return this.mailRepo.getInboxCount(userId);
+  }
+
+  /**
+   * Get count of mail sent by a user
+   */
+  getSentCount(userId: string): number {
+    return this.mailRepo.getSentCount(userId);
+  }
+
+  /**
+   * Get count of unread mail in a user's inbox
+   */
+  getUnreadCount(userId: string): number {
+    return this.mailRepo.getUnreadCount(userId);
+  }
+
+  /**
+   * Check whether a handle can receive mail
+   */
+  userExists(handle: string): boolean {
+    return !!this.userRepo.findByHandle(handle.trim());
+  }
+
+  /**
+   * Get a mail if the user sent or received it and hasn't deleted it
+   */
+  getMail(id: string, userId: string): Mail | null {
+    const mail = this.mailRepo.getMail(id);
+    if (!mail) return null;
+
+    const isSender = mail.fromUserId === userId && !mail.deletedBySender;
+    const isRecipient = mail.toUserId === userId && !mail.deletedByRecipient;
+    return isSender || isRecipient ? mail : null;
+  }
+
+  /**
+   * Get a mail for reading, marking it read when the recipient opens it
+   */
+  readMail(id: string, userId: string): Mail | null {
+    const mail = this.getMail(id, userId);
+    if (!mail) return null;
+
+    if (mail.toUserId === userId && !mail.readAt) {
+      this.mailRepo.markRead(id);
+      return { ...mail, readAt: new Date() };
+    }
+
+    return mail;
+  }
+
+  /**
+   * Send a mail to another user by handle
+   */
+  sendMail(data: SendMailData): Mail {
+    const recipient = this.userRepo.findByHandle(data.toHandle.trim());
+    if (!recipient) {
+      throw new Error(`User "${data.toHandle.trim()}" not found`);
+    }
+
+    // Validate subject
+    const subjectValidation = validateLength(data.subject, 1, 200, 'Subject');
+    if (!subjectValidation.valid) {
+      throw new Error(subjectValidation.error || 'Invalid subject');
+    }
+
+    // Validate body
+    const bodyValidation = validateLength(data.body, 1, 10000, 'Body');
+    if (!bodyValidation.valid) {
+      throw new Error(bodyValidation.error || 'Invalid mail body');
+    }
+
+    // Check rate limit last, so mail that was never sent doesn't count
+    if (!this.mailRateLimiter.isAllowed(data.fromUserId)) {
+      const resetTime = this.mailRateLimiter.getResetTime(data.fromUserId);
+      const minutes = Math.ceil(resetTime / 60);
+      throw new Error(`Rate limit exceeded. You can send mail again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`);
+    }
+
+    const mail = this.mailRepo.createMail({
+      fromUserId: data.fromUserId,
+      toUserId: recipient.id,
+      subject: sanitizeInput(data.subject),
+      body: sanitizeInput(data.body),
+      replyToId: data.replyToId,
+    });
+
+    if (this.notificationService) {
+      this.notifyRecipient(mail);
+    }
+
+    return mail;
+  }
+
+  /**
+   * Reply to a mail. The reply goes to the other party of the original.
+   */
+  replyToMail(id: string, userId: string, body: string): Mail {
+    const original = this.getMail(id, userId);
+    if (!original) {
+      throw new Error('Mail not found');
+    }
+
+    const toHandle = original.fromUserId === userId ? original.toHandle : original.fromHandle;
+    if (!toHandle) {
+      throw new Error('Recipient no longer exists');
+    }
+
+    return this.sendMail({
+      fromUserId: userId,
+      toHandle,
+      subject: this.prefixSubject('Re: ', original.subject),
+      body,
+      replyToId: original.id,
+    });
+  }
+
+  /**
+   * Forward a mail to another user, quoting the original below an optional note
+   */
+  forwardMail(id: string, userId: string, toHandle: string, note: string = ''): Mail {
+    const original = this.getMail(id, userId);
+    if (!original) {
+      throw new Error('Mail not found');
+    }
+
+    const quoted = [
+      '--- Forwarded mail ---',
+      `From: ${original.fromHandle || 'Unknown'}`,
+      `To: ${original.toHandle || 'Unknown'}`,
+      `Subject: ${original.subject}`,
+      '',
+      original.body,
+    ].join('\n');
+
+    return this.sendMail({
+      fromUserId: userId,
+      toHandle,
+      subject: this.prefixSubject('Fwd: ', original.subject),
+      body: note.trim() ? `${note.trim()}\n\n${quoted}` : quoted,
+    });
+  }
+
+  /**
+   * Delete a mail from the user's inbox or sent folder
+   */
+  deleteMail(id: string, userId: string): boolean {
+    if (!this.getMail(id, userId)) {
+      return false;
+    }
+
+    this.mailRepo.deleteMail(id, userId);
+    return true;
+  }
+
+  /**
+   * Get remaining mails a user can send
+   */
+  getRemainingMails(userId: string): number {
+    return this.mailRateLimiter.getRemaining(userId);
+  }
+
+  /**
+   * Add a Re:/Fwd: prefix without stacking it, keeping within the subject limit
+   */
+  private prefixSubject(prefix: string, subject: string): string {
+    const prefixed = subject.toLowerCase().startsWith(prefix.toLowerCase()) ? subject : prefix + subject;
+    return prefixed.slice(0, 200);
+  }
+
+  /**
+   * Tell the recipient's connected clients that mail has arrived
+   */
+  private notifyRecipient(mail: Mail): void {
+    if (!this.notificationService) {
+      return;
+    }
+
+    const payload: MailReceivedPayload = {
+      mailId: mail.id,
+      fromHandle: mail.fromHandle || 'Unknown',
+      subject: mail.subject,
+      unreadCount: this.mailRepo.getUnreadCount(mail.toUserId),
+      createdAt: mail.createdAt.toISOString(),
+    };
+
+    const event = createNotificationEvent(NotificationEventType.MAIL_RECEIVED, payload);
+
+    // Send asynchronously (don't block sending the mail)
+    this.notificationService.broadcastToUser(mail.toUserId, event).catch(error => {
+      console.error('Failed to send mail received event:', error);
+    });
+  }
+}
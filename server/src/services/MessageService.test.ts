@@ -225,4 +225,231 @@ describe('MessageService - Notification Broadcasting', () => {
     expect(result).toEqual(createdMessage);
     expect(mockNotificationService.broadcast).not.toHaveBeenCalled();
   });
+
+  it('should not broadcast messages held for moderation', () => {
+    const createdMessage = {
+      id: 'msg-789',
+      baseId: 'base-123',
+      userId: 'user-456',
+      subject: 'Test Subject',
+      body: 'Test message body',
+      createdAt: new Date(),
+      isDeleted: false,
+      isHeld: false,
+    };
+    const mockModerationService = {
+      screenMessage: vi.fn().mockReturnValue(true),
+    };
+
+    mockMessageRepo.createMessage.mockReturnValue(createdMessage);
+    mockMessageBaseRepo.getMessageBase.mockReturnValue({ id: 'base-123', name: 'General Discussion' });
+
+    const moderatedService = new MessageService(
+      mockMessageBaseRepo as any,
+      mockMessageRepo as any,
+      mockUserRepo as any,
+      mockNotificationService as any,
+      undefined,
+      undefined,
+      mockModerationService as any
+    );
+
+    const result = moderatedService.postMessage({
+      baseId: 'base-123',
+      userId: 'user-456',
+      subject: 'Test Subject',
+      body: 'Test message body',
+    });
+
+    expect(mockModerationService.screenMessage).toHaveBeenCalledWith(createdMessage, expect.any(Function));
+    expect(result.isHeld).toBe(true);
+    expect(mockNotificationService.broadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe('MessageService - Threads', () => {
+  let messageService: MessageService;
+  let mockMessageRepo: any;
+
+  const message = (id: string, parentId?: string, extra: Record<string, unknown> = {}) => ({
+    id,
+    baseId: 'base-1',
+    parentId,
+    userId: 'user-1',
+    authorHandle: 'Alice',
+    subject: `Subject ${id}`,
+    body: `Body ${id}`,
+    createdAt: new Date('2026-10-01T12:00:00Z'),
+    isDeleted: false,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    mockMessageRepo = {
+      getThread: vi.fn().mockReturnValue([
+        message('root'),
+        message('a', 'root', { isDeleted: true }),
+        message('b', 'root'),
+        message('a1', 'a'),
+      ]),
+    };
+
+    messageService = new MessageService({} as any, mockMessageRepo, {} as any);
+  });
+
+  it('should nest replies and keep deleted messages as placeholders', () => {
+    const thread = messageService.getThread('a1')!;
+
+    expect(thread.message.id).toBe('root');
+    expect(thread.replies.map(r => r.message.id)).toEqual(['a', 'b']);
+    expect(thread.replies[0].message).toMatchObject({ subject: '[deleted]', body: '' });
+    expect(thread.replies[0].replies[0].message.id).toBe('a1');
+  });
+
+  it('should list readable messages depth first', () => {
+    expect(messageService.getThreadMessages('b').map(m => m.id)).toEqual(['root', 'a1', 'b']);
+  });
+
+  it('should quote the parent under an attribution line', () => {
+    const parent = message('p', undefined, {
+      subject: 'Re: Modems',
+      body: '> older quote\n\nLine 1\nLine 2\nLine 3\nLine 4\nLine 5\n\nLine 6\nLine 7',
+    });
+
+    const draft = messageService.draftReply(parent as any);
+
+    expect(draft.subject).toBe('Re: Modems');
+    expect(draft.quote).toBe(
+      'On 2026-10-01, Alice wrote:\n> Line 1\n> Line 2\n> Line 3\n> Line 4\n> Line 5\n> ...'
+    );
+  });
+});
+
+describe('MessageService - Editing', () => {
+  let messageService: MessageService;
+  let mockMessageRepo: any;
+  let mockNotificationService: any;
+  let users: Record<string, any>;
+
+  const posted = (minutesAgo: number) => ({
+    id: 'msg-1',
+    baseId: 'base-1',
+    userId: 'user-1',
+    authorHandle: 'Alice',
+    subject: 'Modems',
+    body: 'Original text',
+    createdAt: new Date(Date.now() - minutesAgo * 60000),
+    isDeleted: false,
+  });
+
+  beforeEach(() => {
+    users = {
+      'user-1': { id: 'user-1', handle: 'Alice', accessLevel: 10 },
+      'user-2': { id: 'user-2', handle: 'Bob', accessLevel: 10 },
+      'sysop': { id: 'sysop', handle: 'SysOp', accessLevel: 255 },
+    };
+    mockMessageRepo = {
+      getMessage: vi.fn().mockReturnValue(posted(5)),
+      updateMessage: vi.fn(),
+      deleteMessage: vi.fn(),
+    };
+    mockNotificationService = {
+      broadcast: vi.fn().mockResolvedValue(undefined),
+    };
+
+    messageService = new MessageService(
+      { getMessageBase: vi.fn().mockReturnValue({ id: 'base-1', name: 'General' }) } as any,
+      mockMessageRepo,
+      { findById: vi.fn((id: string) => users[id]) } as any,
+      mockNotificationService,
+      undefined,
+      30
+    );
+  });
+
+  it('should let authors modify posts only within the edit window', async () => {
+    expect(await messageService.canModifyMessage('user-1', posted(5) as any)).toBe(true);
+    expect(await messageService.canModifyMessage('user-1', posted(45) as any)).toBe(false);
+    expect(await messageService.canModifyMessage('user-2', posted(5) as any)).toBe(false);
+    expect(await messageService.canModifyMessage(undefined, posted(5) as any)).toBe(false);
+    expect(await messageService.canModifyMessage('sysop', posted(500) as any)).toBe(true);
+  });
+
+  it('should record the editor and broadcast the change', async () => {
+    await messageService.editMessage('msg-1', 'user-1', { body: 'Corrected text' });
+
+    expect(mockMessageRepo.updateMessage).toHaveBeenCalledWith('msg-1', 'Modems', 'Corrected text', 'user-1');
+    const event = mockNotificationService.broadcast.mock.calls[0][0];
+    expect(event.type).toBe(NotificationEventType.MESSAGE_UPDATED);
+    expect(event.data).toMatchObject({ messageId: 'msg-1', changedByHandle: 'Alice', deleted: false });
+  });
+
+  it('should screen edits and hold back the change notice for held posts', async () => {
+    const mockModerationService = { screenMessage: vi.fn().mockReturnValue(true) };
+    const moderatedService = new MessageService(
+      { getMessageBase: vi.fn() } as any,
+      mockMessageRepo,
+      { findById: vi.fn((id: string) => users[id]) } as any,
+      mockNotificationService,
+      undefined,
+      30,
+      mockModerationService as any
+    );
+
+    const updated = await moderatedService.editMessage('msg-1', 'user-1', { body: 'FREE MONEY' });
+
+    expect(mockModerationService.screenMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'msg-1' }),
+      expect.any(Function)
+    );
+    expect(updated.isHeld).toBe(true);
+    expect(mockNotificationService.broadcast).not.toHaveBeenCalled();
+  });
+
+  it('should let a sysop delete any message and refuse everyone else', async () => {
+    await expect(messageService.deleteMessage('msg-1', 'user-2')).rejects.toThrow('Not allowed');
+    expect(mockMessageRepo.deleteMessage).not.toHaveBeenCalled();
+
+    await messageService.deleteMessage('msg-1', 'sysop');
+
+    expect(mockMessageRepo.deleteMessage).toHaveBeenCalledWith('msg-1', 'sysop');
+    expect(mockNotificationService.broadcast.mock.calls[0][0].data).toMatchObject({
+      changedByHandle: 'SysOp',
+      deleted: true,
+    });
+  });
+});
+
+describe('MessageService - Echo tags', () => {
+  let messageService: MessageService;
+  let mockMessageBaseRepo: any;
+
+  beforeEach(() => {
+    mockMessageBaseRepo = {
+      createMessageBase: vi.fn().mockImplementation(data => ({ id: 'base-new', ...data })),
+      updateMessageBase: vi.fn(),
+      getMessageBaseByEchoTag: vi.fn().mockImplementation(tag => (tag === 'RETRO' ? { id: 'base-retro' } : null)),
+    };
+
+    messageService = new MessageService(mockMessageBaseRepo, {} as any, {} as any);
+  });
+
+  it('should store echo tags in upper case', () => {
+    messageService.createMessageBase({ name: 'Modems', echoTag: ' modem.talk ' });
+
+    expect(mockMessageBaseRepo.createMessageBase).toHaveBeenCalledWith(
+      expect.objectContaining({ echoTag: 'MODEM.TALK' })
+    );
+  });
+
+  it('should refuse malformed tags and tags linked to another base', () => {
+    expect(() => messageService.createMessageBase({ name: 'Bad', echoTag: 'two words' }))
+      .toThrow('Echo tag must be');
+    expect(() => messageService.updateMessageBase('base-local', { echoTag: 'retro' }))
+      .toThrow('already used by another message base');
+
+    messageService.updateMessageBase('base-retro', { echoTag: 'retro' });
+    messageService.updateMessageBase('base-retro', { echoTag: null });
+    expect(mockMessageBaseRepo.updateMessageBase).toHaveBeenCalledWith('base-retro', { echoTag: null });
+  });
 });
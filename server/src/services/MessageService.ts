@@ -5,12 +5,48 @@
  */
 
 import type { MessageBaseRepository, MessageBase, CreateMessageBaseData } from '../db/repositories/MessageBaseRepository.js';
-import type { MessageRepository, Message, CreateMessageData } from '../db/repositories/MessageRepository.js';
+import type {
+  MessageRepository,
+  Message,
+  CreateMessageData,
+  MessageSearchFilters,
+  MessageSearchResult,
+  MessageRevision,
+  SearchHighlight
+} from '../db/repositories/MessageRepository.js';
 import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type { LastReadRepository } from '../db/repositories/LastReadRepository.js';
 import type { NotificationService } from '../notifications/NotificationService.js';
+import type { ModerationService } from './ModerationService.js';
 import { validateLength, sanitizeInput } from '../utils/ValidationUtils.js';
 import { RateLimiter } from '../utils/RateLimiter.js';
-import { NotificationEventType, createNotificationEvent, type MessageNewPayload } from '../notifications/types.js';
+import { NotificationEventType, createNotificationEvent, type MessageNewPayload, type MessageUpdatedPayload } from '../notifications/types.js';
+
+// Lines of the parent quoted in a reply, not counting the attribution
+const REPLY_QUOTE_LINES = 6;
+
+// Longest subject and body a message may have
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 10000;
+
+// Sysops may edit or delete any message at any time
+const SYSOP_ACCESS_LEVEL = 255;
+
+// FTN area tags: no spaces, and short enough for AREAS.BBS and tossers
+const ECHO_TAG_PATTERN = /^[A-Z0-9._-]{1,35}$/;
+
+/**
+ * A message and its replies, nested to any depth
+ */
+export interface MessageThread {
+  message: Message;
+  replies: MessageThread[];
+}
+
+export interface ReplyDraft {
+  subject: string;
+  quote: string; // Attribution line and "> " excerpt of the parent
+}
 
 export class MessageService {
   private messageRateLimiter: RateLimiter;
@@ -19,7 +55,10 @@ export class MessageService {
     private messageBaseRepo: MessageBaseRepository,
     private messageRepo: MessageRepository,
     private userRepo: UserRepository,
-    private notificationService?: NotificationService
+    private notificationService?: NotificationService,
+    private lastReadRepo?: LastReadRepository,
+    private editWindowMinutes: number = 60,
+    private moderationService?: ModerationService
   ) {
     // 30 messages per hour (3600000 ms)
     this.messageRateLimiter = new RateLimiter(30, 3600000);
@@ -49,6 +88,10 @@ export class MessageService {
       throw new Error(nameValidation.error || 'Invalid message base name');
     }
     
+    if (data.echoTag) {
+      data = { ...data, echoTag: this.validateEchoTag(data.echoTag) };
+    }
+    
     return this.messageBaseRepo.createMessageBase(data);
   }
   
@@ -63,6 +106,10 @@ export class MessageService {
       }
     }
     
+    if (data.echoTag) {
+      data = { ...data, echoTag: this.validateEchoTag(data.echoTag, id) };
+    }
+    
     this.messageBaseRepo.updateMessageBase(id, data);
   }
   
@@ -74,7 +121,8 @@ export class MessageService {
   }
   
   /**
-   * Get messages in a message base
+   * Get messages in a message base. Posts held for moderation are left
+   * out until a moderator approves them.
    */
   getMessages(baseId: string, limit: number = 50, offset: number = 0): Message[] {
     return this.messageRepo.getMessages(baseId, limit, offset);
@@ -87,6 +135,44 @@ export class MessageService {
     return this.messageRepo.findByBaseIdSince(baseId, since);
   }
   
+  /**
+   * Get messages in a base the user has not read yet, oldest first
+   */
+  getUnreadMessages(userId: string, baseId: string, limit: number = 50): Message[] {
+    return this.messageRepo.getUnreadMessages(userId, baseId, limit);
+  }
+  
+  /**
+   * Get unread message counts by base ID. Bases with nothing unread
+   * are left out.
+   */
+  getUnreadCounts(userId: string): Map<string, number> {
+    return this.messageRepo.getUnreadCounts(userId);
+  }
+  
+  /**
+   * Record that the user has read a message, moving their read
+   * position in its base forward
+   */
+  markMessageRead(userId: string, messageId: string): void {
+    this.lastReadRepo?.markMessageRead(userId, messageId);
+  }
+  
+  /**
+   * Mark everything in a base as read
+   */
+  markBaseRead(userId: string, baseId: string): void {
+    this.lastReadRepo?.markBaseRead(userId, baseId);
+  }
+  
+  /**
+   * Mark everything in every base the user can read as read
+   */
+  async markAllRead(userId: string): Promise<void> {
+    const bases = await this.getAccessibleMessageBasesForUser(userId);
+    this.lastReadRepo?.markBasesRead(userId, bases.map(base => base.id));
+  }
+  
   /**
    * Get a single message
    */
@@ -94,6 +180,117 @@ export class MessageService {
     return this.messageRepo.getMessage(id);
   }
   
+  /**
+   * Get the whole thread a message belongs to, from its first message.
+   * Deleted messages stay in the tree as placeholders so their replies
+   * keep their place.
+   */
+  getThread(messageId: string): MessageThread | null {
+    const messages = this.messageRepo.getThread(messageId);
+    if (messages.length === 0) {
+      return null;
+    }
+    
+    const nodes = new Map<string, MessageThread>();
+    for (const message of messages) {
+      let shown = message;
+      if (message.isDeleted) {
+        shown = { ...message, subject: '[deleted]', body: '' };
+      } else if (message.isHeld) {
+        shown = { ...message, subject: '[awaiting moderation]', body: '' };
+      }
+      nodes.set(message.id, { message: shown, replies: [] });
+    }
+    
+    let root: MessageThread | undefined;
+    for (const message of messages) {
+      const node = nodes.get(message.id)!;
+      if (message.parentId && nodes.has(message.parentId)) {
+        nodes.get(message.parentId)!.replies.push(node);
+      } else {
+        root = node;
+      }
+    }
+    
+    return root ?? null;
+  }
+  
+  /**
+   * Get the readable messages of a thread in reading order: each message
+   * followed by its replies, depth first
+   */
+  getThreadMessages(messageId: string): Message[] {
+    const thread = this.getThread(messageId);
+    if (!thread) {
+      return [];
+    }
+    
+    const messages: Message[] = [];
+    const visit = (node: MessageThread) => {
+      if (!node.message.isDeleted && !node.message.isHeld) {
+        messages.push(node.message);
+      }
+      node.replies.forEach(visit);
+    };
+    visit(thread);
+    
+    return messages;
+  }
+  
+  /**
+   * Draft a reply to a message: a "Re:" subject that does not stack and
+   * the opening lines of the parent quoted under an attribution line.
+   * Lines the parent itself quoted are left out.
+   */
+  draftReply(parent: Message): ReplyDraft {
+    const subject = parent.subject.toLowerCase().startsWith('re: ') ? parent.subject : `Re: ${parent.subject}`;
+    
+    const lines = parent.body
+      .split('\n')
+      .map(line => line.trimEnd())
+      .filter(line => !line.startsWith('>'));
+    while (lines.length > 0 && !lines[0]) lines.shift();
+    
+    const excerpt = lines.slice(0, REPLY_QUOTE_LINES);
+    while (excerpt.length > 0 && !excerpt[excerpt.length - 1]) excerpt.pop();
+    
+    const date = parent.createdAt.toISOString().slice(0, 10);
+    const quote = [
+      `On ${date}, ${parent.authorHandle || 'Unknown'} wrote:`,
+      ...excerpt.map(line => (line ? `> ${line}` : '>')),
+      ...(lines.slice(REPLY_QUOTE_LINES).some(Boolean) ? ['> ...'] : []),
+    ].join('\n');
+    
+    return { subject: subject.slice(0, 200), quote };
+  }
+  
+  /**
+   * Search messages the user can read, best matches first
+   */
+  async searchMessages(
+    userId: string | undefined,
+    query: string,
+    filters: Omit<MessageSearchFilters, 'maxAccessLevel'> = {},
+    limit: number = 20,
+    offset: number = 0,
+    highlight?: SearchHighlight
+  ): Promise<{ results: MessageSearchResult[]; total: number }> {
+    const queryValidation = validateLength(query.trim(), 1, 200, 'Search query');
+    if (!queryValidation.valid) {
+      throw new Error(queryValidation.error || 'Invalid search query');
+    }
+    
+    const searchFilters: MessageSearchFilters = {
+      ...filters,
+      maxAccessLevel: await this.getUserAccessLevel(userId),
+    };
+    
+    return {
+      results: this.messageRepo.searchMessages(query, searchFilters, limit, offset, highlight),
+      total: this.messageRepo.countSearchResults(query, searchFilters),
+    };
+  }
+  
   /**
    * Post a new message
    */
@@ -106,13 +303,13 @@ export class MessageService {
     }
     
     // Validate subject
-    const subjectValidation = validateLength(data.subject, 1, 200, 'Subject');
+    const subjectValidation = validateLength(data.subject, 1, MAX_SUBJECT_LENGTH, 'Subject');
     if (!subjectValidation.valid) {
       throw new Error(subjectValidation.error || 'Invalid subject');
     }
     
     // Validate body
-    const bodyValidation = validateLength(data.body, 1, 10000, 'Body');
+    const bodyValidation = validateLength(data.body, 1, MAX_BODY_LENGTH, 'Body');
     if (!bodyValidation.valid) {
       throw new Error(bodyValidation.error || 'Invalid message body');
     }
@@ -130,12 +327,118 @@ export class MessageService {
     // Increment post count
     this.messageBaseRepo.incrementPostCount(data.baseId);
     
-    // Broadcast new message event if notification service is available
-    if (this.notificationService) {
-      this.broadcastNewMessage(message, data.baseId);
+    // Screen for moderation; held posts stay hidden until approved, and
+    // the new message is announced once callers can see it
+    const held = this.screen(message, () => this.broadcastNewMessage(message, data.baseId));
+    
+    return held ? { ...message, isHeld: true } : message;
+  }
+
+  /**
+   * Post a message brought in from another system, such as tossed
+   * echomail. It can't be sent back to be shortened, so it is cut to the
+   * length limits instead of refused, and no rate limit applies; it is
+   * sanitized and screened like a local post.
+   */
+  importMessage(data: CreateMessageData): Message {
+    const sanitizedData: CreateMessageData = {
+      ...data,
+      subject: sanitizeInput(data.subject).slice(0, MAX_SUBJECT_LENGTH).trim() || '(no subject)',
+      body: sanitizeInput(data.body).slice(0, MAX_BODY_LENGTH).trim() || '(empty message)'
+    };
+
+    const message = this.messageRepo.createMessage(sanitizedData);
+    this.messageBaseRepo.incrementPostCount(data.baseId);
+
+    const held = this.screen(message, () => this.broadcastNewMessage(message, data.baseId));
+
+    return held ? { ...message, isHeld: true } : message;
+  }
+
+  /**
+   * Check if a user may edit or delete a message: sysops always, authors
+   * only within the edit window after posting
+   */
+  async canModifyMessage(userId: string | undefined, message: Message): Promise<boolean> {
+    if (!userId) return false;
+    
+    const accessLevel = await this.getUserAccessLevel(userId);
+    if (accessLevel >= SYSOP_ACCESS_LEVEL) return true;
+    
+    if (message.userId !== userId || this.editWindowMinutes <= 0) return false;
+    return Date.now() - message.createdAt.getTime() <= this.editWindowMinutes * 60000;
+  }
+  
+  /**
+   * Edit a message, keeping the previous version in its history
+   */
+  async editMessage(
+    id: string,
+    userId: string,
+    changes: { subject?: string; body?: string }
+  ): Promise<Message> {
+    const message = this.messageRepo.getMessage(id);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    if (!(await this.canModifyMessage(userId, message))) {
+      throw new Error('Not allowed to edit this message');
+    }
+    
+    const subject = changes.subject ?? message.subject;
+    const subjectValidation = validateLength(subject, 1, MAX_SUBJECT_LENGTH, 'Subject');
+    if (!subjectValidation.valid) {
+      throw new Error(subjectValidation.error || 'Invalid subject');
+    }
+    
+    const body = changes.body ?? message.body;
+    const bodyValidation = validateLength(body, 1, MAX_BODY_LENGTH, 'Body');
+    if (!bodyValidation.valid) {
+      throw new Error(bodyValidation.error || 'Invalid message body');
+    }
+    
+    this.messageRepo.updateMessage(id, sanitizeInput(subject), sanitizeInput(body), userId);
+    
+    // Edits are screened like new posts
+    const updated = this.messageRepo.getMessage(id) as Message;
+    const held = this.screen(updated, () => this.broadcastMessageUpdated(updated, userId, false));
+    
+    return held ? { ...updated, isHeld: true } : updated;
+  }
+  
+  /**
+   * Soft-delete a message, keeping its content in its history
+   */
+  async deleteMessage(id: string, userId: string): Promise<void> {
+    const message = this.messageRepo.getMessage(id);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    if (!(await this.canModifyMessage(userId, message))) {
+      throw new Error('Not allowed to delete this message');
     }
     
-    return message;
+    this.messageRepo.deleteMessage(id, userId);
+    this.broadcastMessageUpdated(message, userId, true);
+  }
+  
+  /**
+   * Get the prior versions of a message, oldest first
+   */
+  getRevisions(messageId: string): MessageRevision[] {
+    return this.messageRepo.getRevisions(messageId);
+  }
+  
+  /**
+   * Screen a post for moderation, calling `onShown` once callers can see
+   * it. Returns true if the post is held back for review.
+   */
+  private screen(message: Message, onShown: () => void): boolean {
+    if (!this.moderationService) {
+      onShown();
+      return false;
+    }
+    return this.moderationService.screenMessage(message, onShown);
   }
   
   /**
@@ -172,6 +475,37 @@ export class MessageService {
     });
   }
   
+  /**
+   * Broadcast message updated event to subscribed clients
+   */
+  private broadcastMessageUpdated(message: Message, changedBy: string, deleted: boolean): void {
+    if (!this.notificationService) {
+      return;
+    }
+    
+    const messageBase = this.messageBaseRepo.getMessageBase(message.baseId);
+    if (!messageBase) {
+      return;
+    }
+    
+    const payload: MessageUpdatedPayload = {
+      messageId: message.id,
+      messageBaseId: message.baseId,
+      messageBaseName: messageBase.name,
+      subject: message.subject,
+      authorHandle: message.authorHandle || 'Unknown',
+      changedByHandle: this.userRepo.findById(changedBy)?.handle || 'Unknown',
+      deleted,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    const event = createNotificationEvent(NotificationEventType.MESSAGE_UPDATED, payload);
+    
+    this.notificationService.broadcast(event).catch(error => {
+      console.error('Failed to broadcast message updated event:', error);
+    });
+  }
+  
   /**
    * Get remaining message posts for a user
    */
@@ -235,4 +569,22 @@ export class MessageService {
     const accessLevel = await this.getUserAccessLevel(userId);
     return accessLevel >= base.accessLevelWrite;
   }
+  
+  /**
+   * Check an echomail area tag and return it in upper case. A tag can only
+   * be linked to one base, or tossed mail would have nowhere single to go.
+   */
+  private validateEchoTag(echoTag: string, baseId?: string): string {
+    const tag = echoTag.trim().toUpperCase();
+    if (!ECHO_TAG_PATTERN.test(tag)) {
+      throw new Error('Echo tag must be 1-35 letters, digits, dots, dashes or underscores');
+    }
+    
+    const linked = this.messageBaseRepo.getMessageBaseByEchoTag(tag);
+    if (linked && linked.id !== baseId) {
+      throw new Error('Echo tag is already used by another message base');
+    }
+    
+    return tag;
+  }
 }
@@ -18,6 +18,7 @@ export interface SummaryOptions {
   messageBaseName?: string;
   maxMessages?: number;
   includeMetadata?: boolean;
+  userId?: string; // Whose daily AI budget the summary counts against
 }
 
 export interface MessageSummary {
@@ -96,6 +97,7 @@ export class MessageSummarizer {
         maxTokens: this.DEFAULT_MAX_TOKENS,
         temperature: 0.3, // Lower temperature for more focused summaries
         systemPrompt,
+        userId: options.userId,
       };
 
       const summaryText = await this.provider.generateCompletion(prompt, aiOptions);
@@ -148,7 +150,8 @@ export class MessageSummarizer {
   private buildSummaryPrompt(messages: Message[], messageBaseName: string): string {
     // Format messages for the prompt
     const formattedMessages = messages.map((msg, index) => {
-      const date = new Date(msg.createdAt).toLocaleDateString();
+      // The same on every server, so recorded AI exchanges replay anywhere
+      const date = new Date(msg.createdAt).toISOString().substring(0, 10);
       return `[${index + 1}] ${date} - ${msg.authorHandle || 'Unknown'}
 Subject: ${msg.subject}
 ${msg.body.substring(0, 500)}${msg.body.length > 500 ? '...' : ''}
@@ -386,6 +389,7 @@ Guidelines:
 
     const frameBuilder = new ANSIFrameBuilder({
       width: frameWidth,
+      maxWidth: frameWidth,
       padding: 2,
       style: 'double',
       align: 'left',
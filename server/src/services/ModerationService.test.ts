@@ -0,0 +1,247 @@
+/**
+ * ModerationService Tests
+ *
+ * Tests for post screening under each base policy, the AI classifier
+ * and its rule-based fallback, and approving or removing held posts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ModerationService } from './ModerationService.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MessageRepository } from '../db/repositories/MessageRepository.js';
+import { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import { ModerationRepository } from '../db/repositories/ModerationRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('ModerationService', () => {
+  let db: BBSDatabase;
+  let messageRepo: MessageRepository;
+  let moderationRepo: ModerationRepository;
+  let mockAIService: any;
+
+  const createService = (aiService?: any) =>
+    new ModerationService(
+      moderationRepo,
+      messageRepo,
+      new MessageBaseRepository(db),
+      new UserRepository(db),
+      aiService,
+      mockLogger
+    );
+
+  const post = (subject: string, body: string, baseId = 'base-flagged', userId = 'user-a') =>
+    messageRepo.createMessage({ baseId, userId, subject, body });
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    messageRepo = new MessageRepository(db);
+    moderationRepo = new ModerationRepository(db);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash, access_level) VALUES (?, ?, ?, ?)', ['sysop', 'SysOp', 'hash', 255]);
+    db.run('INSERT INTO message_bases (id, name, moderation_policy) VALUES (?, ?, ?)', ['base-off', 'Anything Goes', 'off']);
+    db.run('INSERT INTO message_bases (id, name, moderation_policy) VALUES (?, ?, ?)', ['base-flagged', 'General', 'flagged']);
+    db.run('INSERT INTO message_bases (id, name, moderation_policy) VALUES (?, ?, ?)', ['base-all', 'Announcements', 'all']);
+
+    mockAIService = {
+      generateStructured: vi.fn().mockResolvedValue({ flagged: false, reason: 'Looks fine' }),
+    };
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('screening', () => {
+    it('should hold posts that break the rules', () => {
+      const service = createService();
+      const message = post('FREE MONEY', 'Click here to claim your prize');
+
+      expect(service.screenMessage(message)).toBe(true);
+      expect(messageRepo.getMessage(message.id)).toMatchObject({ isHeld: true, aiModerationFlag: 'spam' });
+      expect(service.getQueue().entries).toMatchObject([
+        { messageId: message.id, source: 'rules', category: 'spam', authorHandle: 'Alice', baseName: 'General' },
+      ]);
+    });
+
+    it('should let clean posts through on a flagged base', () => {
+      const service = createService();
+      const message = post('Modem speeds', 'My first was 2400 baud');
+
+      expect(service.screenMessage(message)).toBe(false);
+      expect(messageRepo.getMessage(message.id)?.isHeld).toBe(false);
+      expect(service.getPendingCount()).toBe(0);
+    });
+
+    it('should hold every post on a base that requires approval', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday', 'base-all');
+
+      expect(service.screenMessage(message)).toBe(true);
+      expect(service.getQueue().entries[0]).toMatchObject({ messageId: message.id, source: 'policy' });
+    });
+
+    it('should skip screening when the policy is off or the author is a sysop', () => {
+      const service = createService(mockAIService);
+
+      expect(service.screenMessage(post('FREE MONEY', 'click here', 'base-off'))).toBe(false);
+      expect(service.screenMessage(post('FREE MONEY', 'click here', 'base-all', 'sysop'))).toBe(false);
+      expect(service.getPendingCount()).toBe(0);
+      expect(mockAIService.generateStructured).not.toHaveBeenCalled();
+    });
+
+    it('should hold posts the AI classifier flags', async () => {
+      mockAIService.generateStructured.mockResolvedValue({
+        flagged: true,
+        category: 'harassment',
+        reason: 'Personal attack on another caller',
+      });
+      const service = createService(mockAIService);
+      const message = post('Re: Modems', 'Only an idiot like Bob would buy that');
+      const onShown = vi.fn();
+
+      expect(service.screenMessage(message, onShown)).toBe(true);
+
+      await vi.waitFor(() => expect(service.getQueue().entries[0]?.category).toBe('harassment'));
+      expect(messageRepo.getMessage(message.id)?.isHeld).toBe(true);
+      expect(service.getQueue().entries[0]).toMatchObject({
+        source: 'ai',
+        reason: 'Personal attack on another caller',
+      });
+      expect(onShown).not.toHaveBeenCalled();
+    });
+
+    it('should keep posts back until the AI classifier clears them', async () => {
+      let clear: (verdict: unknown) => void = () => {};
+      mockAIService.generateStructured.mockReturnValue(new Promise(resolve => { clear = resolve; }));
+      const service = createService(mockAIService);
+      const message = post('Modem speeds', 'My first was 2400 baud');
+      const onShown = vi.fn();
+
+      expect(service.screenMessage(message, onShown)).toBe(true);
+      const later = post('Another post', 'Posted while the first was checked');
+      const latest = messageRepo.getLatestMessageNumber('base-flagged');
+
+      expect(messageRepo.getMessages('base-flagged').map(m => m.id)).toEqual([later.id]);
+      expect(service.getQueue().entries[0]).toMatchObject({ messageId: message.id, reason: 'Waiting for the AI classifier' });
+
+      clear({ flagged: false, reason: 'Looks fine' });
+      await vi.waitFor(() => expect(onShown).toHaveBeenCalled());
+      expect(service.getPendingCount()).toBe(0);
+      expect(messageRepo.getMessagesAfterNumber('base-flagged', latest, 10).map(m => m.id)).toEqual([message.id]);
+    });
+
+    it('should screen a post again when it is edited after approval', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday', 'base-all');
+      service.screenMessage(message);
+      service.approve(message.id, 'sysop');
+
+      messageRepo.updateMessage(message.id, 'Meetup', 'Click here for free money', 'user-a');
+      expect(service.screenMessage(messageRepo.getMessage(message.id)!)).toBe(true);
+
+      expect(service.getQueue().entries[0]).toMatchObject({ messageId: message.id, status: 'pending', source: 'rules' });
+      expect(messageRepo.getMessage(message.id)?.isHeld).toBe(true);
+    });
+  });
+
+  describe('classify', () => {
+    it('should fall back to the rules when AI is unavailable or fails', async () => {
+      mockAIService.generateStructured.mockResolvedValue(null);
+
+      const withFailingAI = await createService(mockAIService).classify('Hi', 'WWW.SPAM.EXAMPLE!!!!!!!!!!!!!!!!!!!');
+      const withoutAI = await createService().classify('Hi', 'kys');
+
+      expect(withFailingAI).toMatchObject({ flagged: true, source: 'rules', category: 'spam' });
+      expect(withoutAI).toMatchObject({ flagged: true, source: 'rules', category: 'abuse' });
+    });
+
+    it('should not flag ordinary posts by rule', () => {
+      const verdict = createService().classifyWithRules(
+        'Favourite doors',
+        'LORD and TradeWars. See https://example.com/lord for the rules.'
+      );
+
+      expect(verdict.flagged).toBe(false);
+    });
+  });
+
+  describe('review', () => {
+    it('should approve a held post with an optional note', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday', 'base-all');
+      service.screenMessage(message);
+
+      const entry = service.approve(message.id, 'sysop', 'Fine by me');
+
+      expect(entry).toMatchObject({ status: 'approved', reviewedByHandle: 'SysOp', reviewReason: 'Fine by me' });
+      expect(messageRepo.getMessage(message.id)?.isHeld).toBe(false);
+      expect(messageRepo.getMessages('base-all')).toHaveLength(1);
+      expect(service.getQueue('approved').total).toBe(1);
+    });
+
+    it('should stamp an approved post as new so pointers past it still pick it up', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday', 'base-all');
+      service.screenMessage(message);
+      post('Later', 'Posted by the sysop while the first was held', 'base-all', 'sysop');
+      const latest = messageRepo.getLatestMessageNumber('base-all');
+
+      service.approve(message.id, 'sysop');
+
+      expect(messageRepo.getMessagesAfterNumber('base-all', latest, 10).map(m => m.id)).toEqual([message.id]);
+      expect(messageRepo.getMessage(message.id)!.createdAt).toEqual(message.createdAt);
+      expect(messageRepo.searchMessages('Saturday').map(m => m.id)).toEqual([message.id]);
+    });
+
+    it('should keep an approved edit in its place', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday');
+      service.screenMessage(message);
+      const latest = messageRepo.getLatestMessageNumber('base-flagged');
+
+      messageRepo.updateMessage(message.id, 'Meetup', 'Click here for the map', 'user-a');
+      service.screenMessage(messageRepo.getMessage(message.id)!);
+      service.approve(message.id, 'sysop');
+
+      expect(messageRepo.getLatestMessageNumber('base-flagged')).toBe(latest);
+      expect(messageRepo.getMessagesAfterNumber('base-flagged', latest - 1, 10).map(m => m.id)).toEqual([message.id]);
+      expect(messageRepo.getMessage(message.id)!.createdAt).toEqual(message.createdAt);
+    });
+
+    it('should remove a held post and keep its history', () => {
+      const service = createService();
+      const message = post('FREE MONEY', 'Click here to claim your prize');
+      service.screenMessage(message);
+
+      const entry = service.remove(message.id, 'sysop', 'Spam');
+
+      expect(entry).toMatchObject({ status: 'removed', reviewReason: 'Spam' });
+      expect(messageRepo.getMessage(message.id)).toBeNull();
+      expect(messageRepo.getRevisions(message.id)).toMatchObject([{ action: 'delete', changedByHandle: 'SysOp' }]);
+    });
+
+    it('should require a reason to remove and reject posts already reviewed', () => {
+      const service = createService();
+      const message = post('Meetup', 'See everyone on Saturday', 'base-all');
+      service.screenMessage(message);
+
+      expect(() => service.remove(message.id, 'sysop', '   ')).toThrow('Reason');
+      service.approve(message.id, 'sysop');
+      expect(() => service.remove(message.id, 'sysop', 'Changed my mind')).toThrow('already approved');
+      expect(() => service.approve('missing', 'sysop')).toThrow('not found');
+    });
+  });
+});
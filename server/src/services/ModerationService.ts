@@ -0,0 +1,354 @@
+/**
+ * Moderation Service
+ *
+ * Screens new and edited posts and manages the moderation queue. Every
+ * screened post is checked against simple rules straight away, so obvious
+ * spam is never shown; when AI is available the post is then kept back
+ * while the classifier looks at it in the background, and only shown if
+ * it is not flagged. Each message base chooses how much of this applies
+ * through its moderation policy. A new post that is shown after being
+ * held is stamped as released then, so read pointers and exports don't
+ * skip past it; an edit that was held keeps its place.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { AIService } from '../ai/AIService.js';
+import type { Message, MessageRepository } from '../db/repositories/MessageRepository.js';
+import type { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type {
+  ModerationRepository,
+  ModerationQueueEntry,
+  ModerationStatus,
+  ModerationSource
+} from '../db/repositories/ModerationRepository.js';
+import { validateLength, sanitizeInput } from '../utils/ValidationUtils.js';
+
+// Sysop posts are never screened
+const SYSOP_ACCESS_LEVEL = 255;
+
+const SPAM_PHRASES = [
+  'buy now',
+  'click here',
+  'free money',
+  'make money fast',
+  'work from home',
+  'limited time offer',
+  'crypto giveaway',
+  'online casino',
+];
+
+const ABUSIVE_PHRASES = ['kill yourself', 'kys'];
+
+const MAX_LINKS = 3;
+
+// Queue reason while a post waits for the AI classifier. It stays in the
+// queue for a moderator if the review never finishes.
+const AI_REVIEW_REASON = 'Waiting for the AI classifier';
+
+export type ModerationCategory = 'spam' | 'abuse' | 'harassment' | 'illegal' | 'other';
+
+export interface ModerationVerdict {
+  flagged: boolean;
+  category?: ModerationCategory;
+  reason: string;
+  source: Exclude<ModerationSource, 'policy'>;
+}
+
+const VERDICT_SCHEMA = {
+  type: 'object',
+  properties: {
+    flagged: { type: 'boolean', description: 'Whether a moderator should review the post before it is shown' },
+    category: { type: 'string', enum: ['spam', 'abuse', 'harassment', 'illegal', 'other'] },
+    reason: { type: 'string', description: 'One sentence explaining the decision' },
+  },
+  required: ['flagged', 'reason'],
+};
+
+export class ModerationService {
+  constructor(
+    private moderationRepo: ModerationRepository,
+    private messageRepo: MessageRepository,
+    private messageBaseRepo: MessageBaseRepository,
+    private userRepo: UserRepository,
+    private aiService: AIService | undefined,
+    private logger: FastifyBaseLogger
+  ) {}
+
+  /**
+   * Screen a new or edited message under its base's policy. Returns true
+   * if the message is held, for a moderator or until the AI classifier
+   * has cleared it. `onShown` is called once the message is visible:
+   * straight away if it needs no review, or after the classifier has
+   * cleared it.
+   */
+  screenMessage(message: Message, onShown?: () => void): boolean {
+    const policy = this.messageBaseRepo.getMessageBase(message.baseId)?.moderationPolicy ?? 'flagged';
+    if (policy === 'off') {
+      onShown?.();
+      return false;
+    }
+
+    const author = this.userRepo.findById(message.userId);
+    if (author && author.accessLevel >= SYSOP_ACCESS_LEVEL) {
+      onShown?.();
+      return false;
+    }
+
+    const verdict = this.classifyWithRules(message.subject, message.body);
+    if (verdict.flagged) {
+      this.hold(message, verdict);
+      return true;
+    }
+
+    if (policy === 'all') {
+      this.moderationRepo.addToQueue({
+        messageId: message.id,
+        reason: 'This message base requires approval before posts appear',
+        source: 'policy',
+      });
+      this.keepBack(message);
+
+      if (this.aiService) {
+        this.reviewWithAI(message).catch(error => {
+          this.logger.error({ error, messageId: message.id }, 'AI moderation review failed');
+        });
+      }
+      return true;
+    }
+
+    if (!this.aiService) {
+      onShown?.();
+      return false;
+    }
+
+    // Keep the post back until the classifier has looked at it
+    this.moderationRepo.addToQueue({ messageId: message.id, reason: AI_REVIEW_REASON, source: 'ai' });
+    this.keepBack(message);
+    this.reviewWithAI(message)
+      .then(flagged => {
+        if (!flagged && this.release(message.id)) {
+          onShown?.();
+        }
+      })
+      .catch(error => {
+        this.logger.error({ error, messageId: message.id }, 'AI moderation review failed - left for a moderator');
+      });
+
+    return true;
+  }
+
+  /**
+   * Classify a post, using the AI classifier when it is available and
+   * the rules when it is not or when it fails
+   */
+  async classify(subject: string, body: string): Promise<ModerationVerdict> {
+    if (this.aiService) {
+      const result = await this.aiService.generateStructured<{
+        flagged: boolean;
+        category?: ModerationCategory;
+        reason: string;
+      }>(
+        `Subject: ${subject}\n\n${body}`,
+        VERDICT_SCHEMA,
+        { maxTokens: 200, temperature: 0, systemPrompt: this.getSystemPrompt(), feature: 'moderation' }
+      );
+
+      if (result && typeof result.flagged === 'boolean') {
+        return {
+          flagged: result.flagged,
+          category: result.flagged ? result.category ?? 'other' : undefined,
+          reason: result.reason || (result.flagged ? 'Flagged by AI moderation' : 'No problems found'),
+          source: 'ai',
+        };
+      }
+    }
+
+    return this.classifyWithRules(subject, body);
+  }
+
+  /**
+   * Rule-based classification: known spam phrases, link flooding,
+   * shouting, repeated characters and a few abusive phrases
+   */
+  classifyWithRules(subject: string, body: string): ModerationVerdict {
+    const text = `${subject}\n${body}`;
+    const lower = text.toLowerCase();
+    const flag = (category: ModerationCategory, reason: string): ModerationVerdict =>
+      ({ flagged: true, category, reason, source: 'rules' });
+
+    const abusive = ABUSIVE_PHRASES.find(phrase => new RegExp(`\\b${phrase}\\b`).test(lower));
+    if (abusive) {
+      return flag('abuse', `Contains abusive language ("${abusive}")`);
+    }
+
+    const spam = SPAM_PHRASES.find(phrase => lower.includes(phrase));
+    if (spam) {
+      return flag('spam', `Contains a common spam phrase ("${spam}")`);
+    }
+
+    const links = text.match(/https?:\/\/\S+/gi) ?? [];
+    if (links.length >= MAX_LINKS) {
+      return flag('spam', `Contains ${links.length} links`);
+    }
+
+    const letters = text.replace(/[^a-z]/gi, '');
+    if (letters.length >= 40 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.8) {
+      return flag('spam', 'Written almost entirely in capitals');
+    }
+
+    if (/(.)\1{14,}/.test(text)) {
+      return flag('spam', 'Contains long runs of a repeated character');
+    }
+
+    return { flagged: false, reason: 'No problems found', source: 'rules' };
+  }
+
+  /**
+   * Get queue entries with a status, plus how many there are in total
+   */
+  getQueue(
+    status: ModerationStatus = 'pending',
+    limit: number = 50,
+    offset: number = 0
+  ): { entries: ModerationQueueEntry[]; total: number } {
+    return {
+      entries: this.moderationRepo.getQueue(status, limit, offset),
+      total: this.moderationRepo.countQueue(status),
+    };
+  }
+
+  /**
+   * Count posts waiting for review
+   */
+  getPendingCount(): number {
+    return this.moderationRepo.countQueue('pending');
+  }
+
+  /**
+   * Approve a held post so it shows up in its base
+   */
+  approve(messageId: string, moderatorId: string, reason?: string): ModerationQueueEntry {
+    this.getPendingEntry(messageId);
+    const note = reason ? this.validateReason(reason) : undefined;
+
+    this.moderationRepo.resolve(messageId, 'approved', moderatorId, note);
+    this.messageRepo.setHeld(messageId, false);
+    this.messageRepo.restamp(messageId);
+
+    return this.moderationRepo.getEntry(messageId)!;
+  }
+
+  /**
+   * Remove a held post. The post is soft-deleted, keeping its content in
+   * the message history.
+   */
+  remove(messageId: string, moderatorId: string, reason: string): ModerationQueueEntry {
+    this.getPendingEntry(messageId);
+    const note = this.validateReason(reason);
+
+    this.moderationRepo.resolve(messageId, 'removed', moderatorId, note);
+    this.messageRepo.deleteMessage(messageId, moderatorId);
+
+    return this.moderationRepo.getEntry(messageId)!;
+  }
+
+  /**
+   * Classify a post with AI and hold it if it is flagged. Posts already
+   * held by policy get the classifier's reason attached instead. Returns
+   * whether the post was flagged.
+   */
+  private async reviewWithAI(message: Message): Promise<boolean> {
+    const verdict = await this.classify(message.subject, message.body);
+    if (!verdict.flagged) {
+      return false;
+    }
+
+    // A moderator may have dealt with the post while it was being classified
+    const entry = this.moderationRepo.getEntry(message.id);
+    if (entry && entry.status !== 'pending') {
+      return true;
+    }
+
+    this.hold(message, verdict);
+    this.logger.info({ messageId: message.id, category: verdict.category }, 'Post held by AI moderation');
+    return true;
+  }
+
+  /**
+   * Show a post the classifier cleared, unless a moderator got to it
+   * first. Returns true if the post was released.
+   */
+  private release(messageId: string): boolean {
+    const entry = this.moderationRepo.getEntry(messageId);
+    if (!entry || entry.status !== 'pending') {
+      return false;
+    }
+
+    this.moderationRepo.removeFromQueue(messageId);
+    this.messageRepo.setHeld(messageId, false);
+    this.messageRepo.restamp(messageId);
+    return true;
+  }
+
+  /**
+   * Hold a flagged post and queue it for review
+   */
+  private hold(message: Message, verdict: ModerationVerdict): void {
+    this.moderationRepo.addToQueue({
+      messageId: message.id,
+      category: verdict.category,
+      reason: verdict.reason,
+      source: verdict.source,
+    });
+    this.messageRepo.setModerationFlag(message.id, verdict.category ?? 'other');
+    this.keepBack(message);
+  }
+
+  /**
+   * Hide a post from lists. A post that was never edited is new and has
+   * not been shown yet, so it is stamped when it is released.
+   */
+  private keepBack(message: Message): void {
+    this.messageRepo.setHeld(message.id, true);
+    if (!message.editedAt) {
+      this.messageRepo.markUnreleased(message.id);
+    }
+  }
+
+  /**
+   * Get a queue entry that is still waiting for a decision
+   */
+  private getPendingEntry(messageId: string): ModerationQueueEntry {
+    const entry = this.moderationRepo.getEntry(messageId);
+    if (!entry) {
+      throw new Error('Queue entry not found');
+    }
+    if (entry.status !== 'pending') {
+      throw new Error(`Message was already ${entry.status}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Validate and clean a moderator's reason
+   */
+  private validateReason(reason: string): string {
+    const validation = validateLength(reason.trim(), 1, 500, 'Reason');
+    if (!validation.valid) {
+      throw new Error(validation.error || 'Invalid reason');
+    }
+    return sanitizeInput(reason.trim());
+  }
+
+  /**
+   * System prompt for the AI classifier
+   */
+  private getSystemPrompt(): string {
+    return `You moderate posts on a friendly bulletin board system.
+Flag a post only if a moderator should check it before other callers see it:
+spam or advertising, abuse or harassment aimed at people, or illegal content.
+Strong opinions, mild swearing, off-topic chatter and heated debate are fine.
+Give a one sentence reason.`;
+  }
+}
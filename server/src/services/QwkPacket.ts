@@ -0,0 +1,268 @@
+/**
+ * QWK Packet Format
+ *
+ * Reads and writes the files inside QWK mail packets and REP reply
+ * packets, the format classic offline mail readers use:
+ * - CONTROL.DAT: BBS details and the list of conferences (message bases)
+ * - MESSAGES.DAT: 128-byte blocks; a header block per message, then its
+ *   text with lines ended by 0xE3
+ * - NNN.NDX: per-conference index of where each message starts
+ * A REP packet holds a single BBSID.MSG file laid out like MESSAGES.DAT.
+ */
+
+import { CP437 } from '../ansi/CP437.js';
+
+export const QWK_BLOCK_SIZE = 128;
+
+const LINE_END = 0xe3;
+const ACTIVE_MESSAGE = 0xe1;
+const KILLED_MESSAGE = 0xe2;
+const SPACE = 0x20;
+
+export interface QwkConference {
+  number: number;
+  name: string;
+}
+
+export interface QwkMessage {
+  conference: number;
+  number: number; // In a REP packet this holds the conference number instead
+  referenceNumber?: number; // Number of the message being replied to
+  from: string;
+  to: string;
+  subject: string;
+  date: Date;
+  body: string;
+  isPrivate: boolean;
+}
+
+export interface QwkControlInfo {
+  bbsName: string;
+  sysopName: string;
+  bbsId: string;
+  userName: string;
+  createdAt: Date;
+  messageCount: number;
+  conferences: QwkConference[];
+}
+
+export interface QwkIndexEntry {
+  block: number; // Header block of the message in MESSAGES.DAT, counting from 1
+  conference: number;
+}
+
+/**
+ * Make a packet ID from a BBS name: up to 8 upper-case letters and digits
+ */
+export function toBbsId(name: string): string {
+  const id = name.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8);
+  return id || 'BBS';
+}
+
+/**
+ * Build CONTROL.DAT
+ */
+export function buildControlDat(info: QwkControlInfo): Buffer {
+  const lines = [
+    info.bbsName,
+    'Internet',
+    '000-000-0000',
+    `${info.sysopName}, Sysop`,
+    `00000,${info.bbsId}`,
+    `${formatDate(info.createdAt, true)},${pad2(info.createdAt.getHours())}:${pad2(info.createdAt.getMinutes())}:${pad2(info.createdAt.getSeconds())}`,
+    info.userName.toUpperCase(),
+    '',
+    '0',
+    String(info.messageCount),
+    String(info.conferences.length - 1),
+    ...info.conferences.flatMap(conference => [String(conference.number), conference.name.slice(0, 10)]),
+    '', // Welcome, news and goodbye screens; none are sent
+    '',
+    '',
+  ];
+
+  return CP437.encode(lines.join('\r\n') + '\r\n');
+}
+
+/**
+ * Build MESSAGES.DAT. Returns the file and the header block of each
+ * message, for the indexes.
+ */
+export function buildMessagesDat(messages: QwkMessage[], producedBy: string): { data: Buffer; blocks: number[] } {
+  const parts: Buffer[] = [padBlock(CP437.encode(producedBy).subarray(0, QWK_BLOCK_SIZE))];
+  const blocks: number[] = [];
+  let block = 2; // Block 1 is the "produced by" block
+
+  messages.forEach((message, index) => {
+    const text = encodeBody(message.body);
+    const blockCount = 1 + Math.ceil(text.length / QWK_BLOCK_SIZE);
+
+    const header = Buffer.alloc(QWK_BLOCK_SIZE, SPACE);
+    header.write(message.isPrivate ? '*' : ' ', 0, 'latin1');
+    writeField(header, 1, 7, String(message.number));
+    writeField(header, 8, 8, formatDate(message.date, false));
+    writeField(header, 16, 5, `${pad2(message.date.getHours())}:${pad2(message.date.getMinutes())}`);
+    writeField(header, 21, 25, message.to.toUpperCase());
+    writeField(header, 46, 25, message.from.toUpperCase());
+    writeField(header, 71, 25, message.subject);
+    writeField(header, 108, 8, message.referenceNumber ? String(message.referenceNumber) : '');
+    writeField(header, 116, 6, String(blockCount));
+    header[122] = ACTIVE_MESSAGE;
+    header.writeUInt16LE(message.conference & 0xffff, 123);
+    header.writeUInt16LE((index + 1) & 0xffff, 125);
+
+    parts.push(header, padBlock(text));
+    blocks.push(block);
+    block += blockCount;
+  });
+
+  return { data: Buffer.concat(parts), blocks };
+}
+
+/**
+ * Build a conference index: a 4-byte Microsoft Binary Format float holding
+ * the message's header block, then the conference number as a byte
+ */
+export function buildIndex(entries: QwkIndexEntry[]): Buffer {
+  const index = Buffer.alloc(entries.length * 5);
+  entries.forEach((entry, i) => {
+    toMsbin(entry.block).copy(index, i * 5);
+    index[i * 5 + 4] = entry.conference & 0xff;
+  });
+  return index;
+}
+
+/**
+ * Index file name for a conference, e.g. 007.NDX
+ */
+export function indexFileName(conference: number): string {
+  return `${String(conference).padStart(3, '0')}.NDX`;
+}
+
+/**
+ * Parse a MESSAGES.DAT-style file, as found in a REP packet. Returns the
+ * text of the first block (the BBS ID, in a REP packet) and the messages.
+ * Messages flagged as killed are skipped.
+ */
+export function parseMessagesDat(data: Buffer): { header: string; messages: QwkMessage[] } {
+  if (data.length < QWK_BLOCK_SIZE) {
+    throw new Error('Invalid reply packet: file is too short');
+  }
+
+  const header = data.toString('latin1', 0, QWK_BLOCK_SIZE).trim();
+  const messages: QwkMessage[] = [];
+  let position = QWK_BLOCK_SIZE;
+
+  while (position + QWK_BLOCK_SIZE <= data.length) {
+    const block = data.subarray(position, position + QWK_BLOCK_SIZE);
+    const blockCount = parseInt(readField(block, 116, 6), 10);
+    if (!Number.isInteger(blockCount) || blockCount < 1) {
+      // Some readers pad the file with empty blocks
+      if (block.every(byte => byte === SPACE || byte === 0)) {
+        break;
+      }
+      throw new Error('Invalid reply packet: damaged message header');
+    }
+
+    const bodyEnd = Math.min(data.length, position + blockCount * QWK_BLOCK_SIZE);
+    const status = String.fromCharCode(block[0]);
+    const numberField = parseInt(readField(block, 1, 7), 10);
+    const reference = parseInt(readField(block, 108, 8), 10);
+
+    if (block[122] !== KILLED_MESSAGE) {
+      messages.push({
+        conference: Number.isInteger(numberField) ? numberField : block.readUInt16LE(123),
+        number: Number.isInteger(numberField) ? numberField : 0,
+        referenceNumber: reference > 0 ? reference : undefined,
+        from: readField(block, 46, 25),
+        to: readField(block, 21, 25),
+        subject: readField(block, 71, 25),
+        date: new Date(),
+        body: decodeBody(data.subarray(position + QWK_BLOCK_SIZE, bodyEnd)),
+        isPrivate: status === '*' || status === '+',
+      });
+    }
+
+    position += blockCount * QWK_BLOCK_SIZE;
+  }
+
+  return { header, messages };
+}
+
+/**
+ * Convert a whole number to a 4-byte Microsoft Binary Format float
+ */
+export function toMsbin(value: number): Buffer {
+  const ieee = Buffer.alloc(4);
+  ieee.writeFloatLE(value, 0);
+
+  const msbin = Buffer.alloc(4);
+  const exponent = ((ieee[3] << 1) | (ieee[2] >> 7)) & 0xff;
+  if (exponent === 0) {
+    return msbin;
+  }
+
+  msbin[3] = exponent + 2;
+  msbin[2] = (ieee[3] & 0x80) | (ieee[2] & 0x7f);
+  msbin[1] = ieee[1];
+  msbin[0] = ieee[0];
+  return msbin;
+}
+
+/**
+ * Encode message text with QWK line endings
+ */
+function encodeBody(body: string): Buffer {
+  const lines = body.replace(/\r\n?/g, '\n').split('\n');
+  return Buffer.concat(lines.map(line => Buffer.concat([CP437.encode(line), Buffer.from([LINE_END])])));
+}
+
+/**
+ * Decode message text, dropping the padding after the last line
+ */
+function decodeBody(bytes: Buffer): string {
+  const text = CP437.decode(bytes.map(byte => (byte === LINE_END ? 0x0a : byte)));
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\0/g, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Write text into a space-padded header field
+ */
+function writeField(block: Buffer, offset: number, length: number, text: string): void {
+  CP437.encode(text).subarray(0, length).copy(block, offset);
+}
+
+/**
+ * Read a space-padded header field
+ */
+function readField(block: Buffer, offset: number, length: number): string {
+  return CP437.decode(block.subarray(offset, offset + length)).replace(/\0/g, '').trim();
+}
+
+/**
+ * Pad data with spaces to a whole number of blocks
+ */
+function padBlock(data: Buffer): Buffer {
+  const size = Math.max(1, Math.ceil(data.length / QWK_BLOCK_SIZE)) * QWK_BLOCK_SIZE;
+  const block = Buffer.alloc(size, SPACE);
+  data.subarray(0, size).copy(block);
+  return block;
+}
+
+/**
+ * Format a date as MM-DD-YY, or MM-DD-YYYY for CONTROL.DAT
+ */
+function formatDate(date: Date, fullYear: boolean): string {
+  const year = fullYear ? String(date.getFullYear()) : pad2(date.getFullYear() % 100);
+  return `${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}-${year}`;
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,264 @@
+/**
+ * QwkService Tests
+ *
+ * Tests for building QWK packets, per-user export pointers that move once
+ * a packet is confirmed, and posting replies from REP packets
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { QwkService } from './QwkService.js';
+import { MessageService } from './MessageService.js';
+import { buildMessagesDat, parseMessagesDat, toMsbin, type QwkMessage } from './QwkPacket.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MessageRepository } from '../db/repositories/MessageRepository.js';
+import { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import { QwkPointerRepository } from '../db/repositories/QwkPointerRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+import { createZip, readZip } from '../utils/ZipArchive.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('QwkService', () => {
+  let db: BBSDatabase;
+  let messageRepo: MessageRepository;
+  let messageBaseRepo: MessageBaseRepository;
+  let qwkService: QwkService;
+  let conferences: Map<string, number>;
+
+  const post = (subject: string, body: string, baseId = 'base-1', userId = 'user-a', parentId?: string) =>
+    messageRepo.createMessage({ baseId, userId, subject, body, parentId });
+
+  const unpack = (data: Buffer) => new Map(readZip(data).map(entry => [entry.name, entry.data]));
+
+  const buildRep = (replies: Partial<QwkMessage>[], bbsId = 'BAUDAGAI') => {
+    const messages = replies.map(reply => ({
+      conference: reply.conference!,
+      number: reply.conference!,
+      from: 'ALICE',
+      to: 'ALL',
+      subject: 'Hello',
+      date: new Date(),
+      body: 'Posted from my offline reader',
+      isPrivate: false,
+      ...reply,
+    }));
+    return createZip([{ name: `${bbsId}.MSG`, data: buildMessagesDat(messages, bbsId).data }]);
+  };
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    messageRepo = new MessageRepository(db);
+    messageBaseRepo = new MessageBaseRepository(db);
+    const userRepo = new UserRepository(db);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-b', 'Bob', 'hash']);
+    // Start without the default bases so the packet only lists these
+    db.run('DELETE FROM message_bases');
+    db.run('INSERT INTO message_bases (id, name, sort_order) VALUES (?, ?, ?)', ['base-1', 'General', 1]);
+    db.run('INSERT INTO message_bases (id, name, sort_order) VALUES (?, ?, ?)', ['base-2', 'Retro', 2]);
+    db.run(
+      'INSERT INTO message_bases (id, name, access_level_read, access_level_write) VALUES (?, ?, ?, ?)',
+      ['base-3', 'SysOps', 255, 255]
+    );
+    conferences = messageBaseRepo.getConferenceNumbers();
+
+    const messageService = new MessageService(messageBaseRepo, messageRepo, userRepo);
+    qwkService = new QwkService(
+      messageService,
+      messageRepo,
+      messageBaseRepo,
+      new QwkPointerRepository(db),
+      userRepo,
+      { name: 'BaudAgain BBS', sysopName: 'SysOp' }
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('createPacket', () => {
+    it('should pack new messages from readable bases with indexes', () => {
+      const first = post('Modem speeds', 'My first was 2400 baud\nThen 14.4k');
+      post('Re: Modem speeds', 'Mine was 300', 'base-1', 'user-b', first.id);
+      post('Door games', 'LORD forever', 'base-2');
+      post('Secret', 'SysOps only', 'base-3');
+
+      const packet = qwkService.createPacket('user-b');
+      const files = unpack(packet.data);
+
+      expect(packet).toMatchObject({ fileName: 'BAUDAGAI.QWK', messageCount: 3 });
+      expect([...files.keys()].sort()).toEqual([
+        `00${conferences.get('base-1')}.NDX`,
+        `00${conferences.get('base-2')}.NDX`,
+        'CONTROL.DAT',
+        'MESSAGES.DAT',
+      ]);
+
+      const control = files.get('CONTROL.DAT')!.toString('latin1').split('\r\n');
+      expect(control[0]).toBe('BaudAgain BBS');
+      expect(control[4]).toBe('00000,BAUDAGAI');
+      expect(control[6]).toBe('BOB');
+      expect(control.slice(9, 15)).toEqual([
+        '3', '1', String(conferences.get('base-1')), 'General', String(conferences.get('base-2')), 'Retro',
+      ]);
+
+      const { messages } = parseMessagesDat(files.get('MESSAGES.DAT')!);
+      expect(messages.map(m => m.subject)).toEqual(['Modem speeds', 'Re: Modem speeds', 'Door games']);
+      expect(messages[0]).toMatchObject({ from: 'ALICE', to: 'ALL', body: 'My first was 2400 baud\nThen 14.4k' });
+      expect(messages[1]).toMatchObject({ from: 'BOB', to: 'ALICE', referenceNumber: messages[0].number });
+
+      // First message header is block 2, right after the "produced by" block
+      const index = files.get(`00${conferences.get('base-1')}.NDX`)!;
+      expect(index.length).toBe(10);
+      expect(index.subarray(0, 4)).toEqual(toMsbin(2));
+      expect(index[4]).toBe(conferences.get('base-1'));
+    });
+
+    it('should only export messages posted since the last confirmed packet', () => {
+      post('Old news', 'Already exported');
+      qwkService.createPacket('user-b');
+      qwkService.confirmPacket('user-b');
+      post('Fresh news', 'Not yet exported', 'base-2');
+
+      const packet = qwkService.createPacket('user-b');
+      qwkService.confirmPacket('user-b');
+      const { messages } = parseMessagesDat(unpack(packet.data).get('MESSAGES.DAT')!);
+
+      expect(messages.map(m => m.subject)).toEqual(['Fresh news']);
+      expect(qwkService.createPacket('user-b').messageCount).toBe(0);
+      expect(qwkService.createPacket('user-a').messageCount).toBe(2);
+
+      qwkService.resetPointers('user-b');
+      expect(qwkService.createPacket('user-b').messageCount).toBe(2);
+    });
+  });
+
+  describe('confirming packets', () => {
+    it('should send the same messages again until the packet is confirmed', () => {
+      post('Lost in transit', 'The download dropped');
+      qwkService.createPacket('user-b');
+      post('Posted since', 'Comes along too', 'base-2');
+
+      const packet = qwkService.createPacket('user-b');
+      const { messages } = parseMessagesDat(unpack(packet.data).get('MESSAGES.DAT')!);
+
+      expect(messages.map(m => m.subject)).toEqual(['Lost in transit', 'Posted since']);
+
+      qwkService.confirmPacket('user-b');
+      expect(qwkService.createPacket('user-b').messageCount).toBe(0);
+    });
+
+    it('should confirm the last packet when replies are uploaded', async () => {
+      post('Read offline', 'Answer me');
+      qwkService.createPacket('user-b');
+
+      await qwkService.importReplies('user-b', buildRep([{ conference: conferences.get('base-1') }]));
+
+      // Only the reply itself is new
+      const { messages } = parseMessagesDat(unpack(qwkService.createPacket('user-b').data).get('MESSAGES.DAT')!);
+      expect(messages.map(m => m.subject)).toEqual(['Hello']);
+    });
+
+    it('should confirm the latest download when replies were written in an earlier one', async () => {
+      post('Read offline', 'Answer me');
+      qwkService.createPacket('user-b');
+      post('Posted since', 'Only in the second download', 'base-2');
+      qwkService.createPacket('user-b');
+
+      await qwkService.importReplies('user-b', buildRep([{ conference: conferences.get('base-1') }]));
+
+      const { messages } = parseMessagesDat(unpack(qwkService.createPacket('user-b').data).get('MESSAGES.DAT')!);
+      expect(messages.map(m => m.subject)).toEqual(['Hello']);
+    });
+
+    it('should not confirm the packet for a REP from a different BBS', async () => {
+      post('Read offline', 'Answer me');
+      qwkService.createPacket('user-b');
+
+      await expect(
+        qwkService.importReplies('user-b', buildRep([{ conference: conferences.get('base-1') }], 'OTHERBBS'))
+      ).rejects.toThrow();
+      expect(qwkService.createPacket('user-b').messageCount).toBe(1);
+    });
+  });
+
+  describe('importReplies', () => {
+    it('should post replies and thread them under the message they answer', async () => {
+      const original = post('A very long subject line about modems', 'What was your first modem?');
+      const number = messageRepo.getMessagesAfterNumber('base-1', 0)[0].number;
+
+      const result = await qwkService.importReplies('user-b', buildRep([
+        { conference: conferences.get('base-1'), referenceNumber: number, subject: 'Re: A very long subject l', body: 'A 2400\nStill have it' },
+        { conference: conferences.get('base-2'), subject: 'New topic' },
+      ]));
+
+      expect(result.failed).toEqual([]);
+      expect(result.posted).toHaveLength(2);
+
+      const [reply] = messageRepo.getReplies(original.id);
+      expect(reply).toMatchObject({
+        userId: 'user-b',
+        subject: 'Re: A very long subject line about modems',
+        body: 'A 2400\nStill have it',
+      });
+      expect(messageRepo.getMessages('base-2')[0]).toMatchObject({ subject: 'New topic', userId: 'user-b' });
+    });
+
+    it('should report replies that cannot be posted and keep the rest', async () => {
+      const result = await qwkService.importReplies('user-b', buildRep([
+        { conference: conferences.get('base-3'), subject: 'Hello sysops' },
+        { conference: 999, subject: 'Nowhere' },
+        { conference: conferences.get('base-1'), subject: 'Psst', isPrivate: true },
+        { conference: conferences.get('base-1'), subject: 'Hello all' },
+      ]));
+
+      expect(result.posted.map(p => p.subject)).toEqual(['Hello all']);
+      expect(result.failed).toEqual([
+        expect.objectContaining({ subject: 'Hello sysops', error: 'Not allowed to post in this message base' }),
+        expect.objectContaining({ subject: 'Nowhere', error: 'Unknown conference 999' }),
+        expect.objectContaining({ subject: 'Psst', error: expect.stringContaining('Private') }),
+      ]);
+    });
+
+    it('should reject packets for another BBS or that are not zip files', async () => {
+      await expect(qwkService.importReplies('user-b', buildRep([{ conference: 1 }], 'OTHERBBS')))
+        .rejects.toThrow('does not contain BAUDAGAI.MSG');
+      await expect(qwkService.importReplies('user-b', Buffer.from('not a zip file')))
+        .rejects.toThrow('Invalid zip archive');
+    });
+
+    it('should refuse files that unpack past the size limit', async () => {
+      const bomb = createZip([{ name: 'BAUDAGAI.MSG', data: Buffer.alloc(16 * 1024 * 1024) }]);
+      await expect(qwkService.importReplies('user-b', bomb)).rejects.toThrow('unpacks to more than');
+
+      // The same file claiming to be tiny is stopped once it unpacks past that
+      const centralDirectory = bomb.readUInt32LE(bomb.length - 22 + 16);
+      bomb.writeUInt32LE(128, centralDirectory + 24);
+      await expect(qwkService.importReplies('user-b', bomb)).rejects.toThrow('larger than it claims');
+    });
+
+    it('should only unpack the reply file', async () => {
+      const rep = readZip(buildRep([{ conference: 1 }]))[0];
+      const packet = createZip([
+        { name: 'JUNK.DAT', data: Buffer.alloc(16 * 1024 * 1024) },
+        rep,
+      ]);
+
+      const result = await qwkService.importReplies('user-b', packet);
+
+      expect(result.posted).toHaveLength(1);
+    });
+  });
+});
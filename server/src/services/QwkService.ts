@@ -0,0 +1,265 @@
+/**
+ * QWK Service
+ *
+ * Offline mail for classic QWK readers. A packet holds every message the
+ * user has not yet received from the bases they can read. Their export
+ * pointers only move past it once the reader confirms the packet arrived,
+ * by uploading its replies or acknowledging it, so a download that is lost
+ * on the way is sent again. Reply (REP) packets are posted
+ * through MessageService, so the usual access checks, validation and rate
+ * limits apply to each reply.
+ */
+
+import type { MessageService } from './MessageService.js';
+import type { MessageRepository, NumberedMessage, Message } from '../db/repositories/MessageRepository.js';
+import type { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import type { QwkPointerRepository } from '../db/repositories/QwkPointerRepository.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import { createZip, readZip, type ZipEntry } from '../utils/ZipArchive.js';
+import {
+  buildControlDat,
+  buildMessagesDat,
+  buildIndex,
+  indexFileName,
+  parseMessagesDat,
+  toBbsId,
+  type QwkConference,
+  type QwkIndexEntry,
+  type QwkMessage
+} from './QwkPacket.js';
+
+// Keep packets to a size an offline reader can cope with; the rest
+// follows in the next packet
+const MAX_MESSAGES_PER_BASE = 500;
+const MAX_MESSAGES_PER_PACKET = 2000;
+
+// Largest MESSAGES.DAT a reply packet may unpack to
+const MAX_REPLY_FILE_BYTES = 4 * 1024 * 1024;
+
+// QWK headers only have room for 25 characters of subject
+const QWK_SUBJECT_LENGTH = 25;
+
+export interface QwkBBSInfo {
+  name: string;
+  sysopName: string;
+  qwkId?: string;
+}
+
+export interface QwkDownload {
+  fileName: string;
+  data: Buffer;
+  messageCount: number;
+}
+
+export interface RepImportResult {
+  posted: { id: string; baseId: string; subject: string; isHeld: boolean }[];
+  failed: { conference: number; subject: string; error: string }[];
+}
+
+export class QwkService {
+  private bbsId: string;
+
+  constructor(
+    private messageService: MessageService,
+    private messageRepo: MessageRepository,
+    private messageBaseRepo: MessageBaseRepository,
+    private pointerRepo: QwkPointerRepository,
+    private userRepo: UserRepository,
+    private bbs: QwkBBSInfo
+  ) {
+    this.bbsId = toBbsId(bbs.qwkId || bbs.name);
+  }
+
+  /**
+   * Get the packet ID readers use to tell this BBS apart
+   */
+  getBbsId(): string {
+    return this.bbsId;
+  }
+
+  /**
+   * Build a QWK packet of everything new since the user's last confirmed
+   * packet. Building it again before it is confirmed sends the same
+   * messages, plus anything posted since.
+   */
+  createPacket(userId: string): QwkDownload {
+    const user = this.userRepo.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const conferenceNumbers = this.messageBaseRepo.getConferenceNumbers();
+    const pointers = this.pointerRepo.getPointers(userId);
+    const conferences: QwkConference[] = [];
+    const messages: QwkMessage[] = [];
+    const newPointers = new Map<string, number>();
+
+    for (const base of this.messageBaseRepo.getAccessibleMessageBases(user.accessLevel)) {
+      const conference = conferenceNumbers.get(base.id)!;
+      conferences.push({ number: conference, name: base.name });
+
+      const room = Math.min(MAX_MESSAGES_PER_BASE, MAX_MESSAGES_PER_PACKET - messages.length);
+      if (room <= 0) {
+        continue;
+      }
+
+      const baseMessages = this.messageRepo.getMessagesAfterNumber(base.id, pointers.get(base.id) ?? 0, room);
+      for (const message of baseMessages) {
+        messages.push(this.toQwkMessage(message, conference));
+      }
+      if (baseMessages.length > 0) {
+        newPointers.set(base.id, baseMessages[baseMessages.length - 1].number);
+      }
+    }
+
+    const { data: messagesDat, blocks } = buildMessagesDat(messages, `Produced by ${this.bbs.name}`);
+    const indexes = new Map<number, QwkIndexEntry[]>();
+    messages.forEach((message, i) => {
+      const entries = indexes.get(message.conference) ?? [];
+      entries.push({ block: blocks[i], conference: message.conference });
+      indexes.set(message.conference, entries);
+    });
+
+    const files: ZipEntry[] = [
+      {
+        name: 'CONTROL.DAT',
+        data: buildControlDat({
+          bbsName: this.bbs.name,
+          sysopName: this.bbs.sysopName,
+          bbsId: this.bbsId,
+          userName: user.handle,
+          createdAt: new Date(),
+          messageCount: messages.length,
+          conferences,
+        }),
+      },
+      { name: 'MESSAGES.DAT', data: messagesDat },
+      ...[...indexes].map(([conference, entries]) => ({ name: indexFileName(conference), data: buildIndex(entries) })),
+    ];
+
+    const data = createZip(files);
+    this.pointerRepo.setSentPointers(userId, newPointers);
+
+    return { fileName: `${this.bbsId}.QWK`, data, messageCount: messages.length };
+  }
+
+  /**
+   * Mark the user's latest packet as received, so the next one starts
+   * after it. QWK readers don't say which packet they have, so this
+   * always means the latest download.
+   */
+  confirmPacket(userId: string): void {
+    this.pointerRepo.confirmSentPointers(userId);
+  }
+
+  /**
+   * Start the user's next packet from the beginning of every base
+   */
+  resetPointers(userId: string): void {
+    this.pointerRepo.resetPointers(userId);
+  }
+
+  /**
+   * Post the replies in a REP packet. Each reply is posted or rejected on
+   * its own, so one bad reply doesn't lose the rest. Uploading replies also
+   * confirms the user's latest packet, even if they were written in an
+   * earlier one.
+   */
+  async importReplies(userId: string, packet: Buffer): Promise<RepImportResult> {
+    const fileName = `${this.bbsId}.MSG`;
+    const [file] = readZip(packet, {
+      only: name => name.toUpperCase() === fileName,
+      maxFileSize: MAX_REPLY_FILE_BYTES,
+    });
+    if (!file) {
+      throw new Error(`Reply packet does not contain ${fileName}`);
+    }
+
+    const { header, messages } = parseMessagesDat(file.data);
+    if (header.split(/\s/)[0].toUpperCase() !== this.bbsId) {
+      throw new Error('Reply packet is for a different BBS');
+    }
+
+    // Replies are written in the last packet, so the reader has it
+    this.confirmPacket(userId);
+
+    const basesByConference = new Map(
+      [...this.messageBaseRepo.getConferenceNumbers()].map(([baseId, conference]) => [conference, baseId])
+    );
+    const result: RepImportResult = { posted: [], failed: [] };
+
+    for (const reply of messages) {
+      try {
+        if (reply.isPrivate) {
+          throw new Error('Private replies are not supported; send mail instead');
+        }
+
+        const baseId = basesByConference.get(reply.conference);
+        if (!baseId) {
+          throw new Error(`Unknown conference ${reply.conference}`);
+        }
+        if (!await this.messageService.canUserWriteBase(userId, baseId)) {
+          throw new Error('Not allowed to post in this message base');
+        }
+
+        const parent = reply.referenceNumber ? this.messageRepo.getMessageByNumber(reply.referenceNumber) : null;
+        const parentInBase = parent?.baseId === baseId ? parent : null;
+
+        const message = this.messageService.postMessage({
+          baseId,
+          userId,
+          subject: this.restoreSubject(reply.subject, parentInBase),
+          body: reply.body,
+          parentId: parentInBase?.id,
+        });
+
+        result.posted.push({ id: message.id, baseId, subject: message.subject, isHeld: message.isHeld });
+      } catch (error) {
+        result.failed.push({
+          conference: reply.conference,
+          subject: reply.subject,
+          error: error instanceof Error ? error.message : 'Failed to post reply',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Map a message to its QWK form. Replies are addressed to the author of
+   * the message they answer so readers can pick out personal mail.
+   */
+  private toQwkMessage(message: NumberedMessage, conference: number): QwkMessage {
+    return {
+      conference,
+      number: message.number,
+      referenceNumber: message.parentNumber,
+      from: message.authorHandle || 'Unknown',
+      to: message.parentAuthorHandle || 'All',
+      subject: message.subject,
+      date: message.createdAt,
+      body: message.body,
+      isPrivate: false,
+    };
+  }
+
+  /**
+   * Readers cut subjects to 25 characters. When a reply's subject is the
+   * cut-down form of the subject it answers, use the full one.
+   */
+  private restoreSubject(subject: string, parent: Message | null): string {
+    if (!parent || subject.length < QWK_SUBJECT_LENGTH) {
+      return subject;
+    }
+
+    const replySubject = /^re:/i.test(parent.subject) ? parent.subject : `Re: ${parent.subject}`;
+    for (const candidate of [replySubject, parent.subject]) {
+      if (candidate.toLowerCase().startsWith(subject.toLowerCase())) {
+        return candidate;
+      }
+    }
+
+    return subject;
+  }
+}
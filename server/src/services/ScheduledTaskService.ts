@@ -10,7 +10,7 @@ import type { FastifyBaseLogger } from 'fastify';
 export interface ScheduledTask {
   id: string;
   name: string;
-  schedule: string; // cron-like format: "HH:MM" for daily tasks
+  schedule: string; // "HH:MM" for daily tasks, "*/N" to run every N minutes
   enabled: boolean;
   lastRun?: Date;
   nextRun?: Date;
@@ -201,14 +201,25 @@ export class ScheduledTaskService {
 
   /**
    * Calculate next run time based on schedule
-   * Schedule format: "HH:MM" for daily tasks
+   * Schedule format: "HH:MM" for daily tasks, "*\/N" to repeat every N minutes
    */
   private calculateNextRun(schedule: string, from?: Date): Date {
     const now = from || new Date();
+
+    const interval = schedule.match(/^\*\/(\d+)$/);
+    if (interval) {
+      const everyMinutes = Number(interval[1]);
+      if (everyMinutes < 1) {
+        throw new Error(`Invalid schedule format: ${schedule}. Interval must be at least 1 minute`);
+      }
+      // The first run happens straight away; after that, every N minutes
+      return from ? new Date(from.getTime() + everyMinutes * 60000) : now;
+    }
+
     const [hours, minutes] = schedule.split(':').map(Number);
 
     if (isNaN(hours) || isNaN(minutes)) {
-      throw new Error(`Invalid schedule format: ${schedule}. Expected HH:MM`);
+      throw new Error(`Invalid schedule format: ${schedule}. Expected HH:MM or */N`);
     }
 
     // Create next run date
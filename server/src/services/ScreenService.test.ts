@@ -0,0 +1,129 @@
+/**
+ * ScreenService Tests
+ *
+ * Tests for designing welcome and goodbye screens: keeping template
+ * variables, checking width, publishing as the active screen and rolling
+ * back to the one it replaced
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ScreenService } from './ScreenService.js';
+import type { BBSConfig } from '../config/ConfigLoader.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('ScreenService', () => {
+  let screenDir: string;
+  let config: BBSConfig;
+  let configLoader: any;
+  let mockArtGenerator: any;
+  let service: ScreenService;
+
+  beforeEach(() => {
+    screenDir = fs.mkdtempSync(path.join(os.tmpdir(), 'screens-'));
+    config = {
+      bbs: { name: 'Test BBS', maxNodes: 4 },
+      appearance: { welcomeScreen: 'welcome.ans', goodbyeScreen: 'goodbye.ans', menuTemplate: 'menu.ans' },
+    } as BBSConfig;
+    configLoader = {
+      getConfig: () => config,
+      save: vi.fn((saved: BBSConfig) => { config = saved; }),
+    };
+    mockArtGenerator = {
+      generateArt: vi.fn().mockResolvedValue({
+        content: ' /\\_/\\\n( o.o )\n > ^ <',
+        coloredContent: '\x1b[36m /\\_/\\\x1b[0m\n\x1b[36m( o.o )\x1b[0m\n\x1b[36m > ^ <\x1b[0m',
+        style: 'retro',
+        description: 'a cat',
+        width: 7,
+        height: 3,
+        timestamp: new Date(),
+      }),
+    };
+
+    service = new ScreenService(configLoader, screenDir, mockLogger, mockArtGenerator);
+  });
+
+  afterEach(() => {
+    fs.rmSync(screenDir, { recursive: true, force: true });
+  });
+
+  it('should draw a screen around the art, keeping its variables', async () => {
+    const draft = await service.generate('welcome', { description: 'a cat on a modem', style: 'retro' });
+
+    expect(mockArtGenerator.generateArt).toHaveBeenCalledWith(expect.objectContaining({
+      description: expect.stringContaining('a cat on a modem'),
+      width: 76,
+    }));
+    expect(draft.content).toContain('( o.o )');
+    expect(draft.content).toContain('{{node}}');
+    expect(draft.content).toContain('{{caller_count}}');
+    expect(draft.preview).toContain('Welcome to Test BBS');
+    expect(draft.preview).toContain('Node 1/4');
+    expect(draft.preview).not.toContain('{{');
+    expect(draft.validation.valid).toBe(true);
+  });
+
+  it('should flag screens wider than the terminal', () => {
+    const draft = service.draft('goodbye', 'x'.repeat(81));
+
+    expect(draft.validation.valid).toBe(false);
+    expect(draft.validation.issues[0]).toContain('exceeds maximum 80');
+    expect(() => service.publish('goodbye', 'x'.repeat(81))).toThrow('cannot be published');
+    expect(configLoader.save).not.toHaveBeenCalled();
+  });
+
+  it('should keep showing the built-in screens until one is published', () => {
+    expect(service.renderActive('welcome', { node: '2' })).toBeNull();
+    expect(service.getScreen('welcome')).toMatchObject({ builtIn: true, canRollback: false });
+  });
+
+  it('should publish a screen as the active one', async () => {
+    const draft = await service.generate('goodbye', { description: 'a sunset' });
+
+    const screen = service.publish('goodbye', draft.content);
+
+    expect(screen.builtIn).toBe(false);
+    expect(screen.canRollback).toBe(true);
+    expect(config.appearance.goodbyeScreen).toBe(screen.file);
+    expect(fs.existsSync(path.join(screenDir, screen.file))).toBe(true);
+    expect(service.renderActive('goodbye', { handle: 'Alice' })).toContain('Thanks for calling Test BBS, Alice!');
+  });
+
+  it('should save published screens with CRLF line endings', () => {
+    const screen = service.publish('welcome', 'Line one\nLine two\r\nNode {{node}}');
+
+    expect(fs.readFileSync(path.join(screenDir, screen.file), 'utf8')).toBe('Line one\r\nLine two\r\nNode {{node}}');
+  });
+
+  it('should show the built-in screen on terminals narrower than 80 columns', () => {
+    service.publish('welcome', 'Node {{node}}');
+
+    expect(service.renderActive('welcome', { node: '2' }, 40)).toBeNull();
+    expect(service.renderActive('welcome', { node: '2' }, 80)).toBe('Node 2');
+  });
+
+  it('should roll back to the screen a publish replaced', () => {
+    const first = service.publish('welcome', 'First {{node}}');
+    service.publish('welcome', 'Second {{node}}');
+
+    expect(service.rollback('welcome').file).toBe(first.file);
+    expect(service.renderActive('welcome', { node: '3' })).toBe('First 3');
+
+    const restored = service.rollback('welcome');
+    expect(restored).toMatchObject({ file: 'welcome.ans', builtIn: true, canRollback: false });
+    expect(() => service.rollback('welcome')).toThrow('no earlier welcome screen');
+  });
+});
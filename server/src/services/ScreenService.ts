@@ -0,0 +1,287 @@
+/**
+ * Screen Service
+ *
+ * Designs, publishes and rolls back the welcome and goodbye screens.
+ * New screens are drawn by the ANSI art generator around a themed
+ * description, with template variables such as {{node}} and
+ * {{caller_count}} added below the art for the renderer to fill in.
+ * Published screens are saved next to the static ones in data/ansi and
+ * made active through appearance.welcomeScreen / goodbyeScreen; the
+ * screens they replaced are remembered so a publish can be undone.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FastifyBaseLogger } from 'fastify';
+import type { ANSIArtGenerator, ArtStyle, ColorTheme } from './ANSIArtGenerator.js';
+import type { ConfigLoader } from '../config/ConfigLoader.js';
+import { ANSIRenderer } from '../ansi/ANSIRenderer.js';
+import { ANSIValidator, type ValidationResult } from '../ansi/ANSIValidator.js';
+import { ANSIWidthCalculator } from '../ansi/ANSIWidthCalculator.js';
+
+export type ScreenKind = 'welcome' | 'goodbye';
+
+export interface ScreenDesignOptions {
+  description: string;
+  style?: ArtStyle;
+  colorTheme?: ColorTheme;
+  userId?: string; // Who asked for the screen, for AI budgets
+}
+
+export interface ScreenDraft {
+  kind: ScreenKind;
+  content: string; // The template, with its variables
+  preview: string; // The template filled in with sample values
+  validation: ValidationResult;
+}
+
+export interface ActiveScreen {
+  kind: ScreenKind;
+  file: string;
+  builtIn: boolean;
+  preview: string;
+  canRollback: boolean;
+}
+
+const SCREEN_WIDTH = 80;
+
+const MAX_SCREEN_LENGTH = 16000;
+
+// Screens drawn in code by the renderer rather than read from their files
+const BUILT_IN_SCREENS: Record<ScreenKind, string> = {
+  welcome: 'welcome.ans',
+  goodbye: 'goodbye.ans',
+};
+
+const APPEARANCE_KEYS = {
+  welcome: 'welcomeScreen',
+  goodbye: 'goodbyeScreen',
+} as const;
+
+const ART_HEIGHT: Record<ScreenKind, number> = {
+  welcome: 12,
+  goodbye: 8,
+};
+
+// Lines under the art, filled in by the renderer each time they are shown
+const SCREEN_FOOTERS: Record<ScreenKind, string[]> = {
+  welcome: [
+    '\x1b[1;33mWelcome to {{bbs_name}}\x1b[0m',
+    '\x1b[36mNode {{node}}/{{max_nodes}}  -  {{caller_count}} callers today\x1b[0m',
+  ],
+  goodbye: [
+    '\x1b[1;33mThanks for calling {{bbs_name}}, {{handle}}!\x1b[0m',
+    '\x1b[36mStay retro. Stay connected.\x1b[0m',
+  ],
+};
+
+// Screens replaced by each publish, most recent last
+const HISTORY_FILE = 'screen-history.json';
+
+type ScreenHistory = Record<ScreenKind, string[]>;
+
+export class ScreenService {
+  private renderer: ANSIRenderer;
+
+  constructor(
+    private configLoader: ConfigLoader,
+    private screenDir: string,
+    private logger: FastifyBaseLogger,
+    private artGenerator?: ANSIArtGenerator
+  ) {
+    this.renderer = new ANSIRenderer(screenDir);
+  }
+
+  /**
+   * Whether new screens can be drawn
+   */
+  canGenerate(): boolean {
+    return !!this.artGenerator;
+  }
+
+  /**
+   * Draw a new screen. Nothing changes for callers until it is published.
+   */
+  async generate(kind: ScreenKind, options: ScreenDesignOptions): Promise<ScreenDraft> {
+    if (!this.artGenerator) {
+      throw new Error('Art generation is not available');
+    }
+
+    const art = await this.artGenerator.generateArt({
+      description: `${options.description.trim()}, as the ${kind} screen of a dial-up BBS`,
+      style: options.style || 'retro',
+      colorTheme: options.colorTheme || '16-color',
+      width: SCREEN_WIDTH - 4,
+      height: ART_HEIGHT[kind],
+      applyColors: true,
+      userId: options.userId,
+    });
+
+    const artLines = (art.coloredContent || art.content).split('\n');
+    const indent = ' '.repeat(Math.max(0, Math.floor((SCREEN_WIDTH - art.width) / 2)));
+    const lines = [
+      '',
+      ...artLines.map(line => indent + line),
+      '',
+      ...SCREEN_FOOTERS[kind].map(line => this.centre(line)),
+      '',
+    ];
+
+    return this.draft(kind, lines.join('\r\n'));
+  }
+
+  /**
+   * Fill a screen in with sample values and check it fits the terminal
+   */
+  draft(kind: ScreenKind, content: string): ScreenDraft {
+    const preview = this.renderer.substituteVariables(content, this.sampleVariables());
+    const validation = content.trim()
+      ? ANSIValidator.validateMaxWidth(preview, SCREEN_WIDTH)
+      : { valid: false, issues: ['Screen is empty'] };
+
+    if (content.length > MAX_SCREEN_LENGTH) {
+      validation.valid = false;
+      validation.issues.push(`Screen must be at most ${MAX_SCREEN_LENGTH} characters`);
+    }
+
+    return { kind, content, preview, validation };
+  }
+
+  /**
+   * Save a screen and make it the active one. Line endings are saved as
+   * CRLF, which raw Telnet and SSH terminals need to return to column 1.
+   */
+  publish(kind: ScreenKind, content: string): ActiveScreen {
+    content = content.replace(/\r?\n/g, '\r\n');
+    const { validation } = this.draft(kind, content);
+    if (!validation.valid) {
+      throw new Error(`Screen cannot be published: ${validation.issues.join('; ')}`);
+    }
+
+    fs.mkdirSync(this.screenDir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let file = `${kind}-${stamp}.ans`;
+    for (let n = 2; fs.existsSync(path.join(this.screenDir, file)); n++) {
+      file = `${kind}-${stamp}-${n}.ans`;
+    }
+    fs.writeFileSync(path.join(this.screenDir, file), content, 'utf8');
+
+    const history = this.loadHistory();
+    history[kind].push(this.activeFile(kind));
+    this.saveHistory(history);
+    this.activate(kind, file);
+
+    this.logger.info({ kind, file }, 'Published new screen');
+    return this.getScreen(kind);
+  }
+
+  /**
+   * Go back to the screen that was active before the last publish
+   */
+  rollback(kind: ScreenKind): ActiveScreen {
+    const history = this.loadHistory();
+    const previous = history[kind].pop();
+    if (!previous) {
+      throw new Error(`There is no earlier ${kind} screen to roll back to`);
+    }
+
+    this.saveHistory(history);
+    this.activate(kind, previous);
+
+    this.logger.info({ kind, file: previous }, 'Rolled back screen');
+    return this.getScreen(kind);
+  }
+
+  /**
+   * The active screen, with a preview of how callers see it
+   */
+  getScreen(kind: ScreenKind): ActiveScreen {
+    const file = this.activeFile(kind);
+    let preview: string;
+    try {
+      preview = this.renderer.render(file, this.sampleVariables());
+    } catch (error) {
+      preview = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+      kind,
+      file,
+      builtIn: file === BUILT_IN_SCREENS[kind],
+      preview,
+      canRollback: this.loadHistory()[kind].length > 0,
+    };
+  }
+
+  /**
+   * Render the active screen for a caller, or return null while the
+   * built-in screen is active so the caller's usual screen is shown. The
+   * built-in screen is also used on terminals too narrow for a published
+   * one, since it is drawn to fit.
+   */
+  renderActive(
+    kind: ScreenKind,
+    variables: Record<string, string>,
+    terminalWidth: number = SCREEN_WIDTH
+  ): string | null {
+    const file = this.activeFile(kind);
+    if (file === BUILT_IN_SCREENS[kind] || terminalWidth < SCREEN_WIDTH) {
+      return null;
+    }
+
+    try {
+      return this.renderer.render(file, { bbs_name: this.configLoader.getConfig().bbs.name, ...variables });
+    } catch (error) {
+      this.logger.warn(
+        { kind, file, error: error instanceof Error ? error.message : String(error) },
+        'Could not render screen - showing the built-in one'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Centre a line under the art, sized by its sample values
+   */
+  private centre(line: string): string {
+    const width = ANSIWidthCalculator.calculate(this.renderer.substituteVariables(line, this.sampleVariables()));
+    return ' '.repeat(Math.max(0, Math.floor((SCREEN_WIDTH - width) / 2))) + line;
+  }
+
+  private sampleVariables(): Record<string, string> {
+    const config = this.configLoader.getConfig();
+    return {
+      bbs_name: config.bbs.name,
+      node: '1',
+      max_nodes: String(config.bbs.maxNodes),
+      caller_count: '42',
+      handle: 'Caller',
+    };
+  }
+
+  private activeFile(kind: ScreenKind): string {
+    return this.configLoader.getConfig().appearance[APPEARANCE_KEYS[kind]];
+  }
+
+  private activate(kind: ScreenKind, file: string): void {
+    const config = this.configLoader.getConfig();
+    this.configLoader.save({
+      ...config,
+      appearance: { ...config.appearance, [APPEARANCE_KEYS[kind]]: file },
+    });
+  }
+
+  private loadHistory(): ScreenHistory {
+    const file = path.join(this.screenDir, HISTORY_FILE);
+    if (!fs.existsSync(file)) {
+      return { welcome: [], goodbye: [] };
+    }
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<ScreenHistory>;
+    return { welcome: saved.welcome ?? [], goodbye: saved.goodbye ?? [] };
+  }
+
+  private saveHistory(history: ScreenHistory): void {
+    fs.writeFileSync(path.join(this.screenDir, HISTORY_FILE), JSON.stringify(history, null, 2) + '\n');
+  }
+}
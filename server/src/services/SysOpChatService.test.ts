@@ -0,0 +1,168 @@
+/**
+ * SysOpChatService Tests
+ *
+ * Tests for when the AI SysOp replies to new posts: per-base opt-in, each
+ * chat frequency, never replying to itself and the daily cap
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SysOpChatService, AI_SYSOP_HANDLE } from './SysOpChatService.js';
+import { MessageService } from './MessageService.js';
+import { BBSDatabase } from '../db/Database.js';
+import { MessageRepository } from '../db/repositories/MessageRepository.js';
+import { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import { UserRepository } from '../db/repositories/UserRepository.js';
+import { NotificationService } from '../notifications/NotificationService.js';
+import type { BBSConfig } from '../config/ConfigLoader.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('SysOpChatService', () => {
+  let db: BBSDatabase;
+  let messageRepo: MessageRepository;
+  let userRepo: UserRepository;
+  let messageService: MessageService;
+  let mockAISysOp: any;
+  let config: BBSConfig;
+  let random: ReturnType<typeof vi.fn>;
+  let service: SysOpChatService;
+
+  const post = (subject: string, body: string, baseId = 'base-chat', userId = 'user-a') => {
+    const message = messageRepo.createMessage({ baseId, userId, subject, body });
+    return service.handleNewMessage({
+      messageId: message.id,
+      messageBaseId: baseId,
+      messageBaseName: 'General',
+      subject,
+      authorHandle: 'Alice',
+      createdAt: message.createdAt.toISOString(),
+    });
+  };
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    messageRepo = new MessageRepository(db);
+    userRepo = new UserRepository(db);
+    const messageBaseRepo = new MessageBaseRepository(db);
+    messageService = new MessageService(messageBaseRepo, messageRepo, userRepo);
+
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', ['user-a', 'Alice', 'hash']);
+    db.run('INSERT INTO message_bases (id, name, ai_sysop_replies) VALUES (?, ?, ?)', ['base-chat', 'General', 1]);
+    db.run('INSERT INTO message_bases (id, name) VALUES (?, ?)', ['base-quiet', 'Announcements']);
+
+    config = {
+      ai: {
+        sysop: {
+          enabled: true,
+          personality: 'Test personality',
+          welcomeNewUsers: true,
+          participateInChat: true,
+          chatFrequency: 'always',
+        },
+      },
+    } as BBSConfig;
+    mockAISysOp = { generatePostReply: vi.fn().mockResolvedValue('Great question! I ran a 2400 baud board myself.') };
+    random = vi.fn().mockReturnValue(0.9);
+
+    service = new SysOpChatService(mockAISysOp, messageService, messageRepo, messageBaseRepo, userRepo, config, mockLogger, random);
+  });
+
+  it('should reply as the AI SysOp account, quoting the post', async () => {
+    const replyId = await post('Best modem?', 'What was your first modem?');
+
+    const reply = messageRepo.getMessage(replyId!)!;
+    expect(reply.authorHandle).toBe(AI_SYSOP_HANDLE);
+    expect(reply.subject).toBe('Re: Best modem?');
+    expect(reply.body).toContain('> What was your first modem?');
+    expect(reply.body).toContain('I ran a 2400 baud board myself.');
+    expect(mockAISysOp.generatePostReply).toHaveBeenCalledWith(expect.objectContaining({
+      handle: 'Alice',
+      messageBaseName: 'General',
+    }));
+  });
+
+  it('should only reply in bases that opt in', async () => {
+    expect(await post('Hello', 'Anyone here?', 'base-quiet')).toBeUndefined();
+    expect(mockAISysOp.generatePostReply).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet when chat participation is off', async () => {
+    config.ai.sysop.participateInChat = false;
+
+    expect(await post('Hello', 'Anyone here?')).toBeUndefined();
+  });
+
+  it('should never reply to its own posts', async () => {
+    const replyId = await post('Hello', 'Anyone here?');
+    const reply = messageRepo.getMessage(replyId!)!;
+
+    const again = await service.handleNewMessage({
+      messageId: reply.id,
+      messageBaseId: 'base-chat',
+      messageBaseName: 'General',
+      subject: reply.subject,
+      authorHandle: AI_SYSOP_HANDLE,
+      createdAt: reply.createdAt.toISOString(),
+    });
+
+    expect(again).toBeUndefined();
+    expect(mockAISysOp.generatePostReply).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only answer posts that mention the SysOp when only paged', async () => {
+    config.ai.sysop.chatFrequency = 'only_when_paged';
+
+    expect(await post('Hello', 'Anyone here?')).toBeUndefined();
+    expect(await post('Hello', '> sysop, are you there?\nJust quoting')).toBeUndefined();
+    expect(await post('Question for the SysOp', 'How do I play doors?')).toBeDefined();
+  });
+
+  it('should answer some posts when occasional', async () => {
+    config.ai.sysop.chatFrequency = 'occasional';
+
+    expect(await post('Hello', 'Anyone here?')).toBeUndefined();
+
+    random.mockReturnValue(0.1);
+    expect(await post('Hello again', 'Anyone here now?')).toBeDefined();
+  });
+
+  it('should stop at the daily cap', async () => {
+    config.ai.sysop.maxChatRepliesPerDay = 2;
+
+    expect(await post('One', 'First post')).toBeDefined();
+    expect(await post('Two', 'Second post')).toBeDefined();
+    expect(await post('Three', 'Third post')).toBeUndefined();
+    expect(mockAISysOp.generatePostReply).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not post when the reply cannot be written', async () => {
+    mockAISysOp.generatePostReply.mockRejectedValue(new Error('AI unavailable'));
+
+    expect(await post('Hello', 'Anyone here?')).toBeUndefined();
+    expect(messageRepo.getRecentMessages()).toHaveLength(1);
+  });
+
+  it('should hear new posts through MESSAGE_NEW', async () => {
+    const notificationService = new NotificationService(mockLogger);
+    messageService = new MessageService(new MessageBaseRepository(db), messageRepo, userRepo, notificationService);
+    service = new SysOpChatService(mockAISysOp, messageService, messageRepo, new MessageBaseRepository(db), userRepo, config, mockLogger);
+    service.listen(notificationService);
+
+    const message = messageService.postMessage({ baseId: 'base-chat', userId: 'user-a', subject: 'Hi', body: 'Hello everyone' });
+    await vi.waitFor(() => expect(messageRepo.getReplies(message.id)).toHaveLength(1));
+
+    // The AI SysOp's own reply was broadcast too, and left alone
+    await new Promise(resolve => setImmediate(resolve));
+    expect(mockAISysOp.generatePostReply).toHaveBeenCalledTimes(1);
+  });
+});
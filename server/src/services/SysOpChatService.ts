@@ -0,0 +1,177 @@
+/**
+ * SysOp Chat Service
+ *
+ * Lets the AI SysOp join conversations on the message bases. It listens
+ * for new posts and, in bases that opt in, replies as the AI SysOp's user
+ * account as often as ai.sysop.chatFrequency allows: to every post, to
+ * some of them, or only to posts that mention the SysOp. It never replies
+ * to its own posts and stops for the day once it reaches its daily cap.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import type { AISysOp } from '../ai/AISysOp.js';
+import type { BBSConfig } from '../config/ConfigLoader.js';
+import type { MessageService } from './MessageService.js';
+import type { MessageRepository } from '../db/repositories/MessageRepository.js';
+import type { MessageBaseRepository } from '../db/repositories/MessageBaseRepository.js';
+import type { UserRepository } from '../db/repositories/UserRepository.js';
+import type { NotificationService } from '../notifications/NotificationService.js';
+import { NotificationEventType, type MessageNewPayload } from '../notifications/types.js';
+
+export const AI_SYSOP_HANDLE = 'AI_SysOp';
+
+const DEFAULT_MAX_REPLIES_PER_DAY = 20;
+
+// Share of posts answered when chatFrequency is 'occasional'
+const OCCASIONAL_REPLY_CHANCE = 0.25;
+
+// A post pages the SysOp by mentioning it, e.g. "sysop" or "@AI_SysOp"
+const SYSOP_MENTION = /(^|[^a-z])sysop\b/i;
+
+export class SysOpChatService {
+  // Replies being written, counted against the cap before they are posted
+  private pendingReplies = 0;
+
+  constructor(
+    private aiSysOp: AISysOp,
+    private messageService: MessageService,
+    private messageRepository: MessageRepository,
+    private messageBaseRepository: MessageBaseRepository,
+    private userRepository: UserRepository,
+    private config: BBSConfig,
+    private logger: FastifyBaseLogger,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Start replying to new posts
+   *
+   * @returns A function that stops listening
+   */
+  listen(notificationService: NotificationService): () => void {
+    return notificationService.addListener<MessageNewPayload>(
+      NotificationEventType.MESSAGE_NEW,
+      async event => {
+        await this.handleNewMessage(event.data);
+      }
+    );
+  }
+
+  /**
+   * Reply to a new post if the AI SysOp should. Returns the reply's
+   * message ID, or undefined when it stays quiet.
+   */
+  async handleNewMessage(payload: MessageNewPayload): Promise<string | undefined> {
+    const sysop = this.config.ai.sysop;
+    if (!sysop.enabled || !sysop.participateInChat) {
+      return undefined;
+    }
+
+    const message = this.messageRepository.getMessage(payload.messageId);
+    if (!message || message.isDeleted || message.isHeld) {
+      return undefined;
+    }
+
+    // Never reply to itself, or it would keep answering its own replies
+    const sysopUser = this.getOrCreateAISysOp();
+    if (message.userId === sysopUser.id) {
+      return undefined;
+    }
+
+    const base = this.messageBaseRepository.getMessageBase(message.baseId);
+    if (!base?.aiSysopReplies) {
+      return undefined;
+    }
+
+    // Quoted lines are someone else's words, so they don't count as a page
+    const ownWords = [message.subject, ...message.body.split('\n').filter(line => !line.startsWith('>'))].join('\n');
+    if (!this.wantsToReply(sysop.chatFrequency, ownWords)) {
+      return undefined;
+    }
+
+    const maxReplies = sysop.maxChatRepliesPerDay ?? DEFAULT_MAX_REPLIES_PER_DAY;
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const repliesToday = this.messageRepository.countRepliesByUserSince(sysopUser.id, startOfDay);
+    if (repliesToday + this.pendingReplies >= maxReplies) {
+      this.logger.debug({ repliesToday, maxReplies }, 'AI SysOp has reached its daily reply cap');
+      return undefined;
+    }
+
+    this.pendingReplies++;
+    try {
+      const reply = await this.aiSysOp.generatePostReply({
+        handle: message.authorHandle || 'Unknown',
+        messageBaseName: base.name,
+        subject: message.subject,
+        body: message.body,
+      });
+      if (!reply) {
+        return undefined;
+      }
+
+      const draft = this.messageService.draftReply(message);
+      const posted = this.messageService.postMessage({
+        baseId: message.baseId,
+        userId: sysopUser.id,
+        parentId: message.id,
+        subject: draft.subject,
+        body: `${draft.quote}\n\n${reply}`,
+      });
+
+      this.logger.info(
+        { messageId: message.id, replyId: posted.id, messageBaseId: base.id },
+        'AI SysOp replied to a post'
+      );
+
+      return posted.id;
+    } catch (error) {
+      this.logger.warn(
+        { messageId: message.id, error: error instanceof Error ? error.message : String(error) },
+        'AI SysOp could not reply to a post'
+      );
+      return undefined;
+    } finally {
+      this.pendingReplies--;
+    }
+  }
+
+  /**
+   * Whether the configured chat frequency calls for a reply to this post
+   */
+  private wantsToReply(frequency: BBSConfig['ai']['sysop']['chatFrequency'], text: string): boolean {
+    switch (frequency) {
+      case 'always':
+        return true;
+      case 'occasional':
+        return SYSOP_MENTION.test(text) || this.random() < OCCASIONAL_REPLY_CHANCE;
+      case 'only_when_paged':
+        return SYSOP_MENTION.test(text);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get or create AI SysOp user
+   */
+  private getOrCreateAISysOp() {
+    let aiSysOp = this.userRepository.findByHandle(AI_SYSOP_HANDLE);
+
+    if (!aiSysOp) {
+      aiSysOp = this.userRepository.create(
+        AI_SYSOP_HANDLE,
+        '', // AI SysOp doesn't need a password
+        {
+          accessLevel: 255, // Maximum access level
+          realName: 'AI System Operator',
+          bio: 'I\'m the AI assistant helping to keep conversations flowing!',
+        }
+      );
+
+      this.logger.info({ userId: aiSysOp.id }, 'Created AI SysOp user');
+    }
+
+    return aiSysOp;
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SessionState, SESSION_TIMEOUT_MS } from '@baudagain/shared';
+import { BBSDatabase } from '../db/Database.js';
+import { SessionRepository } from '../db/repositories/SessionRepository.js';
+import { SessionManager } from './SessionManager.js';
+
+const mockLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+  debug: () => {},
+  fatal: () => {},
+  trace: () => {},
+  child: () => mockLogger,
+  level: 'info',
+} as any;
+
+describe('SessionManager persistence', () => {
+  let db: BBSDatabase;
+  let repository: SessionRepository;
+  let managers: SessionManager[];
+  let userId: string;
+
+  const createManager = () => {
+    const manager = new SessionManager(mockLogger, repository);
+    managers.push(manager);
+    return manager;
+  };
+
+  // Log a caller in on a fresh connection
+  const login = (manager: SessionManager, connectionId = 'conn-1') => {
+    const session = manager.createSession(connectionId);
+    manager.updateSession(session.id, {
+      userId,
+      handle: 'SysOp',
+      state: SessionState.AUTHENTICATED,
+      currentMenu: 'main',
+    });
+    return session.id;
+  };
+
+  beforeEach(async () => {
+    db = new BBSDatabase(':memory:', mockLogger);
+    await db.ready();
+    repository = new SessionRepository(db);
+    managers = [];
+
+    userId = 'user-1';
+    db.run('INSERT INTO users (id, handle, password_hash) VALUES (?, ?, ?)', [userId, 'SysOp', 'hash']);
+  });
+
+  afterEach(() => {
+    managers.forEach(manager => manager.destroy());
+    db.close();
+  });
+
+  it('should only issue resume tokens to authenticated sessions', () => {
+    const manager = createManager();
+    const session = manager.createSession('conn-1');
+
+    expect(manager.issueResumeToken(session.id)).toBeUndefined();
+    expect(manager.hasResumeToken(session.id)).toBe(false);
+  });
+
+  it('should not issue resume tokens without a repository', () => {
+    const manager = new SessionManager(mockLogger);
+    managers.push(manager);
+    const session = manager.createSession('conn-1');
+    manager.updateSession(session.id, { userId });
+
+    expect(manager.issueResumeToken(session.id)).toBeUndefined();
+  });
+
+  it('should resume a session with its draft after a server restart', () => {
+    const before = createManager();
+    const sessionId = login(before);
+    const token = before.issueResumeToken(sessionId)!;
+
+    // Handlers change flow state in place
+    before.getSession(sessionId)!.data.message = {
+      inMessageBase: true,
+      currentBaseId: 'base-1',
+      postingMessage: true,
+      postStep: 'body',
+      draftSubject: 'Half-written post',
+    };
+    before.saveSession(sessionId);
+    before.destroy();
+
+    const after = createManager();
+    const resumed = after.resumeSession(token, 'conn-2');
+
+    expect(resumed?.previousConnectionId).toBeUndefined();
+    expect(resumed?.session).toMatchObject({
+      id: sessionId,
+      connectionId: 'conn-2',
+      userId,
+      handle: 'SysOp',
+      state: SessionState.AUTHENTICATED,
+    });
+    expect(resumed?.session.data.message).toMatchObject({
+      postStep: 'body',
+      draftSubject: 'Half-written post',
+    });
+    expect(after.getSessionByConnection('conn-2')?.id).toBe(sessionId);
+    expect(after.hasResumeToken(sessionId)).toBe(true);
+  });
+
+  it('should take a live session over from its old connection', () => {
+    const manager = createManager();
+    const sessionId = login(manager);
+    const token = manager.issueResumeToken(sessionId)!;
+
+    const resumed = manager.resumeSession(token, 'conn-2');
+
+    expect(resumed?.previousConnectionId).toBe('conn-1');
+    expect(manager.getSessionByConnection('conn-1')).toBeUndefined();
+    expect(manager.getSession(sessionId)?.connectionId).toBe('conn-2');
+    expect(manager.getSessionCount()).toBe(1);
+  });
+
+  it('should keep the snapshot when the connection closes', () => {
+    const manager = createManager();
+    const sessionId = login(manager);
+    const token = manager.issueResumeToken(sessionId)!;
+
+    manager.removeSession(sessionId);
+
+    expect(manager.resumeSession(token, 'conn-2')?.session.id).toBe(sessionId);
+  });
+
+  it('should reject unknown and revoked tokens', () => {
+    const manager = createManager();
+    const sessionId = login(manager);
+    const token = manager.issueResumeToken(sessionId)!;
+
+    expect(manager.resumeSession('not-a-token', 'conn-2')).toBeUndefined();
+
+    manager.revokeResumeToken(sessionId);
+
+    expect(manager.resumeSession(token, 'conn-2')).toBeUndefined();
+  });
+
+  it('should reject and delete expired snapshots', () => {
+    const manager = createManager();
+    const sessionId = login(manager);
+    const token = manager.issueResumeToken(sessionId)!;
+    manager.removeSession(sessionId);
+
+    // Age the snapshot past the session timeout
+    const snapshot = JSON.parse(db.get<{ snapshot: string }>('SELECT snapshot FROM sessions')!.snapshot);
+    snapshot.lastActivity = new Date(Date.now() - SESSION_TIMEOUT_MS - 1000).toISOString();
+    db.run('UPDATE sessions SET snapshot = ?', [JSON.stringify(snapshot)]);
+
+    expect(manager.resumeSession(token, 'conn-2')).toBeUndefined();
+    expect(db.get('SELECT id FROM sessions')).toBeUndefined();
+  });
+
+  it('should store only a hash of the resume token', () => {
+    const manager = createManager();
+    const token = manager.issueResumeToken(login(manager))!;
+
+    const row = db.get<{ token_hash: string }>('SELECT token_hash FROM sessions');
+
+    expect(row?.token_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(row?.token_hash).not.toBe(token);
+  });
+});
@@ -1,14 +1,29 @@
-import { Session, SessionState } from '@baudagain/shared';
+import { Session, SessionState, SESSION_TIMEOUT_MS } from '@baudagain/shared';
 import { FastifyBaseLogger } from 'fastify';
+import { createHash, randomBytes } from 'crypto';
 import { SessionService } from '../services/SessionService.js';
+import type { SessionRepository } from '../db/repositories/SessionRepository.js';
+
+/**
+ * A session reattached to a new connection
+ */
+export interface ResumedSession {
+  session: Session;
+  /** Connection the session was still attached to, if it had not closed yet */
+  previousConnectionId?: string;
+}
 
 export class SessionManager {
   private sessions: Map<string, Session> = new Map();
   private connectionToSession: Map<string, string> = new Map();
+  private resumeTokenHashes: Map<string, string> = new Map();
   private cleanupInterval: NodeJS.Timeout;
   private sessionService: SessionService;
 
-  constructor(private logger: FastifyBaseLogger) {
+  constructor(
+    private logger: FastifyBaseLogger,
+    private sessionRepository?: SessionRepository
+  ) {
     this.sessionService = new SessionService();
     
     // Run cleanup every minute
@@ -72,12 +87,111 @@ export class SessionManager {
   }
 
   /**
-   * Remove session
+   * Issue a resume token for an authenticated session and save its first
+   * snapshot. Returns undefined when sessions are not persisted.
+   */
+  issueResumeToken(sessionId: string): string | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!this.sessionRepository || !session?.userId) {
+      return undefined;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = this.hashToken(token);
+    this.resumeTokenHashes.set(sessionId, tokenHash);
+    this.sessionRepository.saveSession(session, tokenHash);
+
+    this.logger.info({ sessionId }, 'Resume token issued');
+
+    return token;
+  }
+
+  /**
+   * Check whether a session has been issued a resume token
+   */
+  hasResumeToken(sessionId: string): boolean {
+    return this.resumeTokenHashes.has(sessionId);
+  }
+
+  /**
+   * Save a snapshot of a resumable session
+   */
+  saveSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    const tokenHash = this.resumeTokenHashes.get(sessionId);
+    if (!this.sessionRepository || !session || !tokenHash) {
+      return;
+    }
+
+    try {
+      this.sessionRepository.saveSession(session, tokenHash);
+    } catch (error) {
+      this.logger.error({ sessionId, error }, 'Failed to save session snapshot');
+    }
+  }
+
+  /**
+   * Reattach the session for a resume token to a new connection. The
+   * session may still be live (the old connection has not noticed the
+   * drop yet) or only saved (after a restart). Returns undefined for
+   * unknown or expired tokens.
+   */
+  resumeSession(token: string, connectionId: string): ResumedSession | undefined {
+    if (!this.sessionRepository) {
+      return undefined;
+    }
+
+    const tokenHash = this.hashToken(token);
+    const snapshot = this.sessionRepository.getSessionByTokenHash(tokenHash);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const live = this.sessions.get(snapshot.id);
+    const previous: Session = live ?? { ...snapshot, connectionId };
+    if (!this.sessionService.validateSession(previous)) {
+      this.removeSession(snapshot.id);
+      this.revokeResumeToken(snapshot.id);
+      return undefined;
+    }
+
+    if (live) {
+      this.connectionToSession.delete(live.connectionId);
+    }
+
+    const session = this.sessionService.updateSession(previous, { connectionId });
+    this.sessions.set(session.id, session);
+    this.connectionToSession.set(connectionId, session.id);
+    this.resumeTokenHashes.set(session.id, tokenHash);
+
+    this.logger.info({ sessionId: session.id, connectionId }, 'Session resumed');
+
+    return {
+      session,
+      previousConnectionId: live?.connectionId,
+    };
+  }
+
+  /**
+   * Forget a session's resume token and delete its snapshot, e.g. on logoff
+   */
+  revokeResumeToken(sessionId: string): void {
+    this.resumeTokenHashes.delete(sessionId);
+    this.sessionRepository?.deleteSession(sessionId);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Remove session. A saved snapshot is kept so the caller can resume.
    */
   removeSession(sessionId: string): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       this.connectionToSession.delete(session.connectionId);
+      this.resumeTokenHashes.delete(sessionId);
       this.sessions.delete(sessionId);
       this.logger.info({ sessionId }, 'Session removed');
     }
@@ -124,6 +238,15 @@ export class SessionManager {
         this.removeSession(sessionId);
       }
     }
+
+    // Saved snapshots expire on the same schedule
+    if (this.sessionRepository) {
+      const cutoff = new Date(Date.now() - SESSION_TIMEOUT_MS);
+      const expired = this.sessionRepository.deleteSessionsBefore(cutoff);
+      if (expired > 0) {
+        this.logger.info({ count: expired }, 'Deleted expired session snapshots');
+      }
+    }
   }
 
   /**
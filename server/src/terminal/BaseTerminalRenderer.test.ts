@@ -12,6 +12,7 @@ import type {
   ErrorContent,
   RawANSIContent,
   EchoControlContent,
+  LinesBusyContent,
 } from '@baudagain/shared';
 
 // Concrete implementation for testing
@@ -150,6 +151,20 @@ describe('BaseTerminalRenderer', () => {
       expect(result).toContain('╚');
       expect(result).toContain('║');
     });
+
+    it('should draw the frame at the requested terminal width', () => {
+      const content: MenuContent = {
+        type: 'menu',
+        title: 'Wide Menu',
+        options: [{ key: 'X', label: 'Exit' }],
+      };
+
+      const stripAnsi = (str: string) => str.replace(/\x1b\[[0-9;]*m/g, '');
+      const lines = stripAnsi(renderer.render(content, 132)).split('\r\n').filter(line => line.length > 0);
+
+      expect(lines[0]).toBe('╔' + '═'.repeat(130) + '╗');
+      lines.forEach(line => expect(line.length).toBe(132));
+    });
   });
 
   describe('renderMessage', () => {
@@ -284,6 +299,40 @@ describe('BaseTerminalRenderer', () => {
     });
   });
 
+  describe('renderLinesBusy', () => {
+    it('should render the busy signal with node count', () => {
+      const content: LinesBusyContent = {
+        type: 'lines_busy',
+        title: 'BAUDAGAIN BBS',
+        maxNodes: '4',
+      } as any;
+
+      const result = renderer.render(content);
+
+      expect(result).toContain('BAUDAGAIN BBS');
+      expect(result).toContain('ALL LINES BUSY');
+      expect(result).toContain('All 4 nodes are in use.');
+      expect(result).toContain('Please try your call again later.');
+    });
+
+    it('should keep every line within the terminal width', () => {
+      const content: LinesBusyContent = {
+        type: 'lines_busy',
+        title: 'BAUDAGAIN BBS',
+        maxNodes: '4',
+        message: 'Call back after midnight.',
+      } as any;
+
+      const result = renderer.render(content);
+      const lines = result.split('\r\n').filter(line => line.length > 0);
+
+      expect(result).toContain('Call back after midnight.');
+      lines.forEach(line => {
+        expect(line.replace(/\x1b\[[0-9;]*m/g, '').length).toBe(80);
+      });
+    });
+  });
+
   describe('renderRawANSI', () => {
     it('should render raw ANSI content', () => {
       const content: RawANSIContent = {
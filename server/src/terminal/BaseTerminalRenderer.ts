@@ -9,8 +9,9 @@ import type {
   RawANSIContent,
   EchoControlContent,
   LoadingContent,
+  LinesBusyContent,
 } from '@baudagain/shared';
-import { TERMINAL_WIDTH } from '@baudagain/shared';
+import { TERMINAL_WIDTH, MAX_TERMINAL_WIDTH } from '@baudagain/shared';
 
 /**
  * Base Terminal Renderer
@@ -46,12 +47,12 @@ export abstract class BaseTerminalRenderer implements TerminalRenderer {
     brightWhite: '\x1b[97m',
   };
 
-  render(content: AnyTerminalContent): string {
+  render(content: AnyTerminalContent, width: number = TERMINAL_WIDTH): string {
     switch (content.type) {
       case 'welcome_screen':
-        return this.renderWelcomeScreen(content);
+        return this.renderWelcomeScreen(content, width);
       case 'menu':
-        return this.renderMenu(content);
+        return this.renderMenu(content, width);
       case 'message':
         return this.renderMessage(content);
       case 'prompt':
@@ -64,16 +65,18 @@ export abstract class BaseTerminalRenderer implements TerminalRenderer {
         return this.renderEchoControl(content);
       case 'loading':
         return this.renderLoading(content);
+      case 'lines_busy':
+        return this.renderLinesBusy(content, width);
       default:
         return '';
     }
   }
 
-  protected renderWelcomeScreen(content: WelcomeScreenContent): string {
+  protected renderWelcomeScreen(content: WelcomeScreenContent, width: number = TERMINAL_WIDTH): string {
     const lines: string[] = [];
-    // Use full terminal width (80 chars)
+    // Use full terminal width
     // Box width is inner width (without borders)
-    const boxWidth = TERMINAL_WIDTH - 2;
+    const boxWidth = width - 2;
     
     const borderedLine = (text: string, color: string = ''): string => {
       const centeredText = this.centerText(text, boxWidth);
@@ -114,11 +117,45 @@ export abstract class BaseTerminalRenderer implements TerminalRenderer {
     return lines.join('\r\n') + '\r\n';
   }
 
-  protected renderMenu(content: MenuContent): string {
+  protected renderLinesBusy(content: LinesBusyContent, width: number = TERMINAL_WIDTH): string {
     const lines: string[] = [];
-    // Use full terminal width (80 chars)
+    const boxWidth = width - 2;
+    
+    const borderedLine = (text: string, color: string = ''): string => {
+      const centeredText = this.centerText(text, boxWidth);
+      const coloredText = color ? color + centeredText + this.colors.reset : centeredText;
+      return this.colors.red + '║' + this.colors.reset + coloredText + this.colors.red + '║' + this.colors.reset;
+    };
+    
+    const emptyLine = (): string => {
+      return this.colors.red + '║' + this.colors.reset + ' '.repeat(boxWidth) + this.colors.red + '║' + this.colors.reset;
+    };
+    
+    const topBorder = this.colors.red + '╔' + '═'.repeat(boxWidth) + '╗' + this.colors.reset;
+    const middleBorder = this.colors.red + '╠' + '═'.repeat(boxWidth) + '╣' + this.colors.reset;
+    const bottomBorder = this.colors.red + '╚' + '═'.repeat(boxWidth) + '╝' + this.colors.reset;
+    
+    lines.push(topBorder);
+    lines.push(emptyLine());
+    lines.push(borderedLine(content.title, this.colors.brightYellow + this.colors.bold));
+    lines.push(emptyLine());
+    lines.push(middleBorder);
+    lines.push(emptyLine());
+    lines.push(borderedLine('ALL LINES BUSY', this.colors.brightRed + this.colors.bold));
+    lines.push(emptyLine());
+    lines.push(borderedLine(`All ${content.maxNodes} nodes are in use.`, this.colors.white));
+    lines.push(borderedLine(content.message || 'Please try your call again later.', this.colors.gray));
+    lines.push(emptyLine());
+    lines.push(bottomBorder);
+    
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  protected renderMenu(content: MenuContent, width: number = TERMINAL_WIDTH): string {
+    const lines: string[] = [];
+    // Use full terminal width
     // Box width is inner width (without borders)
-    const boxWidth = TERMINAL_WIDTH - 2;
+    const boxWidth = width - 2;
     
     const borderedLine = (text: string, color: string = ''): string => {
       const centeredText = this.centerText(text, boxWidth);
@@ -221,11 +258,11 @@ export abstract class BaseTerminalRenderer implements TerminalRenderer {
   /**
    * Center text within a given width
    * Truncates text if it exceeds the width
-   * Enforces TERMINAL_WIDTH as maximum
+   * Enforces MAX_TERMINAL_WIDTH as maximum
    */
   protected centerText(text: string, width: number): string {
     // Enforce maximum width
-    const effectiveWidth = Math.min(width, TERMINAL_WIDTH);
+    const effectiveWidth = Math.min(width, MAX_TERMINAL_WIDTH);
     
     // Strip ANSI codes to get visible length
     const stripAnsi = (str: string) => str.replace(/\x1b\[[0-9;]*m/g, '');
@@ -273,11 +310,11 @@ export abstract class BaseTerminalRenderer implements TerminalRenderer {
   /**
    * Pad text to the right
    * Truncates text if it exceeds the width
-   * Enforces TERMINAL_WIDTH as maximum
+   * Enforces MAX_TERMINAL_WIDTH as maximum
    */
   protected padRight(text: string, width: number): string {
     // Enforce maximum width
-    const effectiveWidth = Math.min(width, TERMINAL_WIDTH);
+    const effectiveWidth = Math.min(width, MAX_TERMINAL_WIDTH);
     
     const visibleLength = text.replace(/\x1b\[[0-9;]*m/g, '').length;
     
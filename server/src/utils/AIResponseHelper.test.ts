@@ -143,4 +143,40 @@ describe('AIResponseHelper', () => {
       expect(output).toContain('Fallback message');
     });
   });
+
+  describe('streamAIResponse', () => {
+    it('should show the loading message and type out each chunk', async () => {
+      const writes: string[] = [];
+      const output = {
+        signal: new AbortController().signal,
+        charsPerSecond: 0,
+        write: async (text: string) => { writes.push(text); },
+      };
+      async function* reply() {
+        yield 'Hello\n';
+        yield 'caller';
+      }
+
+      const interrupted = await AIResponseHelper.streamAIResponse(output, reply(), renderer, 'Thinking...');
+
+      expect(interrupted).toBe(false);
+      expect(writes[0]).toContain('Thinking...');
+      expect(writes.slice(1)).toEqual(['Hello\r\n', 'caller']);
+    });
+
+    it('should report when the caller interrupts', async () => {
+      const controller = new AbortController();
+      const output = { signal: controller.signal, charsPerSecond: 0, write: vi.fn() };
+      async function* reply() {
+        yield 'Hello';
+        controller.abort();
+        yield ' caller';
+      }
+
+      const interrupted = await AIResponseHelper.streamAIResponse(output, reply(), renderer);
+
+      expect(interrupted).toBe(true);
+      expect(output.write).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import type { AISysOp } from '../ai/AISysOp.js';
 import type { TerminalRenderer, RawANSIContent, MessageContent, LoadingContent } from '@baudagain/shared';
 import { ContentType } from '@baudagain/shared';
+import { typeOut, type OutputStream } from '../core/OutputStream.js';
 
 /**
  * AI Response Helper
@@ -136,6 +137,50 @@ export class AIResponseHelper {
     }
   }
   
+  /**
+   * Type an AI-generated response out to the caller as it is generated
+   * 
+   * @param output - Stream to the caller's terminal
+   * @param chunks - The response as it arrives
+   * @param renderer - Terminal renderer for formatting
+   * @param loadingMessage - Optional loading message to display first
+   * @returns Whether the caller interrupted the response
+   */
+  static async streamAIResponse(
+    output: OutputStream,
+    chunks: AsyncIterable<string>,
+    renderer: TerminalRenderer,
+    loadingMessage?: string
+  ): Promise<boolean> {
+    if (loadingMessage) {
+      const loading: LoadingContent = {
+        type: ContentType.LOADING,
+        message: loadingMessage,
+        style: 'simple',
+      };
+      await output.write(renderer.render(loading));
+    }
+    
+    await typeOut(output, AIResponseHelper.renderChunks(chunks, renderer));
+    return output.signal.aborted;
+  }
+  
+  /**
+   * Render each chunk of a streamed response as raw ANSI
+   */
+  private static async *renderChunks(
+    chunks: AsyncIterable<string>,
+    renderer: TerminalRenderer
+  ): AsyncIterable<string> {
+    for await (const chunk of chunks) {
+      const aiContent: RawANSIContent = {
+        type: ContentType.RAW_ANSI,
+        ansi: chunk,
+      };
+      yield renderer.render(aiContent);
+    }
+  }
+  
   /**
    * Render a fallback message when AI is unavailable
    */
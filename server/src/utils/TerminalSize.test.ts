@@ -0,0 +1,53 @@
+/**
+ * Terminal Size Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampTerminalWidth,
+  clampTerminalHeight,
+  getTerminalWidth,
+  getTerminalHeight,
+  getRenderContext,
+} from './TerminalSize.js';
+
+describe('TerminalSize', () => {
+  describe('getTerminalWidth', () => {
+    it('should default to 80 columns when nothing was negotiated', () => {
+      expect(getTerminalWidth()).toBe(80);
+      expect(getTerminalWidth({})).toBe(80);
+      expect(getTerminalWidth({ columns: 0 })).toBe(80);
+    });
+
+    it('should use the negotiated width', () => {
+      expect(getTerminalWidth({ columns: 100 })).toBe(100);
+      expect(getTerminalWidth({ columns: 132 })).toBe(132);
+    });
+
+    it('should clamp widths outside the supported range', () => {
+      expect(clampTerminalWidth(20)).toBe(40);
+      expect(clampTerminalWidth(300)).toBe(132);
+      expect(clampTerminalWidth(99.7)).toBe(99);
+      expect(clampTerminalWidth(NaN)).toBe(80);
+    });
+  });
+
+  describe('getTerminalHeight', () => {
+    it('should default to 24 rows when nothing was negotiated', () => {
+      expect(getTerminalHeight()).toBe(24);
+      expect(getTerminalHeight({ rows: 0 })).toBe(24);
+    });
+
+    it('should use the negotiated height with a sensible minimum', () => {
+      expect(getTerminalHeight({ rows: 50 })).toBe(50);
+      expect(clampTerminalHeight(3)).toBe(10);
+    });
+  });
+
+  describe('getRenderContext', () => {
+    it('should build a terminal context at the session width', () => {
+      expect(getRenderContext({ columns: 132 })).toEqual({ type: 'terminal', width: 132 });
+      expect(getRenderContext()).toEqual({ type: 'terminal', width: 80 });
+    });
+  });
+});
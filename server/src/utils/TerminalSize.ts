@@ -0,0 +1,58 @@
+/**
+ * Terminal Size Utilities
+ *
+ * Resolve the width and height to render at for a session. The size comes
+ * from the connection (Telnet NAWS, SSH PTY, browser resize) or the user's
+ * saved preference, and falls back to a standard 80x24 terminal.
+ */
+
+import type { Session } from '@baudagain/shared';
+import {
+  TERMINAL_WIDTH,
+  TERMINAL_HEIGHT,
+  MIN_TERMINAL_WIDTH,
+  MAX_TERMINAL_WIDTH,
+  MIN_TERMINAL_HEIGHT,
+} from '@baudagain/shared';
+import type { RenderContext } from '../ansi/ANSIRenderingService.js';
+
+/**
+ * Clamp a reported width to the range we can draw frames in
+ */
+export function clampTerminalWidth(columns: number | undefined): number {
+  if (!columns || !Number.isFinite(columns) || columns <= 0) {
+    return TERMINAL_WIDTH;
+  }
+  return Math.max(MIN_TERMINAL_WIDTH, Math.min(MAX_TERMINAL_WIDTH, Math.floor(columns)));
+}
+
+/**
+ * Clamp a reported height, treating 0 or garbage as unknown
+ */
+export function clampTerminalHeight(rows: number | undefined): number {
+  if (!rows || !Number.isFinite(rows) || rows <= 0) {
+    return TERMINAL_HEIGHT;
+  }
+  return Math.max(MIN_TERMINAL_HEIGHT, Math.floor(rows));
+}
+
+/**
+ * Width to render at for a session
+ */
+export function getTerminalWidth(session?: Pick<Session, 'columns'>): number {
+  return clampTerminalWidth(session?.columns);
+}
+
+/**
+ * Height to page at for a session
+ */
+export function getTerminalHeight(session?: Pick<Session, 'rows'>): number {
+  return clampTerminalHeight(session?.rows);
+}
+
+/**
+ * Render context for ANSIRenderingService at the session's width
+ */
+export function getRenderContext(session?: Pick<Session, 'columns'>): RenderContext {
+  return { type: 'terminal', width: getTerminalWidth(session) };
+}
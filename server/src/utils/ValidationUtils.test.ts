@@ -61,6 +61,14 @@ describe('ValidationUtils', () => {
       });
     });
 
+    it('should reject reserved handles in any case', () => {
+      ['Echomail', 'ECHOMAIL'].forEach(handle => {
+        const result = validateHandle(handle);
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('reserved');
+      });
+    });
+
     it('should accept handles with underscores', () => {
       const result = validateHandle('user_name_123');
       
@@ -9,10 +9,14 @@ export interface ValidationResult {
   error?: string;
 }
 
+// Handles of accounts the BBS itself posts as, which nobody may register
+const RESERVED_HANDLES = ['echomail'];
+
 /**
  * Validate handle format
  * - Must be 3-20 characters
  * - Only alphanumeric and underscore allowed
+ * - Must not be a reserved handle
  */
 export function validateHandle(handle: string): ValidationResult {
   const MIN_LENGTH = 3;
@@ -40,6 +44,13 @@ export function validateHandle(handle: string): ValidationResult {
     };
   }
 
+  if (RESERVED_HANDLES.includes(handle.toLowerCase())) {
+    return {
+      valid: false,
+      error: 'That handle is reserved.',
+    };
+  }
+
   return { valid: true };
 }
 
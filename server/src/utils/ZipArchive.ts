@@ -0,0 +1,204 @@
+/**
+ * Zip Archive
+ *
+ * Just enough of the zip format to build and unpack offline mail packets:
+ * files are deflated or stored, with no directories, encryption or zip64.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ReadZipOptions {
+  only?: (name: string) => boolean; // Unpack just the files this accepts
+  maxFileSize?: number; // Largest file to unpack, in bytes
+}
+
+// A few megabytes of deflated zeros can claim gigabytes once unpacked, so
+// files are never unpacked past this
+const DEFAULT_MAX_FILE_SIZE = 8 * 1024 * 1024;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum as used by zip
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a zip archive from a list of files
+ */
+export function createZip(entries: ZipEntry[], date: Date = new Date()): Buffer {
+  const { dosTime, dosDate } = toDosDateTime(date);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'ascii');
+    const deflated = deflateRawSync(entry.data);
+    // Tiny files can grow when deflated
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATED : METHOD_STORED;
+    const content = method === METHOD_DEFLATED ? deflated : entry.data;
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0, 6); // Flags
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6); // Version needed to extract
+    central.writeUInt16LE(0, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // Local header offset; other fields stay zero
+
+    localParts.push(local, name, content);
+    centralParts.push(central, name);
+    offset += local.length + name.length + content.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Unpack the files in a zip archive. Files larger than the limit are
+ * refused, whether by the size they claim or by what they unpack to.
+ */
+export function readZip(data: Buffer, options: ReadZipOptions = {}): ZipEntry[] {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const endOffset = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(endOffset + 10);
+  let position = data.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > data.length || data.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip archive: damaged central directory');
+    }
+
+    const flags = data.readUInt16LE(position + 8);
+    const method = data.readUInt16LE(position + 10);
+    const checksum = data.readUInt32LE(position + 16);
+    const compressedSize = data.readUInt32LE(position + 20);
+    const size = data.readUInt32LE(position + 24);
+    const nameLength = data.readUInt16LE(position + 28);
+    const extraLength = data.readUInt16LE(position + 30);
+    const commentLength = data.readUInt16LE(position + 32);
+    const localOffset = data.readUInt32LE(position + 42);
+    const name = data.toString('latin1', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`Cannot read ${name}: encrypted files are not supported`);
+    }
+    if (name.endsWith('/') || (options.only && !options.only(name))) {
+      continue;
+    }
+    if (size > maxFileSize) {
+      throw new Error(`Cannot read ${name}: it unpacks to more than ${maxFileSize} bytes`);
+    }
+
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid zip archive: missing header for ${name}`);
+    }
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const content = data.subarray(start, start + compressedSize);
+
+    let fileData: Buffer;
+    if (method === METHOD_STORED) {
+      fileData = Buffer.from(content);
+    } else if (method === METHOD_DEFLATED) {
+      try {
+        fileData = inflateRawSync(content, { maxOutputLength: Math.max(1, size) });
+      } catch {
+        throw new Error(`Invalid zip archive: ${name} is larger than it claims or damaged`);
+      }
+    } else {
+      throw new Error(`Cannot read ${name}: unsupported compression method ${method}`);
+    }
+
+    if (fileData.length !== size || crc32(fileData) !== checksum) {
+      throw new Error(`Invalid zip archive: checksum mismatch in ${name}`);
+    }
+
+    entries.push({ name, data: fileData });
+  }
+
+  return entries;
+}
+
+/**
+ * Find the end of central directory record, which sits before an
+ * optional trailing comment
+ */
+function findEndOfCentralDirectory(data: Buffer): number {
+  const earliest = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= earliest; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid zip archive');
+}
+
+/**
+ * Convert a date to MS-DOS time and date words
+ */
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}